@@ -0,0 +1,208 @@
+import { NextResponse } from 'next/server';
+import { loadAllData } from '@/lib/data-loader';
+import {
+  addAccountLinks,
+  clearAccounts,
+  deleteAccount,
+  loadAccountsData,
+  removeAccountLink,
+  saveAccounts,
+} from '@/lib/account-store';
+import { parseAccountCsv } from '@/lib/account-import';
+import { accountSources, syncAccountSource } from '@/lib/account-sources/registry';
+import { recordSyncFailure, recordSyncSuccess } from '@/lib/sync-status-store';
+import { APIKeyError } from '@/lib/linear-client';
+
+// Accounts, their feature links and the CRM sources they can be synced from
+export async function GET() {
+  try {
+    const [{ accounts, links, lastUpdated }, configured] = await Promise.all([
+      loadAccountsData(),
+      Promise.all(accountSources.map(s => s.isConfigured())),
+    ]);
+
+    return NextResponse.json({
+      accounts: [...accounts].sort((a, b) => b.arr - a.arr),
+      links,
+      lastUpdated: lastUpdated || null,
+      sources: accountSources.map((s, index) => ({ id: s.id, name: s.name, configured: configured[index] })),
+    });
+  } catch (error) {
+    console.error('Error fetching accounts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch accounts' },
+      { status: 500 }
+    );
+  }
+}
+
+// Import, sync, link and remove accounts
+// Body: { action: 'import', content, mode?: 'append' | 'replace', createdBy? }
+//     | { action: 'sync' }
+//     | { action: 'link' | 'unlink', accountId, featureId, createdBy? }
+//     | { action: 'delete', accountId }
+//     | { action: 'clear' }
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action, createdBy = 'system' } = body;
+
+    switch (action) {
+      case 'import': {
+        const { content, mode = 'append' } = body;
+        if (typeof content !== 'string' || !content.trim()) {
+          return NextResponse.json(
+            { error: 'content must be the text of a CSV file' },
+            { status: 400 }
+          );
+        }
+        if (mode !== 'append' && mode !== 'replace') {
+          return NextResponse.json(
+            { error: 'mode must be append or replace' },
+            { status: 400 }
+          );
+        }
+
+        const { items, errors, totalRows } = parseAccountCsv(content);
+        if (items.length === 0) {
+          return NextResponse.json(
+            { error: 'No valid accounts in the file', errors, totalRows },
+            { status: 400 }
+          );
+        }
+
+        const result = await saveAccounts('csv', items.map(item => ({
+          name: item.name,
+          tier: item.tier,
+          arr: item.arr,
+          renewalDate: item.renewalDate,
+          segment: item.segment,
+          externalId: item.externalId,
+        })), mode);
+
+        // Link the features listed for each account by their identifier
+        const { linearIssues, importedFeatures } = await loadAllData();
+        const featureIds = new Map(
+          [...linearIssues, ...importedFeatures].map(f => [f.identifier.toUpperCase(), f.id])
+        );
+        const unknownIdentifiers = new Set<string>();
+        const pairs = items.flatMap((item, index) => item.featureIdentifiers.flatMap(identifier => {
+          const featureId = featureIds.get(identifier);
+          if (!featureId) {
+            unknownIdentifiers.add(identifier);
+            return [];
+          }
+          return [{ accountId: result.ids[index], featureId }];
+        }));
+        const linked = await addAccountLinks(pairs, createdBy);
+
+        return NextResponse.json({
+          success: true,
+          added: result.added,
+          updated: result.updated,
+          removed: result.removed,
+          total: result.total,
+          linked,
+          unknownIdentifiers: [...unknownIdentifiers],
+          errors,
+          totalRows,
+        });
+      }
+
+      case 'sync': {
+        const results = [];
+        for (const source of accountSources) {
+          if (!(await source.isConfigured())) continue;
+          try {
+            const count = await syncAccountSource(source);
+            await recordSyncSuccess(source.id, new Date().toISOString(), count);
+            results.push({ source: source.id, name: source.name, count });
+          } catch (error) {
+            await recordSyncFailure(source.id, error instanceof Error ? error.message : 'Unknown error');
+            throw error;
+          }
+        }
+
+        if (results.length === 0) {
+          return NextResponse.json(
+            {
+              error: 'No CRM configured',
+              errorCode: 'API_KEY_MISSING',
+              service: 'hubspot',
+              message: 'Please add your HubSpot access token in Settings > API Keys to sync accounts.',
+            },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ success: true, results });
+      }
+
+      case 'link':
+      case 'unlink': {
+        const { accountId, featureId } = body;
+        if (!accountId || !featureId) {
+          return NextResponse.json(
+            { error: 'accountId and featureId are required' },
+            { status: 400 }
+          );
+        }
+
+        if (action === 'link') {
+          const { accounts } = await loadAccountsData();
+          if (!accounts.some(a => a.id === accountId)) {
+            return NextResponse.json(
+              { error: 'Account not found' },
+              { status: 404 }
+            );
+          }
+          await addAccountLinks([{ accountId, featureId }], createdBy);
+        } else {
+          await removeAccountLink(accountId, featureId);
+        }
+        return NextResponse.json({ success: true });
+      }
+
+      case 'delete': {
+        const { accountId } = body;
+        const deleted = accountId ? await deleteAccount(accountId) : false;
+        if (!deleted) {
+          return NextResponse.json(
+            { error: 'Account not found' },
+            { status: 404 }
+          );
+        }
+        return NextResponse.json({ success: true });
+      }
+
+      case 'clear':
+        await clearAccounts();
+        return NextResponse.json({ success: true });
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    if (error instanceof APIKeyError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          errorCode: 'API_KEY_ERROR',
+          service: error.service,
+        },
+        { status: 401 }
+      );
+    }
+
+    console.error('Error updating accounts:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update accounts',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,9 @@
 import { NextResponse } from 'next/server';
-import { loadAllData } from '@/lib/data-loader';
-import { correlateData, getRelatedFeaturebasePosts, getRelatedZendeskTickets } from '@/lib/correlator';
+import { getRelatedFeaturebasePosts, getRelatedZendeskTickets } from '@/lib/correlator';
+import { getFeatureIndex } from '@/lib/feature-index';
 import { loadSettings } from '@/lib/settings-store';
 import { runSingleModel } from '@/lib/ai/model-compare';
-import { saveAIScore, clearAllAIScores, generatePromptConfigHash, getScoringStatus, getAIScoresMap } from '@/lib/ai-score-store';
+import { saveAIScore, clearAllAIScores, generatePromptConfigHash, getScoringStatus, isAIScoreCurrent } from '@/lib/ai-score-store';
 import { addUsageRecord } from '@/lib/usage-tracker';
 import { isOpenAIConfigured } from '@/lib/ai/openai-client';
 import { isAnthropicConfigured } from '@/lib/ai/anthropic-client';
@@ -50,12 +50,8 @@ export async function POST(request: Request) {
     }
 
     // Load data and settings
-    const [allData, settings] = await Promise.all([
-      loadAllData(),
-      loadSettings(),
-    ]);
-    const { linearIssues, featurebasePosts, zendeskTickets } = allData;
-    const allFeatures = correlateData(linearIssues, featurebasePosts, zendeskTickets, settings.projectMappings, settings.excludedProjects);
+    const { data, settings, features: allFeatures, aiScoresMap: existingScores } = await getFeatureIndex();
+    const { featurebasePosts, zendeskTickets } = data;
 
     // Filter features if specific IDs provided
     let featuresToScore: FeatureRequest[];
@@ -67,17 +63,17 @@ export async function POST(request: Request) {
 
     // If not forcing rescore, filter out already-scored features
     if (!forceRescore) {
-      const existingScores = await getAIScoresMap();
       const currentHash = generatePromptConfigHash(
         settings.promptConfig,
         settings.activeFramework,
-        settings.aiModel.temperature
+        settings.aiModel.temperature,
+        settings.customFrameworks
       );
 
       featuresToScore = featuresToScore.filter(f => {
         const existing = existingScores.get(f.id);
-        // Score if: no existing score, or settings changed
-        return !existing || existing.settingsHash !== currentHash;
+        // Score if: no existing score, settings changed, or the issue changed since scoring
+        return !existing || !isAIScoreCurrent(existing, currentHash);
       });
     }
 
@@ -131,27 +127,24 @@ export async function GET(request: Request) {
   }
 
   // Return overall scoring status
-  const [status, settings, allData] = await Promise.all([
+  const [status, { settings, features: allFeatures, aiScoresMap: existingScores }] = await Promise.all([
     getScoringStatus(),
-    loadSettings(),
-    loadAllData(),
+    getFeatureIndex(),
   ]);
-  const { linearIssues, featurebasePosts, zendeskTickets } = allData;
-  const allFeatures = correlateData(linearIssues, featurebasePosts, zendeskTickets, settings.projectMappings, settings.excludedProjects);
   const currentHash = generatePromptConfigHash(
     settings.promptConfig,
     settings.activeFramework,
-    settings.aiModel.temperature
+    settings.aiModel.temperature,
+    settings.customFrameworks
   );
 
-  const existingScores = await getAIScoresMap();
   let scoredWithCurrentSettings = 0;
   let staleScores = 0;
 
   for (const feature of allFeatures) {
     const score = existingScores.get(feature.id);
     if (score) {
-      if (score.settingsHash === currentHash) {
+      if (isAIScoreCurrent(score, currentHash)) {
         scoredWithCurrentSettings++;
       } else {
         staleScores++;
@@ -207,7 +200,8 @@ async function scoreFeaturesBatch(
     const settingsHash = generatePromptConfigHash(
       settings.promptConfig,
       settings.activeFramework,
-      settings.aiModel.temperature
+      settings.aiModel.temperature,
+      settings.customFrameworks
     );
 
     const modelUsed = settings.aiModel.enabled;
@@ -228,14 +222,8 @@ async function scoreFeaturesBatch(
 
       try {
         // Get related data
-        const relatedPosts = getRelatedFeaturebasePosts(
-          { ...feature, description: feature.description || '' },
-          featurebasePosts
-        );
-        const relatedTickets = getRelatedZendeskTickets(
-          { ...feature, description: feature.description || '' },
-          zendeskTickets
-        );
+        const relatedPosts = getRelatedFeaturebasePosts(feature, featurebasePosts);
+        const relatedTickets = getRelatedZendeskTickets(feature, zendeskTickets);
 
         let openaiResult = null;
         let anthropicResult = null;
@@ -249,7 +237,8 @@ async function scoreFeaturesBatch(
           settings.activeFramework,
           settings.promptConfig,
           settings.aiModel.temperature,
-          masterSourceContext
+          masterSourceContext,
+          settings.customFrameworks
         );
 
         if (modelUsed === 'openai') {
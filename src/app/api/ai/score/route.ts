@@ -1,6 +1,5 @@
 import { NextResponse } from 'next/server';
-import { loadAllData } from '@/lib/data-loader';
-import { correlateData } from '@/lib/correlator';
+import { getFeatureIndex } from '@/lib/feature-index';
 import { loadSettings } from '@/lib/settings-store';
 import { getAPIKeyStatus } from '@/lib/api-keys-store';
 import { analyzeFeature } from '@/lib/ai/analyzer';
@@ -92,9 +91,9 @@ export async function POST(request: Request) {
     }
 
     // Load feature data
-    const { linearIssues, featurebasePosts, zendeskTickets } = await loadAllData();
-    const features = correlateData(linearIssues, featurebasePosts, zendeskTickets, settings.projectMappings, settings.excludedProjects);
-    const feature = features.find(f => f.id === featureId);
+    const { byId, data } = await getFeatureIndex();
+    const { featurebasePosts, zendeskTickets } = data;
+    const feature = byId.get(featureId);
 
     if (!feature) {
       return NextResponse.json(
@@ -17,10 +17,19 @@ export async function GET() {
       status,
       maskedKeys: {
         linear: stored.linearApiKey ? maskAPIKey(stored.linearApiKey) : null,
+        linearWebhook: stored.linearWebhookSecret ? maskAPIKey(stored.linearWebhookSecret) : null,
+        featurebase: stored.featurebaseApiKey ? maskAPIKey(stored.featurebaseApiKey) : null,
+        zendesk: stored.zendeskApiToken ? maskAPIKey(stored.zendeskApiToken) : null,
+        intercom: stored.intercomAccessToken ? maskAPIKey(stored.intercomAccessToken) : null,
+        hubspot: stored.hubspotAccessToken ? maskAPIKey(stored.hubspotAccessToken) : null,
         openai: stored.openaiApiKey ? maskAPIKey(stored.openaiApiKey) : null,
         anthropic: stored.anthropicApiKey ? maskAPIKey(stored.anthropicApiKey) : null,
         gemini: stored.geminiApiKey ? maskAPIKey(stored.geminiApiKey) : null,
       },
+      zendeskAccount: {
+        subdomain: stored.zendeskSubdomain || null,
+        email: stored.zendeskEmail || null,
+      },
       lastUpdated: stored.lastUpdated,
     });
   } catch (error) {
@@ -52,6 +61,30 @@ export async function POST(request: Request) {
         case 'linear':
           updates.linearApiKey = keyValue;
           break;
+        case 'linearWebhook':
+          updates.linearWebhookSecret = keyValue;
+          break;
+        case 'featurebase':
+          updates.featurebaseApiKey = keyValue;
+          break;
+        case 'zendesk':
+          // The token is only usable with the account's subdomain and agent email
+          if (!body.subdomain || !body.email) {
+            return NextResponse.json(
+              { error: 'Zendesk needs a subdomain and agent email' },
+              { status: 400 }
+            );
+          }
+          updates.zendeskApiToken = keyValue;
+          updates.zendeskSubdomain = String(body.subdomain).replace(/\.zendesk\.com.*$/, '').replace(/^https?:\/\//, '');
+          updates.zendeskEmail = body.email;
+          break;
+        case 'intercom':
+          updates.intercomAccessToken = keyValue;
+          break;
+        case 'hubspot':
+          updates.hubspotAccessToken = keyValue;
+          break;
         case 'openai':
           updates.openaiApiKey = keyValue;
           break;
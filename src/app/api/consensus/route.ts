@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { getFeatureIndex, getScoredFeatures } from '@/lib/feature-index';
+import { extractAIScores, getAllFrameworks } from '@/lib/scoring/engine';
+import { buildConsensusRanking, hasFrameworkFactorScores } from '@/lib/scoring/consensus';
+import { Product, ScoreFactors } from '@/lib/types';
+
+// Features ranked by their consensus across every framework, built-in and custom. Under each
+// framework only features with real scores for its factors are ranked.
+// Query: product?
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const product = searchParams.get('product') as Product | null;
+
+    const index = await getFeatureIndex();
+    const frameworks = getAllFrameworks(index.settings.customFrameworks);
+
+    const { defaultModel } = index.settings.aiModel;
+    const { customFrameworks } = index.settings;
+    const features = index.features.filter(f => !product || f.product === product);
+
+    // The AI scores and overrides each feature actually has, before any framework fills in defaults
+    const factorScores = new Map<string, ScoreFactors>(features.map(f => [f.id, {
+      ...extractAIScores(index.aiScoresMap.get(f.id) || null, defaultModel),
+      ...index.overridesMap.get(f.id),
+    }]));
+
+    const entries = buildConsensusRanking(frameworks.map(framework => ({
+      framework: framework.id,
+      features: getScoredFeatures(index, framework.id).filter(f => {
+        const scores = factorScores.get(f.id);
+        return !!scores && hasFrameworkFactorScores(framework.id, scores, customFrameworks);
+      }),
+    })));
+    const unscored = features.length - entries.length;
+
+    return NextResponse.json({
+      frameworks: frameworks.map(f => ({ id: f.id, name: f.name })),
+      entries,
+      stats: {
+        ranked: entries.length,
+        unscored,
+        robust: entries.filter(e => e.agreement === 'robust').length,
+        contested: entries.filter(e => e.agreement === 'contested').length,
+      },
+    });
+  } catch (error) {
+    console.error('Error building consensus ranking:', error);
+    return NextResponse.json(
+      { error: 'Failed to build consensus ranking' },
+      { status: 500 }
+    );
+  }
+}
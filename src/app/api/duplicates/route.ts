@@ -0,0 +1,192 @@
+import { NextResponse } from 'next/server';
+import { getFeatureIndex } from '@/lib/feature-index';
+import {
+  getDuplicateDecision,
+  loadDuplicateDecisions,
+  recordDuplicateDecision,
+  removeDuplicateDecision,
+} from '@/lib/duplicate-store';
+import {
+  createLinearDuplicateRelation,
+  deleteLinearIssueRelation,
+  isLinearConfigured,
+} from '@/lib/linear-client';
+import { DuplicateDecision, DuplicateFeatureRef, DuplicatePair, FeatureRequest, Product } from '@/lib/types';
+
+function toFeatureRef(feature: FeatureRequest): DuplicateFeatureRef {
+  return {
+    id: feature.id,
+    identifier: feature.identifier,
+    title: feature.title,
+    url: feature.url,
+    product: feature.product,
+    source: feature.source,
+  };
+}
+
+const linearKeyMissing = () => NextResponse.json(
+  {
+    error: 'Linear API key not configured',
+    errorCode: 'API_KEY_MISSING',
+    service: 'linear',
+    message: 'Please add your Linear API key in Settings > API Keys to mark duplicates in Linear.',
+  },
+  { status: 400 }
+);
+
+// Suspected duplicate pairs awaiting review, and past decisions
+// Query: product?
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const product = searchParams.get('product') as Product | null;
+
+    const [{ features, byId }, decisions] = await Promise.all([
+      getFeatureIndex(),
+      loadDuplicateDecisions(),
+    ]);
+
+    const pending: DuplicatePair[] = [];
+    for (const feature of features) {
+      if (feature.duplicateStatus !== 'suspected' || !feature.duplicateOf) continue;
+      if (product && feature.product !== product) continue;
+
+      const original = byId.get(feature.duplicateOf);
+      if (!original) continue;
+      pending.push({
+        original: toFeatureRef(original),
+        duplicate: toFeatureRef(feature),
+        similarity: feature.duplicateSimilarity ?? 0,
+      });
+    }
+    pending.sort((a, b) => b.similarity - a.similarity);
+
+    return NextResponse.json({
+      pending,
+      decisions: product
+        ? decisions.filter(d => d.original.product === product || d.duplicate.product === product)
+        : decisions,
+    });
+  } catch (error) {
+    console.error('Error fetching duplicates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch duplicates' },
+      { status: 500 }
+    );
+  }
+}
+
+// Review a pair
+// Body: { action: 'confirm', originalId, duplicateId, markInLinear?, decidedBy? }
+//     | { action: 'dismiss', originalId, duplicateId, decidedBy? }
+//     | { action: 'reset', originalId, duplicateId }
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action, originalId, duplicateId, markInLinear = false, decidedBy = 'system' } = body;
+
+    if (!originalId || !duplicateId || originalId === duplicateId) {
+      return NextResponse.json(
+        { error: 'originalId and duplicateId must be two different feature IDs' },
+        { status: 400 }
+      );
+    }
+
+    switch (action) {
+      case 'confirm':
+      case 'dismiss': {
+        const { byId } = await getFeatureIndex();
+        const original = byId.get(originalId);
+        const duplicate = byId.get(duplicateId);
+        if (!original || !duplicate) {
+          return NextResponse.json(
+            { error: 'Feature not found' },
+            { status: 404 }
+          );
+        }
+
+        // A relation an earlier confirm made in Linear is reused while it still marks this
+        // duplicate; otherwise (dismissed, or the pair turned around) it is deleted first
+        const existing = await getDuplicateDecision(originalId, duplicateId);
+        const previousRelationId = existing?.linearRelationId;
+        let linearRelationId = action === 'confirm' && existing?.duplicate.id === duplicate.id
+          ? previousRelationId
+          : undefined;
+        const createRelation = action === 'confirm' && markInLinear && !linearRelationId;
+
+        if (createRelation && (original.source === 'import' || duplicate.source === 'import')) {
+          return NextResponse.json(
+            { error: 'Imported features are not in Linear' },
+            { status: 400 }
+          );
+        }
+        if ((createRelation || (previousRelationId && !linearRelationId)) && !await isLinearConfigured()) {
+          return linearKeyMissing();
+        }
+
+        if (previousRelationId && !linearRelationId) {
+          await deleteLinearIssueRelation(previousRelationId);
+        }
+        if (createRelation) {
+          linearRelationId = await createLinearDuplicateRelation(duplicate.id, original.id);
+        }
+
+        // Keep the similarity detection reported, if it flagged this pair
+        const similarity = duplicate.duplicateOf === original.id
+          ? duplicate.duplicateSimilarity
+          : original.duplicateOf === duplicate.id
+          ? original.duplicateSimilarity
+          : undefined;
+
+        const decision: DuplicateDecision = {
+          original: toFeatureRef(original),
+          duplicate: toFeatureRef(duplicate),
+          status: action === 'confirm' ? 'confirmed' : 'dismissed',
+          similarity,
+          linearRelationId,
+          decidedBy,
+          decidedAt: new Date().toISOString(),
+        };
+        await recordDuplicateDecision(decision);
+
+        return NextResponse.json({ success: true, decision });
+      }
+
+      case 'reset': {
+        const existing = await getDuplicateDecision(originalId, duplicateId);
+        if (!existing) {
+          return NextResponse.json(
+            { error: 'No decision recorded for this pair' },
+            { status: 404 }
+          );
+        }
+
+        // Undo the Linear relation first so a failure leaves the decision in place
+        if (existing.linearRelationId) {
+          if (!await isLinearConfigured()) {
+            return linearKeyMissing();
+          }
+          await deleteLinearIssueRelation(existing.linearRelationId);
+        }
+
+        await removeDuplicateDecision(originalId, duplicateId);
+        return NextResponse.json({ success: true });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Error reviewing duplicates:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to review duplicates',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
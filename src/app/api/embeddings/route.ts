@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { loadAllData } from '@/lib/data-loader';
+import { loadSettings } from '@/lib/settings-store';
+import { getEmbeddingCacheStatus } from '@/lib/embedding-store';
+import { collectMatchTexts, refreshEmbeddings } from '@/lib/semantic-match';
+import { OpenAIKeyError } from '@/lib/ai/openai-client';
+import { GeminiKeyError } from '@/lib/ai/gemini-client';
+
+// Semantic matching settings and the embedding cache
+export async function GET() {
+  try {
+    const [settings, cache] = await Promise.all([
+      loadSettings(),
+      getEmbeddingCacheStatus(),
+    ]);
+    return NextResponse.json({ semanticMatching: settings.semanticMatching, cache });
+  } catch (error) {
+    console.error('Error fetching embedding status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch embedding status' },
+      { status: 500 }
+    );
+  }
+}
+
+// Embed every text without a cached vector now, instead of waiting for the next sync
+export async function POST() {
+  try {
+    const { semanticMatching } = await loadSettings();
+    if (!semanticMatching.enabled) {
+      return NextResponse.json(
+        { error: 'Semantic matching is turned off' },
+        { status: 400 }
+      );
+    }
+
+    const result = await refreshEmbeddings(semanticMatching, collectMatchTexts(await loadAllData()));
+    return NextResponse.json({
+      success: true,
+      ...result,
+      cache: await getEmbeddingCacheStatus(),
+    });
+  } catch (error) {
+    if (error instanceof OpenAIKeyError || error instanceof GeminiKeyError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          errorCode: 'API_KEY_MISSING',
+          service: error instanceof OpenAIKeyError ? 'openai' : 'gemini',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error refreshing embeddings:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to refresh embeddings',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { getFeatureIndex, getScoredFeatures } from '@/lib/feature-index';
+import { EXPORT_FORMATS, ExportFormat, exportFeatures } from '@/lib/feature-export';
+import { getAllFrameworks } from '@/lib/scoring/engine';
+import { Product, ScoringFramework } from '@/lib/types';
+
+interface ExportRequest {
+  format: ExportFormat;
+  product?: Product | null;
+  framework?: ScoringFramework | null;
+  featureIds?: string[];
+}
+
+// Score features the same way the features API does and serialize them as a download
+async function buildExport({ format, product, framework, featureIds }: ExportRequest): Promise<Response> {
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: 'Invalid format', details: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const index = await getFeatureIndex();
+  const frameworkIds = getAllFrameworks(index.settings.customFrameworks).map(f => f.id);
+  if (framework && !frameworkIds.includes(framework)) {
+    return NextResponse.json(
+      { error: 'Invalid framework', details: `framework must be one of: ${frameworkIds.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const activeFramework = framework || index.settings.activeFramework;
+  let scoredFeatures = getScoredFeatures(index, activeFramework);
+
+  if (product) {
+    scoredFeatures = scoredFeatures.filter(f => f.product === product);
+  }
+
+  // Search, filters and sorting are applied in the browser, so the page sends the IDs it shows in order
+  if (featureIds) {
+    const order = new Map(featureIds.map((id, i) => [id, i]));
+    scoredFeatures = scoredFeatures
+      .filter(f => order.has(f.id))
+      .sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+  }
+
+  const file = exportFeatures(scoredFeatures, format, activeFramework, index.settings.customFrameworks);
+  const fileName = `backlog-${product || 'all'}-${new Date().toISOString().slice(0, 10)}.${file.extension}`;
+
+  return new NextResponse(file.content, {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+// Export the ranked backlog
+// Query: format (csv | excel | json | markdown), product?, framework?
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    return await buildExport({
+      format: (searchParams.get('format') || 'csv') as ExportFormat,
+      product: searchParams.get('product') as Product | null,
+      framework: searchParams.get('framework') as ScoringFramework | null,
+    });
+  } catch (error) {
+    console.error('Error exporting features:', error);
+    return NextResponse.json(
+      { error: 'Failed to export features' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export a filtered view of the backlog
+// Body: { format, product?, framework?, featureIds? }
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { format = 'csv', product, framework, featureIds } = body;
+
+    if (featureIds !== undefined && !Array.isArray(featureIds)) {
+      return NextResponse.json(
+        { error: 'featureIds must be an array of feature IDs' },
+        { status: 400 }
+      );
+    }
+
+    return await buildExport({ format, product, framework, featureIds });
+  } catch (error) {
+    console.error('Error exporting features:', error);
+    return NextResponse.json(
+      { error: 'Failed to export features' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,7 @@
 import { NextResponse } from 'next/server';
-import { loadAllData } from '@/lib/data-loader';
-import { correlateData, getRelatedFeaturebasePosts, getRelatedZendeskTickets } from '@/lib/correlator';
-import { scoreFeature } from '@/lib/scoring/engine';
-import { loadSettings } from '@/lib/settings-store';
-import { getFeatureOverrides, getFeatureAuditLog } from '@/lib/score-store';
-import { getAIScore } from '@/lib/ai-score-store';
+import { getFeatureIndex, getScoredFeature } from '@/lib/feature-index';
+import { getFeatureFeedback } from '@/lib/feedback-sources/registry';
+import { getFeatureAuditLog } from '@/lib/score-store';
 
 export async function GET(
   request: Request,
@@ -13,51 +10,22 @@ export async function GET(
   try {
     const { id } = await params;
 
-    // Load all data and settings
-    const [allData, settings] = await Promise.all([
-      loadAllData(),
-      loadSettings(),
-    ]);
-    const { linearIssues, featurebasePosts, zendeskTickets } = allData;
-
-    // Correlate data with custom project mappings
-    const features = correlateData(linearIssues, featurebasePosts, zendeskTickets, settings.projectMappings, settings.excludedProjects);
-
-    // Find the specific feature
-    const feature = features.find(f => f.id === id);
-    if (!feature) {
+    // Look the feature up in the cached index and score it
+    const index = await getFeatureIndex();
+    const { settings } = index;
+    const scoredFeature = getScoredFeature(index, id, settings.activeFramework);
+    if (!scoredFeature) {
       return NextResponse.json(
         { error: 'Feature not found' },
         { status: 404 }
       );
     }
 
-    // Load overrides, audit log, and AI score
-    const [overrides, auditLog, aiScore] = await Promise.all([
-      getFeatureOverrides(id),
-      getFeatureAuditLog(id),
-      getAIScore(id),
-    ]);
-
-    // Score the feature
-    const scoredFeature = scoreFeature(
-      feature,
-      settings.activeFramework,
-      aiScore,
-      overrides,
-      settings.weights[feature.product === 'ai-agents' || feature.product === 'byoa' ? 'new' : 'mature'],
-      settings.tierMultipliers,
-      settings.aiModel.defaultModel
-    );
-
-    // Get related data for context
-    const relatedPosts = getRelatedFeaturebasePosts(feature, featurebasePosts);
-    const relatedTickets = getRelatedZendeskTickets(feature, zendeskTickets);
+    const auditLog = await getFeatureAuditLog(id);
 
     return NextResponse.json({
       feature: scoredFeature,
-      relatedPosts,
-      relatedTickets,
+      feedbackSignals: getFeatureFeedback(scoredFeature, index.data.feedback),
       auditLog,
       settings: {
         activeFramework: settings.activeFramework,
@@ -1,10 +1,7 @@
 import { NextResponse } from 'next/server';
-import { loadAllData } from '@/lib/data-loader';
-import { correlateData } from '@/lib/correlator';
-import { scoreAndSortFeatures } from '@/lib/scoring/engine';
-import { loadSettings } from '@/lib/settings-store';
-import { getOverridesMap } from '@/lib/score-store';
-import { getAIScoresMap, generatePromptConfigHash } from '@/lib/ai-score-store';
+import { getFeatureIndex, getScoredFeatures } from '@/lib/feature-index';
+import { generatePromptConfigHash, isAIScoreCurrent } from '@/lib/ai-score-store';
+import { getSourceSyncStatuses } from '@/lib/sync-status-store';
 import { Product, ScoringFramework } from '@/lib/types';
 
 export async function GET(request: Request) {
@@ -13,23 +10,13 @@ export async function GET(request: Request) {
     const product = searchParams.get('product') as Product | null;
     const framework = searchParams.get('framework') as ScoringFramework | null;
 
-    // Load all data and settings in parallel
-    const [allData, settings, overridesMap, aiScoresMap] = await Promise.all([
-      loadAllData(),
-      loadSettings(),
-      getOverridesMap(),
-      getAIScoresMap(),
+    // Correlated features come from the cached index; sync status is always fresh
+    const [index, syncSources] = await Promise.all([
+      getFeatureIndex(),
+      getSourceSyncStatuses(),
     ]);
-
-    const { linearIssues, featurebasePosts, zendeskTickets, lastSynced } = allData;
-
-    // Correlate data with custom project mappings
-    const features = correlateData(linearIssues, featurebasePosts, zendeskTickets, settings.projectMappings, settings.excludedProjects);
-
-    // Filter by product if specified
-    const filteredFeatures = product
-      ? features.filter(f => f.product === product)
-      : features;
+    const { settings, aiScoresMap } = index;
+    const { lastSynced } = index.data;
 
     const activeFramework = framework || settings.activeFramework;
 
@@ -37,19 +24,15 @@ export async function GET(request: Request) {
     const currentSettingsHash = generatePromptConfigHash(
       settings.promptConfig,
       activeFramework,
-      settings.aiModel.temperature
+      settings.aiModel.temperature,
+      settings.customFrameworks
     );
 
-    // Score and sort features using AI scores
-    const scoredFeatures = scoreAndSortFeatures(
-      filteredFeatures,
-      activeFramework,
-      aiScoresMap,
-      overridesMap,
-      settings.weights[product === 'ai-agents' || product === 'byoa' ? 'new' : 'mature'],
-      settings.tierMultipliers,
-      settings.aiModel.defaultModel
-    );
+    // Score and sort features using AI scores, then filter by product if specified
+    const allScored = getScoredFeatures(index, activeFramework);
+    const scoredFeatures = product
+      ? allScored.filter(f => f.product === product)
+      : allScored;
 
     // Calculate stats
     const byProduct: Record<string, number> = {};
@@ -68,7 +51,7 @@ export async function GET(request: Request) {
         pendingCount++;
       } else {
         const aiScore = aiScoresMap.get(feature.id);
-        if (aiScore && aiScore.settingsHash !== currentSettingsHash) {
+        if (aiScore && !isAIScoreCurrent(aiScore, currentSettingsHash)) {
           staleCount++;
         } else {
           scoredCount++;
@@ -83,6 +66,7 @@ export async function GET(request: Request) {
         byProduct,
         byPriority,
         lastSynced,
+        syncSources,
         scoringStatus: {
           scored: scoredCount,
           pending: pendingCount,
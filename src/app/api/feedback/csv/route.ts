@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import {
+  deleteCsvFeedbackFile,
+  listCsvFeedbackFiles,
+  saveCsvFeedbackFile,
+  validateCsvFeedbackFile,
+} from '@/lib/feedback-sources/csv';
+
+// Larger files should be split; every file is parsed in memory on each index rebuild
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+// CSV feedback files in data/feedback/csv
+export async function GET() {
+  try {
+    const files = await listCsvFeedbackFiles();
+    return NextResponse.json({ files });
+  } catch (error) {
+    console.error('Error fetching CSV feedback files:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch CSV feedback files' },
+      { status: 500 }
+    );
+  }
+}
+
+// Upload or remove a CSV feedback file
+// Body: { action: 'upload', fileName, content } | { action: 'delete', fileName }
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action, fileName, content } = body;
+
+    switch (action) {
+      case 'upload': {
+        if (typeof content === 'string' && content.length > MAX_CONTENT_LENGTH) {
+          return NextResponse.json({ error: 'File is larger than 5 MB' }, { status: 413 });
+        }
+
+        const { file, errors } = validateCsvFeedbackFile(fileName, content);
+        if (!file) {
+          return NextResponse.json(
+            { error: 'Invalid CSV feedback file', details: errors.join('; '), errors },
+            { status: 400 }
+          );
+        }
+
+        await saveCsvFeedbackFile(file.name, file.content);
+        console.log(`Stored ${file.rows} CSV feedback rows from ${file.name}`);
+        return NextResponse.json({ success: true, file: file.name, rows: file.rows });
+      }
+
+      case 'delete': {
+        if (typeof fileName !== 'string' || !(await deleteCsvFeedbackFile(fileName))) {
+          return NextResponse.json({ error: 'File not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true });
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error updating CSV feedback files:', error);
+    return NextResponse.json(
+      { error: 'Failed to update CSV feedback files', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
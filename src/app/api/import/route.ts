@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { buildImportPreview, ImportDefaults, ImportFormat, parseImportFile, validateImportRows } from '@/lib/feature-import';
+import { loadImportedFeatures, saveImportedItems, clearImportedFeatures } from '@/lib/import-store';
+import { allProductIds } from '@/config/products';
+import { CustomerTier, ImportColumnMapping, Product } from '@/lib/types';
+
+// Larger files should be split; everything is parsed in memory
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+const TIERS: CustomerTier[] = ['C1', 'C2', 'C3', 'C4', 'C5'];
+
+// Product and tier for rows that leave them empty (chat and C4, as for Linear issues)
+function parseDefaults(defaults: { product?: string; tier?: string } | undefined): ImportDefaults {
+  const product = defaults?.product as Product;
+  const tier = defaults?.tier as CustomerTier;
+  return {
+    product: allProductIds.includes(product) ? product : 'chat',
+    tier: TIERS.includes(tier) ? tier : 'C4',
+  };
+}
+
+// List imported features
+export async function GET() {
+  try {
+    const features = await loadImportedFeatures();
+    return NextResponse.json({ features });
+  } catch (error) {
+    console.error('Error fetching imported features:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch imported features' },
+      { status: 500 }
+    );
+  }
+}
+
+// Preview or import a CSV/JSON file of feature requests
+// Body: { action: 'preview' | 'import', content, format: 'csv' | 'json', mapping?, defaults?, fileName?, mode? }
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action, content, format, fileName } = body;
+    const mapping: ImportColumnMapping | undefined = body.mapping;
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({ error: 'File content is empty' }, { status: 400 });
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json({ error: 'File is larger than 5 MB' }, { status: 413 });
+    }
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({ error: 'Format must be csv or json' }, { status: 400 });
+    }
+
+    const defaults = parseDefaults(body.defaults);
+
+    switch (action) {
+      case 'preview': {
+        let preview;
+        try {
+          preview = buildImportPreview(content, format as ImportFormat, defaults, mapping);
+        } catch (error) {
+          return NextResponse.json(
+            { error: 'Could not parse file', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 400 }
+          );
+        }
+        return NextResponse.json({ preview });
+      }
+
+      case 'import': {
+        if (!mapping?.title) {
+          return NextResponse.json({ error: 'Map a column to the feature title' }, { status: 400 });
+        }
+
+        let records;
+        try {
+          records = parseImportFile(content, format as ImportFormat);
+        } catch (error) {
+          return NextResponse.json(
+            { error: 'Could not parse file', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 400 }
+          );
+        }
+
+        // Rows with errors were shown in the preview and are skipped
+        const { items, errors } = validateImportRows(records, mapping, defaults);
+        if (items.length === 0) {
+          return NextResponse.json({ error: 'No valid rows to import', errors: errors.slice(0, 50) }, { status: 400 });
+        }
+
+        const result = await saveImportedItems(items, fileName, body.mode === 'replace' ? 'replace' : 'append');
+        console.log(`Imported ${items.length} features from ${fileName || 'upload'} (${result.added} added, ${result.updated} updated)`);
+
+        return NextResponse.json({
+          success: true,
+          ...result,
+          skipped: records.length - items.length,
+        });
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error importing features:', error);
+    return NextResponse.json(
+      { error: 'Failed to import features', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove all imported features
+export async function DELETE() {
+  try {
+    await clearImportedFeatures();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error clearing imported features:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear imported features' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { loadLinearInitiatives } from '@/lib/data-loader';
+import { loadSettings } from '@/lib/settings-store';
+
+// GET - Get synced Linear initiatives with the strategic goals that reference them
+export async function GET() {
+  try {
+    const [initiatives, settings] = await Promise.all([
+      loadLinearInitiatives(),
+      loadSettings(),
+    ]);
+    const goals = settings.promptConfig.enhanced?.strategicGoals || [];
+
+    return NextResponse.json({
+      initiatives: initiatives
+        .map(initiative => ({
+          ...initiative,
+          goals: goals.filter(g => g.initiativeIds?.includes(initiative.id)).map(g => g.goal),
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    });
+  } catch (error) {
+    console.error('Error fetching initiatives:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch initiatives' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { undoLinearPush, isLinearConfigured } from '@/lib/linear-client';
+import { loadPushHistory, getPushBatch } from '@/lib/push-history-store';
+import { updateStoredIssuePriorities } from '@/lib/issue-store';
+
+// List recorded Linear pushes (newest first)
+export async function GET() {
+  try {
+    const batches = await loadPushHistory();
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('Error loading push history:', error);
+    return NextResponse.json(
+      { error: 'Failed to load push history' },
+      { status: 500 }
+    );
+  }
+}
+
+// Undo a recorded push
+// Body: { action: 'undo', batchId, updatedBy?, force? }
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const { action, batchId, updatedBy = 'system', force = false } = body;
+
+    switch (action) {
+      case 'undo': {
+        if (!batchId) {
+          return NextResponse.json(
+            { error: 'batchId is required' },
+            { status: 400 }
+          );
+        }
+
+        const batch = await getPushBatch(batchId);
+        if (!batch) {
+          return NextResponse.json(
+            { error: 'Push not found' },
+            { status: 404 }
+          );
+        }
+        if (batch.kind !== 'push') {
+          return NextResponse.json(
+            { error: 'Only pushes can be undone' },
+            { status: 400 }
+          );
+        }
+        if (batch.undoneAt) {
+          return NextResponse.json(
+            { error: 'This push has already been undone' },
+            { status: 409 }
+          );
+        }
+
+        const linearConfigured = await isLinearConfigured();
+        if (!linearConfigured) {
+          return NextResponse.json(
+            {
+              error: 'Linear API key not configured',
+              errorCode: 'API_KEY_MISSING',
+              service: 'linear',
+              message: 'Please add your Linear API key in Settings > API Keys to undo pushes.',
+            },
+            { status: 400 }
+          );
+        }
+
+        const result = await undoLinearPush(batch, updatedBy, force);
+        await updateStoredIssuePriorities(result.applied);
+
+        return NextResponse.json({
+          success: result.failed === 0 && result.conflicts.length === 0,
+          restoredCount: result.restored,
+          failedCount: result.failed,
+          conflicts: result.conflicts,
+          undoBatchId: result.undoBatch?.id,
+        });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action' },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Error undoing Linear push:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to undo push',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,13 @@
 import { NextResponse } from 'next/server';
-import { syncFeaturesToLinear, isLinearConfigured, getLinearStatus } from '@/lib/linear-client';
-import { loadAllData } from '@/lib/data-loader';
-import { correlateData } from '@/lib/correlator';
-import { scoreAndSortFeatures } from '@/lib/scoring/engine';
-import { loadSettings } from '@/lib/settings-store';
-import { getOverridesMap } from '@/lib/score-store';
-import { getAIScoresMap } from '@/lib/ai-score-store';
-import { Product } from '@/lib/types';
+import {
+  syncFeaturesToLinear,
+  planLinearPush,
+  isPushPlanItemChanged,
+  isLinearConfigured,
+  getLinearStatus,
+} from '@/lib/linear-client';
+import { updateStoredIssuePriorities } from '@/lib/issue-store';
+import { getFeatureIndex, getScoredFeatures } from '@/lib/feature-index';
 
 // Get Linear status
 export async function GET() {
@@ -23,6 +24,8 @@ export async function GET() {
 }
 
 // Push priorities to Linear
+// Body: { product?, addComments?, updatedBy?, dryRun?, issueIds? }
+// dryRun returns the per-issue diff without writing; issueIds limits the push to selected rows
 export async function POST(request: Request) {
   try {
     // Check if Linear is configured
@@ -40,43 +43,53 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const { product, addComments = false, updatedBy = 'system' } = body;
+    const { product, addComments = false, updatedBy = 'system', dryRun = false, issueIds } = body;
 
-    // Load all data, settings, and overrides
-    const [allData, settings, overridesMap, aiScoresMap] = await Promise.all([
-      loadAllData(),
-      loadSettings(),
-      getOverridesMap(),
-      getAIScoresMap(),
-    ]);
-    const { linearIssues, featurebasePosts, zendeskTickets } = allData;
-
-    // Correlate data with custom project mappings
-    const features = correlateData(linearIssues, featurebasePosts, zendeskTickets, settings.projectMappings, settings.excludedProjects);
+    if (issueIds !== undefined && !Array.isArray(issueIds)) {
+      return NextResponse.json(
+        { error: 'issueIds must be an array of issue IDs' },
+        { status: 400 }
+      );
+    }
 
-    // Filter by product if specified
-    const filteredFeatures = product
-      ? features.filter(f => f.product === product)
-      : features;
+    // Score and sort features with the framework's default weights
+    const index = await getFeatureIndex();
+    const { settings } = index;
+    const scoredFeatures = getScoredFeatures(index, settings.activeFramework);
 
-    // Score and sort features
-    const scoredFeatures = scoreAndSortFeatures(
-      filteredFeatures,
-      settings.activeFramework,
-      aiScoresMap,
-      overridesMap,
-      undefined,
-      settings.tierMultipliers,
-      settings.aiModel.defaultModel
+    // Imported features have no Linear issue to write to; filter by product if specified
+    const linearFeatures = scoredFeatures.filter(f =>
+      f.source !== 'import' && (!product || f.product === product)
     );
 
-    // Sync to Linear
-    const result = await syncFeaturesToLinear(scoredFeatures, addComments, updatedBy);
+    if (dryRun) {
+      const plan = await planLinearPush(linearFeatures, settings.linearWriteBack);
+      const changedCount = plan.filter(isPushPlanItemChanged).length;
+
+      return NextResponse.json({
+        dryRun: true,
+        plan,
+        changedCount,
+        unchangedCount: plan.length - changedCount,
+      });
+    }
+
+    // Sync to Linear (only changed issues are written)
+    const result = await syncFeaturesToLinear(linearFeatures, {
+      addComments,
+      updatedBy,
+      issueIds,
+      product,
+      writeBack: settings.linearWriteBack,
+    });
+    await updateStoredIssuePriorities(result.applied);
 
     return NextResponse.json({
       success: true,
       syncedCount: result.success,
       failedCount: result.failed,
+      skippedCount: result.skipped,
+      batchId: result.batch?.id,
       results: result.results,
     });
   } catch (error) {
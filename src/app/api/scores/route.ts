@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { setScoreOverride, clearFeatureOverrides, loadScoreOverrides } from '@/lib/score-store';
-import { ScoreFactors, MoSCoWCategory } from '@/lib/types';
+import { ScoreFactors, MoSCoWCategory, KanoCategory } from '@/lib/types';
 
 export async function GET() {
   try {
@@ -30,7 +30,7 @@ export async function POST(request: Request) {
     const override = await setScoreOverride(
       featureId,
       factor as keyof ScoreFactors,
-      value as number | MoSCoWCategory,
+      value as number | MoSCoWCategory | KanoCategory,
       updatedBy || 'unknown',
       reason
     );
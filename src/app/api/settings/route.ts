@@ -12,11 +12,23 @@ import {
   setEnhancedPromptConfig,
   resetPromptConfig as resetPromptConfigStore,
   resetEnhancedPromptConfig,
+  setSyncScope,
+  setLinearWriteBack,
+  setSemanticMatching,
+  saveCustomFramework,
+  deleteCustomFramework,
+  saveWeightScenario,
+  deleteWeightScenario,
+  applyWeightScenario,
+  saveWeightProfile,
+  deleteWeightProfile,
+  setProfileAssignments,
 } from '@/lib/settings-store';
 import { loadPromptConfig, savePromptConfig, resetPromptConfig as resetLegacyPromptConfig } from '@/lib/ai/prompt-store';
 import { getUsageStats, getTodayUsage } from '@/lib/usage-tracker';
 import { getScoringStatus, generatePromptConfigHash, areScoresStale } from '@/lib/ai-score-store';
-import { Settings, ScoringFramework, AIPromptConfig, EnhancedAIPromptConfig } from '@/lib/types';
+import { findCustomFramework, isCustomFramework } from '@/lib/scoring/frameworks/custom';
+import { Settings, ScoringFramework, AIPromptConfig, EnhancedAIPromptConfig, SyncScope, LinearWriteBackSettings, SemanticMatchingSettings, CustomFramework, CustomFrameworkId, WeightScenario, WeightProfile, WeightProfileAssignments } from '@/lib/types';
 
 // Get settings
 export async function GET() {
@@ -31,7 +43,8 @@ export async function GET() {
     const currentSettingsHash = generatePromptConfigHash(
       settings.promptConfig,
       settings.activeFramework,
-      settings.aiModel.temperature
+      settings.aiModel.temperature,
+      settings.customFrameworks
     );
 
     // Check if scores are stale
@@ -66,9 +79,17 @@ export async function POST(request: Request) {
     let result;
 
     switch (action) {
-      case 'setFramework':
-        result = await setActiveFramework(data.framework as ScoringFramework);
+      case 'setFramework': {
+        const framework = data.framework as ScoringFramework;
+        if (isCustomFramework(framework) && !findCustomFramework(framework, (await loadSettings()).customFrameworks)) {
+          return NextResponse.json(
+            { error: `Unknown framework: ${framework}` },
+            { status: 400 }
+          );
+        }
+        result = await setActiveFramework(framework);
         break;
+      }
 
       case 'setAIModel':
         result = await setAIModelSettings(data);
@@ -86,6 +107,90 @@ export async function POST(request: Request) {
         result = await setTierMultipliers(data.multipliers);
         break;
 
+      case 'setSyncScope':
+        result = await setSyncScope(data.syncScope as Partial<SyncScope>);
+        break;
+
+      case 'setLinearWriteBack':
+        result = await setLinearWriteBack(data.linearWriteBack as Partial<LinearWriteBackSettings>);
+        break;
+
+      case 'setSemanticMatching':
+        result = await setSemanticMatching(data.semanticMatching as Partial<SemanticMatchingSettings>);
+        break;
+
+      case 'saveCustomFramework': {
+        const { framework, errors } = await saveCustomFramework(data.framework as Partial<CustomFramework>);
+        if (!framework) {
+          return NextResponse.json(
+            { error: 'Invalid custom framework', details: errors.join('; '), errors },
+            { status: 400 }
+          );
+        }
+        result = framework;
+        break;
+      }
+
+      case 'deleteCustomFramework':
+        result = await deleteCustomFramework(data.id as CustomFrameworkId);
+        break;
+
+      case 'saveWeightScenario': {
+        const { scenario, errors } = await saveWeightScenario(data.scenario as Partial<WeightScenario>);
+        if (!scenario) {
+          return NextResponse.json(
+            { error: 'Invalid scenario', details: errors.join('; '), errors },
+            { status: 400 }
+          );
+        }
+        result = scenario;
+        break;
+      }
+
+      case 'deleteWeightScenario':
+        result = await deleteWeightScenario(data.id as string);
+        break;
+
+      case 'applyWeightScenario': {
+        const { settings, errors } = await applyWeightScenario(data.scenario as Partial<WeightScenario>);
+        if (!settings) {
+          return NextResponse.json(
+            { error: 'Invalid scenario', details: errors.join('; '), errors },
+            { status: 400 }
+          );
+        }
+        result = settings;
+        break;
+      }
+
+      case 'saveWeightProfile': {
+        const { profile, errors } = await saveWeightProfile(data.profile as Partial<WeightProfile>);
+        if (!profile) {
+          return NextResponse.json(
+            { error: 'Invalid weight profile', details: errors.join('; '), errors },
+            { status: 400 }
+          );
+        }
+        result = profile;
+        break;
+      }
+
+      case 'deleteWeightProfile':
+        result = await deleteWeightProfile(data.id as string);
+        break;
+
+      case 'setProfileAssignments': {
+        const { settings, errors } = await setProfileAssignments(data.assignments as Partial<WeightProfileAssignments>);
+        if (!settings) {
+          return NextResponse.json(
+            { error: 'Invalid profile assignments', details: errors.join('; '), errors },
+            { status: 400 }
+          );
+        }
+        result = settings;
+        break;
+      }
+
       case 'saveAll':
         await saveSettings(data.settings as Settings);
         result = data.settings;
@@ -132,7 +237,8 @@ export async function POST(request: Request) {
     const currentSettingsHash = generatePromptConfigHash(
       updatedSettings.promptConfig,
       updatedSettings.activeFramework,
-      updatedSettings.aiModel.temperature
+      updatedSettings.aiModel.temperature,
+      updatedSettings.customFrameworks
     );
     const scoresStale = await areScoresStale(currentSettingsHash);
 
@@ -1,28 +1,30 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { existsSync } from 'fs';
 import fs from 'fs/promises';
-import path from 'path';
 import paths from '@/config/paths';
 import {
-  fetchProductIceboxIssues,
+  fetchScopedIssues,
+  fetchScopedIssueChanges,
+  fetchLinearInitiatives,
   isLinearConfigured,
   getLinearConfigStatus,
   APIKeyError
 } from '@/lib/linear-client';
-
-// Ensure directory exists
-async function ensureDir(dirPath: string): Promise<void> {
-  if (!existsSync(dirPath)) {
-    await fs.mkdir(dirPath, { recursive: true });
-  }
-}
-
-// Save data to JSON file
-async function saveJsonFile(filePath: string, data: unknown): Promise<void> {
-  const dir = path.dirname(filePath);
-  await ensureDir(dir);
-  await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
-}
+import {
+  loadStoredIssues,
+  loadStoredProjects,
+  saveStoredIssues,
+  saveStoredProjects,
+  saveStoredInitiatives,
+  mergeIssueChanges,
+} from '@/lib/issue-store';
+import { loadSettings } from '@/lib/settings-store';
+import { feedbackSources } from '@/lib/feedback-sources/registry';
+import { accountSources, syncAccountSource } from '@/lib/account-sources/registry';
+import { recordSyncSuccess, recordSyncFailure, getSourceSyncStatuses } from '@/lib/sync-status-store';
+import { loadAllData } from '@/lib/data-loader';
+import { collectMatchTexts, refreshEmbeddings } from '@/lib/semantic-match';
+import { LinearSyncCounts } from '@/lib/types';
 
 // Get last sync time from local files
 async function getLastSyncTime(): Promise<string | null> {
@@ -39,9 +41,57 @@ async function getLastSyncTime(): Promise<string | null> {
   return null;
 }
 
-// Sync from Linear API directly
-export async function POST() {
+// Sync every configured feedback source that has an API; failures are recorded, not thrown,
+// so feedback sources never block the Linear sync
+async function syncFeedbackSources(): Promise<void> {
+  for (const source of feedbackSources) {
+    if (!source.sync || !(await source.isConfigured())) continue;
+
+    try {
+      const { itemCount, warning } = await source.sync();
+      await recordSyncSuccess(source.id, new Date().toISOString(), itemCount, warning);
+    } catch (error) {
+      console.error(`${source.name} sync error:`, error);
+      await recordSyncFailure(source.id, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+}
+
+// Sync accounts from every configured CRM, recorded the same way as feedback sources
+async function syncAccountSources(): Promise<void> {
+  for (const source of accountSources) {
+    if (!(await source.isConfigured())) continue;
+
+    try {
+      const itemCount = await syncAccountSource(source);
+      await recordSyncSuccess(source.id, new Date().toISOString(), itemCount);
+    } catch (error) {
+      console.error(`${source.name} sync error:`, error);
+      await recordSyncFailure(source.id, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+}
+
+// Embed new issue and feedback text for semantic matching. A failure keeps the cached
+// vectors; texts without one fall back to keyword matching.
+async function syncEmbeddings(): Promise<void> {
+  const { semanticMatching } = await loadSettings();
+  if (!semanticMatching.enabled || semanticMatching.provider === 'local') return;
+
   try {
+    await refreshEmbeddings(semanticMatching, collectMatchTexts(await loadAllData()));
+  } catch (error) {
+    console.error('Embedding refresh error:', error);
+  }
+}
+
+// Sync from Linear API directly, then the configured feedback and account sources
+// Body: { mode?: 'incremental' | 'full' } - incremental is used whenever a previous sync exists
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const requestedMode: 'incremental' | 'full' = body.mode === 'full' ? 'full' : 'incremental';
+
     // Check if Linear is configured
     const isConfigured = await isLinearConfigured();
     if (!isConfigured) {
@@ -55,35 +105,82 @@ export async function POST() {
       );
     }
 
-    console.log('Starting Linear sync...');
+    const { syncScope } = await loadSettings();
+    const stored = await loadStoredIssues();
 
-    // Fetch issues from Product Icebox projects
-    const result = await fetchProductIceboxIssues();
+    // Changing the scope can bring in issues older than the cursor, so that needs a full sync
+    const scopeUnchanged = JSON.stringify(stored?.scope) === JSON.stringify(syncScope);
+    const mode = requestedMode === 'incremental' && stored?.syncedAt && scopeUnchanged ? 'incremental' : 'full';
 
-    console.log(`Synced ${result.issues.length} issues from ${result.projects.length} projects`);
+    console.log(`Starting ${mode} Linear sync...`);
 
-    // Save issues to local file
-    await saveJsonFile(paths.local.linear.issues, {
-      issues: result.issues,
-      syncedAt: result.syncedAt,
-      projectCount: result.projects.length,
-    });
+    let issues;
+    let projects;
+    let syncedAt: string;
+    let counts: LinearSyncCounts;
 
-    // Save projects to local file
-    await saveJsonFile(paths.local.linear.projects, {
-      projects: result.projects,
-      syncedAt: result.syncedAt,
-    });
+    if (mode === 'incremental' && stored) {
+      const knownProjects = await loadStoredProjects();
+      const result = await fetchScopedIssueChanges(
+        syncScope,
+        stored.syncedAt,
+        knownProjects.map(p => p.id)
+      );
+      const merged = mergeIssueChanges(stored.issues, result.changes, result.liveIssueIds);
+
+      issues = merged.issues;
+      counts = merged.counts;
+      projects = result.projects;
+      syncedAt = result.syncedAt;
+    } else {
+      const result = await fetchScopedIssues(syncScope);
+      const merged = mergeIssueChanges(stored?.issues || [], result.issues, result.issues.map(i => i.id));
+
+      issues = result.issues;
+      counts = merged.counts;
+      projects = result.projects;
+      syncedAt = result.syncedAt;
+    }
+
+    console.log(
+      `Synced ${issues.length} issues from ${projects.length} projects ` +
+      `(${counts.added} added, ${counts.changed} changed, ${counts.removed} removed)`
+    );
+
+    await saveStoredIssues(issues, syncedAt, projects.length, syncScope);
+    await saveStoredProjects(projects, syncedAt);
+
+    // Initiatives only feed strategic alignment, so a failure here keeps the previous copy
+    let initiativesCount: number | undefined;
+    try {
+      const initiatives = await fetchLinearInitiatives();
+      await saveStoredInitiatives(initiatives, syncedAt);
+      initiativesCount = initiatives.length;
+    } catch (error) {
+      console.warn('Failed to sync Linear initiatives:', error);
+    }
+    await recordSyncSuccess('linear', syncedAt, issues.length);
+
+    await syncFeedbackSources();
+    await syncAccountSources();
+    await syncEmbeddings();
 
     return NextResponse.json({
       success: true,
-      issuesCount: result.issues.length,
-      projectsCount: result.projects.length,
-      projects: result.projects.map(p => p.name),
-      lastSynced: result.syncedAt,
+      mode,
+      issuesCount: issues.length,
+      projectsCount: projects.length,
+      projects: projects.map(p => p.name),
+      initiativesCount,
+      added: counts.added,
+      changed: counts.changed,
+      removed: counts.removed,
+      lastSynced: syncedAt,
+      sources: await getSourceSyncStatuses(),
     });
   } catch (error) {
     console.error('Sync error:', error);
+    await recordSyncFailure('linear', error instanceof Error ? error.message : 'Unknown error');
 
     // Handle API key errors
     if (error instanceof APIKeyError) {
@@ -147,6 +244,7 @@ export async function GET() {
       projectsCount,
       lastSynced,
       dataPath: paths.local.linear.issues,
+      sources: await getSourceSyncStatuses(),
     });
   } catch (error) {
     console.error('Error checking sync status:', error);
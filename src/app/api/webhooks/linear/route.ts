@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getEffectiveAPIKey } from '@/lib/api-keys-store';
+import { loadStoredIssues, loadStoredProjects, saveStoredIssues, saveStoredProjects } from '@/lib/issue-store';
+import { markAIScoresStale } from '@/lib/ai-score-store';
+import { loadSettings } from '@/lib/settings-store';
+import {
+  applyLinearWebhookEvent,
+  isWebhookTimestampFresh,
+  verifyLinearSignature,
+  LinearWebhookPayload,
+} from '@/lib/linear-webhook';
+
+// Webhooks can arrive in bursts; apply them one at a time so writes don't clobber each other
+let queue: Promise<unknown> = Promise.resolve();
+
+async function processEvent(payload: LinearWebhookPayload): Promise<{
+  applied: boolean;
+  staleMarked: number;
+}> {
+  const stored = await loadStoredIssues();
+  if (!stored) {
+    // Nothing synced yet - the first full sync will pick this up
+    return { applied: false, staleMarked: 0 };
+  }
+
+  const projects = await loadStoredProjects();
+  const { syncScope } = await loadSettings();
+  const result = applyLinearWebhookEvent({ issues: stored.issues, projects }, payload, syncScope);
+  if (!result.changed) {
+    return { applied: false, staleMarked: 0 };
+  }
+
+  await saveStoredIssues(result.issues, stored.syncedAt, result.projects.length, stored.scope);
+  if (result.projects !== projects) {
+    await saveStoredProjects(result.projects, stored.syncedAt);
+  }
+
+  const staleMarked = result.affectedIssueIds.length > 0
+    ? await markAIScoresStale(result.affectedIssueIds, `Linear ${payload.type.toLowerCase()} ${payload.action}`)
+    : 0;
+
+  return { applied: true, staleMarked };
+}
+
+// Receive Linear webhooks (Issue, Comment, Project events)
+export async function POST(request: NextRequest) {
+  try {
+    const secret = await getEffectiveAPIKey('linearWebhook');
+    if (!secret) {
+      return NextResponse.json(
+        {
+          error: 'Linear webhook secret not configured',
+          errorCode: 'API_KEY_MISSING',
+        },
+        { status: 401 }
+      );
+    }
+
+    const rawBody = await request.text();
+    if (!verifyLinearSignature(rawBody, request.headers.get('linear-signature'), secret)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    let payload: LinearWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody) as LinearWebhookPayload;
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+    }
+
+    if (!isWebhookTimestampFresh(payload.webhookTimestamp)) {
+      return NextResponse.json({ error: 'Stale webhook timestamp' }, { status: 401 });
+    }
+
+    const run = queue.then(() => processEvent(payload));
+    queue = run.catch(() => undefined);
+    const result = await run;
+
+    return NextResponse.json({
+      success: true,
+      type: payload.type,
+      action: payload.action,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error processing Linear webhook:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process webhook',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
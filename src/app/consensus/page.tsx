@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import ProductFilter from '@/components/ProductFilter';
+import { ConsensusAgreement, ConsensusEntry, Product, ScoringFramework } from '@/lib/types';
+import { getProductDisplayName } from '@/config/products';
+import { ArrowLeft, ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+
+interface ConsensusStats {
+  ranked: number;
+  unscored: number;
+  robust: number;
+  contested: number;
+}
+
+// Percentile points a framework may differ from the consensus before its rank is highlighted
+const OUTLIER_DISTANCE = 30;
+
+const AGREEMENT_BADGES: Record<ConsensusAgreement, { label: string; className: string }> = {
+  robust: { label: 'Robust', className: 'bg-green-100 text-green-800 border-green-200' },
+  mixed: { label: 'Mixed', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  contested: { label: 'Contested', className: 'bg-red-100 text-red-800 border-red-200' },
+};
+
+export default function ConsensusPage() {
+  const [product, setProduct] = useState<Product | 'all'>('all');
+  const [frameworks, setFrameworks] = useState<{ id: ScoringFramework; name: string }[]>([]);
+  const [entries, setEntries] = useState<ConsensusEntry[]>([]);
+  const [stats, setStats] = useState<ConsensusStats | null>(null);
+  const [contestedOnly, setContestedOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchConsensus = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const params = product === 'all' ? '' : `?product=${product}`;
+      const response = await fetch(`/api/consensus${params}`);
+      const data = await response.json();
+      setFrameworks(data.frameworks || []);
+      setEntries(data.entries || []);
+      setStats(data.stats || null);
+    } catch (error) {
+      console.error('Error fetching consensus ranking:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [product]);
+
+  useEffect(() => {
+    fetchConsensus();
+  }, [fetchConsensus]);
+
+  const shown = contestedOnly ? entries.filter(e => e.agreement === 'contested') : entries;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold">Consensus Ranking</h1>
+              <p className="text-muted-foreground">Which priorities hold up whichever framework is used</p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={fetchConsensus} disabled={isLoading}>
+            <RefreshCw className={isLoading ? 'w-4 h-4 mr-2 animate-spin' : 'w-4 h-4 mr-2'} />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <ProductFilter selectedProduct={product} onSelect={setProduct} />
+          <div className="flex items-center gap-2">
+            <Switch id="contested-only" checked={contestedOnly} onCheckedChange={setContestedOnly} />
+            <Label htmlFor="contested-only">Only contested</Label>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {stats ? `${stats.ranked} features across ${frameworks.length} frameworks` : 'Features'}
+            </CardTitle>
+            <CardDescription>
+              Each framework&apos;s ranking is turned into percentiles (100 = top); the consensus is their average.
+              Robust features rank within 20 points under every framework, contested ones differ by 50 or more.
+              A feature is only ranked under frameworks whose factors it has AI scores or overrides for (– elsewhere).
+              {stats && stats.unscored > 0 && ` ${stats.unscored} features scored under fewer than two frameworks are not ranked.`}
+            </CardDescription>
+            {stats && (
+              <div className="flex gap-2 pt-2">
+                <Badge variant="outline" className={AGREEMENT_BADGES.robust.className}>{stats.robust} robust</Badge>
+                <Badge variant="outline" className={AGREEMENT_BADGES.contested.className}>{stats.contested} contested</Badge>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoading && entries.length === 0 ? (
+              <div className="flex items-center justify-center py-12 text-muted-foreground">
+                <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                Scoring features under every framework...
+              </div>
+            ) : shown.length === 0 ? (
+              <p className="py-6 text-center text-muted-foreground">
+                {contestedOnly ? 'No contested features.' : 'No AI-scored features to rank yet.'}
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[50px]">#</TableHead>
+                      <TableHead>Feature</TableHead>
+                      <TableHead className="w-[100px]">Consensus</TableHead>
+                      <TableHead className="w-[110px]">Agreement</TableHead>
+                      {frameworks.map((framework) => (
+                        <TableHead key={framework.id} className="text-right whitespace-nowrap">
+                          {framework.name}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shown.map((entry) => (
+                      <TableRow key={entry.featureId}>
+                        <TableCell className="font-mono">{entry.consensusRank}</TableCell>
+                        <TableCell className="max-w-[320px]">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-xs text-muted-foreground">{entry.identifier}</span>
+                            <Badge variant="outline" className="font-normal text-xs py-0 h-5">
+                              {getProductDisplayName(entry.product)}
+                            </Badge>
+                            <Badge variant="outline" className="font-normal text-xs py-0 h-5">
+                              {entry.customerTier}
+                            </Badge>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <Link href={`/features/${entry.featureId}`} className="truncate hover:underline">
+                              {entry.title}
+                            </Link>
+                            {entry.url && (
+                              <a href={entry.url} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+                                <ExternalLink className="w-3 h-3" />
+                              </a>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="font-mono">{entry.consensusScore.toFixed(1)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={AGREEMENT_BADGES[entry.agreement].className}>
+                            {AGREEMENT_BADGES[entry.agreement].label}
+                          </Badge>
+                          <p className="text-xs text-muted-foreground mt-1">{entry.spread.toFixed(0)} pt spread</p>
+                        </TableCell>
+                        {frameworks.map((framework) => {
+                          const rank = entry.ranks.find(r => r.framework === framework.id);
+                          if (!rank) {
+                            return (
+                              <TableCell
+                                key={framework.id}
+                                className="text-right text-muted-foreground"
+                                title="No AI scores for this framework's factors; not counted in the consensus"
+                              >
+                                –
+                              </TableCell>
+                            );
+                          }
+                          const outlier = Math.abs(rank.percentile - entry.consensusScore) >= OUTLIER_DISTANCE;
+                          return (
+                            <TableCell
+                              key={framework.id}
+                              className={`text-right font-mono ${outlier ? 'text-orange-600 font-semibold' : ''}`}
+                              title={`Score ${rank.finalScore} · percentile ${rank.percentile}`}
+                            >
+                              {Number.isInteger(rank.rank) ? rank.rank : rank.rank.toFixed(1)}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
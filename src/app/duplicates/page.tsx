@@ -0,0 +1,285 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DuplicateDecision, DuplicateFeatureRef, DuplicatePair } from '@/lib/types';
+import { getProductDisplayName } from '@/config/products';
+import { toast } from '@/hooks/useToast';
+import { ArrowLeft, Check, ExternalLink, GitMerge, Loader2, RefreshCw, Undo2, X } from 'lucide-react';
+
+type ReviewAction = 'confirm' | 'dismiss' | 'reset';
+
+function pairId(original: DuplicateFeatureRef, duplicate: DuplicateFeatureRef): string {
+  return `${original.id}:${duplicate.id}`;
+}
+
+function FeatureLink({ feature }: { feature: DuplicateFeatureRef }) {
+  return (
+    <div className="min-w-0">
+      <div className="flex items-center gap-2">
+        <span className="font-mono text-xs text-muted-foreground">{feature.identifier}</span>
+        {feature.product && (
+          <Badge variant="outline" className="font-normal text-xs py-0 h-5">
+            {getProductDisplayName(feature.product)}
+          </Badge>
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        <Link href={`/features/${feature.id}`} className="truncate hover:underline">
+          {feature.title}
+        </Link>
+        {feature.url && (
+          <a href={feature.url} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+            <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function DuplicatesPage() {
+  const [pending, setPending] = useState<DuplicatePair[]>([]);
+  const [decisions, setDecisions] = useState<DuplicateDecision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyPair, setBusyPair] = useState<string | null>(null);
+
+  const fetchDuplicates = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/duplicates');
+      const data = await response.json();
+      setPending(data.pending || []);
+      setDecisions(data.decisions || []);
+    } catch (error) {
+      console.error('Error fetching duplicates:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDuplicates();
+  }, [fetchDuplicates]);
+
+  const review = async (
+    action: ReviewAction,
+    original: DuplicateFeatureRef,
+    duplicate: DuplicateFeatureRef,
+    markInLinear = false
+  ) => {
+    try {
+      setBusyPair(pairId(original, duplicate));
+      const response = await fetch('/api/duplicates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, originalId: original.id, duplicateId: duplicate.id, markInLinear }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.details || data.error || 'Review failed');
+      }
+
+      toast({
+        title: action === 'confirm' ? 'Duplicate Confirmed' : action === 'dismiss' ? 'Pair Dismissed' : 'Decision Undone',
+        description: action === 'confirm'
+          ? `${duplicate.identifier} is a duplicate of ${original.identifier}${markInLinear ? ' in Linear too' : ''}`
+          : action === 'dismiss'
+          ? `${duplicate.identifier} and ${original.identifier} will not be flagged again`
+          : `${duplicate.identifier} and ${original.identifier} are back to automatic detection`,
+        variant: 'success',
+      });
+    } catch (error) {
+      toast({
+        title: 'Review Failed',
+        description: error instanceof Error ? error.message : 'Review failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyPair(null);
+      fetchDuplicates();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold">Duplicate Review</h1>
+              <p className="text-muted-foreground">Confirm or dismiss features flagged as possible duplicates</p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={fetchDuplicates} disabled={isLoading}>
+            <RefreshCw className={isLoading ? 'w-4 h-4 mr-2 animate-spin' : 'w-4 h-4 mr-2'} />
+            Refresh
+          </Button>
+        </div>
+
+        {isLoading && pending.length === 0 && decisions.length === 0 ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Looking for duplicates...
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>Waiting for review ({pending.length})</CardTitle>
+                <CardDescription>
+                  Pairs in the same product with similar titles and descriptions. The newer feature is listed as the duplicate.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {pending.length === 0 ? (
+                  <p className="py-6 text-center text-muted-foreground">No suspected duplicates to review.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Duplicate</TableHead>
+                        <TableHead>Original</TableHead>
+                        <TableHead className="w-[90px]">Similarity</TableHead>
+                        <TableHead className="text-right">Decision</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pending.map(({ original, duplicate, similarity }) => {
+                        const id = pairId(original, duplicate);
+                        const inLinear = original.source !== 'import' && duplicate.source !== 'import';
+                        return (
+                          <TableRow key={id}>
+                            <TableCell className="max-w-[260px]"><FeatureLink feature={duplicate} /></TableCell>
+                            <TableCell className="max-w-[260px]"><FeatureLink feature={original} /></TableCell>
+                            <TableCell className="font-mono">{Math.round(similarity * 100)}%</TableCell>
+                            <TableCell>
+                              <div className="flex justify-end gap-2">
+                                {busyPair === id ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <>
+                                    <Button size="sm" variant="outline" onClick={() => review('confirm', original, duplicate)} disabled={busyPair !== null}>
+                                      <Check className="w-4 h-4 mr-1" />
+                                      Confirm
+                                    </Button>
+                                    {inLinear && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => review('confirm', original, duplicate, true)}
+                                        disabled={busyPair !== null}
+                                        title={`Mark ${duplicate.identifier} as a duplicate of ${original.identifier} in Linear`}
+                                      >
+                                        <GitMerge className="w-4 h-4 mr-1" />
+                                        Merge in Linear
+                                      </Button>
+                                    )}
+                                    <Button size="sm" variant="ghost" onClick={() => review('dismiss', original, duplicate)} disabled={busyPair !== null}>
+                                      <X className="w-4 h-4 mr-1" />
+                                      Not a duplicate
+                                    </Button>
+                                  </>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Reviewed ({decisions.length})</CardTitle>
+                <CardDescription>
+                  Decisions override automatic detection. Undo one to let detection decide again.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {decisions.length === 0 ? (
+                  <p className="py-6 text-center text-muted-foreground">No pairs reviewed yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Duplicate</TableHead>
+                        <TableHead>Original</TableHead>
+                        <TableHead>Decision</TableHead>
+                        <TableHead className="text-right" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {decisions.map((decision) => {
+                        const id = pairId(decision.original, decision.duplicate);
+                        return (
+                          <TableRow key={id}>
+                            <TableCell className="max-w-[260px]"><FeatureLink feature={decision.duplicate} /></TableCell>
+                            <TableCell className="max-w-[260px]"><FeatureLink feature={decision.original} /></TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-1">
+                                {decision.status === 'confirmed' ? (
+                                  <Badge variant="secondary" className="bg-orange-100 text-orange-800 border-orange-200">Duplicate</Badge>
+                                ) : (
+                                  <Badge variant="outline">Not a duplicate</Badge>
+                                )}
+                                {decision.linearRelationId && <Badge variant="outline">In Linear</Badge>}
+                              </div>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {new Date(decision.decidedAt).toLocaleString()} by {decision.decidedBy}
+                              </p>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => {
+                                  if (decision.linearRelationId && !confirm(`This also removes the duplicate relation between ${decision.duplicate.identifier} and ${decision.original.identifier} in Linear. Continue?`)) {
+                                    return;
+                                  }
+                                  review('reset', decision.original, decision.duplicate);
+                                }}
+                                disabled={busyPair !== null}
+                              >
+                                {busyPair === id ? (
+                                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                                ) : (
+                                  <Undo2 className="w-4 h-4 mr-1" />
+                                )}
+                                Undo
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
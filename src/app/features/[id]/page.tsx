@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, use } from 'react';
-import { ScoredFeature, FeaturebasePost, ZendeskTicket, ScoreFactors, AuditEntry } from '@/lib/types';
+import { ScoredFeature, FeedbackSignalGroup, ScoreFactors, AuditEntry } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -16,6 +16,7 @@ import {
 import ScoreBreakdown from '@/components/ScoreBreakdown';
 import ScoreEditor from '@/components/ScoreEditor';
 import ScoringSummary from '@/components/ScoringSummary';
+import RequestingAccounts from '@/components/RequestingAccounts';
 import { getProductDisplayName } from '@/config/products';
 import Link from 'next/link';
 import { formatDistanceToNow } from 'date-fns';
@@ -33,6 +34,9 @@ import {
   ChevronDown,
   ChevronUp,
   Home,
+  Target,
+  Flag,
+  CalendarRange,
 } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
@@ -45,8 +49,7 @@ export default function FeaturePage({ params }: FeaturePageProps) {
   const featureId = resolvedParams.id;
 
   const [feature, setFeature] = useState<ScoredFeature | null>(null);
-  const [relatedPosts, setRelatedPosts] = useState<FeaturebasePost[]>([]);
-  const [relatedTickets, setRelatedTickets] = useState<ZendeskTicket[]>([]);
+  const [feedbackSignals, setFeedbackSignals] = useState<FeedbackSignalGroup[]>([]);
   const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -71,8 +74,7 @@ export default function FeaturePage({ params }: FeaturePageProps) {
 
       const data = await response.json();
       setFeature(data.feature);
-      setRelatedPosts(data.relatedPosts || []);
-      setRelatedTickets(data.relatedTickets || []);
+      setFeedbackSignals(data.feedbackSignals || []);
       setAuditLog(data.auditLog || []);
       setError(null);
     } catch (err) {
@@ -266,18 +268,51 @@ export default function FeaturePage({ params }: FeaturePageProps) {
                   </>
                 )}
               </div>
+              {(feature.initiatives?.length || feature.milestone || feature.cycle) && (
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-sm text-muted-foreground">
+                  {feature.initiatives?.map((initiative) => (
+                    <Badge
+                      key={initiative.id}
+                      variant={initiative.goalPriority === 'primary' ? 'default' : 'secondary'}
+                      className="gap-1"
+                      title={initiative.strategicGoal ? `Delivers: ${initiative.strategicGoal}` : 'Not linked to a strategic goal'}
+                    >
+                      <Target className="w-3 h-3" />
+                      {initiative.name}
+                    </Badge>
+                  ))}
+                  {feature.milestone && (
+                    <Badge variant="outline" className="gap-1">
+                      <Flag className="w-3 h-3" />
+                      {feature.milestone.name}
+                      {feature.milestone.targetDate && ` · ${new Date(feature.milestone.targetDate).toLocaleDateString()}`}
+                    </Badge>
+                  )}
+                  {feature.cycle && (
+                    <Badge variant="outline" className="gap-1">
+                      <CalendarRange className="w-3 h-3" />
+                      {feature.cycle.name || `Cycle ${feature.cycle.number}`}
+                      {` · ends ${new Date(feature.cycle.endsAt).toLocaleDateString()}`}
+                    </Badge>
+                  )}
+                </div>
+              )}
             </div>
             <div className="flex items-center gap-2">
-              <a
-                href={feature.url}
-                target="_blank"
-                rel="noopener noreferrer"
-              >
-                <Button variant="outline" size="sm">
-                  <ExternalLink className="w-4 h-4 mr-2" />
-                  View in Linear
-                </Button>
-              </a>
+              {feature.url ? (
+                <a
+                  href={feature.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Button variant="outline" size="sm">
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    View in Linear
+                  </Button>
+                </a>
+              ) : (
+                <Badge variant="outline">Imported</Badge>
+              )}
               {feature.featurebaseUrl && (
                 <a
                   href={feature.featurebaseUrl}
@@ -588,58 +623,63 @@ export default function FeaturePage({ params }: FeaturePageProps) {
               </CardContent>
             </Card>
 
-            {/* Related Featurebase Posts */}
-            {relatedPosts.length > 0 && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">Related Featurebase Posts</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-3">
-                    {relatedPosts.slice(0, 5).map((post) => (
-                      <div key={post.id} className="text-sm border-b pb-2 last:border-0">
-                        <p className="font-medium">{post.title}</p>
-                        <div className="flex items-center gap-2 text-muted-foreground mt-1">
-                          <Users className="w-3 h-3" />
-                          <span>{post.upvotes} votes</span>
-                          {post.url && (
-                            <a
-                              href={post.url}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-500 hover:underline"
-                            >
-                              View
-                            </a>
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </CardContent>
-              </Card>
-            )}
+            <RequestingAccounts
+              featureId={feature.id}
+              accounts={feature.accounts || []}
+              revenueAtStake={feature.revenueAtStake}
+              onChange={fetchFeature}
+            />
 
-            {/* Related Support Tickets */}
-            {relatedTickets.length > 0 && (
+            {/* Feedback Signals, grouped by the source they came from */}
+            {feedbackSignals.length > 0 && (
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-lg">Related Support Tickets</CardTitle>
+                  <CardTitle className="text-lg">Feedback Signals</CardTitle>
                 </CardHeader>
-                <CardContent>
-                  <div className="space-y-3">
-                    {relatedTickets.slice(0, 5).map((ticket) => (
-                      <div key={ticket.id} className="text-sm border-b pb-2 last:border-0">
-                        <p className="font-medium">{ticket.subject}</p>
-                        <div className="flex items-center gap-2 text-muted-foreground mt-1">
-                          <Badge variant="outline" className="text-xs">
-                            {ticket.priority}
-                          </Badge>
-                          <span>{ticket.status}</span>
-                        </div>
+                <CardContent className="space-y-4">
+                  {feedbackSignals.map((group) => (
+                    <div key={group.source}>
+                      <p className="text-sm font-medium text-muted-foreground mb-2">
+                        {group.name} ({group.signals.length})
+                      </p>
+                      <div className="space-y-3">
+                        {group.signals.slice(0, 5).map((signal) => (
+                          <div key={signal.id} className="text-sm border-b pb-2 last:border-0">
+                            <p className="font-medium">{signal.title}</p>
+                            <div className="flex flex-wrap items-center gap-2 text-muted-foreground mt-1">
+                              {signal.linkedIdentifiers?.includes(feature.identifier.toUpperCase()) && (
+                                <Badge variant="secondary" className="text-xs">Linked</Badge>
+                              )}
+                              {signal.status && (
+                                <Badge variant="outline" className="text-xs">
+                                  {signal.status}
+                                </Badge>
+                              )}
+                              {(signal.kind === 'request' || signal.weight > 1) && (
+                                <>
+                                  <Users className="w-3 h-3" />
+                                  <span>{signal.weight} {signal.kind === 'request' ? 'votes' : 'reactions'}</span>
+                                </>
+                              )}
+                              {(signal.accountName || signal.author) && (
+                                <span>{signal.accountName || signal.author}</span>
+                              )}
+                              {signal.url && (
+                                <a
+                                  href={signal.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-blue-500 hover:underline"
+                                >
+                                  View
+                                </a>
+                              )}
+                            </div>
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
+                    </div>
+                  ))}
                 </CardContent>
               </Card>
             )}
@@ -1,9 +1,10 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { ScoredFeature, Product, ScoringFramework, DashboardStats } from '@/lib/types';
+import { ScoredFeature, Product, ScoringFramework, DashboardStats, SourceSyncStatus } from '@/lib/types';
 import Header from '@/components/Header';
 import Dashboard from '@/components/Dashboard';
+import { LinearPushDialog } from '@/components/LinearPushDialog';
 import { OnboardingWizard, isOnboardingComplete } from '@/components/onboarding/OnboardingWizard';
 import { productConfigs } from '@/config/products';
 import { Loader2, Sparkles, AlertTriangle, RefreshCw, Check, StopCircle } from 'lucide-react';
@@ -31,6 +32,7 @@ interface FeaturesResponse {
     byProduct: Record<Product, number>;
     byPriority: Record<string, number>;
     lastSynced: string | null;
+    syncSources: SourceSyncStatus[];
     scoringStatus: ScoringStatus;
   };
   settings: {
@@ -55,9 +57,10 @@ export default function HomePage() {
   const [activeFramework, setActiveFramework] = useState<ScoringFramework>('weighted');
   const [aiModel, setAIModel] = useState<'openai' | 'anthropic' | 'gemini'>('gemini');
   const [lastSynced, setLastSynced] = useState<string | null>(null);
+  const [syncSources, setSyncSources] = useState<SourceSyncStatus[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [isPushing, setIsPushing] = useState(false);
+  const [isPushDialogOpen, setIsPushDialogOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [usage, setUsage] = useState<{ tokens: number; cost: number }>({ tokens: 0, cost: 0 });
   const [apiKeyStatus, setApiKeyStatus] = useState<{
@@ -93,6 +96,7 @@ export default function HomePage() {
         lastSynced: data.stats.lastSynced || undefined,
       });
       setLastSynced(data.stats.lastSynced);
+      setSyncSources(data.stats.syncSources || []);
       setActiveFramework(data.settings.activeFramework);
       setAIModel(data.settings.aiModel.enabled);
       setScoringStatus(data.stats.scoringStatus);
@@ -216,34 +220,19 @@ export default function HomePage() {
     }
   };
 
-  const handlePushToLinear = async () => {
-    try {
-      setIsPushing(true);
-      const response = await fetch('/api/linear', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ addComments: false }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        if (data.errorCode === 'API_KEY_MISSING') {
-          setError(data.message);
-        } else {
-          setError(data.error || 'Push to Linear failed');
-        }
-        return;
-      }
+  const handlePushToLinear = () => {
+    setIsPushDialogOpen(true);
+  };
 
-      alert(`Synced ${data.syncedCount} features to Linear`);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Push failed');
-    } finally {
-      setIsPushing(false);
-    }
+  const handlePushed = (result: { syncedCount: number; failedCount: number; skippedCount: number }) => {
+    alert(
+      `Synced ${result.syncedCount} features to Linear` +
+      (result.failedCount > 0 ? ` (${result.failedCount} failed)` : '')
+    );
+    fetchFeatures();
   };
 
+
   const handleScoreAllFeatures = async (forceRescore: boolean = false) => {
     try {
       setIsScoring(true);
@@ -338,10 +327,11 @@ export default function HomePage() {
         activeFramework={activeFramework}
         onFrameworkChange={handleFrameworkChange}
         lastSynced={lastSynced}
+        syncSources={syncSources}
         isSyncing={isSyncing}
         onSyncFromLinear={handleSyncFromLinear}
         onPushToLinear={handlePushToLinear}
-        isPushing={isPushing}
+        isPushing={isPushDialogOpen}
         aiModel={aiModel}
         usage={usage}
         apiKeyStatus={apiKeyStatus}
@@ -356,6 +346,7 @@ export default function HomePage() {
         isScoring={isScoring}
         scoringJob={scoringJob}
         onStartScoring={handleScoreAllFeatures}
+        exportScope={{ framework: activeFramework }}
       />
 
       <main className="container mx-auto px-4 py-8">
@@ -486,6 +477,12 @@ export default function HomePage() {
           </div>
         )}
       </main>
+
+      <LinearPushDialog
+        open={isPushDialogOpen}
+        onOpenChange={setIsPushDialogOpen}
+        onPushed={handlePushed}
+      />
     </div>
   );
 }
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, use, useMemo } from 'react';
-import { ScoredFeature, Product, ScoringFramework } from '@/lib/types';
+import { ScoredFeature, Product, ScoringFramework, SourceSyncStatus } from '@/lib/types';
 import Header from '@/components/Header';
 import ProductFilter from '@/components/ProductFilter';
 import PriorityTable from '@/components/PriorityTable';
@@ -10,6 +10,7 @@ import FeatureCard from '@/components/FeatureCard';
 import { FeatureCardSkeletonGrid } from '@/components/FeatureCardSkeleton';
 import SearchInput from '@/components/SearchInput';
 import FilterPanel from '@/components/FilterPanel';
+import { LinearPushDialog } from '@/components/LinearPushDialog';
 import { Pagination } from '@/components/ui/pagination';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -33,9 +34,10 @@ export default function ProductPage({ params }: ProductPageProps) {
   const [activeFramework, setActiveFramework] = useState<ScoringFramework>('weighted');
   const [aiModel, setAIModel] = useState<'openai' | 'anthropic' | 'gemini'>('gemini');
   const [lastSynced, setLastSynced] = useState<string | null>(null);
+  const [syncSources, setSyncSources] = useState<SourceSyncStatus[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [isPushing, setIsPushing] = useState(false);
+  const [isPushDialogOpen, setIsPushDialogOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'table' | 'grid'>('table');
   const [usage, setUsage] = useState<{ tokens: number; cost: number }>({ tokens: 0, cost: 0 });
@@ -123,6 +125,7 @@ export default function ProductPage({ params }: ProductPageProps) {
 
       setFeatures(data.features);
       setLastSynced(data.stats.lastSynced);
+      setSyncSources(data.stats.syncSources || []);
       setActiveFramework(data.settings.activeFramework);
       setAIModel(data.settings.aiModel.enabled);
       setProductCounts({
@@ -180,23 +183,16 @@ export default function ProductPage({ params }: ProductPageProps) {
     }
   };
 
-  const handlePushToLinear = async () => {
-    try {
-      setIsPushing(true);
-      const response = await fetch('/api/linear', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ product: productId, addComments: false }),
-      });
-      if (!response.ok) throw new Error('Push to Linear failed');
+  const handlePushToLinear = () => {
+    setIsPushDialogOpen(true);
+  };
 
-      const data = await response.json();
-      alert(`Synced ${data.syncedCount} features to Linear`);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Push failed');
-    } finally {
-      setIsPushing(false);
-    }
+  const handlePushed = (result: { syncedCount: number; failedCount: number; skippedCount: number }) => {
+    alert(
+      `Synced ${result.syncedCount} features to Linear` +
+      (result.failedCount > 0 ? ` (${result.failedCount} failed)` : '')
+    );
+    fetchFeatures(productId);
   };
 
   const handleProductChange = (product: Product | 'all') => {
@@ -230,12 +226,20 @@ export default function ProductPage({ params }: ProductPageProps) {
         activeFramework={activeFramework}
         onFrameworkChange={handleFrameworkChange}
         lastSynced={lastSynced}
+        syncSources={syncSources}
         isSyncing={isSyncing}
         onSyncFromLinear={handleSyncFromLinear}
         onPushToLinear={handlePushToLinear}
-        isPushing={isPushing}
+        isPushing={isPushDialogOpen}
         aiModel={aiModel}
         usage={usage}
+        exportScope={{
+          product: isAllProducts ? undefined : productId,
+          framework: activeFramework,
+          featureIds: searchQuery || hasActiveFilters
+            ? filterAndSearchFilteredFeatures.map(f => f.id)
+            : undefined,
+        }}
       />
 
       <main className="container mx-auto px-4 py-8">
@@ -446,6 +450,13 @@ export default function ProductPage({ params }: ProductPageProps) {
           </div>
         )}
       </main>
+
+      <LinearPushDialog
+        open={isPushDialogOpen}
+        onOpenChange={setIsPushDialogOpen}
+        product={isAllProducts ? undefined : productId}
+        onPushed={handlePushed}
+      />
     </div>
   );
 }
@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LinearPushBatch, LinearPushBatchItem } from '@/lib/types';
+import { getProductDisplayName } from '@/config/products';
+import { ArrowLeft, ArrowRight, ChevronDown, ChevronRight, Loader2, RefreshCw, Undo2 } from 'lucide-react';
+
+const PRIORITY_NAMES: Record<number, string> = {
+  0: 'No priority',
+  1: 'Urgent',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low',
+};
+
+interface UndoConflict {
+  identifier: string;
+  applied: { priority: number; sortOrder: number };
+  live: { priority: number; sortOrder: number };
+}
+
+function formatValue(value: { priority: number; sortOrder: number }): string {
+  return `${PRIORITY_NAMES[value.priority] ?? value.priority} · ${Math.round(value.sortOrder)}`;
+}
+
+// Whether an item's values reached Linear, even if its comment failed
+function isWritten(item: LinearPushBatchItem): boolean {
+  return item.updated ?? item.success;
+}
+
+export default function PushHistoryPage() {
+  const [batches, setBatches] = useState<LinearPushBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/linear/history');
+      const data = await response.json();
+      setBatches(data.batches || []);
+    } catch (error) {
+      console.error('Error fetching push history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const toggleExpanded = (batchId: string) => {
+    const next = new Set(expanded);
+    if (next.has(batchId)) {
+      next.delete(batchId);
+    } else {
+      next.add(batchId);
+    }
+    setExpanded(next);
+  };
+
+  const requestUndo = async (batchId: string, force: boolean) => {
+    const response = await fetch('/api/linear/history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'undo', batchId, force }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || data.details || data.error || 'Undo failed');
+    }
+    return data as { restoredCount: number; failedCount: number; conflicts: UndoConflict[] };
+  };
+
+  const handleUndo = async (batch: LinearPushBatch) => {
+    const count = batch.items.filter(isWritten).length;
+    if (!confirm(`Restore the previous priority and sort order of ${count} issue${count === 1 ? '' : 's'} in Linear?`)) {
+      return;
+    }
+
+    try {
+      setUndoingId(batch.id);
+      let result = await requestUndo(batch.id, false);
+
+      if (result.conflicts.length > 0) {
+        const list = result.conflicts
+          .map(c => `${c.identifier}: pushed ${formatValue(c.applied)}, now ${formatValue(c.live)}`)
+          .join('\n');
+        const overwrite = confirm(
+          `${result.conflicts.length} issue${result.conflicts.length === 1 ? ' was' : 's were'} changed in Linear after this push:\n\n${list}\n\nOverwrite them with their previous values too?`
+        );
+        if (overwrite) {
+          const forced = await requestUndo(batch.id, true);
+          result = { ...forced, restoredCount: result.restoredCount + forced.restoredCount };
+        }
+      }
+
+      alert(
+        `Restored ${result.restoredCount} issues in Linear` +
+        (result.failedCount > 0 ? `, ${result.failedCount} failed` : '') +
+        (result.conflicts.length > 0 ? `, ${result.conflicts.length} left unchanged` : '')
+      );
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Undo failed');
+    } finally {
+      setUndoingId(null);
+      fetchHistory();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Link href="/">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold">Push History</h1>
+              <p className="text-muted-foreground">Priority pushes to Linear, with the values they replaced</p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={fetchHistory} disabled={isLoading}>
+            <RefreshCw className={isLoading ? 'w-4 h-4 mr-2 animate-spin' : 'w-4 h-4 mr-2'} />
+            Refresh
+          </Button>
+        </div>
+
+        {isLoading && batches.length === 0 ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Loading push history...
+          </div>
+        ) : batches.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No pushes recorded yet. Pushes to Linear will appear here.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {batches.map((batch) => {
+              const isExpanded = expanded.has(batch.id);
+              const succeeded = batch.items.filter(item => item.success).length;
+              const failed = batch.items.length - succeeded;
+              const canUndo = batch.kind === 'push' && !batch.undoneAt && batch.items.some(isWritten);
+
+              return (
+                <Card key={batch.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <button
+                        type="button"
+                        onClick={() => toggleExpanded(batch.id)}
+                        className="flex items-start gap-2 text-left"
+                      >
+                        {isExpanded ? (
+                          <ChevronDown className="w-4 h-4 mt-1" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4 mt-1" />
+                        )}
+                        <div>
+                          <CardTitle className="text-base flex items-center gap-2">
+                            {batch.kind === 'undo' ? 'Undo' : 'Push'} of {batch.items.length} issue{batch.items.length === 1 ? '' : 's'}
+                            <Badge variant="outline" className="font-normal">
+                              {batch.product ? getProductDisplayName(batch.product) : 'All products'}
+                            </Badge>
+                            {batch.undoneAt && <Badge variant="secondary">Undone</Badge>}
+                            {failed > 0 && <Badge variant="destructive">{failed} failed</Badge>}
+                          </CardTitle>
+                          <CardDescription>
+                            {new Date(batch.createdAt).toLocaleString()} by {batch.createdBy}
+                            {batch.undoneAt && ` · undone ${new Date(batch.undoneAt).toLocaleString()} by ${batch.undoneBy}`}
+                          </CardDescription>
+                        </div>
+                      </button>
+                      {canUndo && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleUndo(batch)}
+                          disabled={undoingId !== null}
+                        >
+                          {undoingId === batch.id ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <Undo2 className="w-4 h-4 mr-2" />
+                          )}
+                          Undo this push
+                        </Button>
+                      )}
+                    </div>
+                  </CardHeader>
+                  {isExpanded && (
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Issue</TableHead>
+                            <TableHead>Priority</TableHead>
+                            <TableHead>Sort order</TableHead>
+                            <TableHead>Status</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {batch.items.map((item) => (
+                            <TableRow key={item.issueId}>
+                              <TableCell className="max-w-[280px]">
+                                <div className="flex items-center gap-2">
+                                  <span className="font-mono text-xs text-muted-foreground">{item.identifier}</span>
+                                  <span className="truncate">{item.title}</span>
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <span className="flex items-center gap-1 text-sm">
+                                  <span className="text-muted-foreground">{PRIORITY_NAMES[item.previous.priority] ?? item.previous.priority}</span>
+                                  <ArrowRight className="w-3 h-3" />
+                                  <span>{PRIORITY_NAMES[item.applied.priority] ?? item.applied.priority}</span>
+                                </span>
+                              </TableCell>
+                              <TableCell>
+                                <span className="flex items-center gap-1 text-sm font-mono">
+                                  <span className="text-muted-foreground">{Math.round(item.previous.sortOrder)}</span>
+                                  <ArrowRight className="w-3 h-3" />
+                                  <span>{Math.round(item.applied.sortOrder)}</span>
+                                </span>
+                              </TableCell>
+                              <TableCell>
+                                {item.success ? (
+                                  <Badge variant="secondary">Applied</Badge>
+                                ) : isWritten(item) ? (
+                                  <Badge variant="outline" title={item.error}>Applied, comment failed</Badge>
+                                ) : (
+                                  <Badge variant="destructive" title={item.error}>Failed</Badge>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
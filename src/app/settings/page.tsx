@@ -22,10 +22,20 @@ import {
   KnownGapConfig,
   CompetitorFeature,
   CustomerTierConfig,
+  LinearInitiative,
 } from '@/lib/types';
 import { FrameworkExplainer, ExampleCalculation } from '@/components/FrameworkExplainer';
 import { CompetitorMatrix } from '@/components/CompetitorMatrix';
+import { SyncScopeEditor } from '@/components/SyncScopeEditor';
+import { SemanticMatchingEditor } from '@/components/SemanticMatchingEditor';
+import { FeatureImport } from '@/components/FeatureImport';
+import { AccountImport } from '@/components/AccountImport';
+import { FeedbackCsvUpload } from '@/components/FeedbackCsvUpload';
+import { CustomFrameworkEditor } from '@/components/CustomFrameworkEditor';
+import { WeightSimulator } from '@/components/WeightSimulator';
+import { WeightProfileEditor } from '@/components/WeightProfileEditor';
 import { defaultEnhancedPromptConfig } from '@/lib/config/prompt-defaults';
+import { DEFAULT_SCORE_COMMENT_TEMPLATE, SCORE_COMMENT_PLACEHOLDERS } from '@/lib/config/score-comment-defaults';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -42,8 +52,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { getAllFrameworks } from '@/lib/scoring/engine';
+import { isCustomFramework } from '@/lib/scoring/frameworks/custom';
 import Link from 'next/link';
-import { ArrowLeft, Loader2, Save, RotateCcw, Key, Check, X, Eye, EyeOff, FolderKanban, Package, Plus, Trash2, ChevronDown, AlertTriangle, Settings2, Brain, Sparkles, RefreshCw, StopCircle } from 'lucide-react';
+import { ArrowLeft, Loader2, Save, RotateCcw, Key, Check, X, Eye, EyeOff, FolderKanban, Package, Plus, Trash2, ChevronDown, AlertTriangle, Settings2, Brain, Sparkles, RefreshCw, StopCircle, Filter, Tags, Upload, Building2, MessageSquare } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import {
   Accordion,
@@ -61,16 +72,30 @@ interface APIKeyStatus {
 interface APIKeysData {
   status: {
     linear: APIKeyStatus;
+    linearWebhook: APIKeyStatus;
+    featurebase: APIKeyStatus;
+    zendesk: APIKeyStatus;
+    intercom: APIKeyStatus;
+    hubspot: APIKeyStatus;
     openai: APIKeyStatus;
     anthropic: APIKeyStatus;
     gemini: APIKeyStatus;
   };
   maskedKeys: {
     linear: string | null;
+    linearWebhook: string | null;
+    featurebase: string | null;
+    zendesk: string | null;
+    intercom: string | null;
+    hubspot: string | null;
     openai: string | null;
     anthropic: string | null;
     gemini: string | null;
   };
+  zendeskAccount?: {
+    subdomain: string | null;
+    email: string | null;
+  };
 }
 
 interface ProductInfo {
@@ -94,6 +119,7 @@ export default function SettingsPage() {
   const [usage, setUsage] = useState<UsageStats | null>(null);
   const [apiKeys, setApiKeys] = useState<APIKeysData | null>(null);
   const [projectsData, setProjectsData] = useState<ProjectsData | null>(null);
+  const [initiatives, setInitiatives] = useState<LinearInitiative[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -102,10 +128,22 @@ export default function SettingsPage() {
 
   // API Key input states
   const [linearKey, setLinearKey] = useState('');
+  const [linearWebhookSecret, setLinearWebhookSecret] = useState('');
+  const [featurebaseKey, setFeaturebaseKey] = useState('');
+  const [zendeskToken, setZendeskToken] = useState('');
+  const [zendeskSubdomain, setZendeskSubdomain] = useState('');
+  const [zendeskEmail, setZendeskEmail] = useState('');
+  const [intercomToken, setIntercomToken] = useState('');
+  const [hubspotToken, setHubspotToken] = useState('');
   const [openaiKey, setOpenaiKey] = useState('');
   const [anthropicKey, setAnthropicKey] = useState('');
   const [geminiKey, setGeminiKey] = useState('');
   const [showLinearKey, setShowLinearKey] = useState(false);
+  const [showLinearWebhookSecret, setShowLinearWebhookSecret] = useState(false);
+  const [showFeaturebaseKey, setShowFeaturebaseKey] = useState(false);
+  const [showZendeskToken, setShowZendeskToken] = useState(false);
+  const [showIntercomToken, setShowIntercomToken] = useState(false);
+  const [showHubspotToken, setShowHubspotToken] = useState(false);
   const [showOpenaiKey, setShowOpenaiKey] = useState(false);
   const [showAnthropicKey, setShowAnthropicKey] = useState(false);
   const [showGeminiKey, setShowGeminiKey] = useState(false);
@@ -142,7 +180,7 @@ export default function SettingsPage() {
   // Track previous settings hash to detect changes
   const prevSettingsHashRef = useRef<string | null>(null);
 
-  const frameworks = getAllFrameworks();
+  const frameworks = getAllFrameworks(settings?.customFrameworks);
 
   const fetchSettings = useCallback(async () => {
     try {
@@ -185,11 +223,24 @@ export default function SettingsPage() {
     }
   }, []);
 
+  const fetchInitiatives = useCallback(async () => {
+    try {
+      const response = await fetch('/api/initiatives');
+      if (response.ok) {
+        const data = await response.json();
+        setInitiatives(data.initiatives || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch initiatives:', err);
+    }
+  }, []);
+
   useEffect(() => {
     fetchSettings();
     fetchAPIKeys();
     fetchProjects();
-  }, [fetchSettings, fetchAPIKeys, fetchProjects]);
+    fetchInitiatives();
+  }, [fetchSettings, fetchAPIKeys, fetchProjects, fetchInitiatives]);
 
   // Watch for scoring status changes and show notification when rescoring needed
   useEffect(() => {
@@ -217,7 +268,7 @@ export default function SettingsPage() {
     }
   }, [scoringStatus?.currentSettingsHash, scoringStatus?.needsRescoring, startScoring]);
 
-  const handleSaveAPIKey = async (keyName: 'linear' | 'openai' | 'anthropic' | 'gemini', keyValue: string) => {
+  const handleSaveAPIKey = async (keyName: 'linear' | 'linearWebhook' | 'featurebase' | 'zendesk' | 'intercom' | 'hubspot' | 'openai' | 'anthropic' | 'gemini', keyValue: string, extra?: Record<string, string>) => {
     if (!keyValue.trim()) return;
 
     try {
@@ -225,13 +276,21 @@ export default function SettingsPage() {
       const response = await fetch('/api/api-keys', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'save', keyName, keyValue: keyValue.trim() }),
+        body: JSON.stringify({ action: 'save', keyName, keyValue: keyValue.trim(), ...extra }),
       });
 
-      if (!response.ok) throw new Error('Failed to save API key');
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save API key');
+      }
 
       // Clear the input and refresh status
       if (keyName === 'linear') setLinearKey('');
+      if (keyName === 'linearWebhook') setLinearWebhookSecret('');
+      if (keyName === 'featurebase') setFeaturebaseKey('');
+      if (keyName === 'zendesk') setZendeskToken('');
+      if (keyName === 'intercom') setIntercomToken('');
+      if (keyName === 'hubspot') setHubspotToken('');
       if (keyName === 'openai') setOpenaiKey('');
       if (keyName === 'anthropic') setAnthropicKey('');
       if (keyName === 'gemini') setGeminiKey('');
@@ -244,7 +303,7 @@ export default function SettingsPage() {
     }
   };
 
-  const handleClearAPIKey = async (keyName: 'linear' | 'openai' | 'anthropic' | 'gemini') => {
+  const handleClearAPIKey = async (keyName: 'linear' | 'linearWebhook' | 'featurebase' | 'zendesk' | 'intercom' | 'hubspot' | 'openai' | 'anthropic' | 'gemini') => {
     try {
       setSavingKey(keyName);
       const response = await fetch('/api/api-keys', {
@@ -512,12 +571,13 @@ export default function SettingsPage() {
         )}
 
         <Tabs defaultValue="api-keys" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="api-keys">API Keys</TabsTrigger>
             <TabsTrigger value="products">Products</TabsTrigger>
             <TabsTrigger value="framework">Framework</TabsTrigger>
             <TabsTrigger value="ai">AI Models</TabsTrigger>
             <TabsTrigger value="prompts">Prompts</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
             <TabsTrigger value="usage">Usage</TabsTrigger>
           </TabsList>
 
@@ -584,6 +644,284 @@ export default function SettingsPage() {
                   </div>
                 </div>
 
+                {/* Linear Webhook Secret */}
+                <div className="space-y-3 p-4 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label className="text-base font-medium">Linear Webhook Secret</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Optional. Point a Linear webhook at <code className="font-mono">/api/webhooks/linear</code> to keep issues live without manual syncs
+                      </p>
+                    </div>
+                    {apiKeys && renderKeyStatus(apiKeys.status.linearWebhook)}
+                  </div>
+                  {apiKeys?.maskedKeys.linearWebhook && apiKeys.status.linearWebhook.source === 'stored' && (
+                    <p className="text-sm text-muted-foreground font-mono">
+                      Current: {apiKeys.maskedKeys.linearWebhook}
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Input
+                        type={showLinearWebhookSecret ? 'text' : 'password'}
+                        placeholder="lin_wh_xxxxx"
+                        value={linearWebhookSecret}
+                        onChange={(e) => setLinearWebhookSecret(e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-0 top-0 h-full"
+                        onClick={() => setShowLinearWebhookSecret(!showLinearWebhookSecret)}
+                      >
+                        {showLinearWebhookSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                    <Button
+                      onClick={() => handleSaveAPIKey('linearWebhook', linearWebhookSecret)}
+                      disabled={!linearWebhookSecret.trim() || savingKey === 'linearWebhook'}
+                    >
+                      {savingKey === 'linearWebhook' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+                    </Button>
+                    {apiKeys?.status.linearWebhook.source === 'stored' && (
+                      <Button
+                        variant="outline"
+                        onClick={() => handleClearAPIKey('linearWebhook')}
+                        disabled={savingKey === 'linearWebhook'}
+                      >
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Featurebase API Key */}
+                <div className="space-y-3 p-4 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label className="text-base font-medium">Featurebase API Key</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Optional. Syncs posts, upvotes, voters and comments from Featurebase alongside Linear
+                      </p>
+                    </div>
+                    {apiKeys && renderKeyStatus(apiKeys.status.featurebase)}
+                  </div>
+                  {apiKeys?.maskedKeys.featurebase && apiKeys.status.featurebase.source === 'stored' && (
+                    <p className="text-sm text-muted-foreground font-mono">
+                      Current: {apiKeys.maskedKeys.featurebase}
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Input
+                        type={showFeaturebaseKey ? 'text' : 'password'}
+                        placeholder="sk_xxxxx"
+                        value={featurebaseKey}
+                        onChange={(e) => setFeaturebaseKey(e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-0 top-0 h-full"
+                        onClick={() => setShowFeaturebaseKey(!showFeaturebaseKey)}
+                      >
+                        {showFeaturebaseKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                    <Button
+                      onClick={() => handleSaveAPIKey('featurebase', featurebaseKey)}
+                      disabled={!featurebaseKey.trim() || savingKey === 'featurebase'}
+                    >
+                      {savingKey === 'featurebase' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+                    </Button>
+                    {apiKeys?.status.featurebase.source === 'stored' && (
+                      <Button
+                        variant="outline"
+                        onClick={() => handleClearAPIKey('featurebase')}
+                        disabled={savingKey === 'featurebase'}
+                      >
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Zendesk API Token */}
+                <div className="space-y-3 p-4 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label className="text-base font-medium">Zendesk API Token</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Optional. Syncs tickets incrementally; tickets tagged with a Linear identifier (e.g. <code className="font-mono">chat-123</code>) or containing a Linear issue URL link to that feature
+                      </p>
+                    </div>
+                    {apiKeys && renderKeyStatus(apiKeys.status.zendesk)}
+                  </div>
+                  {apiKeys?.maskedKeys.zendesk && apiKeys.status.zendesk.source === 'stored' && (
+                    <p className="text-sm text-muted-foreground font-mono">
+                      Current: {apiKeys.maskedKeys.zendesk} ({apiKeys.zendeskAccount?.email} @ {apiKeys.zendeskAccount?.subdomain}.zendesk.com)
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Subdomain, e.g. acme"
+                      value={zendeskSubdomain}
+                      onChange={(e) => setZendeskSubdomain(e.target.value)}
+                      className="w-48"
+                    />
+                    <Input
+                      type="email"
+                      placeholder="Agent email"
+                      value={zendeskEmail}
+                      onChange={(e) => setZendeskEmail(e.target.value)}
+                      className="flex-1"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Input
+                        type={showZendeskToken ? 'text' : 'password'}
+                        placeholder="API token"
+                        value={zendeskToken}
+                        onChange={(e) => setZendeskToken(e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-0 top-0 h-full"
+                        onClick={() => setShowZendeskToken(!showZendeskToken)}
+                      >
+                        {showZendeskToken ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                    <Button
+                      onClick={() => handleSaveAPIKey('zendesk', zendeskToken, {
+                        subdomain: zendeskSubdomain.trim() || apiKeys?.zendeskAccount?.subdomain || '',
+                        email: zendeskEmail.trim() || apiKeys?.zendeskAccount?.email || '',
+                      })}
+                      disabled={!zendeskToken.trim() || savingKey === 'zendesk'}
+                    >
+                      {savingKey === 'zendesk' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+                    </Button>
+                    {apiKeys?.status.zendesk.source === 'stored' && (
+                      <Button
+                        variant="outline"
+                        onClick={() => handleClearAPIKey('zendesk')}
+                        disabled={savingKey === 'zendesk'}
+                      >
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Intercom Access Token */}
+                <div className="space-y-3 p-4 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label className="text-base font-medium">Intercom Access Token</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Optional. Syncs recently updated conversations as feedback signals
+                      </p>
+                    </div>
+                    {apiKeys && renderKeyStatus(apiKeys.status.intercom)}
+                  </div>
+                  {apiKeys?.maskedKeys.intercom && apiKeys.status.intercom.source === 'stored' && (
+                    <p className="text-sm text-muted-foreground font-mono">
+                      Current: {apiKeys.maskedKeys.intercom}
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Input
+                        type={showIntercomToken ? 'text' : 'password'}
+                        placeholder="dG9rOjxxxxx"
+                        value={intercomToken}
+                        onChange={(e) => setIntercomToken(e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-0 top-0 h-full"
+                        onClick={() => setShowIntercomToken(!showIntercomToken)}
+                      >
+                        {showIntercomToken ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                    <Button
+                      onClick={() => handleSaveAPIKey('intercom', intercomToken)}
+                      disabled={!intercomToken.trim() || savingKey === 'intercom'}
+                    >
+                      {savingKey === 'intercom' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+                    </Button>
+                    {apiKeys?.status.intercom.source === 'stored' && (
+                      <Button
+                        variant="outline"
+                        onClick={() => handleClearAPIKey('intercom')}
+                        disabled={savingKey === 'intercom'}
+                      >
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {/* HubSpot Private App Token */}
+                <div className="space-y-3 p-4 border rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label className="text-base font-medium">HubSpot Private App Token</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Optional. Syncs notes attached to deals; needs the notes and deals read scopes
+                      </p>
+                    </div>
+                    {apiKeys && renderKeyStatus(apiKeys.status.hubspot)}
+                  </div>
+                  {apiKeys?.maskedKeys.hubspot && apiKeys.status.hubspot.source === 'stored' && (
+                    <p className="text-sm text-muted-foreground font-mono">
+                      Current: {apiKeys.maskedKeys.hubspot}
+                    </p>
+                  )}
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Input
+                        type={showHubspotToken ? 'text' : 'password'}
+                        placeholder="pat-na1-xxxxx"
+                        value={hubspotToken}
+                        onChange={(e) => setHubspotToken(e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="absolute right-0 top-0 h-full"
+                        onClick={() => setShowHubspotToken(!showHubspotToken)}
+                      >
+                        {showHubspotToken ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </Button>
+                    </div>
+                    <Button
+                      onClick={() => handleSaveAPIKey('hubspot', hubspotToken)}
+                      disabled={!hubspotToken.trim() || savingKey === 'hubspot'}
+                    >
+                      {savingKey === 'hubspot' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+                    </Button>
+                    {apiKeys?.status.hubspot.source === 'stored' && (
+                      <Button
+                        variant="outline"
+                        onClick={() => handleClearAPIKey('hubspot')}
+                        disabled={savingKey === 'hubspot'}
+                      >
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
                 {/* OpenAI API Key */}
                 <div className="space-y-3 p-4 border rounded-lg">
                   <div className="flex items-center justify-between">
@@ -760,140 +1098,244 @@ GEMINI_API_KEY=AIzaSyxxxxx`}
 
           {/* Products & Project Mappings */}
           <TabsContent value="products">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Package className="w-5 h-5" />
-                  Product Project Mappings
-                </CardTitle>
-                <CardDescription>
-                  Configure which Linear projects map to each product. Features from these projects will appear under the corresponding product in the dashboard.
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {projectsData && (
-                  <>
-                    {/* Summary by Product */}
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                      {projectsData.products.map((product) => (
-                        <div key={product.id} className="p-4 border rounded-lg">
-                          <p className="font-medium">{product.name}</p>
-                          <p className="text-sm text-muted-foreground">
-                            {projectsData.byProduct[product.id]?.projects.length || 0} projects
-                          </p>
-                          <p className="text-sm text-muted-foreground">
-                            {projectsData.byProduct[product.id]?.issueCount || 0} issues
-                          </p>
-                          <Badge variant={product.stage === 'mature' ? 'default' : 'secondary'} className="mt-2">
-                            {product.stage}
-                          </Badge>
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Filter className="w-5 h-5" />
+                    Sync Scope
+                  </CardTitle>
+                  <CardDescription>
+                    Choose which Linear issues are synced and prioritized. Changes apply on the next sync; changing the scope triggers a full re-sync.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SyncScopeEditor
+                    scope={settings.syncScope}
+                    onChange={(syncScope) => updateSettings({ syncScope })}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Tags className="w-5 h-5" />
+                    Linear Write-back
+                  </CardTitle>
+                  <CardDescription>
+                    Apply score labels to issues when pushing priorities, so engineers can filter by them in Linear, and choose how the score comment reads. Labels from earlier pushes that no longer apply are removed.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="write-back-labels">Write labels on push</Label>
+                      <p className="text-sm text-muted-foreground">Missing labels are created in the issue&apos;s team</p>
+                    </div>
+                    <Switch
+                      id="write-back-labels"
+                      checked={settings.linearWriteBack.labelsEnabled}
+                      onCheckedChange={(labelsEnabled) => updateSettings({
+                        linearWriteBack: { ...settings.linearWriteBack, labelsEnabled },
+                      })}
+                    />
+                  </div>
+                  <div className={settings.linearWriteBack.labelsEnabled ? 'space-y-3 pl-4 border-l' : 'space-y-3 pl-4 border-l opacity-50 pointer-events-none'}>
+                    {([
+                      { key: 'scoreLabels', label: 'Score range', example: 'Score: 8-10' },
+                      { key: 'moscowLabels', label: 'MoSCoW category', example: 'MoSCoW: Must' },
+                      { key: 'flagLabels', label: 'Flags', example: 'Enterprise, High Volume, Key Customer, Strategic' },
+                    ] as const).map(({ key, label, example }) => (
+                      <div key={key} className="flex items-center justify-between">
+                        <div>
+                          <Label htmlFor={`write-back-${key}`}>{label}</Label>
+                          <p className="text-sm text-muted-foreground">{example}</p>
                         </div>
+                        <Switch
+                          id={`write-back-${key}`}
+                          checked={settings.linearWriteBack[key]}
+                          onCheckedChange={(checked) => updateSettings({
+                            linearWriteBack: { ...settings.linearWriteBack, [key]: checked },
+                          })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-2 pt-4 border-t">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label htmlFor="comment-template">Score comment template</Label>
+                        <p className="text-sm text-muted-foreground">
+                          Markdown used when &quot;Add or update score comment&quot; is on. Each push edits the same comment.
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateSettings({
+                          linearWriteBack: { ...settings.linearWriteBack, commentTemplate: DEFAULT_SCORE_COMMENT_TEMPLATE },
+                        })}
+                        disabled={settings.linearWriteBack.commentTemplate === DEFAULT_SCORE_COMMENT_TEMPLATE}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" /> Reset
+                      </Button>
+                    </div>
+                    <Textarea
+                      id="comment-template"
+                      value={settings.linearWriteBack.commentTemplate}
+                      onChange={(e) => updateSettings({
+                        linearWriteBack: { ...settings.linearWriteBack, commentTemplate: e.target.value },
+                      })}
+                      rows={12}
+                      className="font-mono text-sm"
+                    />
+                    <div className="flex flex-wrap gap-1">
+                      {SCORE_COMMENT_PLACEHOLDERS.map(({ key, description }) => (
+                        <Badge key={key} variant="outline" className="font-mono text-xs" title={description}>
+                          {`{{${key}}}`}
+                        </Badge>
                       ))}
                     </div>
+                  </div>
+                </CardContent>
+              </Card>
 
-                    {/* Project List */}
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between">
-                        <Label className="text-base">Linear Projects</Label>
-                        <span className="text-sm text-muted-foreground">
-                          {projectsData.projects.filter(p => !p.isExcluded).length} of {projectsData.totalProjects} projects enabled · {projectsData.totalIssues} issues
-                        </span>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Package className="w-5 h-5" />
+                    Product Project Mappings
+                  </CardTitle>
+                  <CardDescription>
+                    Configure which Linear projects map to each product. Features from these projects will appear under the corresponding product in the dashboard.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {projectsData && (
+                    <>
+                      {/* Summary by Product */}
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {projectsData.products.map((product) => (
+                          <div key={product.id} className="p-4 border rounded-lg">
+                            <p className="font-medium">{product.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {projectsData.byProduct[product.id]?.projects.length || 0} projects
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              {projectsData.byProduct[product.id]?.issueCount || 0} issues
+                            </p>
+                            <Badge variant={product.stage === 'mature' ? 'default' : 'secondary'} className="mt-2">
+                              {product.stage}
+                            </Badge>
+                          </div>
+                        ))}
                       </div>
-                      <p className="text-sm text-muted-foreground">
-                        Toggle the switch to enable/disable projects. Disabled projects won&apos;t appear in the features list.
-                        You can also change which product a project maps to using the dropdown.
-                      </p>
-                    </div>
 
-                    <div className="border rounded-lg divide-y max-h-[500px] overflow-y-auto">
-                      {projectsData.projects.map((project) => {
-                        const effectiveProduct = project.customProduct || project.autoDetectedProduct;
-                        const isCustom = !!project.customProduct;
-                        const isExcluded = project.isExcluded || false;
+                      {/* Project List */}
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label className="text-base">Linear Projects</Label>
+                          <span className="text-sm text-muted-foreground">
+                            {projectsData.projects.filter(p => !p.isExcluded).length} of {projectsData.totalProjects} projects enabled · {projectsData.totalIssues} issues
+                          </span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Toggle the switch to enable/disable projects. Disabled projects won&apos;t appear in the features list.
+                          You can also change which product a project maps to using the dropdown.
+                        </p>
+                      </div>
 
-                        return (
-                          <div
-                            key={project.id}
-                            className={`p-3 flex items-center justify-between hover:bg-muted/50 ${isExcluded ? 'opacity-50 bg-muted/30' : ''}`}
-                          >
-                            <div className="flex items-center gap-3">
-                              <Switch
-                                checked={!isExcluded}
-                                onCheckedChange={() => handleToggleProjectIncluded(project.id, isExcluded)}
-                                disabled={savingProject === project.id}
-                              />
-                              <div className="flex-1 min-w-0">
-                                <div className="flex items-center gap-2">
-                                  <FolderKanban className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-                                  <span className={`font-medium truncate ${isExcluded ? 'line-through' : ''}`}>{project.name}</span>
-                                  {isCustom && (
-                                    <Badge variant="outline" className="text-xs">Custom</Badge>
-                                  )}
-                                  {isExcluded && (
-                                    <Badge variant="secondary" className="text-xs">Disabled</Badge>
-                                  )}
-                                </div>
-                                <div className="flex items-center gap-3 mt-1 text-sm text-muted-foreground">
-                                  <span>{project.issueCount} issues</span>
-                                  {!isCustom && (
-                                    <span className="text-xs">Auto-detected</span>
-                                  )}
+                      <div className="border rounded-lg divide-y max-h-[500px] overflow-y-auto">
+                        {projectsData.projects.map((project) => {
+                          const effectiveProduct = project.customProduct || project.autoDetectedProduct;
+                          const isCustom = !!project.customProduct;
+                          const isExcluded = project.isExcluded || false;
+
+                          return (
+                            <div
+                              key={project.id}
+                              className={`p-3 flex items-center justify-between hover:bg-muted/50 ${isExcluded ? 'opacity-50 bg-muted/30' : ''}`}
+                            >
+                              <div className="flex items-center gap-3">
+                                <Switch
+                                  checked={!isExcluded}
+                                  onCheckedChange={() => handleToggleProjectIncluded(project.id, isExcluded)}
+                                  disabled={savingProject === project.id}
+                                />
+                                <div className="flex-1 min-w-0">
+                                  <div className="flex items-center gap-2">
+                                    <FolderKanban className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                                    <span className={`font-medium truncate ${isExcluded ? 'line-through' : ''}`}>{project.name}</span>
+                                    {isCustom && (
+                                      <Badge variant="outline" className="text-xs">Custom</Badge>
+                                    )}
+                                    {isExcluded && (
+                                      <Badge variant="secondary" className="text-xs">Disabled</Badge>
+                                    )}
+                                  </div>
+                                  <div className="flex items-center gap-3 mt-1 text-sm text-muted-foreground">
+                                    <span>{project.issueCount} issues</span>
+                                    {!isCustom && (
+                                      <span className="text-xs">Auto-detected</span>
+                                    )}
+                                  </div>
                                 </div>
                               </div>
-                            </div>
-                            <div className="flex items-center gap-2">
-                              <Select
-                                value={effectiveProduct}
-                                onValueChange={(v) => handleSetProjectMapping(project.id, v as Product)}
-                                disabled={savingProject === project.id || isExcluded}
-                              >
-                                <SelectTrigger className="w-[180px]">
-                                  {savingProject === project.id ? (
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                  ) : (
-                                    <SelectValue />
-                                  )}
-                                </SelectTrigger>
-                                <SelectContent>
-                                  {projectsData.products.map((p) => (
-                                    <SelectItem key={p.id} value={p.id}>
-                                      {p.name}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                              {isCustom && (
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  onClick={() => handleRemoveProjectMapping(project.id)}
-                                  disabled={savingProject === project.id}
-                                  title="Reset to auto-detect"
+                              <div className="flex items-center gap-2">
+                                <Select
+                                  value={effectiveProduct}
+                                  onValueChange={(v) => handleSetProjectMapping(project.id, v as Product)}
+                                  disabled={savingProject === project.id || isExcluded}
                                 >
-                                  <RotateCcw className="w-4 h-4" />
-                                </Button>
-                              )}
+                                  <SelectTrigger className="w-[180px]">
+                                    {savingProject === project.id ? (
+                                      <Loader2 className="w-4 h-4 animate-spin" />
+                                    ) : (
+                                      <SelectValue />
+                                    )}
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {projectsData.products.map((p) => (
+                                      <SelectItem key={p.id} value={p.id}>
+                                        {p.name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                {isCustom && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleRemoveProjectMapping(project.id)}
+                                    disabled={savingProject === project.id}
+                                    title="Reset to auto-detect"
+                                  >
+                                    <RotateCcw className="w-4 h-4" />
+                                  </Button>
+                                )}
+                              </div>
                             </div>
-                          </div>
-                        );
-                      })}
-                    </div>
+                          );
+                        })}
+                      </div>
 
-                    {projectsData.syncedAt && (
-                      <p className="text-xs text-muted-foreground">
-                        Last synced: {new Date(projectsData.syncedAt).toLocaleString()}
-                      </p>
-                    )}
-                  </>
-                )}
+                      {projectsData.syncedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          Last synced: {new Date(projectsData.syncedAt).toLocaleString()}
+                        </p>
+                      )}
+                    </>
+                  )}
 
-                {!projectsData && (
-                  <div className="text-center py-8 text-muted-foreground">
-                    <p>No projects found. Sync from Linear first.</p>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+                  {!projectsData && (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <p>No projects found. Sync from Linear first.</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
           </TabsContent>
 
           {/* Framework Settings */}
@@ -945,12 +1387,78 @@ GEMINI_API_KEY=AIzaSyxxxxx`}
                 </CardContent>
               </Card>
 
+              {/* Custom Frameworks */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Custom Frameworks</CardTitle>
+                  <CardDescription>
+                    Define your own factors and a formula that combines them into a score
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CustomFrameworkEditor
+                    frameworks={settings.customFrameworks}
+                    activeFramework={settings.activeFramework}
+                    onChange={(customFrameworks) => setSettings({
+                      ...settings,
+                      customFrameworks,
+                      // Deleting the active framework switches scoring back to weighted
+                      activeFramework: !isCustomFramework(settings.activeFramework) || customFrameworks.some(f => f.id === settings.activeFramework)
+                        ? settings.activeFramework
+                        : 'weighted',
+                    })}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Weight Profiles */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Weight Profiles</CardTitle>
+                  <CardDescription>
+                    Named weights and tier multipliers for products or Linear teams that shouldn&apos;t use their stage&apos;s defaults
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <WeightProfileEditor
+                    profiles={settings.weightProfiles}
+                    assignments={settings.profileAssignments}
+                    stageWeights={settings.weights}
+                    tierMultipliers={settings.tierMultipliers}
+                    onChange={(updates) => setSettings({ ...settings, ...updates })}
+                  />
+                </CardContent>
+              </Card>
+
+              {/* Weight Simulator */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>What-If Simulator</CardTitle>
+                  <CardDescription>
+                    Try different weights and tier multipliers and see how the ranking would change, using the existing AI scores
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <WeightSimulator
+                    weights={settings.weights}
+                    tierMultipliers={settings.tierMultipliers}
+                    activeFramework={settings.activeFramework}
+                    customFrameworks={settings.customFrameworks}
+                    scenarios={settings.weightScenarios}
+                    weightProfiles={settings.weightProfiles}
+                    profileAssignments={settings.profileAssignments}
+                    onChange={(updates) => setSettings({ ...settings, ...updates })}
+                  />
+                </CardContent>
+              </Card>
+
               {/* Framework Explainer */}
               <FrameworkExplainer
                 framework={settings.activeFramework}
                 product="chat"
                 showDetails={true}
                 enhancedConfig={settings.promptConfig.enhanced}
+                customFrameworks={settings.customFrameworks}
               />
 
               {/* Example Calculation */}
@@ -1097,6 +1605,26 @@ GEMINI_API_KEY=AIzaSyxxxxx`}
               </CardContent>
             </Card>
 
+            {/* Semantic Matching Section */}
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Tags className="w-5 h-5" />
+                  Semantic Matching
+                </CardTitle>
+                <CardDescription>
+                  How Linear issues are related to customer feedback
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SemanticMatchingEditor
+                  value={settings.semanticMatching}
+                  onChange={(semanticMatching) => updateSettings({ semanticMatching })}
+                  hasUnsavedChanges={hasChanges}
+                />
+              </CardContent>
+            </Card>
+
             {/* AI Scoring Status Section */}
             <Card className="mt-6">
               <CardHeader>
@@ -1305,7 +1833,8 @@ GEMINI_API_KEY=AIzaSyxxxxx`}
                   </AccordionTrigger>
                   <AccordionContent className="space-y-4 pt-4">
                     <p className="text-sm text-muted-foreground">
-                      Features aligned with these goals will score higher on Strategic Alignment.
+                      Features aligned with these goals will score higher on Strategic Alignment. Features in a linked
+                      Linear initiative score at least 8 (primary) or 6 (secondary).
                     </p>
                     <div className="space-y-3">
                       {(settings.promptConfig.enhanced?.strategicGoals || []).map((goal, index) => (
@@ -1372,6 +1901,33 @@ GEMINI_API_KEY=AIzaSyxxxxx`}
                               </label>
                             ))}
                           </div>
+                          {initiatives.length > 0 && (
+                            <div className="space-y-1">
+                              <Label className="text-xs text-muted-foreground">Linear initiatives delivering this goal</Label>
+                              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                                {initiatives.map((initiative) => (
+                                  <label key={initiative.id} className="flex items-center gap-1 text-sm">
+                                    <input
+                                      type="checkbox"
+                                      checked={goal.initiativeIds?.includes(initiative.id) || false}
+                                      onChange={(e) => {
+                                        const enhanced = settings.promptConfig.enhanced || defaultEnhancedPromptConfig;
+                                        const goals = [...enhanced.strategicGoals];
+                                        const current = goals[index].initiativeIds || [];
+                                        const initiativeIds = e.target.checked
+                                          ? [...current, initiative.id]
+                                          : current.filter(id => id !== initiative.id);
+                                        goals[index] = { ...goals[index], initiativeIds };
+                                        updatePromptConfig({ enhanced: { ...enhanced, strategicGoals: goals } });
+                                      }}
+                                      className="rounded"
+                                    />
+                                    {initiative.name}
+                                  </label>
+                                ))}
+                              </div>
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -2129,6 +2685,53 @@ GEMINI_API_KEY=AIzaSyxxxxx`}
           </TabsContent>
 
           {/* Usage Stats */}
+          <TabsContent value="import">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Upload className="w-5 h-5" />
+                  Import Feature Requests
+                </CardTitle>
+                <CardDescription>
+                  Add feature requests from a CSV or JSON file, e.g. a spreadsheet export, without syncing them from Linear
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <FeatureImport />
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Building2 className="w-5 h-5" />
+                  Customer Accounts
+                </CardTitle>
+                <CardDescription>
+                  Accounts with their ARR and renewal dates, used to weight features by the revenue asking for them
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AccountImport />
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MessageSquare className="w-5 h-5" />
+                  Feedback Files
+                </CardTitle>
+                <CardDescription>
+                  Feedback exported to CSV from any tool, matched to features alongside Featurebase, Zendesk and the other sources
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <FeedbackCsvUpload />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="usage">
             <Card>
               <CardHeader>
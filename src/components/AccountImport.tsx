@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from '@/hooks/useToast';
+import { Account } from '@/lib/types';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+
+interface AccountSourceStatus {
+  id: string;
+  name: string;
+  configured: boolean;
+}
+
+interface ImportResult {
+  added: number;
+  updated: number;
+  removed: number;
+  linked: number;
+  unknownIdentifiers: string[];
+  errors: Array<{ row: number; message: string }>;
+}
+
+const ACCOUNTS_SHOWN = 10;
+
+function formatArr(arr: number): string {
+  return `$${arr.toLocaleString('en-US')}`;
+}
+
+// Customer accounts with ARR, from a CSV file or the CRM
+export function AccountImport() {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [sources, setSources] = useState<AccountSourceStatus[]>([]);
+  const [mode, setMode] = useState<'append' | 'replace'>('append');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/accounts');
+      if (!response.ok) return;
+      const data = await response.json();
+      setAccounts(data.accounts || []);
+      setSources(data.sources || []);
+    } catch {
+      // Ignore; the summary only shows what is already stored
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    const input = event.target;
+
+    try {
+      setIsImporting(true);
+      setResult(null);
+      const response = await fetch('/api/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'import', content: await selected.text(), mode, createdBy: 'PM' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        if (data.errors) setResult({ added: 0, updated: 0, removed: 0, linked: 0, unknownIdentifiers: [], errors: data.errors });
+        throw new Error(data.error || 'Import failed');
+      }
+
+      setResult(data);
+      toast({
+        title: 'Accounts Imported',
+        description: `${data.added} added, ${data.updated} updated${data.removed ? `, ${data.removed} removed` : ''}, ${data.linked} feature links`,
+        variant: 'success',
+      });
+      await fetchAccounts();
+    } catch (err) {
+      toast({
+        title: 'Import Failed',
+        description: err instanceof Error ? err.message : 'Import failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsImporting(false);
+      input.value = '';
+    }
+  };
+
+  const handleSync = async () => {
+    try {
+      setIsSyncing(true);
+      const response = await fetch('/api/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'sync' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.details || data.error || 'Sync failed');
+      }
+
+      toast({
+        title: 'Accounts Synced',
+        description: data.results.map((r: { name: string; count: number }) => `${r.count} from ${r.name}`).join(', '),
+        variant: 'success',
+      });
+      await fetchAccounts();
+    } catch (err) {
+      toast({
+        title: 'Sync Failed',
+        description: err instanceof Error ? err.message : 'Sync failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm(`Remove all ${accounts.length} accounts and their feature links?`)) return;
+
+    try {
+      const response = await fetch('/api/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'clear' }),
+      });
+      if (!response.ok) throw new Error('Failed to clear accounts');
+      setResult(null);
+      await fetchAccounts();
+    } catch (err) {
+      toast({
+        title: 'Clear Failed',
+        description: err instanceof Error ? err.message : 'Failed to clear accounts',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const totalArr = accounts.reduce((sum, a) => sum + a.arr, 0);
+  const crmConfigured = sources.some(s => s.configured);
+
+  return (
+    <div className="space-y-6">
+      {/* Already stored */}
+      <div className="flex items-center justify-between p-4 border rounded-lg">
+        <div>
+          <p className="font-medium">
+            {accounts.length} accounts, {formatArr(totalArr)} ARR
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Features requested by these accounts get their tier and a revenue impact floor from the combined ARR
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSync}
+            disabled={isSyncing || !crmConfigured}
+            title={crmConfigured ? undefined : 'Add a HubSpot access token in API Keys to sync accounts'}
+          >
+            {isSyncing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Sync from HubSpot
+          </Button>
+          {accounts.length > 0 && (
+            <Button variant="outline" size="sm" onClick={handleClear}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* CSV upload */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>CSV file</Label>
+          <Input type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={isImporting} />
+          <p className="text-xs text-muted-foreground">
+            Columns: name, tier, arr, renewal date, segment, id and features (Linear identifiers such as CHAT-123)
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label>Mode</Label>
+          <Select value={mode} onValueChange={(v) => setMode(v as 'append' | 'replace')}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="append">Add to or update accounts</SelectItem>
+              <SelectItem value="replace">Replace accounts from earlier CSV imports</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isImporting && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Importing accounts...
+        </div>
+      )}
+
+      {/* Last import */}
+      {result && (
+        <div className="space-y-2">
+          {result.unknownIdentifiers.length > 0 && (
+            <div className="p-3 bg-muted rounded-lg text-sm flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              Features not found: {result.unknownIdentifiers.join(', ')}
+            </div>
+          )}
+          {result.errors.length > 0 && (
+            <div className="max-h-40 overflow-y-auto border rounded-lg p-3 text-sm space-y-1">
+              {result.errors.map((error, index) => (
+                <p key={index} className="text-destructive">
+                  {error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Largest accounts */}
+      {accounts.length > 0 && (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead>Tier</TableHead>
+                <TableHead>Segment</TableHead>
+                <TableHead>Renewal</TableHead>
+                <TableHead className="text-right">ARR</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accounts.slice(0, ACCOUNTS_SHOWN).map((account) => (
+                <TableRow key={account.id}>
+                  <TableCell className="font-medium">{account.name}</TableCell>
+                  <TableCell><Badge variant="outline">{account.tier}</Badge></TableCell>
+                  <TableCell className="text-muted-foreground">{account.segment}</TableCell>
+                  <TableCell className="text-muted-foreground">{account.renewalDate}</TableCell>
+                  <TableCell className="text-right">{formatArr(account.arr)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {accounts.length > ACCOUNTS_SHOWN && (
+            <p className="p-3 text-sm text-muted-foreground border-t">
+              and {accounts.length - ACCOUNTS_SHOWN} more
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from '@/hooks/useToast';
+import { CustomFramework, CustomFrameworkFactor, ScoringFramework } from '@/lib/types';
+import { FORMULA_FUNCTIONS, validateFormula } from '@/lib/scoring/formula';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+interface CustomFrameworkEditorProps {
+  frameworks: CustomFramework[];
+  activeFramework: ScoringFramework;
+  onChange: (frameworks: CustomFramework[]) => void;
+}
+
+// Framework being created (no ID) or edited
+type Draft = Pick<CustomFramework, 'name' | 'description' | 'formula' | 'factors'> & {
+  id?: CustomFramework['id'];
+};
+
+const EMPTY_FACTOR: CustomFrameworkFactor = {
+  key: '',
+  label: '',
+  scale: { min: 1, max: 10 },
+  description: '',
+};
+
+const NEW_FRAMEWORK: Draft = {
+  name: '',
+  description: '',
+  formula: '',
+  factors: [{ ...EMPTY_FACTOR }],
+};
+
+// Create, edit and delete user-defined scoring frameworks; each save is validated by the server
+export function CustomFrameworkEditor({ frameworks, activeFramework, onChange }: CustomFrameworkEditorProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (framework?: CustomFramework) => {
+    setDraft(framework
+      ? { ...framework, factors: framework.factors.map(f => ({ ...f, scale: { ...f.scale } })) }
+      : { ...NEW_FRAMEWORK, factors: [{ ...EMPTY_FACTOR, scale: { ...EMPTY_FACTOR.scale } }] });
+    setErrors([]);
+  };
+
+  const updateFactor = (index: number, changes: Partial<CustomFrameworkFactor>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      factors: draft.factors.map((f, i) => (i === index ? { ...f, ...changes } : f)),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      setIsSaving(true);
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'saveCustomFramework', framework: draft }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.errors || [data.error || 'Failed to save framework']);
+        return;
+      }
+
+      const saved = data.result as CustomFramework;
+      const exists = frameworks.some(f => f.id === saved.id);
+      onChange(exists ? frameworks.map(f => (f.id === saved.id ? saved : f)) : [...frameworks, saved]);
+      setDraft(null);
+      setErrors([]);
+      toast({
+        title: 'Framework Saved',
+        description: `${saved.name} is available as a scoring framework`,
+        variant: 'success',
+      });
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to save framework']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (framework: CustomFramework) => {
+    const active = framework.id === activeFramework;
+    if (!confirm(`Delete ${framework.name}?${active ? ' It is the active framework; weighted scoring will be used instead.' : ''}`)) return;
+
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'deleteCustomFramework', id: framework.id }),
+      });
+      if (!response.ok) throw new Error('Failed to delete framework');
+      onChange(frameworks.filter(f => f.id !== framework.id));
+      if (draft?.id === framework.id) setDraft(null);
+    } catch (err) {
+      toast({
+        title: 'Delete Failed',
+        description: err instanceof Error ? err.message : 'Failed to delete framework',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Checked as the formula is typed; the server repeats the full validation on save
+  const formulaErrors = draft?.formula.trim()
+    ? validateFormula(draft.formula, draft.factors.map(f => f.key).filter(Boolean))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Saved frameworks */}
+      {frameworks.length === 0 && !draft && (
+        <p className="text-sm text-muted-foreground">
+          No custom frameworks yet. Define your own factors and a formula to score features with.
+        </p>
+      )}
+      {frameworks.length > 0 && (
+        <div className="space-y-2">
+          {frameworks.map((framework) => (
+            <div key={framework.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{framework.name}</span>
+                  {framework.id === activeFramework && <Badge variant="secondary">Active</Badge>}
+                  <span className="text-xs text-muted-foreground">{framework.factors.length} factors</span>
+                </div>
+                <p className="text-xs font-mono text-muted-foreground truncate">{framework.formula}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => startEditing(framework)} aria-label={`Edit ${framework.name}`}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(framework)} aria-label={`Delete ${framework.name}`}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!draft && (
+        <Button variant="outline" onClick={() => startEditing()}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Framework
+        </Button>
+      )}
+
+      {/* Create or edit */}
+      {draft && (
+        <div className="space-y-4 p-4 border rounded-lg">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Growth RICE"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="When to use this framework"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Factors</Label>
+            <p className="text-sm text-muted-foreground">
+              The AI scores each factor within its scale from the description. Keys of built-in factors
+              (such as reach or effort) are taken, so each framework keeps its own scores.
+            </p>
+            {draft.factors.map((factor, index) => (
+              <div key={index} className="grid grid-cols-[8rem_10rem_4.5rem_4.5rem_1fr_auto] gap-2 items-start">
+                <Input
+                  value={factor.key}
+                  onChange={(e) => updateFactor(index, { key: e.target.value.trim() })}
+                  placeholder="key"
+                  className="font-mono"
+                  aria-label="Factor key"
+                />
+                <Input
+                  value={factor.label}
+                  onChange={(e) => updateFactor(index, { label: e.target.value })}
+                  placeholder="Label"
+                  aria-label="Factor label"
+                />
+                <Input
+                  type="number"
+                  value={factor.scale.min}
+                  onChange={(e) => updateFactor(index, { scale: { ...factor.scale, min: parseFloat(e.target.value) } })}
+                  aria-label="Scale minimum"
+                />
+                <Input
+                  type="number"
+                  value={factor.scale.max}
+                  onChange={(e) => updateFactor(index, { scale: { ...factor.scale, max: parseFloat(e.target.value) } })}
+                  aria-label="Scale maximum"
+                />
+                <Textarea
+                  value={factor.description}
+                  onChange={(e) => updateFactor(index, { description: e.target.value })}
+                  placeholder="What should the AI evaluate? e.g. How many customers will this affect per quarter?"
+                  className="min-h-9"
+                  aria-label="Factor description"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, factors: draft.factors.filter((_, i) => i !== index) })}
+                  disabled={draft.factors.length === 1}
+                  aria-label="Remove factor"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft({ ...draft, factors: [...draft.factors, { ...EMPTY_FACTOR, scale: { ...EMPTY_FACTOR.scale } }] })}
+            >
+              <Plus className="w-4 h-4 mr-1" /> Add Factor
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Formula</Label>
+            <Input
+              value={draft.formula}
+              onChange={(e) => setDraft({ ...draft, formula: e.target.value })}
+              placeholder="(audience * benefit * certainty) / cost"
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              Factor keys, numbers, + - * / ^, parentheses and {FORMULA_FUNCTIONS.map(f => `${f}()`).join(', ')}.
+              Results are kept between 0 and 10, then the customer tier multiplier is applied.
+            </p>
+            {formulaErrors.map((error) => (
+              <p key={error} className="text-xs text-destructive">{error}</p>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+            <div className="p-3 border border-destructive/50 rounded-lg text-sm space-y-1">
+              <p className="flex items-center gap-2 font-medium text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                The framework was not saved
+              </p>
+              {errors.map((error) => (
+                <p key={error} className="text-destructive">{error}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {draft.id ? 'Save Framework' : 'Create Framework'}
+            </Button>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CustomFrameworkEditor;
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import type { ExportFormat } from '@/lib/feature-export';
+import { Product, ScoringFramework } from '@/lib/types';
+import { toast } from '@/hooks/useToast';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, Loader2 } from 'lucide-react';
+
+// What the current page shows; featureIds narrows the export to searched/filtered rows, in display order
+export interface ExportScope {
+  product?: Product;
+  framework: ScoringFramework;
+  featureIds?: string[];
+}
+
+interface ExportMenuProps extends ExportScope {
+  disabled?: boolean;
+}
+
+const FORMAT_OPTIONS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'excel', label: 'CSV for Excel' },
+  { format: 'json', label: 'JSON' },
+  { format: 'markdown', label: 'Markdown table' },
+];
+
+// Pull the file name out of the Content-Disposition header
+function getFileName(response: Response, format: ExportFormat): string {
+  const match = response.headers.get('content-disposition')?.match(/filename="([^"]+)"/);
+  return match ? match[1] : `backlog.${format === 'markdown' ? 'md' : format === 'json' ? 'json' : 'csv'}`;
+}
+
+export function ExportMenu({ product, framework, featureIds, disabled }: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setIsExporting(true);
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, product, framework, featureIds }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.details || data.error || 'Export failed');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getFileName(response, format);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast({
+        title: 'Export Failed',
+        description: err instanceof Error ? err.message : 'Export failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || isExporting}>
+          {isExporting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>
+          {featureIds ? `Export ${featureIds.length} features` : 'Export all features'}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMAT_OPTIONS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default ExportMenu;
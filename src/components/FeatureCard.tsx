@@ -113,9 +113,9 @@ export function FeatureCard({ feature, rank, showProduct = true }: FeatureCardPr
 
           {/* Duplicate indicator */}
           {feature.isDuplicate && (
-            <Badge variant="secondary" className="text-xs py-0 h-5 bg-orange-100 text-orange-800 border-orange-200" title={`Duplicate of ${feature.duplicateOfIdentifier}`}>
+            <Badge variant="secondary" className="text-xs py-0 h-5 bg-orange-100 text-orange-800 border-orange-200" title={`${feature.duplicateStatus === 'suspected' ? 'Possible duplicate' : 'Duplicate'} of ${feature.duplicateOfIdentifier}`}>
               <Copy className="w-3 h-3 mr-1" />
-              Duplicate of {feature.duplicateOfIdentifier}
+              {feature.duplicateStatus === 'suspected' ? 'Possible duplicate' : 'Duplicate'} of {feature.duplicateOfIdentifier}
             </Badge>
           )}
 
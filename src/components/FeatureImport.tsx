@@ -0,0 +1,391 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from '@/hooks/useToast';
+import {
+  CustomerTier,
+  ImportColumnMapping,
+  ImportField,
+  ImportPreview,
+  ImportedFeature,
+  Product,
+} from '@/lib/types';
+import { allProductIds, getProductDisplayName } from '@/config/products';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, Check, Loader2, Trash2, Upload } from 'lucide-react';
+
+const FIELDS: Array<{ field: ImportField; label: string; required?: boolean }> = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'description', label: 'Description' },
+  { field: 'product', label: 'Product' },
+  { field: 'tier', label: 'Customer tier' },
+  { field: 'labels', label: 'Labels' },
+  { field: 'upvotes', label: 'Upvotes' },
+];
+
+const TIERS: CustomerTier[] = ['C1', 'C2', 'C3', 'C4', 'C5'];
+
+// Radix Select can't use an empty string as an item value
+const UNMAPPED = '__none__';
+
+interface LoadedFile {
+  name: string;
+  content: string;
+  format: 'csv' | 'json';
+}
+
+// Bulk import of feature requests from CSV or JSON, for teams not tracking them in Linear
+export function FeatureImport() {
+  const [imported, setImported] = useState<ImportedFeature[]>([]);
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping | undefined>(undefined);
+  const [defaultProduct, setDefaultProduct] = useState<Product>('chat');
+  const [defaultTier, setDefaultTier] = useState<CustomerTier>('C4');
+  const [mode, setMode] = useState<'append' | 'replace'>('append');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const fetchImported = useCallback(async () => {
+    try {
+      const response = await fetch('/api/import');
+      if (!response.ok) return;
+      const data = await response.json();
+      setImported(data.features || []);
+    } catch {
+      // Ignore; the list only shows what is already imported
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchImported();
+  }, [fetchImported]);
+
+  // Re-validate whenever the file, mapping or defaults change
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    const runPreview = async () => {
+      setIsPreviewing(true);
+      try {
+        const response = await fetch('/api/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            action: 'preview',
+            content: file.content,
+            format: file.format,
+            mapping,
+            defaults: { product: defaultProduct, tier: defaultTier },
+          }),
+        });
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok) {
+          setPreview(null);
+          setPreviewError(data.details || data.error || 'Could not preview file');
+          return;
+        }
+        setPreview(data.preview);
+        setPreviewError(null);
+        // Keep the guessed mapping so the selects show it
+        if (!mapping) setMapping(data.preview.mapping);
+      } catch {
+        if (!cancelled) setPreviewError('Could not preview file');
+      } finally {
+        if (!cancelled) setIsPreviewing(false);
+      }
+    };
+
+    runPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [file, mapping, defaultProduct, defaultTier]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    const content = await selected.text();
+    setMapping(undefined);
+    setPreview(null);
+    setFile({
+      name: selected.name,
+      content,
+      format: selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv',
+    });
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    const next = { ...mapping };
+    if (column === UNMAPPED) {
+      delete next[field];
+    } else {
+      next[field] = column;
+    }
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    if (!file || !mapping) return;
+
+    try {
+      setIsImporting(true);
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'import',
+          content: file.content,
+          format: file.format,
+          fileName: file.name,
+          mapping,
+          mode,
+          defaults: { product: defaultProduct, tier: defaultTier },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed');
+      }
+
+      toast({
+        title: 'Features Imported',
+        description: `${data.added} added, ${data.updated} updated${data.skipped ? `, ${data.skipped} rows skipped` : ''}`,
+        variant: 'success',
+      });
+      setFile(null);
+      setPreview(null);
+      setMapping(undefined);
+      await fetchImported();
+    } catch (err) {
+      toast({
+        title: 'Import Failed',
+        description: err instanceof Error ? err.message : 'Import failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm(`Remove all ${imported.length} imported features? Their scores stay stored but no longer show.`)) return;
+
+    try {
+      const response = await fetch('/api/import', { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to clear imported features');
+      await fetchImported();
+    } catch (err) {
+      toast({
+        title: 'Clear Failed',
+        description: err instanceof Error ? err.message : 'Failed to clear imported features',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const invalidRows = preview ? preview.totalRows - preview.validRows : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Already imported */}
+      <div className="flex items-center justify-between p-4 border rounded-lg">
+        <div>
+          <p className="font-medium">{imported.length} imported features</p>
+          <p className="text-sm text-muted-foreground">
+            Imported features are scored, filtered and exported like Linear issues, but are never pushed to Linear
+          </p>
+        </div>
+        {imported.length > 0 && (
+          <Button variant="outline" size="sm" onClick={handleClear}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {/* File and defaults */}
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>File (CSV or JSON)</Label>
+          <Input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} />
+        </div>
+        <div className="space-y-2">
+          <Label>Product when empty</Label>
+          <Select value={defaultProduct} onValueChange={(v) => setDefaultProduct(v as Product)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {allProductIds.map((product) => (
+                <SelectItem key={product} value={product}>
+                  {getProductDisplayName(product)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Tier when empty</Label>
+          <Select value={defaultTier} onValueChange={(v) => setDefaultTier(v as CustomerTier)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIERS.map((tier) => (
+                <SelectItem key={tier} value={tier}>
+                  {tier}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {previewError && (
+        <div className="p-3 bg-destructive/10 text-destructive rounded-lg text-sm flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          {previewError}
+        </div>
+      )}
+
+      {/* Column mapping */}
+      {preview && (
+        <div className="space-y-3">
+          <div>
+            <Label className="text-base font-medium">Column mapping</Label>
+            <p className="text-sm text-muted-foreground">
+              Labels may be comma-separated; tiers accept C1-C5 or 1-5; products accept the name or ID
+            </p>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            {FIELDS.map(({ field, label, required }) => (
+              <div key={field} className="space-y-1">
+                <Label className="text-sm">
+                  {label}
+                  {required && <span className="text-destructive"> *</span>}
+                </Label>
+                <Select
+                  value={mapping?.[field] || UNMAPPED}
+                  onValueChange={(v) => updateMapping(field, v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {preview.columns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Validation results */}
+      {preview && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-sm">
+            {isPreviewing && <Loader2 className="w-4 h-4 animate-spin" />}
+            <Badge variant="secondary" className="gap-1">
+              <Check className="w-3 h-3" />
+              {preview.validRows} of {preview.totalRows} rows valid
+            </Badge>
+            {invalidRows > 0 && (
+              <Badge variant="destructive" className="gap-1">
+                <AlertTriangle className="w-3 h-3" />
+                {invalidRows} rows will be skipped
+              </Badge>
+            )}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <div className="max-h-40 overflow-y-auto border rounded-lg p-3 text-sm space-y-1">
+              {preview.errors.map((error, index) => (
+                <p key={index} className="text-destructive">
+                  Row {error.row}: {error.message}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {preview.items.length > 0 && (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Tier</TableHead>
+                    <TableHead>Labels</TableHead>
+                    <TableHead className="text-right">Upvotes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.items.map((item) => (
+                    <TableRow key={item.row}>
+                      <TableCell className="text-muted-foreground">{item.row}</TableCell>
+                      <TableCell className="font-medium">{item.title}</TableCell>
+                      <TableCell>{getProductDisplayName(item.product)}</TableCell>
+                      <TableCell>{item.customerTier}</TableCell>
+                      <TableCell className="text-muted-foreground">{item.labels.join(', ')}</TableCell>
+                      <TableCell className="text-right">{item.upvotes ?? ''}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Select value={mode} onValueChange={(v) => setMode(v as 'append' | 'replace')}>
+              <SelectTrigger className="w-[260px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="append">Add to imported features</SelectItem>
+                <SelectItem value="replace">Replace all imported features</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleImport}
+              disabled={isImporting || isPreviewing || !mapping?.title || preview.validRows === 0}
+            >
+              {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Import {preview.validRows} features
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
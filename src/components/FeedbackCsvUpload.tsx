@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from '@/hooks/useToast';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Trash2 } from 'lucide-react';
+
+interface CsvFeedbackFile {
+  file: string;
+  rows: number;
+  modifiedAt: string;
+}
+
+// CSV files of feedback (survey results, call notes, ...) matched to features like other sources
+export function FeedbackCsvUpload() {
+  const [files, setFiles] = useState<CsvFeedbackFile[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const fetchFiles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/feedback/csv');
+      if (!response.ok) return;
+      const data = await response.json();
+      setFiles(data.files || []);
+    } catch {
+      // Ignore; the list only shows what is already stored
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFiles();
+  }, [fetchFiles]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    const input = event.target;
+
+    try {
+      setIsUploading(true);
+      setErrors([]);
+      const response = await fetch('/api/feedback/csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'upload', fileName: selected.name, content: await selected.text() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        if (data.errors) setErrors(data.errors);
+        throw new Error(data.error || 'Upload failed');
+      }
+
+      toast({
+        title: 'Feedback Uploaded',
+        description: `${data.rows} rows from ${data.file}`,
+        variant: 'success',
+      });
+      await fetchFiles();
+    } catch (err) {
+      toast({
+        title: 'Upload Failed',
+        description: err instanceof Error ? err.message : 'Upload failed',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
+      input.value = '';
+    }
+  };
+
+  const handleDelete = async (file: string) => {
+    if (!confirm(`Remove ${file} and its feedback?`)) return;
+
+    try {
+      const response = await fetch('/api/feedback/csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'delete', fileName: file }),
+      });
+      if (!response.ok) throw new Error('Failed to remove file');
+      await fetchFiles();
+    } catch (err) {
+      toast({
+        title: 'Remove Failed',
+        description: err instanceof Error ? err.message : 'Failed to remove file',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>CSV file</Label>
+        <Input type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={isUploading} />
+        <p className="text-xs text-muted-foreground">
+          Needs a title or description column; optional columns: url, author, account, votes, date and linear
+          (issue identifiers such as CHAT-123). A file with the same name is replaced.
+        </p>
+      </div>
+
+      {isUploading && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Uploading feedback...
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="border rounded-lg p-3 text-sm space-y-1">
+          {errors.map((error, index) => (
+            <p key={index} className="text-destructive">{error}</p>
+          ))}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead className="text-right">Rows</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {files.map((file) => (
+                <TableRow key={file.file}>
+                  <TableCell className="font-medium">{file.file}</TableCell>
+                  <TableCell className="text-right">{file.rows}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(file.modifiedAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(file.file)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { ScoringFramework, Product, EnhancedAIPromptConfig } from '@/lib/types';
+import { ScoringFramework, BuiltInFramework, CustomFramework, Product, EnhancedAIPromptConfig } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -9,8 +9,10 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from '@/components/ui/accordion';
-import { FRAMEWORK_CONFIGS, getFrameworkDisplayInfo } from '@/lib/ai/prompt-builder';
+import { getFrameworkConfig, getFrameworkDisplayInfo } from '@/lib/ai/prompt-builder';
 import { getWeightedFactors } from '@/lib/scoring/frameworks/weighted';
+import { findCustomFramework } from '@/lib/scoring/frameworks/custom';
+import { getAllKanoCategories } from '@/lib/scoring/frameworks/kano';
 import { getProductDisplayName } from '@/config/products';
 import { defaultEnhancedPromptConfig } from '@/lib/config/prompt-defaults';
 
@@ -20,15 +22,33 @@ interface FrameworkExplainerProps {
   showDetails?: boolean;
   compact?: boolean;
   enhancedConfig?: EnhancedAIPromptConfig;
+  customFrameworks?: CustomFramework[];
 }
 
 // Framework-specific formulas
-const FRAMEWORK_FORMULAS: Record<ScoringFramework, string> = {
+const FRAMEWORK_FORMULAS: Record<BuiltInFramework, string> = {
   weighted: 'Final Score = Σ(Weight × Factor Score) × Customer Tier Multiplier',
   rice: 'RICE Score = (Reach × Impact × Confidence) / Effort',
   ice: 'ICE Score = (Impact × Confidence × Ease) / 100',
   'value-effort': 'Quadrant = Value (Y-axis) vs Effort (X-axis)',
   moscow: 'Category: Must Have > Should Have > Could Have > Won\'t Have',
+  wsjf: 'WSJF = (Business Value + Time Criticality + Risk Reduction) / Job Size',
+  kano: 'Category: Must-be > Performance > Attractive > Indifferent > Reverse',
+};
+
+function getFormula(framework: ScoringFramework, custom?: CustomFramework): string {
+  if (custom) {
+    return `Score = (${custom.formula}) × Customer Tier Multiplier`;
+  }
+  return FRAMEWORK_FORMULAS[framework as BuiltInFramework] || FRAMEWORK_FORMULAS.weighted;
+}
+
+const KANO_BORDER_COLORS: Record<string, string> = {
+  red: 'border-red-500',
+  orange: 'border-orange-500',
+  blue: 'border-blue-500',
+  gray: 'border-gray-400',
+  purple: 'border-purple-500',
 };
 
 // Priority colors
@@ -47,10 +67,13 @@ export function FrameworkExplainer({
   showDetails = false,
   compact = false,
   enhancedConfig,
+  customFrameworks,
 }: FrameworkExplainerProps) {
   const config = enhancedConfig || defaultEnhancedPromptConfig;
-  const frameworkInfo = getFrameworkDisplayInfo(framework);
-  const frameworkConfig = FRAMEWORK_CONFIGS[framework];
+  const custom = findCustomFramework(framework, customFrameworks);
+  const frameworkInfo = getFrameworkDisplayInfo(framework, customFrameworks);
+  const frameworkConfig = getFrameworkConfig(framework, customFrameworks);
+  const formula = getFormula(framework, custom);
 
   // Get product-specific weights for weighted scoring
   const factors = product ? getWeightedFactors(product) : [];
@@ -84,7 +107,7 @@ export function FrameworkExplainer({
             {frameworkInfo.description}
           </p>
           <div className="text-xs font-mono bg-muted p-2 rounded">
-            {FRAMEWORK_FORMULAS[framework]}
+            {formula}
           </div>
         </CardContent>
       </Card>
@@ -137,7 +160,7 @@ export function FrameworkExplainer({
         <div className="space-y-2">
           <h4 className="text-sm font-semibold">FORMULA</h4>
           <div className="font-mono text-sm bg-muted p-3 rounded border">
-            {FRAMEWORK_FORMULAS[framework]}
+            {formula}
           </div>
         </div>
 
@@ -183,7 +206,7 @@ export function FrameworkExplainer({
         </div>
 
         {/* Factor Details (Expandable) */}
-        {(showDetails || framework === 'weighted') && (
+        {(showDetails || framework === 'weighted' || custom) && (
           <Accordion type="single" collapsible className="w-full">
             <AccordionItem value="factor-details">
               <AccordionTrigger className="text-sm">
@@ -270,6 +293,59 @@ export function FrameworkExplainer({
           </div>
         )}
 
+        {framework === 'kano' && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">CATEGORIES</h4>
+            <div className="space-y-2 text-sm">
+              {getAllKanoCategories().map((category) => (
+                <div key={category.id} className={`border-l-4 ${KANO_BORDER_COLORS[category.color]} pl-3 py-2`}>
+                  <div className="font-semibold">{category.label.toUpperCase()} (Score {category.score})</div>
+                  <div className="text-xs text-muted-foreground">{category.description}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {framework === 'wsjf' && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">FACTOR GUIDE</h4>
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="border rounded p-3">
+                <div className="font-semibold">Business Value</div>
+                <div className="text-xs text-muted-foreground">
+                  Value to users and the business<br />
+                  1: Low │ 5: Moderate │ 10: Exceptional
+                </div>
+              </div>
+              <div className="border rounded p-3">
+                <div className="font-semibold">Time Criticality</div>
+                <div className="text-xs text-muted-foreground">
+                  Value lost by waiting<br />
+                  1: Can wait │ 5: Some loss │ 10: Immediate loss
+                </div>
+              </div>
+              <div className="border rounded p-3">
+                <div className="font-semibold">Risk Reduction</div>
+                <div className="text-xs text-muted-foreground">
+                  Risk removed or opportunity enabled<br />
+                  1: None │ 5: Moderate │ 10: Critical
+                </div>
+              </div>
+              <div className="border rounded p-3">
+                <div className="font-semibold">Job Size</div>
+                <div className="text-xs text-muted-foreground">
+                  Relative size of the work<br />
+                  1: Days │ 5: 1-2 months │ 10: 4+ months
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The first three add up to the Cost of Delay. WSJF above 10 is capped at 10.
+            </p>
+          </div>
+        )}
+
         {framework === 'rice' && (
           <div className="space-y-2">
             <h4 className="text-sm font-semibold">FACTOR GUIDE</h4>
@@ -4,9 +4,10 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ScoringFramework, Product } from '@/lib/types';
+import { ScoringFramework, Product, SourceSyncStatus } from '@/lib/types';
 import { Settings, RefreshCw, Upload, ChevronRight, Sparkles, Loader2 } from 'lucide-react';
 import SyncStatus from './SyncStatus';
+import ExportMenu, { ExportScope } from './ExportMenu';
 import { getProductDisplayName } from '@/config/products';
 import {
   Tooltip,
@@ -41,6 +42,7 @@ interface HeaderProps {
   activeFramework: ScoringFramework;
   onFrameworkChange: (framework: ScoringFramework) => void;
   lastSynced: string | null;
+  syncSources?: SourceSyncStatus[];
   isSyncing?: boolean;
   onSyncFromLinear: () => void;
   onPushToLinear: () => void;
@@ -54,12 +56,15 @@ interface HeaderProps {
   isScoring?: boolean;
   scoringJob?: ScoringJob | null;
   onStartScoring?: (forceRescore?: boolean) => void;
+  // Shows the export button for the features on the page
+  exportScope?: ExportScope;
 }
 
 export function Header({
   activeFramework,
   onFrameworkChange,
   lastSynced,
+  syncSources,
   isSyncing,
   onSyncFromLinear,
   onPushToLinear,
@@ -72,6 +77,7 @@ export function Header({
   isScoring,
   scoringJob,
   onStartScoring,
+  exportScope,
 }: HeaderProps) {
   const pathname = usePathname();
 
@@ -133,6 +139,39 @@ export function Header({
             >
               Products
             </Link>
+            <Link
+              href="/consensus"
+              className={cn(
+                'px-3 py-2 text-sm rounded-md transition-colors',
+                pathname === '/consensus'
+                  ? 'text-foreground font-medium bg-accent'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-accent/50'
+              )}
+            >
+              Consensus
+            </Link>
+            <Link
+              href="/duplicates"
+              className={cn(
+                'px-3 py-2 text-sm rounded-md transition-colors',
+                pathname === '/duplicates'
+                  ? 'text-foreground font-medium bg-accent'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-accent/50'
+              )}
+            >
+              Duplicates
+            </Link>
+            <Link
+              href="/push-history"
+              className={cn(
+                'px-3 py-2 text-sm rounded-md transition-colors',
+                pathname === '/push-history'
+                  ? 'text-foreground font-medium bg-accent'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-accent/50'
+              )}
+            >
+              History
+            </Link>
             <Link
               href="/settings"
               className={cn(
@@ -212,8 +251,16 @@ export function Header({
             </TooltipProvider>
           )}
 
+          {/* Export Button */}
+          {exportScope && (
+            <ExportMenu
+              {...exportScope}
+              disabled={exportScope.featureIds?.length === 0}
+            />
+          )}
+
           {/* Sync Status */}
-          <SyncStatus lastSynced={lastSynced} isSyncing={isSyncing} />
+          <SyncStatus lastSynced={lastSynced} sources={syncSources} isSyncing={isSyncing} />
 
           {/* Sync from Linear Button */}
           <Button
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { LinearPushPlanItem, Product } from '@/lib/types';
+import { Loader2, Upload, ArrowRight, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface LinearPushDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product?: Product;
+  onPushed?: (result: { syncedCount: number; failedCount: number; skippedCount: number }) => void;
+}
+
+const PRIORITY_NAMES: Record<number, string> = {
+  0: 'No priority',
+  1: 'Urgent',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low',
+};
+
+function isChanged(item: LinearPushPlanItem): boolean {
+  return item.priorityChanged || item.sortOrderChanged || !!item.labelsChanged;
+}
+
+export function LinearPushDialog({ open, onOpenChange, product, onPushed }: LinearPushDialogProps) {
+  const [plan, setPlan] = useState<LinearPushPlanItem[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [addComments, setAddComments] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPushing, setIsPushing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPlan = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPlan(null);
+
+      const response = await fetch('/api/linear', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ product, dryRun: true }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to preview push');
+      }
+
+      const items = data.plan as LinearPushPlanItem[];
+      setPlan(items);
+      setSelected(new Set(items.filter(isChanged).map(item => item.issueId)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview push');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [product]);
+
+  useEffect(() => {
+    if (open) {
+      loadPlan();
+    }
+  }, [open, loadPlan]);
+
+  const changedItems = useMemo(() => (plan || []).filter(isChanged), [plan]);
+  const visibleItems = showUnchanged ? plan || [] : changedItems;
+  const allChangedSelected = changedItems.length > 0 && changedItems.every(item => selected.has(item.issueId));
+  const showLabels = (plan || []).some(item => item.labels);
+
+  const toggleItem = (issueId: string) => {
+    const next = new Set(selected);
+    if (next.has(issueId)) {
+      next.delete(issueId);
+    } else {
+      next.add(issueId);
+    }
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    setSelected(allChangedSelected ? new Set() : new Set(changedItems.map(item => item.issueId)));
+  };
+
+  const handleConfirm = async () => {
+    try {
+      setIsPushing(true);
+      setError(null);
+
+      const response = await fetch('/api/linear', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ product, addComments, issueIds: Array.from(selected) }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Push to Linear failed');
+      }
+
+      onPushed?.({
+        syncedCount: data.syncedCount,
+        failedCount: data.failedCount,
+        skippedCount: data.skippedCount,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Push to Linear failed');
+    } finally {
+      setIsPushing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5" />
+            Review Push to Linear
+          </DialogTitle>
+          <DialogDescription>
+            Current Linear values compared with the proposed priorities. Only selected issues that changed will be written.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Comparing with Linear...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {plan && !isLoading && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {changedItems.length} of {plan.length} issues would change · {selected.size} selected
+              </span>
+              <div className="flex items-center gap-2">
+                <Switch id="show-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                <Label htmlFor="show-unchanged" className="text-sm font-normal">Show unchanged</Label>
+              </div>
+            </div>
+
+            {visibleItems.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Linear already matches the current priorities. Nothing to push.
+              </div>
+            ) : (
+              <ScrollArea className="h-[420px] border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <input
+                          type="checkbox"
+                          checked={allChangedSelected}
+                          onChange={toggleAll}
+                          disabled={changedItems.length === 0}
+                          aria-label="Select all changed issues"
+                          className="rounded"
+                        />
+                      </TableHead>
+                      <TableHead>Issue</TableHead>
+                      <TableHead className="text-right">Score</TableHead>
+                      <TableHead>Priority</TableHead>
+                      <TableHead>Sort order</TableHead>
+                      {showLabels && <TableHead>Labels</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleItems.map((item) => {
+                      const changed = isChanged(item);
+                      return (
+                        <TableRow key={item.issueId} className={cn(!changed && 'opacity-50')}>
+                          <TableCell>
+                            <input
+                              type="checkbox"
+                              checked={selected.has(item.issueId)}
+                              onChange={() => toggleItem(item.issueId)}
+                              disabled={!changed}
+                              aria-label={`Select ${item.identifier}`}
+                              className="rounded"
+                            />
+                          </TableCell>
+                          <TableCell className="max-w-[320px]">
+                            <div className="flex items-center gap-2">
+                              <span className="font-mono text-xs text-muted-foreground">{item.identifier}</span>
+                              <span className="truncate">{item.title}</span>
+                            </div>
+                            {item.projectName && (
+                              <p className="text-xs text-muted-foreground truncate">{item.projectName}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{item.finalScore.toFixed(1)}</TableCell>
+                          <TableCell>
+                            {item.priorityChanged ? (
+                              <span className="flex items-center gap-1 text-sm">
+                                <span className="text-muted-foreground">{PRIORITY_NAMES[item.current.priority] ?? item.current.priority}</span>
+                                <ArrowRight className="w-3 h-3" />
+                                <Badge variant="secondary">{PRIORITY_NAMES[item.proposed.priority]}</Badge>
+                              </span>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">{PRIORITY_NAMES[item.current.priority] ?? item.current.priority}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {item.sortOrderChanged ? (
+                              <span className="flex items-center gap-1 text-sm font-mono">
+                                <span className="text-muted-foreground">{Math.round(item.current.sortOrder)}</span>
+                                <ArrowRight className="w-3 h-3" />
+                                <span>{item.proposed.sortOrder}</span>
+                              </span>
+                            ) : (
+                              <span className="text-sm font-mono text-muted-foreground">{Math.round(item.current.sortOrder)}</span>
+                            )}
+                          </TableCell>
+                          {showLabels && (
+                            <TableCell className="max-w-[220px]">
+                              <div className="flex flex-wrap gap-1">
+                                {item.labels?.add.map(name => (
+                                  <Badge key={`add-${name}`} variant="secondary" className="text-xs">+ {name}</Badge>
+                                ))}
+                                {item.labels?.remove.map(name => (
+                                  <Badge key={`remove-${name}`} variant="outline" className="text-xs line-through text-muted-foreground">{name}</Badge>
+                                ))}
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex-row justify-between sm:justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Switch id="add-comments" checked={addComments} onCheckedChange={setAddComments} />
+            <Label htmlFor="add-comments" className="text-sm font-normal">Add or update score comment</Label>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPushing}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={isPushing || isLoading || selected.size === 0}>
+              {isPushing ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-2" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              Push {selected.size} {selected.size === 1 ? 'issue' : 'issues'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
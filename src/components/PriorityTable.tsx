@@ -21,8 +21,8 @@ import { PriorityIndicator, getPriorityLevel, getPriorityLabel as getPriorityLev
 import { getProductDisplayName } from '@/config/products';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { ArrowUpRight, ChevronDown, ChevronUp, Sparkles, AlertTriangle, TrendingUp, Building2, Copy } from 'lucide-react';
-import { useState } from 'react';
+import { ArrowUpRight, ChevronDown, ChevronRight, ChevronUp, CornerDownRight, Sparkles, AlertTriangle, TrendingUp, Building2, Copy } from 'lucide-react';
+import { Fragment, useState } from 'react';
 
 interface PriorityTableProps {
   features: ScoredFeature[];
@@ -93,6 +93,7 @@ export function PriorityTable({
   const router = useRouter();
   const [sortField, setSortField] = useState<SortField>('rank');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [expandedOriginals, setExpandedOriginals] = useState<Set<string>>(new Set());
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -127,6 +128,27 @@ export function PriorityTable({
     return sortDirection === 'asc' ? comparison : -comparison;
   });
 
+  // Duplicates are listed under their original when it is in the table
+  const featureIds = new Set(features.map(f => f.id));
+  const duplicatesByOriginal = new Map<string, ScoredFeature[]>();
+  for (const feature of sortedFeatures) {
+    if (!feature.isDuplicate || !feature.duplicateOf || !featureIds.has(feature.duplicateOf)) continue;
+    duplicatesByOriginal.set(feature.duplicateOf, [...(duplicatesByOriginal.get(feature.duplicateOf) || []), feature]);
+  }
+  const topLevelFeatures = sortedFeatures.filter(
+    f => !(f.isDuplicate && f.duplicateOf && featureIds.has(f.duplicateOf))
+  );
+
+  const toggleOriginal = (featureId: string) => {
+    const next = new Set(expandedOriginals);
+    if (next.has(featureId)) {
+      next.delete(featureId);
+    } else {
+      next.add(featureId);
+    }
+    setExpandedOriginals(next);
+  };
+
   const SortIcon = ({ field }: { field: SortField }) => {
     if (sortField !== field) return null;
     return sortDirection === 'asc' ? (
@@ -136,6 +158,235 @@ export function PriorityTable({
     );
   };
 
+  const renderRow = (feature: ScoredFeature, nestedDuplicates: ScoredFeature[], isNested = false) => {
+    const aiSummary = getAISummary(feature);
+    const hasAIScore = !!(feature.aiSuggestions?.anthropic || feature.aiSuggestions?.openai);
+    const isUnscored = feature.finalScore === 0 && !hasAIScore;
+    const priorityLevel = getPriorityLevel(feature.finalScore, hasAIScore);
+
+    return (
+      <TableRow
+        key={feature.id}
+        className={`cursor-pointer transition-colors hover:bg-muted/50 ${isUnscored ? 'bg-blue-50/50' : ''} ${isNested ? 'bg-muted/30' : ''}`}
+        onClick={() => router.push(`/features/${feature.id}`)}
+      >
+        {/* Score Column */}
+        <TableCell>
+          <Tooltip>
+            <TooltipTrigger>
+              <PriorityIndicator
+                score={feature.finalScore}
+                hasAIScore={hasAIScore}
+                showTooltip={false}
+                size="md"
+              />
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{getPriorityLevelLabel(priorityLevel)}</p>
+              {!isUnscored && (
+                <p className="text-xs text-muted-foreground">
+                  Base: {feature.baseScore.toFixed(1)} × {feature.multiplier}x
+                </p>
+              )}
+            </TooltipContent>
+          </Tooltip>
+        </TableCell>
+
+        {/* Feature Column */}
+        <TableCell>
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              {isNested && <CornerDownRight className="w-4 h-4 text-muted-foreground shrink-0" />}
+              <span className="font-medium">{feature.title}</span>
+              <span className="text-xs text-muted-foreground">
+                {feature.identifier}
+              </span>
+            </div>
+
+            {/* Factor scores inline (compact) */}
+            {!compact && hasAIScore && (
+              <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                {feature.scores.revenueImpact !== undefined && (
+                  <span title="Revenue Impact">
+                    <TrendingUp className="w-3 h-3 inline mr-1" />
+                    {feature.scores.revenueImpact}
+                  </span>
+                )}
+                {feature.scores.enterpriseReadiness !== undefined && (
+                  <span title="Enterprise Readiness">
+                    <Building2 className="w-3 h-3 inline mr-1" />
+                    {feature.scores.enterpriseReadiness}
+                  </span>
+                )}
+                {feature.scores.requestVolume !== undefined && (
+                  <span title="Request Volume">Vol: {feature.scores.requestVolume}</span>
+                )}
+                {feature.scores.competitiveParity !== undefined && (
+                  <span title="Competitive Parity">Comp: {feature.scores.competitiveParity}</span>
+                )}
+              </div>
+            )}
+
+            {/* Duplicate indicator */}
+            {feature.isDuplicate && (
+              <div className="flex items-center gap-1">
+                <Tooltip>
+                  <TooltipTrigger>
+                    <Badge variant="secondary" className="text-xs py-0 h-5 bg-orange-100 text-orange-800 border-orange-200">
+                      <Copy className="w-3 h-3 mr-1" />
+                      {feature.duplicateStatus === 'suspected' ? 'Possible duplicate' : 'Duplicate'}
+                    </Badge>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>
+                      {feature.duplicateStatus === 'suspected' ? 'Possible duplicate' : 'Duplicate'} of {feature.duplicateOfIdentifier}
+                      {feature.duplicateStatus === 'suspected' && ' (review in Duplicates)'}
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+            )}
+
+            {/* Has duplicates indicator */}
+            {feature.duplicates && feature.duplicates.length > 0 && (
+              <div className="flex items-center gap-1">
+                {nestedDuplicates.length > 0 ? (
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleOriginal(feature.id);
+                    }}
+                  >
+                    <Badge variant="outline" className="text-xs py-0 h-5 text-blue-600 border-blue-200 hover:bg-blue-50">
+                      {expandedOriginals.has(feature.id) ? (
+                        <ChevronDown className="w-3 h-3 mr-1" />
+                      ) : (
+                        <ChevronRight className="w-3 h-3 mr-1" />
+                      )}
+                      {feature.duplicates.length} duplicate{feature.duplicates.length > 1 ? 's' : ''}
+                    </Badge>
+                  </button>
+                ) : (
+                  <Badge variant="outline" className="text-xs py-0 h-5 text-blue-600 border-blue-200">
+                    {feature.duplicates.length} duplicate{feature.duplicates.length > 1 ? 's' : ''}
+                  </Badge>
+                )}
+              </div>
+            )}
+
+            {/* Flags */}
+            {feature.flags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {feature.flags.slice(0, 3).map((flag) => (
+                  <Badge
+                    key={flag}
+                    variant="outline"
+                    className="text-xs py-0 h-5"
+                  >
+                    {flag.includes('MOST') && <AlertTriangle className="w-3 h-3 mr-1 text-orange-500" />}
+                    {flag}
+                  </Badge>
+                ))}
+                {feature.flags.length > 3 && (
+                  <Badge variant="outline" className="text-xs py-0 h-5">
+                    +{feature.flags.length - 3}
+                  </Badge>
+                )}
+              </div>
+            )}
+
+            {/* AI Summary */}
+            {!compact && aiSummary && (
+              <p className="text-xs text-muted-foreground italic line-clamp-1">
+                &quot;{aiSummary}&quot;
+              </p>
+            )}
+
+            {/* Unscored indicator */}
+            {isUnscored && (
+              <div className="flex items-center gap-1.5 text-xs font-medium text-blue-600 bg-blue-100 px-2 py-1 rounded-md w-fit">
+                <Sparkles className="w-3 h-3" />
+                <span>AI Score Pending</span>
+              </div>
+            )}
+          </div>
+        </TableCell>
+
+        {/* Product Column */}
+        {showProduct && (
+          <TableCell>
+            <Badge variant="outline" className="text-xs">
+              {getProductDisplayName(feature.product)}
+            </Badge>
+          </TableCell>
+        )}
+
+        {/* Tier Column */}
+        <TableCell>
+          <Badge variant={getTierVariant(feature.customerTier)} className="text-xs">
+            {feature.customerTier}
+          </Badge>
+        </TableCell>
+
+        {/* Factor Scores Column (optional) */}
+        {showFactorScores && (
+          <TableCell>
+            <div className="flex items-center gap-1">
+              <Tooltip>
+                <TooltipTrigger>
+                  {getFactorScoreBar(feature.scores.revenueImpact)}
+                </TooltipTrigger>
+                <TooltipContent>Revenue: {feature.scores.revenueImpact || '-'}</TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger>
+                  {getFactorScoreBar(feature.scores.enterpriseReadiness)}
+                </TooltipTrigger>
+                <TooltipContent>Enterprise: {feature.scores.enterpriseReadiness || '-'}</TooltipContent>
+              </Tooltip>
+            </div>
+          </TableCell>
+        )}
+
+        {/* Votes Column */}
+        <TableCell>
+          <div className="flex items-center gap-1">
+            {feature.featurebaseUpvotes ? (
+              <Tooltip>
+                <TooltipTrigger>
+                  <span className="font-medium">{feature.featurebaseUpvotes}</span>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Featurebase upvotes</p>
+                  {feature.supportTicketCount && (
+                    <p className="text-xs">{feature.supportTicketCount} support tickets</p>
+                  )}
+                  {feature.duplicateRollup && (feature.duplicateRollup.upvotes > 0 || feature.duplicateRollup.supportTickets > 0) && (
+                    <p className="text-xs">
+                      Includes {feature.duplicateRollup.upvotes} upvotes and {feature.duplicateRollup.supportTickets} tickets from duplicates
+                    </p>
+                  )}
+                </TooltipContent>
+              </Tooltip>
+            ) : (
+              <span className="text-muted-foreground">-</span>
+            )}
+          </div>
+        </TableCell>
+
+        {/* Action Column */}
+        <TableCell>
+          <Link href={`/features/${feature.id}`}>
+            <Button variant="ghost" size="icon" className="h-8 w-8">
+              <ArrowUpRight className="w-4 h-4" />
+            </Button>
+          </Link>
+        </TableCell>
+      </TableRow>
+    );
+  };
+
   return (
     <TooltipProvider>
       <div className="border rounded-lg">
@@ -176,204 +427,14 @@ export function PriorityTable({
             </TableRow>
           </TableHeader>
           <TableBody>
-            {sortedFeatures.map((feature, index) => {
-              const aiSummary = getAISummary(feature);
-              const hasAIScore = !!(feature.aiSuggestions?.anthropic || feature.aiSuggestions?.openai);
-              const isUnscored = feature.finalScore === 0 && !hasAIScore;
-              const priorityLevel = getPriorityLevel(feature.finalScore, hasAIScore);
-
+            {topLevelFeatures.map((feature) => {
+              const nestedDuplicates = duplicatesByOriginal.get(feature.id) || [];
               return (
-                <TableRow
-                  key={feature.id}
-                  className={`cursor-pointer transition-colors hover:bg-muted/50 ${isUnscored ? 'bg-blue-50/50' : ''}`}
-                  onClick={() => router.push(`/features/${feature.id}`)}
-                >
-                  {/* Score Column */}
-                  <TableCell>
-                    <Tooltip>
-                      <TooltipTrigger>
-                        <PriorityIndicator
-                          score={feature.finalScore}
-                          hasAIScore={hasAIScore}
-                          showTooltip={false}
-                          size="md"
-                        />
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>{getPriorityLevelLabel(priorityLevel)}</p>
-                        {!isUnscored && (
-                          <p className="text-xs text-muted-foreground">
-                            Base: {feature.baseScore.toFixed(1)} × {feature.multiplier}x
-                          </p>
-                        )}
-                      </TooltipContent>
-                    </Tooltip>
-                  </TableCell>
-
-                  {/* Feature Column */}
-                  <TableCell>
-                    <div className="space-y-1">
-                      <div className="flex items-center gap-2">
-                        <span className="font-medium">{feature.title}</span>
-                        <span className="text-xs text-muted-foreground">
-                          {feature.identifier}
-                        </span>
-                      </div>
-
-                      {/* Factor scores inline (compact) */}
-                      {!compact && hasAIScore && (
-                        <div className="flex items-center gap-3 text-xs text-muted-foreground">
-                          {feature.scores.revenueImpact !== undefined && (
-                            <span title="Revenue Impact">
-                              <TrendingUp className="w-3 h-3 inline mr-1" />
-                              {feature.scores.revenueImpact}
-                            </span>
-                          )}
-                          {feature.scores.enterpriseReadiness !== undefined && (
-                            <span title="Enterprise Readiness">
-                              <Building2 className="w-3 h-3 inline mr-1" />
-                              {feature.scores.enterpriseReadiness}
-                            </span>
-                          )}
-                          {feature.scores.requestVolume !== undefined && (
-                            <span title="Request Volume">Vol: {feature.scores.requestVolume}</span>
-                          )}
-                          {feature.scores.competitiveParity !== undefined && (
-                            <span title="Competitive Parity">Comp: {feature.scores.competitiveParity}</span>
-                          )}
-                        </div>
-                      )}
-
-                      {/* Duplicate indicator */}
-                      {feature.isDuplicate && (
-                        <div className="flex items-center gap-1">
-                          <Tooltip>
-                            <TooltipTrigger>
-                              <Badge variant="secondary" className="text-xs py-0 h-5 bg-orange-100 text-orange-800 border-orange-200">
-                                <Copy className="w-3 h-3 mr-1" />
-                                Duplicate
-                              </Badge>
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>Duplicate of {feature.duplicateOfIdentifier}</p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </div>
-                      )}
-
-                      {/* Has duplicates indicator */}
-                      {feature.duplicates && feature.duplicates.length > 0 && (
-                        <div className="flex items-center gap-1">
-                          <Badge variant="outline" className="text-xs py-0 h-5 text-blue-600 border-blue-200">
-                            {feature.duplicates.length} duplicate{feature.duplicates.length > 1 ? 's' : ''}
-                          </Badge>
-                        </div>
-                      )}
-
-                      {/* Flags */}
-                      {feature.flags.length > 0 && (
-                        <div className="flex flex-wrap gap-1">
-                          {feature.flags.slice(0, 3).map((flag) => (
-                            <Badge
-                              key={flag}
-                              variant="outline"
-                              className="text-xs py-0 h-5"
-                            >
-                              {flag.includes('MOST') && <AlertTriangle className="w-3 h-3 mr-1 text-orange-500" />}
-                              {flag}
-                            </Badge>
-                          ))}
-                          {feature.flags.length > 3 && (
-                            <Badge variant="outline" className="text-xs py-0 h-5">
-                              +{feature.flags.length - 3}
-                            </Badge>
-                          )}
-                        </div>
-                      )}
-
-                      {/* AI Summary */}
-                      {!compact && aiSummary && (
-                        <p className="text-xs text-muted-foreground italic line-clamp-1">
-                          &quot;{aiSummary}&quot;
-                        </p>
-                      )}
-
-                      {/* Unscored indicator */}
-                      {isUnscored && (
-                        <div className="flex items-center gap-1.5 text-xs font-medium text-blue-600 bg-blue-100 px-2 py-1 rounded-md w-fit">
-                          <Sparkles className="w-3 h-3" />
-                          <span>AI Score Pending</span>
-                        </div>
-                      )}
-                    </div>
-                  </TableCell>
-
-                  {/* Product Column */}
-                  {showProduct && (
-                    <TableCell>
-                      <Badge variant="outline" className="text-xs">
-                        {getProductDisplayName(feature.product)}
-                      </Badge>
-                    </TableCell>
-                  )}
-
-                  {/* Tier Column */}
-                  <TableCell>
-                    <Badge variant={getTierVariant(feature.customerTier)} className="text-xs">
-                      {feature.customerTier}
-                    </Badge>
-                  </TableCell>
-
-                  {/* Factor Scores Column (optional) */}
-                  {showFactorScores && (
-                    <TableCell>
-                      <div className="flex items-center gap-1">
-                        <Tooltip>
-                          <TooltipTrigger>
-                            {getFactorScoreBar(feature.scores.revenueImpact)}
-                          </TooltipTrigger>
-                          <TooltipContent>Revenue: {feature.scores.revenueImpact || '-'}</TooltipContent>
-                        </Tooltip>
-                        <Tooltip>
-                          <TooltipTrigger>
-                            {getFactorScoreBar(feature.scores.enterpriseReadiness)}
-                          </TooltipTrigger>
-                          <TooltipContent>Enterprise: {feature.scores.enterpriseReadiness || '-'}</TooltipContent>
-                        </Tooltip>
-                      </div>
-                    </TableCell>
-                  )}
-
-                  {/* Votes Column */}
-                  <TableCell>
-                    <div className="flex items-center gap-1">
-                      {feature.featurebaseUpvotes ? (
-                        <Tooltip>
-                          <TooltipTrigger>
-                            <span className="font-medium">{feature.featurebaseUpvotes}</span>
-                          </TooltipTrigger>
-                          <TooltipContent>
-                            <p>Featurebase upvotes</p>
-                            {feature.supportTicketCount && (
-                              <p className="text-xs">{feature.supportTicketCount} support tickets</p>
-                            )}
-                          </TooltipContent>
-                        </Tooltip>
-                      ) : (
-                        <span className="text-muted-foreground">-</span>
-                      )}
-                    </div>
-                  </TableCell>
-
-                  {/* Action Column */}
-                  <TableCell>
-                    <Link href={`/features/${feature.id}`}>
-                      <Button variant="ghost" size="icon" className="h-8 w-8">
-                        <ArrowUpRight className="w-4 h-4" />
-                      </Button>
-                    </Link>
-                  </TableCell>
-                </TableRow>
+                <Fragment key={feature.id}>
+                  {renderRow(feature, nestedDuplicates)}
+                  {expandedOriginals.has(feature.id) &&
+                    nestedDuplicates.map(duplicate => renderRow(duplicate, [], true))}
+                </Fragment>
               );
             })}
           </TableBody>
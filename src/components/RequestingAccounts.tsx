@@ -0,0 +1,153 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from '@/hooks/useToast';
+import { Account, FeatureAccount } from '@/lib/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Building2, Loader2, X } from 'lucide-react';
+
+interface RequestingAccountsProps {
+  featureId: string;
+  accounts: FeatureAccount[];
+  revenueAtStake?: number;
+  onChange: () => void;
+}
+
+function formatArr(arr: number): string {
+  return `$${arr.toLocaleString('en-US')}`;
+}
+
+// Accounts asking for a feature, linked by hand or matched from feedback
+export function RequestingAccounts({ featureId, accounts, revenueAtStake, onChange }: RequestingAccountsProps) {
+  const [allAccounts, setAllAccounts] = useState<Account[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/accounts');
+      if (!response.ok) return;
+      const data = await response.json();
+      setAllAccounts(data.accounts || []);
+    } catch {
+      // Ignore; linking is unavailable without the account list
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const updateLink = async (action: 'link' | 'unlink', accountId: string) => {
+    try {
+      setIsSaving(true);
+      const response = await fetch('/api/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, accountId, featureId, createdBy: 'PM' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update accounts');
+      }
+      onChange();
+    } catch (err) {
+      toast({
+        title: action === 'link' ? 'Link Failed' : 'Unlink Failed',
+        description: err instanceof Error ? err.message : 'Failed to update accounts',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const requesting = new Set(accounts.map(a => a.accountId));
+  const available = allAccounts.filter(a => !requesting.has(a.id));
+
+  // Nothing to show or link until accounts are imported
+  if (accounts.length === 0 && allAccounts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Building2 className="w-5 h-5" />
+          Requested By
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {accounts.length > 0 ? (
+          <>
+            <div className="flex items-center justify-between">
+              <span>Revenue at stake</span>
+              <span className="font-bold">{formatArr(revenueAtStake || 0)}</span>
+            </div>
+            <div className="space-y-3">
+              {accounts.map((account) => (
+                <div key={account.accountId} className="text-sm border-b pb-2 last:border-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">{account.name}</span>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Badge variant="outline" className="text-xs">{account.tier}</Badge>
+                      {account.via === 'link' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => updateLink('unlink', account.accountId)}
+                          disabled={isSaving}
+                          title={`Unlink ${account.name}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-muted-foreground mt-1">
+                    <span>{formatArr(account.arr)} ARR</span>
+                    {account.renewalDate && <span>renews {account.renewalDate}</span>}
+                    {account.segment && <span>{account.segment}</span>}
+                    {account.via === 'feedback' && (
+                      <Badge variant="secondary" className="text-xs">From feedback</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">No accounts have asked for this yet.</p>
+        )}
+
+        {available.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value="" onValueChange={(accountId) => updateLink('link', accountId)} disabled={isSaving}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add an account..." />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name} ({formatArr(account.arr)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin shrink-0" />}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default RequestingAccounts;
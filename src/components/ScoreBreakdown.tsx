@@ -1,13 +1,36 @@
 'use client';
 
-import { ScoredFeature, ScoreFactors } from '@/lib/types';
+import { ScoredFeature, CustomFramework } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { getWeightedFactors } from '@/lib/scoring/frameworks/weighted';
+import { findCustomFramework } from '@/lib/scoring/frameworks/custom';
+import { getFrameworkConfig } from '@/lib/ai/prompt-builder';
+import { getFrameworkInfo } from '@/lib/scoring/engine';
 
 interface ScoreBreakdownProps {
   feature: ScoredFeature;
   showAISuggestions?: boolean;
+  customFrameworks?: CustomFramework[];
+}
+
+interface BreakdownFactor {
+  key: string;
+  label: string;
+  weight?: number;
+  max: number;
+}
+
+// Factors of the framework the feature was scored with
+function getBreakdownFactors(feature: ScoredFeature, customFrameworks?: CustomFramework[]): BreakdownFactor[] {
+  const custom = findCustomFramework(feature.framework, customFrameworks);
+  if (custom) {
+    return custom.factors.map(f => ({ key: f.key, label: f.label, max: f.scale.max }));
+  }
+  if (feature.framework === 'weighted') {
+    return getWeightedFactors(feature.product).map(f => ({ key: f.key, label: f.factor, weight: f.weight, max: 10 }));
+  }
+  return getFrameworkConfig(feature.framework).factors.map(f => ({ key: f.key, label: f.name, max: 10 }));
 }
 
 function getScoreColor(score: number): string {
@@ -24,9 +47,11 @@ function getBarColor(score: number): string {
   return 'bg-red-500';
 }
 
-export function ScoreBreakdown({ feature, showAISuggestions = false }: ScoreBreakdownProps) {
-  const factors = getWeightedFactors(feature.product);
-  const scores = feature.scores;
+export function ScoreBreakdown({ feature, showAISuggestions = false, customFrameworks }: ScoreBreakdownProps) {
+  const factors = getBreakdownFactors(feature, customFrameworks);
+  const scores = feature.scores as Record<string, unknown>;
+  const manualOverrides = (feature.manualOverrides || {}) as Record<string, unknown>;
+  const rollup = feature.duplicateRollup;
 
   // Get AI suggestions if available
   const aiOpenai = feature.aiSuggestions?.openai;
@@ -39,7 +64,7 @@ export function ScoreBreakdown({ feature, showAISuggestions = false }: ScoreBrea
         <CardTitle className="text-lg flex items-center justify-between">
           <span>Score Breakdown</span>
           <div className="flex items-center gap-2">
-            <Badge variant="outline">{feature.framework}</Badge>
+            <Badge variant="outline">{getFrameworkInfo(feature.framework, customFrameworks).name}</Badge>
             <span className={`text-2xl font-bold ${getScoreColor(feature.finalScore)}`}>
               {feature.finalScore.toFixed(1)}
             </span>
@@ -49,8 +74,10 @@ export function ScoreBreakdown({ feature, showAISuggestions = false }: ScoreBrea
       <CardContent>
         <div className="space-y-4">
           {factors.map((factor) => {
-            const score = scores[factor.key] as number | undefined;
-            const manualOverride = feature.manualOverrides?.[factor.key];
+            const score = typeof scores[factor.key] === 'number' ? scores[factor.key] as number : undefined;
+            const manualOverride = manualOverrides[factor.key];
+            // Colors and bar width on a 0-10 scale whatever the factor's own scale is
+            const normalized = ((score || 0) / factor.max) * 10;
             const aiOpenaiSuggestion = aiOpenai?.suggestions.find(s => s.factor === factor.key);
             const aiAnthropicSuggestion = aiAnthropic?.suggestions.find(s => s.factor === factor.key);
             const aiGeminiSuggestion = aiGemini?.suggestions.find(s => s.factor === factor.key);
@@ -59,22 +86,24 @@ export function ScoreBreakdown({ feature, showAISuggestions = false }: ScoreBrea
               <div key={factor.key} className="space-y-1">
                 <div className="flex items-center justify-between text-sm">
                   <div className="flex items-center gap-2">
-                    <span className="font-medium">{factor.factor}</span>
-                    <span className="text-muted-foreground">({(factor.weight * 100).toFixed(0)}%)</span>
+                    <span className="font-medium">{factor.label}</span>
+                    {factor.weight !== undefined && (
+                      <span className="text-muted-foreground">({(factor.weight * 100).toFixed(0)}%)</span>
+                    )}
                     {manualOverride !== undefined && (
                       <Badge variant="secondary" className="text-xs">Manual</Badge>
                     )}
                   </div>
-                  <span className={`font-bold ${getScoreColor(score || 0)}`}>
-                    {score?.toFixed(1) || '-'}/10
+                  <span className={`font-bold ${getScoreColor(normalized)}`}>
+                    {score?.toFixed(1) || '-'}/{factor.max}
                   </span>
                 </div>
 
                 {/* Score bar */}
                 <div className="w-full bg-gray-200 rounded-full h-2">
                   <div
-                    className={`h-2 rounded-full ${getBarColor(score || 0)}`}
-                    style={{ width: `${((score || 0) / 10) * 100}%` }}
+                    className={`h-2 rounded-full ${getBarColor(normalized)}`}
+                    style={{ width: `${Math.min(normalized * 10, 100)}%` }}
                   />
                 </div>
 
@@ -82,13 +111,13 @@ export function ScoreBreakdown({ feature, showAISuggestions = false }: ScoreBrea
                 {showAISuggestions && (aiOpenaiSuggestion || aiAnthropicSuggestion || aiGeminiSuggestion) && (
                   <div className="flex items-center gap-4 text-xs text-muted-foreground mt-1">
                     {aiOpenaiSuggestion && (
-                      <span>GPT-4: {aiOpenaiSuggestion.score}/10</span>
+                      <span>GPT-4: {aiOpenaiSuggestion.score}/{factor.max}</span>
                     )}
                     {aiAnthropicSuggestion && (
-                      <span>Claude: {aiAnthropicSuggestion.score}/10</span>
+                      <span>Claude: {aiAnthropicSuggestion.score}/{factor.max}</span>
                     )}
                     {aiGeminiSuggestion && (
-                      <span>Gemini: {aiGeminiSuggestion.score}/10</span>
+                      <span>Gemini: {aiGeminiSuggestion.score}/{factor.max}</span>
                     )}
                   </div>
                 )}
@@ -120,6 +149,35 @@ export function ScoreBreakdown({ feature, showAISuggestions = false }: ScoreBrea
           </div>
         </div>
 
+        {/* Demand rolled up from duplicates */}
+        {rollup && (
+          <div className="mt-4 pt-4 border-t">
+            <p className="text-sm font-medium mb-2">
+              Includes demand from {rollup.duplicateIds.length} duplicate{rollup.duplicateIds.length > 1 ? 's' : ''}
+            </p>
+            <div className="space-y-1 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Featurebase upvotes</span>
+                <span>+{rollup.upvotes}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Support tickets</span>
+                <span>+{rollup.supportTickets}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Comments</span>
+                <span>+{rollup.comments}</span>
+              </div>
+              {rollup.ownCustomerTier !== feature.customerTier && (
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Customer tier</span>
+                  <span>{rollup.ownCustomerTier} → {feature.customerTier}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Flags */}
         {feature.flags.length > 0 && (
           <div className="mt-4 pt-4 border-t">
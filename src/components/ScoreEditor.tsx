@@ -1,13 +1,15 @@
 'use client';
 
 import { useState } from 'react';
-import { ScoredFeature, ScoreFactors, AIScoringSuggestion } from '@/lib/types';
+import { ScoredFeature, ScoreFactors, AIScoringSuggestion, KanoCategory } from '@/lib/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { getWeightedFactors } from '@/lib/scoring/frameworks/weighted';
+import { getWSJFFactors } from '@/lib/scoring/frameworks/wsjf';
+import { getAllKanoCategories, getKanoCategoryLabel, inferKanoCategory, isKanoCategory } from '@/lib/scoring/frameworks/kano';
 import { Check, RotateCcw, Sparkles } from 'lucide-react';
 
 interface ScoreEditorProps {
@@ -16,8 +18,22 @@ interface ScoreEditorProps {
   onAcceptAI: (model: 'openai' | 'anthropic') => void;
 }
 
+// Numeric factors edited with sliders; Kano is edited as a category instead
+function getEditorFactors(feature: ScoredFeature): { factor: string; key: keyof ScoreFactors }[] {
+  switch (feature.framework) {
+    case 'wsjf':
+      return getWSJFFactors();
+    case 'kano':
+      return [];
+    default:
+      return getWeightedFactors(feature.product);
+  }
+}
+
 export function ScoreEditor({ feature, onSave, onAcceptAI }: ScoreEditorProps) {
-  const factors = getWeightedFactors(feature.product);
+  const factors = getEditorFactors(feature);
+  const isKano = feature.framework === 'kano';
+  const [kanoCategory, setKanoCategory] = useState<KanoCategory>(() => inferKanoCategory(feature.scores));
   const [scores, setScores] = useState<Record<string, number | undefined>>(() => {
     const initial: Record<string, number | undefined> = {};
     for (const factor of factors) {
@@ -41,6 +57,11 @@ export function ScoreEditor({ feature, onSave, onAcceptAI }: ScoreEditorProps) {
     setHasChanges(true);
   };
 
+  const handleKanoChange = (category: KanoCategory) => {
+    setKanoCategory(category);
+    setHasChanges(true);
+  };
+
   const handleSave = () => {
     const typedScores: Partial<ScoreFactors> = {};
     for (const [key, value] of Object.entries(scores)) {
@@ -48,6 +69,9 @@ export function ScoreEditor({ feature, onSave, onAcceptAI }: ScoreEditorProps) {
         (typedScores as Record<string, number>)[key] = value;
       }
     }
+    if (isKano) {
+      typedScores.kano = kanoCategory;
+    }
     onSave(typedScores, reason);
     setHasChanges(false);
   };
@@ -59,6 +83,10 @@ export function ScoreEditor({ feature, onSave, onAcceptAI }: ScoreEditorProps) {
     return suggestions?.find(s => s.factor === key);
   };
 
+  const aiKanoCategory = (feature.aiSuggestions?.anthropic || feature.aiSuggestions?.openai || feature.aiSuggestions?.gemini)
+    ?.suggestions.find(s => s.factor === ('kanoCategory' as keyof ScoreFactors))?.category;
+  const aiKanoLabel = isKanoCategory(aiKanoCategory) ? getKanoCategoryLabel(aiKanoCategory) : undefined;
+
   return (
     <Card>
       <CardHeader>
@@ -90,6 +118,32 @@ export function ScoreEditor({ feature, onSave, onAcceptAI }: ScoreEditorProps) {
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
+          {isKano && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Kano Category</span>
+                {aiKanoLabel && (
+                  <span className="text-sm text-muted-foreground">AI: {aiKanoLabel}</span>
+                )}
+              </div>
+              <div className="grid grid-cols-1 gap-2">
+                {getAllKanoCategories().map((category) => (
+                  <Button
+                    key={category.id}
+                    variant={kanoCategory === category.id ? 'default' : 'outline'}
+                    className="justify-start h-auto py-2"
+                    onClick={() => handleKanoChange(category.id)}
+                  >
+                    <div className="text-left">
+                      <div>{category.label}</div>
+                      <div className="text-xs font-normal opacity-80">{category.description}</div>
+                    </div>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {factors.map((factor) => {
             const currentValue = scores[factor.key] as number ?? 5;
             const originalValue = feature.scores[factor.key] as number;
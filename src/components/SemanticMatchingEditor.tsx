@@ -0,0 +1,171 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { EmbeddingProvider, SemanticMatchingSettings } from '@/lib/types';
+import { DEFAULT_SEMANTIC_THRESHOLDS, EMBEDDING_PROVIDER_NAMES } from '@/lib/config/semantic-defaults';
+import { toast } from '@/hooks/useToast';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, RefreshCw } from 'lucide-react';
+
+interface SemanticMatchingEditorProps {
+  value: SemanticMatchingSettings;
+  onChange: (value: SemanticMatchingSettings) => void;
+  hasUnsavedChanges?: boolean;
+}
+
+interface EmbeddingCacheStatus {
+  model: string | null;
+  count: number;
+  lastUpdated: string | null;
+}
+
+const PROVIDERS: EmbeddingProvider[] = ['local', 'openai', 'gemini'];
+
+export function SemanticMatchingEditor({ value, onChange, hasUnsavedChanges }: SemanticMatchingEditorProps) {
+  const [cache, setCache] = useState<EmbeddingCacheStatus | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const fetchCache = useCallback(async () => {
+    try {
+      const response = await fetch('/api/embeddings');
+      if (!response.ok) return;
+      const data = await response.json();
+      setCache(data.cache);
+    } catch {
+      // Ignore; the status line is informational
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCache();
+  }, [fetchCache]);
+
+  const handleProviderChange = (provider: EmbeddingProvider) => {
+    // Similarity ranges differ between models, so start from the provider's default
+    onChange({ ...value, provider, threshold: DEFAULT_SEMANTIC_THRESHOLDS[provider] });
+  };
+
+  const handleRefresh = async () => {
+    try {
+      setIsRefreshing(true);
+      const response = await fetch('/api/embeddings', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to refresh embeddings');
+      }
+
+      setCache(data.cache);
+      toast({
+        title: 'Embeddings Updated',
+        description: `${data.embedded} new texts embedded, ${data.total} in total`,
+        variant: 'success',
+      });
+    } catch (err) {
+      toast({
+        title: 'Embedding Failed',
+        description: err instanceof Error ? err.message : 'Failed to refresh embeddings',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="semantic-enabled">Match by meaning</Label>
+          <p className="text-sm text-muted-foreground">
+            Relate issues to Featurebase posts, Zendesk tickets and other feedback by text embeddings instead of shared keywords
+          </p>
+        </div>
+        <Switch
+          id="semantic-enabled"
+          checked={value.enabled}
+          onCheckedChange={(enabled) => onChange({ ...value, enabled })}
+        />
+      </div>
+
+      <div className={value.enabled ? 'space-y-6' : 'space-y-6 opacity-50 pointer-events-none'}>
+        <div className="space-y-2">
+          <Label>Embedding model</Label>
+          <Select value={value.provider} onValueChange={(v) => handleProviderChange(v as EmbeddingProvider)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROVIDERS.map((provider) => (
+                <SelectItem key={provider} value={provider}>
+                  {EMBEDDING_PROVIDER_NAMES[provider]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            {value.provider === 'local'
+              ? 'Runs offline with no API key. It catches word variants but not synonyms.'
+              : 'Texts are embedded on each sync and cached, so only new or edited texts are sent. Needs the API key for this provider.'}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Similarity threshold</Label>
+            <span className="text-sm font-medium">{value.threshold.toFixed(2)}</span>
+          </div>
+          <Slider
+            value={[value.threshold]}
+            onValueChange={([threshold]) => onChange({ ...value, threshold })}
+            min={0.1}
+            max={0.95}
+            step={0.05}
+            className="w-full"
+          />
+          <p className="text-sm text-muted-foreground">
+            Minimum cosine similarity for a post, ticket or signal to count as related. Texts without an embedding are matched by keywords.
+          </p>
+        </div>
+
+        {value.provider !== 'local' && (
+          <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
+            <div>
+              <p className="text-sm font-medium">
+                {cache?.count ? `${cache.count} texts embedded` : 'No embeddings cached yet'}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {hasUnsavedChanges
+                  ? 'Save your changes before embedding'
+                  : cache?.lastUpdated
+                  ? `Updated ${formatDistanceToNow(new Date(cache.lastUpdated), { addSuffix: true })}`
+                  : 'Embeddings are created on the next sync'}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRefresh}
+              disabled={isRefreshing || hasUnsavedChanges}
+            >
+              {isRefreshing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              Embed now
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SemanticMatchingEditor;
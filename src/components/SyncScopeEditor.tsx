@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { SyncScope } from '@/lib/types';
+import { LINEAR_STATE_TYPES } from '@/lib/sync-scope';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Plus, X } from 'lucide-react';
+
+interface SyncScopeEditorProps {
+  scope: SyncScope;
+  onChange: (scope: SyncScope) => void;
+}
+
+interface ListFieldProps {
+  label: string;
+  description: string;
+  placeholder: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+}
+
+// Editable list of string values shown as removable badges
+function ListField({ label, description, placeholder, values, onChange }: ListFieldProps) {
+  const [draft, setDraft] = useState('');
+
+  const addValue = () => {
+    const value = draft.trim();
+    if (!value || values.includes(value)) {
+      setDraft('');
+      return;
+    }
+    onChange([...values, value]);
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <Label>{label}</Label>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {values.length === 0 && (
+          <span className="text-sm text-muted-foreground italic">Any</span>
+        )}
+        {values.map((value) => (
+          <Badge key={value} variant="secondary" className="gap-1">
+            {value}
+            <button
+              type="button"
+              onClick={() => onChange(values.filter(v => v !== value))}
+              className="hover:text-destructive"
+              aria-label={`Remove ${value}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addValue();
+            }
+          }}
+          placeholder={placeholder}
+          className="max-w-sm"
+        />
+        <Button variant="outline" size="sm" onClick={addValue} disabled={!draft.trim()}>
+          <Plus className="w-4 h-4 mr-1" /> Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function SyncScopeEditor({ scope, onChange }: SyncScopeEditorProps) {
+  const usesSavedFilter = !!scope.customViewId;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Saved Linear filter (optional)</Label>
+        <p className="text-sm text-muted-foreground">
+          ID of a Linear custom view. When set, the view decides which issues are synced and the team,
+          project and label filters below are ignored.
+        </p>
+        <Input
+          value={scope.customViewId || ''}
+          onChange={(e) => onChange({ ...scope, customViewId: e.target.value.trim() || undefined })}
+          placeholder="e.g. 5f1c1e9a-..."
+          className="max-w-sm font-mono"
+        />
+      </div>
+
+      <div className={usesSavedFilter ? 'space-y-6 opacity-50 pointer-events-none' : 'space-y-6'}>
+        <ListField
+          label="Teams"
+          description="Linear team keys to sync from. Leave empty to include all teams."
+          placeholder="e.g. ENG"
+          values={scope.teamKeys}
+          onChange={(teamKeys) => onChange({ ...scope, teamKeys })}
+        />
+
+        <ListField
+          label="Project name patterns"
+          description="Projects whose name contains any of these (case-insensitive). Leave empty to include all projects."
+          placeholder="e.g. icebox"
+          values={scope.projectPatterns}
+          onChange={(projectPatterns) => onChange({ ...scope, projectPatterns })}
+        />
+
+        <ListField
+          label="Labels"
+          description="Only include issues with at least one of these labels. Leave empty for no label filter."
+          placeholder="e.g. Feature Request"
+          values={scope.labels}
+          onChange={(labels) => onChange({ ...scope, labels })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div>
+          <Label>Backlog workflow states</Label>
+          <p className="text-sm text-muted-foreground">
+            Issues in these workflow state types are treated as backlog features to prioritize.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {LINEAR_STATE_TYPES.map((stateType) => (
+            <label key={stateType} className="flex items-center gap-1 text-sm capitalize">
+              <input
+                type="checkbox"
+                checked={scope.stateTypes.includes(stateType)}
+                onChange={(e) => {
+                  const stateTypes = e.target.checked
+                    ? [...scope.stateTypes, stateType]
+                    : scope.stateTypes.filter(t => t !== stateType);
+                  onChange({ ...scope, stateTypes });
+                }}
+                className="rounded"
+              />
+              {stateType}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
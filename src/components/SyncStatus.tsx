@@ -2,15 +2,36 @@
 
 import { formatDistanceToNow } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { SourceSyncStatus } from '@/lib/types';
 import { Clock, RefreshCw, Check, AlertCircle } from 'lucide-react';
 
 interface SyncStatusProps {
   lastSynced: string | null;
+  sources?: SourceSyncStatus[];
   isSyncing?: boolean;
   error?: string;
 }
 
-export function SyncStatus({ lastSynced, isSyncing, error }: SyncStatusProps) {
+function describeSource(source: SourceSyncStatus): string {
+  if (source.error) {
+    const when = source.lastAttempt ? ` ${formatDistanceToNow(new Date(source.lastAttempt), { addSuffix: true })}` : '';
+    return `failed${when}: ${source.error}`;
+  }
+  if (!source.lastSynced) {
+    return 'not synced yet';
+  }
+  const count = source.itemCount !== undefined ? ` (${source.itemCount} items)` : '';
+  const warning = source.warning ? `; ${source.warning}` : '';
+  return `synced ${formatDistanceToNow(new Date(source.lastSynced), { addSuffix: true })}${count}${warning}`;
+}
+
+export function SyncStatus({ lastSynced, sources = [], isSyncing, error }: SyncStatusProps) {
   if (error) {
     return (
       <Badge variant="destructive" className="gap-1">
@@ -29,22 +50,54 @@ export function SyncStatus({ lastSynced, isSyncing, error }: SyncStatusProps) {
     );
   }
 
+  const configuredSources = sources.filter(s => s.configured);
+  const failedSources = configuredSources.filter(s => s.error);
+
+  let badge;
   if (!lastSynced) {
-    return (
+    badge = (
       <Badge variant="outline" className="gap-1">
         <Clock className="w-3 h-3" />
         Not synced
       </Badge>
     );
+  } else {
+    const timeAgo = formatDistanceToNow(new Date(lastSynced), { addSuffix: true });
+    badge = (
+      <Badge variant="outline" className="gap-1">
+        {failedSources.length > 0 ? (
+          <AlertCircle className="w-3 h-3 text-amber-600" />
+        ) : (
+          <Check className="w-3 h-3" />
+        )}
+        Synced {timeAgo}
+      </Badge>
+    );
   }
 
-  const timeAgo = formatDistanceToNow(new Date(lastSynced), { addSuffix: true });
+  // Only worth a tooltip when more than Linear is being synced
+  if (configuredSources.length <= 1 && failedSources.length === 0) {
+    return badge;
+  }
 
   return (
-    <Badge variant="outline" className="gap-1">
-      <Check className="w-3 h-3" />
-      Synced {timeAgo}
-    </Badge>
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span>{badge}</span>
+        </TooltipTrigger>
+        <TooltipContent>
+          {configuredSources.map(source => (
+            <p
+              key={source.source}
+              className={source.error ? 'text-red-500' : source.warning ? 'text-amber-600' : undefined}
+            >
+              {source.name}: {describeSource(source)}
+            </p>
+          ))}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
   );
 }
 
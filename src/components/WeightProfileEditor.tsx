@@ -0,0 +1,364 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from '@/hooks/useToast';
+import {
+  Product,
+  Settings,
+  TierMultipliers,
+  WeightProfile,
+  WeightProfileAssignments,
+} from '@/lib/types';
+import { productConfigs } from '@/config/products';
+import { getWeightFactorLabels } from '@/lib/scoring/frameworks/weighted';
+import { MAX_MULTIPLIER, MAX_WEIGHT, TIERS, WEIGHT_KEYS, getProductStage } from '@/lib/scoring/weight-profiles';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+interface WeightProfileEditorProps {
+  profiles: WeightProfile[];
+  assignments: WeightProfileAssignments;
+  stageWeights: Settings['weights'];
+  tierMultipliers: TierMultipliers;
+  onChange: (updates: Partial<Settings>) => void;
+}
+
+// Profile being created (no ID) or edited
+type Draft = Omit<WeightProfile, 'id'> & { id?: string };
+
+// Select value for "no profile"; features then use their product stage's weights
+const STAGE_WEIGHTS = 'stage';
+
+const FACTOR_LABELS = getWeightFactorLabels();
+
+export function WeightProfileEditor({
+  profiles,
+  assignments,
+  stageWeights,
+  tierMultipliers,
+  onChange,
+}: WeightProfileEditorProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newTeamKey, setNewTeamKey] = useState('');
+
+  // New profiles start from the mature product weights
+  const startEditing = (profile?: WeightProfile) => {
+    setDraft(profile
+      ? { ...profile, weights: { ...profile.weights }, tierMultipliers: { ...profile.tierMultipliers } }
+      : { name: '', weights: { ...stageWeights.mature }, tierMultipliers: { ...tierMultipliers } });
+    setErrors([]);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      setIsSaving(true);
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'saveWeightProfile', profile: draft }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.errors || [data.error || 'Failed to save profile']);
+        return;
+      }
+
+      const saved = data.result as WeightProfile;
+      const exists = profiles.some(p => p.id === saved.id);
+      onChange({ weightProfiles: exists ? profiles.map(p => (p.id === saved.id ? saved : p)) : [...profiles, saved] });
+      setDraft(null);
+      setErrors([]);
+      toast({
+        title: 'Profile Saved',
+        description: `${saved.name} can now be assigned to products and teams`,
+        variant: 'success',
+      });
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to save profile']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: WeightProfile) => {
+    if (!confirm(`Delete ${profile.name}? Products and teams using it go back to their stage weights.`)) return;
+
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'deleteWeightProfile', id: profile.id }),
+      });
+      if (!response.ok) throw new Error('Failed to delete profile');
+      const data = await response.json();
+      const settings = data.result as Settings;
+      onChange({ weightProfiles: settings.weightProfiles, profileAssignments: settings.profileAssignments });
+      if (draft?.id === profile.id) setDraft(null);
+    } catch (err) {
+      toast({
+        title: 'Delete Failed',
+        description: err instanceof Error ? err.message : 'Failed to delete profile',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const saveAssignments = async (next: WeightProfileAssignments) => {
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'setProfileAssignments', assignments: next }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.details || data.error || 'Failed to assign profile');
+      onChange({ profileAssignments: (data.result as Settings).profileAssignments });
+    } catch (err) {
+      toast({
+        title: 'Assignment Failed',
+        description: err instanceof Error ? err.message : 'Failed to assign profile',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const assignProduct = (product: Product, profileId: string) => {
+    const products = { ...assignments.products };
+    if (profileId === STAGE_WEIGHTS) {
+      delete products[product];
+    } else {
+      products[product] = profileId;
+    }
+    saveAssignments({ ...assignments, products });
+  };
+
+  const assignTeam = (teamKey: string, profileId: string | null) => {
+    const teams = { ...assignments.teams };
+    if (profileId) {
+      teams[teamKey] = profileId;
+    } else {
+      delete teams[teamKey];
+    }
+    saveAssignments({ ...assignments, teams });
+  };
+
+  const addTeam = () => {
+    const teamKey = newTeamKey.trim().toUpperCase();
+    if (!teamKey || profiles.length === 0) return;
+    assignTeam(teamKey, assignments.teams[teamKey] || profiles[0].id);
+    setNewTeamKey('');
+  };
+
+  const draftTotal = draft ? WEIGHT_KEYS.reduce((sum, key) => sum + (draft.weights[key] || 0), 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Saved profiles */}
+      {profiles.length === 0 && !draft && (
+        <p className="text-sm text-muted-foreground">
+          No weight profiles yet. Every product is scored with its stage&apos;s weights (mature or new).
+        </p>
+      )}
+      {profiles.length > 0 && (
+        <div className="space-y-2">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="min-w-0">
+                <span className="font-medium">{profile.name}</span>
+                <p className="text-xs text-muted-foreground truncate">
+                  {WEIGHT_KEYS.filter(key => profile.weights[key] > 0)
+                    .map(key => `${FACTOR_LABELS[key]} ${Math.round(profile.weights[key] * 100)}%`)
+                    .join(' · ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" onClick={() => startEditing(profile)} aria-label={`Edit ${profile.name}`}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(profile)} aria-label={`Delete ${profile.name}`}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!draft && (
+        <Button variant="outline" onClick={() => startEditing()}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Profile
+        </Button>
+      )}
+
+      {/* Create or edit */}
+      {draft && (
+        <div className="space-y-4 p-4 border rounded-lg">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Enterprise push"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Weights</Label>
+              <span className={`text-xs ${Math.abs(draftTotal - 1) > 0.001 ? 'text-orange-600' : 'text-muted-foreground'}`}>
+                Total {Math.round(draftTotal * 100)}%
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Mature products are scored on the first six factors and new products on capability gap, differentiation,
+              strategic alignment, request volume and effort.
+            </p>
+            <div className="grid gap-4 md:grid-cols-2">
+              {WEIGHT_KEYS.map((key) => (
+                <div key={key} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span>{FACTOR_LABELS[key]}</span>
+                    <span className="font-mono">{Math.round((draft.weights[key] || 0) * 100)}%</span>
+                  </div>
+                  <Slider
+                    value={[draft.weights[key] || 0]}
+                    min={0}
+                    max={MAX_WEIGHT}
+                    step={0.05}
+                    onValueChange={([v]) => setDraft({ ...draft, weights: { ...draft.weights, [key]: v } })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Customer Tier Multipliers</Label>
+            <div className="grid gap-4 md:grid-cols-5">
+              {TIERS.map((tier) => (
+                <div key={tier} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span>{tier}</span>
+                    <span className="font-mono">{draft.tierMultipliers[tier].toFixed(2)}x</span>
+                  </div>
+                  <Slider
+                    value={[draft.tierMultipliers[tier]]}
+                    min={0}
+                    max={MAX_MULTIPLIER}
+                    step={0.05}
+                    onValueChange={([v]) => setDraft({ ...draft, tierMultipliers: { ...draft.tierMultipliers, [tier]: v } })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="p-3 border border-destructive/50 rounded-lg text-sm space-y-1">
+              <p className="flex items-center gap-2 font-medium text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                The profile was not saved
+              </p>
+              {errors.map((error) => (
+                <p key={error} className="text-destructive">{error}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {draft.id ? 'Save Profile' : 'Create Profile'}
+            </Button>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Assignments */}
+      <div className="space-y-3 pt-4 border-t">
+        <Label>Products</Label>
+        {productConfigs.map((product) => (
+          <div key={product.id} className="grid grid-cols-[1fr_16rem] gap-4 items-center">
+            <span className="text-sm">{product.name}</span>
+            <Select
+              value={assignments.products[product.id] || STAGE_WEIGHTS}
+              onValueChange={(v) => assignProduct(product.id, v)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={STAGE_WEIGHTS}>
+                  {getProductStage(product.id) === 'new' ? 'New product weights' : 'Mature product weights'}
+                </SelectItem>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <Label>Linear Teams</Label>
+        <p className="text-xs text-muted-foreground">
+          A team&apos;s profile is used for its issues instead of the product&apos;s.
+        </p>
+        {Object.entries(assignments.teams).map(([teamKey, profileId]) => (
+          <div key={teamKey} className="grid grid-cols-[1fr_16rem_auto] gap-4 items-center">
+            <Badge variant="outline" className="w-fit font-mono">{teamKey}</Badge>
+            <Select value={profileId} onValueChange={(v) => assignTeam(teamKey, v)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="sm" onClick={() => assignTeam(teamKey, null)} aria-label={`Remove ${teamKey}`}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Input
+            value={newTeamKey}
+            onChange={(e) => setNewTeamKey(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addTeam()}
+            placeholder="Team key, e.g. ENG"
+            className="w-48 font-mono"
+            disabled={profiles.length === 0}
+          />
+          <Button variant="outline" onClick={addTeam} disabled={profiles.length === 0 || !newTeamKey.trim()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Team
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default WeightProfileEditor;
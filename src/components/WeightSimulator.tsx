@@ -0,0 +1,555 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from '@/hooks/useToast';
+import {
+  CustomFramework,
+  ScoredFeature,
+  ScoringFramework,
+  Settings,
+  TierMultipliers,
+  WeightConfig,
+  WeightProfile,
+  WeightProfileAssignments,
+  WeightScenario,
+} from '@/lib/types';
+import { ProfileValues, ScenarioValues, simulateScenario, withSimulatedValues } from '@/lib/scoring/simulator';
+import { MAX_MULTIPLIER, MAX_WEIGHT, TIERS, WEIGHT_KEYS, WeightProfileSettings } from '@/lib/scoring/weight-profiles';
+import { getWeightFactorLabels, getWeightedFactors } from '@/lib/scoring/frameworks/weighted';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowDown, ArrowUp, Check, Loader2, RotateCcw, Save, Trash2 } from 'lucide-react';
+
+interface WeightSimulatorProps {
+  weights: Settings['weights'];
+  tierMultipliers: TierMultipliers;
+  activeFramework: ScoringFramework;
+  customFrameworks: CustomFramework[];
+  scenarios: WeightScenario[];
+  weightProfiles: WeightProfile[];
+  profileAssignments: WeightProfileAssignments;
+  onChange: (updates: Partial<Settings>) => void;
+}
+
+// Rows shown in the re-ranked list
+const MAX_ROWS = 50;
+
+// Target value for simulating the stage weights rather than a named profile
+const STAGE_TARGET = 'stage';
+
+const FACTOR_LABELS = getWeightFactorLabels();
+
+const WEIGHT_SETS: { id: keyof Settings['weights']; label: string; factors: ReturnType<typeof getWeightedFactors> }[] = [
+  { id: 'mature', label: 'Mature Products', factors: getWeightedFactors('chat') },
+  { id: 'new', label: 'New Products', factors: getWeightedFactors('ai-agents') },
+];
+
+function copyValues(values: ScenarioValues): ScenarioValues {
+  return {
+    weights: { mature: { ...values.weights.mature }, new: { ...values.weights.new } },
+    tierMultipliers: { ...values.tierMultipliers },
+  };
+}
+
+const PRIORITY_NAMES: Record<number, string> = {
+  1: 'Urgent',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low',
+};
+
+export function WeightSimulator({
+  weights,
+  tierMultipliers,
+  activeFramework,
+  customFrameworks,
+  scenarios,
+  weightProfiles,
+  profileAssignments,
+  onChange,
+}: WeightSimulatorProps) {
+  const baseline = useMemo<ScenarioValues>(() => ({ weights, tierMultipliers }), [weights, tierMultipliers]);
+  const [values, setValues] = useState<ScenarioValues>(() => copyValues(baseline));
+  // Simulated values of the profiles edited so far, by profile ID
+  const [profileValues, setProfileValues] = useState<Record<string, ProfileValues>>({});
+  const [target, setTarget] = useState(STAGE_TARGET);
+  const [features, setFeatures] = useState<ScoredFeature[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [changedOnly, setChangedOnly] = useState(false);
+  const [scenarioName, setScenarioName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    const fetchFeatures = async () => {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/features?framework=${encodeURIComponent(activeFramework)}`);
+        const data = await response.json();
+        setFeatures(data.features || []);
+      } catch (error) {
+        console.error('Error fetching features for simulation:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchFeatures();
+  }, [activeFramework]);
+
+  // Features resolve their profile under both settings, so stage and profile edits both move them
+  const savedSettings = useMemo<WeightProfileSettings>(
+    () => ({ weights, tierMultipliers, weightProfiles, profileAssignments }),
+    [weights, tierMultipliers, weightProfiles, profileAssignments]
+  );
+  const simulatedSettings = useMemo(
+    () => withSimulatedValues(savedSettings, values, profileValues),
+    [savedSettings, values, profileValues]
+  );
+
+  // Recomputed on every slider move; factor scores are already on the features
+  const results = useMemo(
+    () => simulateScenario(features, activeFramework, savedSettings, simulatedSettings, customFrameworks),
+    [features, activeFramework, savedSettings, simulatedSettings, customFrameworks]
+  );
+  const hasAssignments = Object.keys(profileAssignments.products).length + Object.keys(profileAssignments.teams).length > 0;
+
+  // The profile being simulated, with its edits so far
+  const targetProfile = weightProfiles.find(p => p.id === target);
+  const targetValues = targetProfile && (profileValues[targetProfile.id] || targetProfile);
+
+  const movedUp = results.filter(r => r.rankDelta > 0).length;
+  const movedDown = results.filter(r => r.rankDelta < 0).length;
+  const crossed = results.filter(r => r.priorityChange).length;
+  const shown = (changedOnly ? results.filter(r => r.rankDelta !== 0 || r.priorityChange) : results).slice(0, MAX_ROWS);
+
+  const setWeight = (set: keyof Settings['weights'], key: keyof WeightConfig, value: number) => {
+    setValues(prev => ({
+      ...prev,
+      weights: { ...prev.weights, [set]: { ...prev.weights[set], [key]: value } },
+    }));
+  };
+
+  const setMultiplier = (tier: keyof TierMultipliers, value: number) => {
+    if (targetProfile && targetValues) {
+      setProfileValues(prev => ({
+        ...prev,
+        [targetProfile.id]: { ...targetValues, tierMultipliers: { ...targetValues.tierMultipliers, [tier]: value } },
+      }));
+    } else {
+      setValues(prev => ({ ...prev, tierMultipliers: { ...prev.tierMultipliers, [tier]: value } }));
+    }
+  };
+
+  const setProfileWeight = (key: keyof WeightConfig, value: number) => {
+    if (!targetProfile || !targetValues) return;
+    setProfileValues(prev => ({
+      ...prev,
+      [targetProfile.id]: { ...targetValues, weights: { ...targetValues.weights, [key]: value } },
+    }));
+  };
+
+  const handleReset = () => {
+    setValues(copyValues(baseline));
+    setProfileValues({});
+  };
+
+  const postScenario = async (action: 'saveWeightScenario' | 'applyWeightScenario', scenario: Partial<WeightScenario>) => {
+    const response = await fetch('/api/settings', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, scenario }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.details || data.error || 'Request failed');
+    }
+    return data.result;
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const saved = await postScenario('saveWeightScenario', { ...values, name: scenarioName }) as WeightScenario;
+      const exists = scenarios.some(s => s.id === saved.id);
+      onChange({
+        weightScenarios: exists ? scenarios.map(s => (s.id === saved.id ? saved : s)) : [...scenarios, saved],
+      });
+      setScenarioName('');
+      toast({
+        title: 'Scenario Saved',
+        description: `${saved.name} can be loaded again from the saved scenarios`,
+        variant: 'success',
+      });
+    } catch (err) {
+      toast({
+        title: 'Save Failed',
+        description: err instanceof Error ? err.message : 'Failed to save scenario',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Save the simulated profile in place of the stored one
+  const applyProfile = async (profile: WeightProfile) => {
+    const response = await fetch('/api/settings', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'saveWeightProfile', profile }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.errors?.join(', ') || data.error || 'Request failed');
+    }
+    const saved = data.result as WeightProfile;
+    onChange({ weightProfiles: weightProfiles.map(p => (p.id === saved.id ? saved : p)) });
+    setProfileValues(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== saved.id)));
+  };
+
+  const handleApply = async () => {
+    const subject = targetProfile ? `the ${targetProfile.name} profile` : 'the stage weights';
+    if (!confirm(`Apply these weights and tier multipliers to ${subject}? Feature priorities will be recalculated with them.`)) return;
+
+    try {
+      setIsApplying(true);
+      if (targetProfile && targetValues) {
+        await applyProfile({ ...targetProfile, ...targetValues });
+      } else {
+        const settings = await postScenario('applyWeightScenario', values) as Settings;
+        onChange({ weights: settings.weights, tierMultipliers: settings.tierMultipliers });
+      }
+      toast({
+        title: 'Weights Applied',
+        description: `Features are now ranked with the simulated weights of ${subject}`,
+        variant: 'success',
+      });
+    } catch (err) {
+      toast({
+        title: 'Apply Failed',
+        description: err instanceof Error ? err.message : 'Failed to apply weights',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleDelete = async (scenario: WeightScenario) => {
+    if (!confirm(`Delete scenario ${scenario.name}?`)) return;
+
+    try {
+      const response = await fetch('/api/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'deleteWeightScenario', id: scenario.id }),
+      });
+      if (!response.ok) throw new Error('Failed to delete scenario');
+      onChange({ weightScenarios: scenarios.filter(s => s.id !== scenario.id) });
+    } catch (err) {
+      toast({
+        title: 'Delete Failed',
+        description: err instanceof Error ? err.message : 'Failed to delete scenario',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {activeFramework !== 'weighted' && (
+        <p className="text-sm text-muted-foreground p-3 bg-muted rounded-lg">
+          Factor weights only change Weighted scoring; with the active framework only the tier multipliers have an effect.
+        </p>
+      )}
+
+      {weightProfiles.length > 0 && (
+        <div className="flex items-center gap-3">
+          <Label>Simulate</Label>
+          <Select value={targetProfile ? target : STAGE_TARGET} onValueChange={setTarget}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={STAGE_TARGET}>Stage weights</SelectItem>
+              {weightProfiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  {profile.name}{profileValues[profile.id] ? ' (edited)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {hasAssignments && (
+        <p className="text-sm text-muted-foreground p-3 bg-muted rounded-lg">
+          {targetProfile
+            ? `Only features of products and teams assigned ${targetProfile.name} are scored with these values.`
+            : 'Features of products and teams with a weight profile are scored with the profile instead; pick it above to simulate it.'}
+        </p>
+      )}
+
+      {/* Weights */}
+      {targetProfile && targetValues ? (
+        <div className="space-y-3">
+          <Label>{targetProfile.name}</Label>
+          <div className="grid gap-4 md:grid-cols-2">
+            {WEIGHT_KEYS.map((key) => {
+              const value = targetValues.weights[key] || 0;
+              return (
+                <div key={key} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span>{FACTOR_LABELS[key]}</span>
+                    <span className="font-mono">
+                      {Math.round(value * 100)}%
+                      {value !== targetProfile.weights[key] && (
+                        <span className="text-muted-foreground"> (was {Math.round((targetProfile.weights[key] || 0) * 100)}%)</span>
+                      )}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[value]}
+                    min={0}
+                    max={MAX_WEIGHT}
+                    step={0.05}
+                    onValueChange={([v]) => setProfileWeight(key, v)}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2">
+          {WEIGHT_SETS.map((set) => {
+            const total = set.factors.reduce((sum, f) => sum + (values.weights[set.id][f.key as keyof WeightConfig] || 0), 0);
+            return (
+              <div key={set.id} className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>{set.label}</Label>
+                  <span className={`text-xs ${Math.abs(total - 1) > 0.001 ? 'text-orange-600' : 'text-muted-foreground'}`}>
+                    Total {Math.round(total * 100)}%
+                  </span>
+                </div>
+                {set.factors.map((factor) => {
+                  const key = factor.key as keyof WeightConfig;
+                  const value = values.weights[set.id][key] || 0;
+                  return (
+                    <div key={key} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span>{factor.factor}</span>
+                        <span className="font-mono">
+                          {Math.round(value * 100)}%
+                          {value !== baseline.weights[set.id][key] && (
+                            <span className="text-muted-foreground"> (was {Math.round((baseline.weights[set.id][key] || 0) * 100)}%)</span>
+                          )}
+                        </span>
+                      </div>
+                      <Slider
+                        value={[value]}
+                        min={0}
+                        max={MAX_WEIGHT}
+                        step={0.05}
+                        onValueChange={([v]) => setWeight(set.id, key, v)}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Tier multipliers */}
+      <div className="space-y-3">
+        <Label>Customer Tier Multipliers</Label>
+        <div className="grid gap-4 md:grid-cols-5">
+          {TIERS.map((tier) => {
+            const value = (targetValues || values).tierMultipliers[tier];
+            const saved = (targetProfile || baseline).tierMultipliers[tier];
+            return (
+              <div key={tier} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span>{tier}</span>
+                  <span className={`font-mono ${value !== saved ? 'font-semibold' : ''}`}>
+                    {value.toFixed(2)}x
+                  </span>
+                </div>
+                <Slider
+                  value={[value]}
+                  min={0}
+                  max={MAX_MULTIPLIER}
+                  step={0.05}
+                  onValueChange={([v]) => setMultiplier(tier, v)}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-2 pt-4 border-t">
+        <Button variant="outline" onClick={handleReset}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Reset
+        </Button>
+        {!targetProfile && (
+          <>
+            <Input
+              value={scenarioName}
+              onChange={(e) => setScenarioName(e.target.value)}
+              placeholder="Scenario name"
+              className="w-48"
+            />
+            <Button variant="outline" onClick={handleSave} disabled={isSaving || !scenarioName.trim()}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              Save Scenario
+            </Button>
+          </>
+        )}
+        <Button onClick={handleApply} disabled={isApplying}>
+          {isApplying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+          Apply
+        </Button>
+      </div>
+
+      {/* Saved scenarios */}
+      {scenarios.length > 0 && (
+        <div className="space-y-2">
+          <Label>Saved Scenarios</Label>
+          {scenarios.map((scenario) => (
+            <div key={scenario.id} className="flex items-center justify-between p-2 border rounded-lg">
+              <div>
+                <span className="font-medium">{scenario.name}</span>
+                <span className="text-xs text-muted-foreground ml-2">
+                  {new Date(scenario.createdAt).toLocaleDateString()}
+                </span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setValues(copyValues(scenario));
+                    setTarget(STAGE_TARGET);
+                  }}
+                >
+                  Load
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(scenario)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Re-ranked features */}
+      <div className="space-y-3 pt-4 border-t">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex gap-2">
+            <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">{movedUp} moved up</Badge>
+            <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">{movedDown} moved down</Badge>
+            <Badge variant="outline">{crossed} changed priority</Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="changed-only" checked={changedOnly} onCheckedChange={setChangedOnly} />
+            <Label htmlFor="changed-only">Only changed</Label>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin mr-2" />
+            Loading features...
+          </div>
+        ) : shown.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">
+            {changedOnly ? 'No features change position.' : 'No features to simulate yet.'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[50px]">#</TableHead>
+                <TableHead className="w-[70px]">Change</TableHead>
+                <TableHead>Feature</TableHead>
+                <TableHead className="w-[130px] text-right">Score</TableHead>
+                <TableHead className="w-[150px]">Priority</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.map((result) => (
+                <TableRow key={result.feature.id}>
+                  <TableCell className="font-mono">{result.scenario.rank}</TableCell>
+                  <TableCell>
+                    {result.rankDelta > 0 ? (
+                      <span className="flex items-center text-green-600 font-mono">
+                        <ArrowUp className="w-3 h-3" />{result.rankDelta}
+                      </span>
+                    ) : result.rankDelta < 0 ? (
+                      <span className="flex items-center text-red-600 font-mono">
+                        <ArrowDown className="w-3 h-3" />{-result.rankDelta}
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-[320px]">
+                    <span className="font-mono text-xs text-muted-foreground mr-2">{result.feature.identifier}</span>
+                    <span className="truncate">{result.feature.title}</span>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {result.baseline.finalScore !== result.scenario.finalScore && (
+                      <span className="text-muted-foreground">{result.baseline.finalScore.toFixed(2)} → </span>
+                    )}
+                    {result.scenario.finalScore.toFixed(2)}
+                  </TableCell>
+                  <TableCell>
+                    {result.priorityChange ? (
+                      <Badge
+                        variant="outline"
+                        className={result.priorityChange === 'up'
+                          ? 'bg-green-100 text-green-800 border-green-200'
+                          : 'bg-red-100 text-red-800 border-red-200'}
+                      >
+                        {PRIORITY_NAMES[result.baseline.priority]} → {PRIORITY_NAMES[result.scenario.priority]}
+                      </Badge>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">{PRIORITY_NAMES[result.scenario.priority]}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default WeightSimulator;
@@ -42,7 +42,7 @@ export function WelcomeStep() {
           </div>
           <h3 className="font-semibold">Multiple Frameworks</h3>
           <p className="text-sm text-muted-foreground">
-            Choose from RICE, ICE, MoSCoW, or custom weighted scoring.
+            Choose from RICE, ICE, MoSCoW, WSJF, Kano, or custom weighted scoring.
           </p>
         </div>
 
@@ -32,17 +32,46 @@ export const paths = {
   // Local data paths (write)
   local: {
     root: path.join(process.cwd(), 'data'),
-    scoreOverrides: path.join(process.cwd(), 'data/score-overrides.json'),
     prompts: path.join(process.cwd(), 'data/prompts.json'),
+    // SQLite database for settings, API keys, overrides, audit log, AI scores, usage,
+    // push history, managed labels, duplicate decisions, accounts and imported features
+    database: path.join(process.cwd(), 'data/product-os.db'),
+    // JSON files those stores used before the database; imported once, then unused
+    scoreOverrides: path.join(process.cwd(), 'data/score-overrides.json'),
     settings: path.join(process.cwd(), 'data/settings.json'),
     usage: path.join(process.cwd(), 'data/usage.json'),
     audit: path.join(process.cwd(), 'data/audit.json'),
     aiScores: path.join(process.cwd(), 'data/ai-scores.json'),
+    apiKeys: path.join(process.cwd(), 'data/api-keys.json'),
+    pushHistory: path.join(process.cwd(), 'data/push-history.json'),
+    managedLabels: path.join(process.cwd(), 'data/linear-managed-labels.json'),
+    importedFeatures: path.join(process.cwd(), 'data/imported-features.json'),
+    duplicateDecisions: path.join(process.cwd(), 'data/duplicate-decisions.json'),
+    accounts: path.join(process.cwd(), 'data/accounts.json'),
+
     // Local Linear data (fetched directly from API)
     linear: {
       issues: path.join(process.cwd(), 'data/linear/issues.json'),
       projects: path.join(process.cwd(), 'data/linear/projects.json'),
+      initiatives: path.join(process.cwd(), 'data/linear/initiatives.json'),
+    },
+    // Local Featurebase data (fetched directly from API)
+    featurebase: {
+      posts: path.join(process.cwd(), 'data/featurebase/posts.json'),
+    },
+    // Local Zendesk data (incremental export)
+    zendesk: {
+      tickets: path.join(process.cwd(), 'data/zendesk/tickets.json'),
+    },
+    // Feedback sources: synced API data, and folders for exported files
+    feedback: {
+      intercom: path.join(process.cwd(), 'data/feedback/intercom.json'),
+      hubspot: path.join(process.cwd(), 'data/feedback/hubspot.json'),
+      slack: path.join(process.cwd(), 'data/feedback/slack'),
+      csv: path.join(process.cwd(), 'data/feedback/csv'),
     },
+    embeddings: path.join(process.cwd(), 'data/embeddings.json'),
+    syncStatus: path.join(process.cwd(), 'data/sync-status.json'),
   },
 };
 
@@ -0,0 +1,68 @@
+import { rmSync } from 'fs';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearAccounts, loadAccountsData, saveAccounts } from '@/lib/account-store';
+
+const dir = await vi.hoisted(async () => {
+  const fs = await import('fs');
+  const os = await import('os');
+  return fs.mkdtempSync(`${os.tmpdir()}/product-os-accounts-`);
+});
+
+// The database goes to a temp directory
+vi.mock('@/config/paths', async importOriginal => {
+  const { paths } = await importOriginal<typeof import('@/config/paths')>();
+  const local = { ...paths.local, database: path.join(dir, 'product-os.db') };
+  return { default: { ...paths, local }, paths: { ...paths, local } };
+});
+
+const acme = { name: 'Acme', tier: 'C1' as const, arr: 250_000 };
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await clearAccounts();
+});
+
+describe('saveAccounts', () => {
+  it('lets a CSV row update a CRM account of the same name without taking it over', async () => {
+    const [crmId] = (await saveAccounts('hubspot', [{ ...acme, externalId: 'hs-1' }], 'append')).ids;
+
+    const csv = await saveAccounts('csv', [{ ...acme, arr: 300_000 }], 'append');
+    expect(csv).toMatchObject({ added: 0, updated: 1, ids: [crmId] });
+
+    const { accounts } = await loadAccountsData();
+    expect(accounts).toHaveLength(1);
+    expect(accounts[0]).toMatchObject({ id: crmId, source: 'hubspot', externalId: 'hs-1', arr: 300_000 });
+
+    // The next CRM sync still matches the account by its ID
+    const sync = await saveAccounts('hubspot', [{ ...acme, externalId: 'hs-1' }], 'replace');
+    expect(sync).toMatchObject({ added: 0, updated: 1, removed: 0, ids: [crmId] });
+    expect((await loadAccountsData()).accounts).toHaveLength(1);
+  });
+
+  it('only matches a CRM record by name within its own source', async () => {
+    const [csvId] = (await saveAccounts('csv', [acme], 'append')).ids;
+
+    const sync = await saveAccounts('hubspot', [{ ...acme, externalId: 'hs-1' }], 'append');
+    expect(sync.added).toBe(1);
+    expect(sync.ids[0]).not.toBe(csvId);
+
+    const { accounts } = await loadAccountsData();
+    const csvAccount = accounts.find(a => a.id === csvId);
+    expect(csvAccount?.source).toBe('csv');
+    expect(csvAccount?.externalId).toBeUndefined();
+  });
+
+  it('keeps other sources\' accounts when a CSV import replaces its own', async () => {
+    await saveAccounts('hubspot', [{ ...acme, externalId: 'hs-1' }], 'append');
+    await saveAccounts('csv', [{ name: 'Globex', tier: 'C3', arr: 10_000 }], 'append');
+
+    const result = await saveAccounts('csv', [acme], 'replace');
+    expect(result.removed).toBe(1);
+    expect((await loadAccountsData()).accounts.map(a => a.name)).toEqual(['Acme']);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { buildConsensusRanking, hasFrameworkFactorScores } from '@/lib/scoring/consensus';
+import { ScoredFeature, ScoringFramework } from '@/lib/types';
+
+function scored(id: string, finalScore: number): ScoredFeature {
+  return {
+    id,
+    identifier: id.toUpperCase(),
+    title: id,
+    description: '',
+    url: '',
+    product: 'chat',
+    customerTier: 'C3',
+    type: 'feature',
+    source: 'internal',
+    labels: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    scores: {},
+    baseScore: finalScore,
+    multiplier: 1,
+    finalScore,
+    flags: [],
+    framework: 'weighted',
+  };
+}
+
+function ranking(framework: ScoringFramework, scores: Record<string, number>) {
+  return { framework, features: Object.entries(scores).map(([id, score]) => scored(id, score)) };
+}
+
+describe('hasFrameworkFactorScores', () => {
+  it('requires every factor the framework is scored on', () => {
+    const ice = { impact: 7, confidence: 6, ease: 8 };
+    expect(hasFrameworkFactorScores('ice', ice)).toBe(true);
+    expect(hasFrameworkFactorScores('ice', { impact: 7, confidence: 6 })).toBe(false);
+    expect(hasFrameworkFactorScores('rice', ice)).toBe(false);
+  });
+});
+
+describe('buildConsensusRanking', () => {
+  it('leaves frameworks without real scores out of a feature\'s consensus and spread', () => {
+    const entries = buildConsensusRanking([
+      ranking('weighted', { a: 9, b: 5, c: 1 }),
+      ranking('ice', { a: 8, b: 4, c: 2 }),
+      // Only b and c were scored for RICE; a would otherwise rank last there on defaults
+      ranking('rice', { b: 6, c: 3 }),
+    ]);
+
+    const a = entries.find(e => e.featureId === 'a')!;
+    expect(a.ranks.map(r => r.framework)).toEqual(['weighted', 'ice']);
+    expect(a.unscoredFrameworks).toEqual(['rice']);
+    expect(a.consensusScore).toBe(100);
+    expect(a.spread).toBe(0);
+    expect(a.consensusRank).toBe(1);
+
+    const b = entries.find(e => e.featureId === 'b')!;
+    expect(b.unscoredFrameworks).toEqual([]);
+    expect(b.ranks.find(r => r.framework === 'rice')?.percentile).toBe(100);
+  });
+
+  it('drops features ranked under fewer than two frameworks', () => {
+    const entries = buildConsensusRanking([
+      ranking('weighted', { a: 9, b: 5 }),
+      ranking('ice', { a: 8 }),
+    ]);
+    expect(entries.map(e => e.featureId)).toEqual(['a']);
+
+    const withThird = buildConsensusRanking([
+      ranking('weighted', { a: 9, b: 5 }),
+      ranking('ice', { a: 8 }),
+      ranking('rice', { a: 3, b: 7 }),
+    ]);
+    expect(withThird.map(e => e.featureId).sort()).toEqual(['a', 'b']);
+  });
+});
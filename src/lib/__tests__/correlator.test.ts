@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { correlateData } from '@/lib/correlator';
+import { featurebaseSource } from '@/lib/feedback-sources/featurebase';
+import { getFeatureFeedback } from '@/lib/feedback-sources/registry';
+import { SourceFeedback } from '@/lib/feedback-sources/types';
+import { zendeskSource } from '@/lib/feedback-sources/zendesk';
+import { FeaturebasePost, LinearIssue, ZendeskTicket } from '@/lib/types';
+
+function issue(id: string, title: string, createdAt: string): LinearIssue {
+  return {
+    id,
+    identifier: id.toUpperCase(),
+    title,
+    url: `https://linear.app/acme/issue/${id.toUpperCase()}`,
+    state: { id: 'state-backlog', name: 'Backlog', type: 'backlog' },
+    priority: 0,
+    priorityLabel: 'No priority',
+    labels: { nodes: [] },
+    project: { id: 'project-icebox', name: 'Product Icebox' },
+    createdAt,
+    updatedAt: createdAt,
+    sortOrder: 0,
+  };
+}
+
+function ticket(id: string, subject: string, tags: string[] = []): ZendeskTicket {
+  return {
+    id,
+    subject,
+    description: '',
+    status: 'open',
+    priority: 'normal',
+    tags,
+    createdAt: '2026-02-01T00:00:00.000Z',
+    updatedAt: '2026-02-01T00:00:00.000Z',
+  };
+}
+
+function post(id: string, title: string, upvotes: number): FeaturebasePost {
+  return {
+    id,
+    title,
+    content: '',
+    status: 'Open',
+    upvotes,
+    url: `https://feedback.acme.io/p/${id}`,
+    createdAt: '2026-02-01T00:00:00.000Z',
+    updatedAt: '2026-02-01T00:00:00.000Z',
+  };
+}
+
+function feedback(tickets: ZendeskTicket[], posts: FeaturebasePost[] = []): SourceFeedback[] {
+  return [
+    { source: featurebaseSource, signals: posts.map(p => featurebaseSource.normalize(p)) },
+    { source: zendeskSource, signals: tickets.map(t => zendeskSource.normalize(t)) },
+  ];
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('correlateData duplicate roll-up', () => {
+  const original = issue('eng-1', 'Export dashboards csv format', '2026-01-01T00:00:00.000Z');
+  const duplicate = issue('eng-2', 'Export dashboards csv spreadsheet', '2026-01-05T00:00:00.000Z');
+
+  it('counts a support ticket matched by both the original and its duplicate once', () => {
+    const tickets = [
+      ticket('101', 'Export dashboards csv'),
+      ticket('102', 'csv dashboards export format'),
+      ticket('103', 'spreadsheet export'), // Only matches the duplicate
+    ];
+
+    const [feature, dupe] = correlateData([original, duplicate], { feedback: feedback(tickets) });
+
+    expect(dupe.duplicateOf).toBe(feature.id);
+    expect(dupe.supportTicketIds?.sort()).toEqual(['101', '102', '103']);
+    expect(feature.supportTicketCount).toBe(3);
+    expect(feature.supportTicketIds?.sort()).toEqual(['101', '102', '103']);
+    expect(feature.duplicateRollup?.supportTickets).toBe(1);
+  });
+
+  it('adds tickets a duplicate matched by content to the tickets linked to the original', () => {
+    const tickets = [
+      ticket('201', 'Customer asks for this', ['eng-1']),
+      ticket('202', 'Export dashboards csv spreadsheet'),
+    ];
+
+    const [feature, dupe] = correlateData([original, duplicate], { feedback: feedback(tickets) });
+
+    expect(feature.linkedTicketIds).toEqual(['201']);
+    expect(dupe.supportTicketIds).toEqual(['202']);
+    expect(feature.supportTicketCount).toBe(2);
+    expect(feature.duplicateRollup?.supportTickets).toBe(1);
+  });
+});
+
+describe('correlateData feedback matching', () => {
+  const exportIssue = issue('eng-1', 'Export dashboards csv format', '2026-01-01T00:00:00.000Z');
+
+  it('counts the Zendesk tickets shown as signals on the feature', () => {
+    const tickets = Array.from({ length: 7 }, (_, i) => ticket(`30${i}`, `Export dashboards csv ${i}`));
+    const data = feedback([...tickets, ticket('399', 'Password reset email')]);
+
+    const [feature] = correlateData([exportIssue], { feedback: data });
+    const zendesk = getFeatureFeedback(feature, data).find(group => group.source === 'zendesk');
+
+    expect(feature.supportTicketCount).toBe(zendesk?.signals.length);
+    expect(feature.supportTicketIds).toEqual(zendesk?.signals.map(s => s.id));
+    expect(feature.supportTicketCount).toBe(5);
+  });
+
+  it('counts every ticket linked to the issue instead of content matches', () => {
+    const tickets = [
+      ticket('401', 'Customer asks for this', ['ENG-1']),
+      ticket('402', 'Follow-up from ACME', ['eng-1']),
+      ticket('403', 'Export dashboards csv format'),
+    ];
+
+    const [feature] = correlateData([exportIssue], { feedback: feedback(tickets) });
+
+    expect(feature.linkedTicketIds?.sort()).toEqual(['401', '402']);
+    expect(feature.supportTicketIds?.sort()).toEqual(['401', '402']);
+    expect(feature.supportTicketCount).toBe(2);
+  });
+
+  it('takes Featurebase upvotes and link from the best matching post', () => {
+    const posts = [
+      post('fb-1', 'Export dashboards', 4),
+      post('fb-2', 'Export dashboards csv format', 12),
+      post('fb-3', 'Dark mode', 30),
+    ];
+
+    const [feature] = correlateData([exportIssue], { feedback: feedback([], posts) });
+
+    expect(feature.featurebaseUpvotes).toBe(12);
+    expect(feature.featurebaseUrl).toBe('https://feedback.acme.io/p/fb-2');
+  });
+
+  it('prefers the Featurebase post attached to the issue', () => {
+    const posts = [post('fb-1', 'Dashboards', 4), post('fb-2', 'Export dashboards csv format', 12)];
+    const attached = {
+      ...exportIssue,
+      attachments: { nodes: [{ id: 'attachment-1', url: 'https://feedback.acme.io/p/fb-1', title: 'Featurebase' }] },
+    };
+
+    const [feature] = correlateData([attached], { feedback: feedback([], posts) });
+
+    expect(feature.featurebaseUpvotes).toBe(4);
+    expect(feature.featurebaseUrl).toBe('https://feedback.acme.io/p/fb-1');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { validateCsvFeedbackFile } from '@/lib/feedback-sources/csv';
+
+const CONTENT = 'Title,Account,Votes\nSSO for the admin console,Acme,3\n,Globex,1\n';
+
+describe('validateCsvFeedbackFile', () => {
+  it('accepts a file with a title column and counts the rows carrying feedback', () => {
+    const { file, errors } = validateCsvFeedbackFile('Q3 survey.csv', CONTENT);
+    expect(errors).toEqual([]);
+    expect(file).toEqual({ name: 'Q3-survey.csv', content: CONTENT, rows: 1 });
+  });
+
+  it('keeps the stored name inside the feedback folder', () => {
+    expect(validateCsvFeedbackFile('../../settings/.env.csv', CONTENT).file?.name).toBe('env.csv');
+    expect(validateCsvFeedbackFile('..', CONTENT).errors).toEqual(['File name must end in .csv']);
+    expect(validateCsvFeedbackFile('notes.txt', CONTENT).errors).toEqual(['File name must end in .csv']);
+  });
+
+  it('rejects empty files and files without a title or body column', () => {
+    expect(validateCsvFeedbackFile('empty.csv', ' ').errors).toEqual(['File is empty']);
+    expect(validateCsvFeedbackFile('accounts.csv', 'Name,ARR\nAcme,1000\n').errors[0]).toMatch(/^Add a title column/);
+    expect(validateCsvFeedbackFile('blank.csv', 'Title,Votes\n,3\n').errors).toEqual(['No rows with a title or body']);
+  });
+});
@@ -0,0 +1,68 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { documentKeys, migrations, runMigrations } from '@/lib/db/migrations';
+
+let dir: string;
+let db: Database.Database;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), 'product-os-db-'));
+  db = new Database(path.join(dir, 'test.db'));
+});
+
+afterEach(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+  vi.doUnmock('@/config/paths');
+});
+
+describe('runMigrations', () => {
+  it('applies every migration once and records the version in user_version', () => {
+    expect(runMigrations(db)).toBe(migrations.length);
+    expect(db.pragma('user_version', { simple: true })).toBe(migrations[migrations.length - 1].version);
+    expect(runMigrations(db)).toBe(0);
+  });
+
+  it('re-runs cleanly on a database whose tables exist but whose user_version was never set', () => {
+    runMigrations(db);
+    db.pragma('user_version = 0');
+
+    expect(() => runMigrations(db)).not.toThrow();
+    const { count } = db.prepare('SELECT COUNT(*) AS count FROM schema_migrations').get() as { count: number };
+    expect(count).toBe(migrations.length);
+  });
+});
+
+describe('importJsonStores', () => {
+  it('copies the legacy push history and accounts files into documents once', async () => {
+    const pushHistory = path.join(dir, 'push-history.json');
+    const accounts = path.join(dir, 'accounts.json');
+    writeFileSync(pushHistory, JSON.stringify({ batches: [{ id: 'batch-1' }, { id: 'batch-2' }], lastUpdated: '' }));
+    writeFileSync(accounts, JSON.stringify({ accounts: [{ id: 'account-1' }], links: [], lastUpdated: '' }));
+
+    // Every legacy file is looked for in the temp directory, where only these two exist
+    vi.doMock('@/config/paths', async importOriginal => {
+      const { paths } = await importOriginal<typeof import('@/config/paths')>();
+      const local = Object.fromEntries(Object.entries(paths.local).map(([key, file]) =>
+        [key, typeof file === 'string' ? path.join(dir, path.basename(file)) : file]
+      ));
+      return { default: { ...paths, local } };
+    });
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { importJsonStores } = await import('@/lib/db/json-import');
+
+    runMigrations(db);
+    expect(importJsonStores(db)).toEqual([
+      { file: 'push-history.json', rows: 2 },
+      { file: 'accounts.json', rows: 1 },
+    ]);
+    expect(importJsonStores(db)).toEqual([]);
+
+    const row = db.prepare('SELECT value FROM documents WHERE key = ?').get(documentKeys.pushHistory) as { value: string };
+    expect(JSON.parse(row.value).batches).toHaveLength(2);
+  });
+});
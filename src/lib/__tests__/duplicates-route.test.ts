@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DuplicateDecision, FeatureRequest } from '@/lib/types';
+import { POST } from '@/app/api/duplicates/route';
+import { getDuplicateDecision, recordDuplicateDecision } from '@/lib/duplicate-store';
+import { createLinearDuplicateRelation, deleteLinearIssueRelation } from '@/lib/linear-client';
+
+function feature(id: string): FeatureRequest {
+  return {
+    id,
+    identifier: id.toUpperCase(),
+    title: id,
+    description: '',
+    url: `https://linear.app/acme/issue/${id}`,
+    product: 'chat',
+    customerTier: 'C3',
+    type: 'feature',
+    source: 'internal',
+    labels: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+const features = [feature('plat-1'), feature('plat-2')];
+
+vi.mock('@/lib/feature-index', () => ({
+  getFeatureIndex: vi.fn(async () => ({ features, byId: new Map(features.map(f => [f.id, f])) })),
+}));
+vi.mock('@/lib/duplicate-store', () => ({
+  getDuplicateDecision: vi.fn(),
+  loadDuplicateDecisions: vi.fn(async () => []),
+  recordDuplicateDecision: vi.fn(),
+  removeDuplicateDecision: vi.fn(),
+}));
+vi.mock('@/lib/linear-client', () => ({
+  createLinearDuplicateRelation: vi.fn(async () => 'relation-new'),
+  deleteLinearIssueRelation: vi.fn(),
+  isLinearConfigured: vi.fn(async () => true),
+}));
+
+function confirmed(originalId: string, duplicateId: string): DuplicateDecision {
+  return {
+    original: { id: originalId, identifier: originalId.toUpperCase(), title: originalId, url: '', product: 'chat', source: 'internal' },
+    duplicate: { id: duplicateId, identifier: duplicateId.toUpperCase(), title: duplicateId, url: '', product: 'chat', source: 'internal' },
+    status: 'confirmed',
+    linearRelationId: 'relation-old',
+    decidedBy: 'PM',
+    decidedAt: '2026-10-01T00:00:00.000Z',
+  };
+}
+
+async function review(body: Record<string, unknown>): Promise<{ status: number; data: { decision?: DuplicateDecision } }> {
+  const response = await POST(new Request('http://localhost/api/duplicates', {
+    method: 'POST',
+    body: JSON.stringify({ originalId: 'plat-1', duplicateId: 'plat-2', ...body }),
+  }));
+  return { status: response.status, data: await response.json() };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('POST /api/duplicates', () => {
+  it('deletes the Linear relation of a confirmed pair when it is dismissed', async () => {
+    vi.mocked(getDuplicateDecision).mockResolvedValue(confirmed('plat-1', 'plat-2'));
+
+    const { status, data } = await review({ action: 'dismiss' });
+
+    expect(status).toBe(200);
+    expect(deleteLinearIssueRelation).toHaveBeenCalledWith('relation-old');
+    expect(data.decision?.linearRelationId).toBeUndefined();
+  });
+
+  it('reuses the Linear relation when a confirmed pair is confirmed again', async () => {
+    vi.mocked(getDuplicateDecision).mockResolvedValue(confirmed('plat-1', 'plat-2'));
+
+    const { data } = await review({ action: 'confirm', markInLinear: true });
+
+    expect(createLinearDuplicateRelation).not.toHaveBeenCalled();
+    expect(deleteLinearIssueRelation).not.toHaveBeenCalled();
+    expect(vi.mocked(recordDuplicateDecision).mock.calls[0][0].linearRelationId).toBe('relation-old');
+    expect(data.decision?.linearRelationId).toBe('relation-old');
+  });
+
+  it('replaces the relation when the pair is confirmed the other way round', async () => {
+    vi.mocked(getDuplicateDecision).mockResolvedValue(confirmed('plat-2', 'plat-1'));
+
+    const { data } = await review({ action: 'confirm', markInLinear: true });
+
+    expect(deleteLinearIssueRelation).toHaveBeenCalledWith('relation-old');
+    expect(createLinearDuplicateRelation).toHaveBeenCalledWith('plat-2', 'plat-1');
+    expect(data.decision?.linearRelationId).toBe('relation-new');
+  });
+
+  it('creates a relation for a pair without one', async () => {
+    vi.mocked(getDuplicateDecision).mockResolvedValue(null);
+
+    const { data } = await review({ action: 'confirm', markInLinear: true });
+
+    expect(deleteLinearIssueRelation).not.toHaveBeenCalled();
+    expect(data.decision?.linearRelationId).toBe('relation-new');
+  });
+});
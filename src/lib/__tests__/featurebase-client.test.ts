@@ -0,0 +1,202 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockHandler, MockServer, RecordedRequest, startMockServer } from './helpers/mock-server';
+import postsPage1 from './fixtures/featurebase/posts-page-1.json';
+import postsPage2 from './fixtures/featurebase/posts-page-2.json';
+import upvotersBulkExport from './fixtures/featurebase/upvoters-bulk-export.json';
+import upvotersOktaScim from './fixtures/featurebase/upvoters-okta-scim.json';
+import commentsBulkExport from './fixtures/featurebase/comments-bulk-export.json';
+
+vi.mock('@/lib/api-keys-store', () => ({
+  getEffectiveAPIKey: vi.fn(async () => 'fb_test_key'),
+  getAPIKeyStatus: vi.fn(),
+}));
+
+type FeaturebaseModule = typeof import('@/lib/featurebase-client');
+type APIKeyErrorClass = typeof import('@/lib/linear-client').APIKeyError;
+type GetEffectiveAPIKey = typeof import('@/lib/api-keys-store').getEffectiveAPIKey;
+
+const BULK_EXPORT_ID = postsPage1.results[0].id;
+const OKTA_SCIM_ID = postsPage1.results[1].id;
+
+let server: MockServer;
+let featurebase: FeaturebaseModule;
+let APIKeyError: APIKeyErrorClass;
+let getEffectiveAPIKey: GetEffectiveAPIKey;
+
+function query(request: RecordedRequest): URL {
+  return new URL(request.url, server.url);
+}
+
+// Serve the recorded responses by endpoint, page and post
+const recorded: MockHandler = request => {
+  const url = query(request);
+  const submissionId = url.searchParams.get('submissionId');
+  switch (url.pathname) {
+    case '/v2/posts':
+      return { body: url.searchParams.get('page') === '2' ? postsPage2 : postsPage1 };
+    case '/v2/posts/upvoters':
+      return { body: submissionId === BULK_EXPORT_ID ? upvotersBulkExport : upvotersOktaScim };
+    case '/v2/comment':
+      return { body: commentsBulkExport };
+    default:
+      return { status: 404, body: { message: 'Not found' } };
+  }
+};
+
+function requestsTo(pathname: string): URL[] {
+  return server.requests.map(query).filter(url => url.pathname === pathname);
+}
+
+beforeAll(async () => {
+  server = await startMockServer(recorded);
+  process.env.FEATUREBASE_API_URL = `${server.url}/v2`;
+  process.env.FEATUREBASE_PORTAL_URL = 'https://feedback.acme.io/';
+  vi.resetModules();
+  featurebase = await import('@/lib/featurebase-client');
+  ({ APIKeyError } = await import('@/lib/linear-client'));
+  ({ getEffectiveAPIKey } = await import('@/lib/api-keys-store'));
+});
+
+afterAll(async () => {
+  delete process.env.FEATUREBASE_API_URL;
+  delete process.env.FEATUREBASE_PORTAL_URL;
+  await server.close();
+});
+
+beforeEach(() => {
+  server.requests.splice(0);
+  server.setHandler(recorded);
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('fetchFeaturebasePosts', () => {
+  it('follows pagination until the last page', async () => {
+    const posts = await featurebase.fetchFeaturebasePosts();
+
+    expect(posts.map(p => p.title)).toEqual(['Bulk export to CSV', 'Okta SCIM provisioning', 'Dark mode']);
+    const pages = requestsTo('/v2/posts');
+    expect(pages.map(url => url.searchParams.get('page'))).toEqual(['1', '2']);
+    expect(pages[0].searchParams.get('limit')).toBe('100');
+    expect(pages[0].searchParams.get('sortBy')).toBe('date');
+    expect(server.requests[0].headers['x-api-key']).toBe('fb_test_key');
+  });
+
+  it('maps status, category, links, voters and comments', async () => {
+    const [bulkExport, oktaScim, darkMode] = await featurebase.fetchFeaturebasePosts();
+
+    expect(bulkExport).toEqual({
+      id: BULK_EXPORT_ID,
+      title: 'Bulk export to CSV',
+      content: '<p>We need to export all dashboards to CSV at once for our quarterly audit.</p>',
+      status: 'Under Review',
+      upvotes: 3,
+      url: 'https://feedback.acme.io/p/bulk-export-to-csv',
+      category: 'Reporting',
+      commentCount: 2,
+      voters: [
+        { id: '64aa01b2c3d4e5f607182930', name: 'Priya Raman', email: 'priya@globex.example', companyName: 'Globex Corporation' },
+        { id: '64aa01b2c3d4e5f607182931', name: 'Tom Becker', email: 'tom@initech.example', companyName: undefined },
+        { id: '64aa01b2c3d4e5f607182932', name: 'Ana Souza', email: 'ana@globex.example', companyName: 'Globex Corporation' },
+      ],
+      comments: [
+        {
+          id: '66b0c1d2e3f4a5b6c7d8e9f0',
+          content: '<p>Would need this to include archived dashboards too.</p>',
+          author: 'Priya Raman',
+          createdAt: '2026-01-15T09:12:44.000Z',
+        },
+        { id: '66b0c1d2e3f4a5b6c7d8e9f1', content: '', author: 'Unknown', createdAt: '2026-02-27T16:45:12.000Z' },
+      ],
+      createdAt: '2026-01-14T10:22:03.000Z',
+      updatedAt: '2026-02-27T16:45:12.000Z',
+    });
+
+    // No postUrl: the link is built from the portal URL and slug
+    expect(oktaScim.url).toBe('https://feedback.acme.io/p/okta-scim-provisioning');
+    expect(oktaScim.voters?.map(v => v.companyName)).toEqual(['Umbrella Corp']);
+    expect(oktaScim.comments).toEqual([]);
+
+    expect(darkMode).toMatchObject({
+      content: '',
+      status: 'Unknown',
+      upvotes: 0,
+      url: '',
+      category: undefined,
+      commentCount: 0,
+      voters: [],
+      comments: [],
+      updatedAt: '2026-02-02T19:30:00.000Z',
+    });
+  });
+
+  it('only fetches voters and comments for posts with votes or comments', async () => {
+    await featurebase.fetchFeaturebasePosts();
+
+    expect(requestsTo('/v2/posts/upvoters').map(url => url.searchParams.get('submissionId')))
+      .toEqual([BULK_EXPORT_ID, OKTA_SCIM_ID]);
+    expect(requestsTo('/v2/comment').map(url => url.searchParams.get('submissionId')))
+      .toEqual([BULK_EXPORT_ID]);
+  });
+
+  it('reuses voters and comments of posts whose counts did not change', async () => {
+    const previous = await featurebase.fetchFeaturebasePosts();
+    const changed = previous.map(p => p.id === OKTA_SCIM_ID ? { ...p, upvotes: 0 } : p);
+    server.requests.splice(0);
+
+    const posts = await featurebase.fetchFeaturebasePosts(changed);
+
+    expect(requestsTo('/v2/posts/upvoters').map(url => url.searchParams.get('submissionId'))).toEqual([OKTA_SCIM_ID]);
+    expect(requestsTo('/v2/comment')).toEqual([]);
+    expect(posts[0].voters).toEqual(previous[0].voters);
+    expect(posts[0].comments).toEqual(previous[0].comments);
+  });
+
+  it('throws an APIKeyError when no key is configured', async () => {
+    vi.mocked(getEffectiveAPIKey).mockResolvedValueOnce(undefined);
+
+    await expect(featurebase.fetchFeaturebasePosts()).rejects.toBeInstanceOf(APIKeyError);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('throws an APIKeyError when the key is rejected', async () => {
+    server.setHandler(() => ({ status: 401, body: { message: 'Invalid API key' } }));
+
+    const error = await featurebase.fetchFeaturebasePosts().catch(e => e);
+
+    expect(error).toBeInstanceOf(APIKeyError);
+    expect(error.service).toBe('featurebase');
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('retries rate limits and server errors', async () => {
+    server.setHandler((request, index) => index === 0
+      ? { status: 429, body: { message: 'Too many requests' } }
+      : index === 1
+        ? { status: 502 }
+        : recorded(request, index));
+
+    const posts = await featurebase.fetchFeaturebasePosts();
+
+    expect(posts).toHaveLength(3);
+    expect(requestsTo('/v2/posts').map(url => url.searchParams.get('page'))).toEqual(['1', '1', '1', '2']);
+  });
+
+  it('gives up after repeated server errors', async () => {
+    server.setHandler(() => ({ status: 500 }));
+
+    await expect(featurebase.fetchFeaturebasePosts()).rejects.toThrow('Featurebase API error: 500');
+    expect(server.requests).toHaveLength(5);
+  });
+
+  it('does not retry other client errors', async () => {
+    server.setHandler(() => ({ status: 404, body: { message: 'Not found' } }));
+
+    await expect(featurebase.fetchFeaturebasePosts()).rejects.toThrow('Featurebase API error: 404');
+    expect(server.requests).toHaveLength(1);
+  });
+});
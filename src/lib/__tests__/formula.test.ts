@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_FORMULA_LENGTH,
+  MAX_NESTING,
+  evaluateFormula,
+  isFormulaName,
+  parseFormula,
+  validateFormula,
+} from '@/lib/scoring/formula';
+import { calculateCustomScore, validateCustomFramework } from '@/lib/scoring/frameworks/custom';
+import { CustomFramework, CustomFrameworkFactor, FeatureRequest } from '@/lib/types';
+
+function evaluate(formula: string, values: Record<string, number> = {}): number {
+  return evaluateFormula(parseFormula(formula), values);
+}
+
+function factor(key: string): CustomFrameworkFactor {
+  return { key, label: key, description: `How much ${key}`, scale: { min: 1, max: 10 } };
+}
+
+describe('parseFormula', () => {
+  it('limits the length of a formula', () => {
+    const atLimit = `${'1+'.repeat(MAX_FORMULA_LENGTH / 2 - 1)}10`;
+    expect(atLimit).toHaveLength(MAX_FORMULA_LENGTH);
+    expect(evaluate(atLimit)).toBe(259);
+    expect(() => parseFormula(`${atLimit} `)).toThrow(`Formula is longer than ${MAX_FORMULA_LENGTH} characters`);
+  });
+
+  it('limits how deeply a formula is nested', () => {
+    const nested = (depth: number) => `${'('.repeat(depth)}1${')'.repeat(depth)}`;
+    expect(evaluate(nested(MAX_NESTING - 1))).toBe(1);
+    expect(() => parseFormula(nested(MAX_NESTING + 1))).toThrow('Formula is nested too deeply');
+    expect(() => parseFormula(`${'-'.repeat(MAX_NESTING + 1)}1`)).toThrow('Formula is nested too deeply');
+  });
+
+  it('applies operator precedence and associativity', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('8 / 4 / 2')).toBe(1);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('-2 ^ 2')).toBe(-4);
+    expect(evaluate('2 ^ -1')).toBe(0.5);
+    expect(evaluate('2 * max(1, 3) ^ 2')).toBe(18);
+  });
+
+  it('rejects unknown functions and malformed formulas', () => {
+    expect(() => parseFormula('eval(1)')).toThrow('Unknown function "eval"');
+    expect(() => parseFormula('sqrt(1, 2)')).toThrow('sqrt() takes');
+    expect(() => parseFormula('reach *')).toThrow('Unexpected');
+    expect(() => parseFormula('reach % 2')).toThrow('Unexpected character "%" at position 7');
+    expect(() => parseFormula('  ')).toThrow('Formula is empty');
+  });
+});
+
+describe('validateFormula', () => {
+  it('reports identifiers that are not factors', () => {
+    expect(validateFormula('audience * benefit', ['audience', 'benefit'])).toEqual([]);
+    expect(validateFormula('audience * reach', ['audience'])).toEqual([
+      'Formula uses "reach", which is not one of the factors (audience)',
+    ]);
+    expect(validateFormula('x', [])[0]).toContain('none defined');
+  });
+});
+
+describe('evaluateFormula', () => {
+  it('returns a non-finite result for a division by zero', () => {
+    expect(evaluate('audience / cost', { audience: 5, cost: 0 })).toBe(Infinity);
+    expect(evaluate('cost / cost', { cost: 0 })).toBeNaN();
+    expect(evaluate('audience', {})).toBe(0);
+  });
+
+  it('flags a custom score that divides by zero instead of ranking it', () => {
+    const framework = {
+      id: 'custom:growth',
+      name: 'Growth',
+      description: '',
+      factors: [factor('audience'), { ...factor('cost'), scale: { min: 0, max: 10 } }],
+      formula: 'audience / cost',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    } satisfies CustomFramework;
+    const feature = { customerTier: 'C3' } as FeatureRequest;
+
+    const result = calculateCustomScore(feature, { audience: 8, cost: 0 } as never, framework);
+    expect(result.formulaError).toBe(true);
+    expect(result.finalScore).toBe(0);
+  });
+});
+
+describe('validateCustomFramework', () => {
+  function errorsFor(keys: string[], formula = keys.join(' + ')): string[] {
+    return validateCustomFramework({ name: 'Growth', factors: keys.map(factor), formula }, []).errors;
+  }
+
+  it('accepts factor keys that are formula names', () => {
+    expect(isFormulaName('audience_2')).toBe(true);
+    expect(errorsFor(['audience', 'benefit_2', '_cost'])).toEqual([]);
+  });
+
+  it('rejects keys the formula grammar cannot refer to', () => {
+    expect(isFormulaName('2x')).toBe(false);
+    expect(isFormulaName('net-value')).toBe(false);
+    expect(errorsFor(['2x'], '1')[0]).toMatch(/key must start with a letter/);
+    expect(errorsFor(['net-value'], '1')[0]).toMatch(/key must start with a letter/);
+    expect(errorsFor(['audience '], '1')[0]).toMatch(/key must start with a letter/);
+  });
+
+  it('rejects keys of functions, categories and built-in factors', () => {
+    expect(errorsFor(['sqrt'], '1')).toEqual(['sqrt: "sqrt" is a formula function and can\'t be a factor key']);
+    expect(errorsFor(['kano'], '1')).toEqual(['kano: "kano" holds categories and can\'t be a numeric factor']);
+    expect(errorsFor(['reach'])).toEqual(['reach: "reach" is a built-in factor; pick another key']);
+    expect(errorsFor(['effort'])).toEqual(['effort: "effort" is a built-in factor; pick another key']);
+  });
+});
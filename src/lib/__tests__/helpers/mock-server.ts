@@ -0,0 +1,64 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// A local HTTP server standing in for Linear, Featurebase or Zendesk in tests
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export type MockHandler = (request: RecordedRequest, index: number) => MockResponse | Promise<MockResponse>;
+
+export interface MockServer {
+  url: string;
+  requests: RecordedRequest[];
+  setHandler(handler: MockHandler): void;
+  close(): Promise<void>;
+}
+
+// Start a server on a free port; every request is recorded and answered by the current handler
+export async function startMockServer(handler: MockHandler = () => ({ body: {} })): Promise<MockServer> {
+  const requests: RecordedRequest[] = [];
+  let current = handler;
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const request: RecordedRequest = {
+        method: req.method || 'GET',
+        url: req.url || '/',
+        headers: req.headers,
+        body,
+      };
+      requests.push(request);
+      const response = await current(request, requests.length - 1);
+      res.writeHead(response.status ?? 200, {
+        'Content-Type': 'application/json',
+        ...response.headers,
+      });
+      res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    setHandler(next) {
+      current = next;
+    },
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,106 @@
+import { readFileSync, rmSync } from 'fs';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockServer, startMockServer } from './helpers/mock-server';
+
+// Created before the mocked paths below are read
+const dir = await vi.hoisted(async () => {
+  const fs = await import('fs');
+  const os = await import('os');
+  return fs.mkdtempSync(`${os.tmpdir()}/product-os-intercom-`);
+});
+
+vi.mock('@/lib/api-keys-store', () => ({
+  getEffectiveAPIKey: vi.fn(async () => 'intercom_test_token'),
+  getAPIKeyStatus: vi.fn(),
+}));
+// Stored conversations and the database go to a temp directory
+vi.mock('@/config/paths', async importOriginal => {
+  const { paths } = await importOriginal<typeof import('@/config/paths')>();
+  const local = {
+    ...paths.local,
+    database: path.join(dir, 'product-os.db'),
+    feedback: { ...paths.local.feedback, intercom: path.join(dir, 'intercom.json') },
+  };
+  return { default: { ...paths, local }, paths: { ...paths, local } };
+});
+
+type IntercomModule = typeof import('@/lib/feedback-sources/intercom');
+
+let server: MockServer;
+let intercom: IntercomModule;
+
+// One conversation per page, updated a minute apart; `pages` pages in all
+function conversationPages(pages: number) {
+  return (request: { url: string; body: string }) => {
+    if (request.url === '/me') return { body: { app: { id_code: 'abc123' } } };
+
+    const { pagination } = JSON.parse(request.body) as { pagination: { starting_after?: string } };
+    const page = Number(pagination.starting_after || 0);
+    const updatedAt = 1_760_000_000 + page * 60;
+    return {
+      body: {
+        conversations: [{ id: `conv-${page}`, title: `Conversation ${page}`, state: 'open', created_at: updatedAt, updated_at: updatedAt }],
+        pages: { next: page + 1 < pages ? { starting_after: String(page + 1) } : null },
+      },
+    };
+  };
+}
+
+function storedData(): { conversations: unknown[]; syncedAt: string } {
+  return JSON.parse(readFileSync(path.join(dir, 'intercom.json'), 'utf-8'));
+}
+
+beforeAll(async () => {
+  server = await startMockServer();
+  process.env.INTERCOM_API_URL = server.url;
+  vi.resetModules();
+  intercom = await import('@/lib/feedback-sources/intercom');
+});
+
+afterAll(async () => {
+  delete process.env.INTERCOM_API_URL;
+  await server.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  server.requests.splice(0);
+  rmSync(path.join(dir, 'intercom.json'), { force: true });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('intercomSource.sync', () => {
+  it('reads conversations oldest update first and stores the start time after a full sync', async () => {
+    server.setHandler(conversationPages(3));
+    const before = Date.now();
+
+    const result = await intercom.intercomSource.sync!();
+
+    expect(result).toEqual({ itemCount: 3, warning: undefined });
+    const search = JSON.parse(server.requests[1].body);
+    expect(search.sort).toEqual({ field: 'updated_at', order: 'ascending' });
+    expect(new Date(storedData().syncedAt).getTime()).toBeGreaterThanOrEqual(before - 1000);
+  });
+
+  it('resumes from the last conversation read when the page cap stops the sync', async () => {
+    server.setHandler(conversationPages(60));
+
+    const result = await intercom.intercomSource.sync!();
+
+    expect(result.itemCount).toBe(50);
+    expect(result.warning).toMatch(/stopped after 50 pages/);
+    const lastUpdatedAt = 1_760_000_000 + 49 * 60;
+    expect(storedData().syncedAt).toBe(new Date((lastUpdatedAt - 1) * 1000).toISOString());
+
+    // The next sync asks for conversations updated after that point
+    server.requests.splice(0);
+    await intercom.intercomSource.sync!();
+    const search = JSON.parse(server.requests[1].body);
+    expect(search.query).toEqual({ field: 'updated_at', operator: '>', value: lastUpdatedAt - 1 });
+  });
+});
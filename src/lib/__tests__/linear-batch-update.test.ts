@@ -0,0 +1,146 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LinearUpdatePayload } from '@/lib/types';
+import { MockServer, startMockServer } from './helpers/mock-server';
+
+vi.mock('@/lib/api-keys-store', () => ({
+  getEffectiveAPIKey: vi.fn(async () => 'lin_api_test'),
+  getAPIKeyStatus: vi.fn(),
+}));
+vi.mock('@/lib/score-store', () => ({ addAuditEntry: vi.fn() }));
+vi.mock('@/lib/push-history-store', () => ({
+  addPushBatch: vi.fn(),
+  generateBatchId: vi.fn(() => 'batch-test'),
+  markPushBatchUndone: vi.fn(),
+}));
+vi.mock('@/lib/managed-label-store', () => ({
+  loadManagedLabels: vi.fn(async () => ({})),
+  updateManagedLabels: vi.fn(),
+}));
+
+type LinearClientModule = typeof import('@/lib/linear-client');
+
+interface GraphQLBody {
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+let server: MockServer;
+let client: LinearClientModule;
+
+// Answer every alias in the mutation with success, except the ones listed as failing
+function answerAliases(failing: Record<string, string> = {}) {
+  return (request: { body: string }) => {
+    const { query } = JSON.parse(request.body) as GraphQLBody;
+    const aliases = Array.from(query.matchAll(/(\w+): (?:issueUpdate|commentCreate|commentUpdate)/g), m => m[1]);
+    const data = Object.fromEntries(aliases.map(alias => [alias, failing[alias] ? null : { success: true }]));
+    const errors = Object.entries(failing).map(([alias, message]) => ({ message, path: [alias] }));
+    return { body: errors.length > 0 ? { data, errors } : { data } };
+  };
+}
+
+function payload(i: number, extra: Partial<LinearUpdatePayload> = {}): LinearUpdatePayload {
+  return { issueId: `issue-${i}`, priority: 2, sortOrder: i, ...extra };
+}
+
+beforeAll(async () => {
+  server = await startMockServer();
+  process.env.LINEAR_API_URL = `${server.url}/graphql`;
+  vi.resetModules();
+  client = await import('@/lib/linear-client');
+});
+
+afterAll(async () => {
+  delete process.env.LINEAR_API_URL;
+  await server.close();
+});
+
+beforeEach(() => {
+  server.requests.splice(0);
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('updateLinearIssues', () => {
+  it('sends 20 aliased updates per request and returns results in payload order', async () => {
+    server.setHandler(answerAliases());
+
+    const results = await client.updateLinearIssues(Array.from({ length: 25 }, (_, i) => payload(i)));
+
+    expect(server.requests).toHaveLength(2);
+    const [first, second] = server.requests.map(r => JSON.parse(r.body) as GraphQLBody);
+    expect(first.query.match(/issueUpdate/g)).toHaveLength(20);
+    expect(second.query.match(/issueUpdate/g)).toHaveLength(5);
+    expect(second.variables).toMatchObject({ issueId0: 'issue-20', sortOrder4: 24 });
+    expect(results.map(r => r.issueId)).toEqual(Array.from({ length: 25 }, (_, i) => `issue-${i}`));
+    expect(results.every(r => r.success && r.updated)).toBe(true);
+  });
+
+  it('creates new comments and edits existing ones in the same request', async () => {
+    server.setHandler(answerAliases());
+
+    await client.updateLinearIssues([
+      payload(0, { comment: 'New score' }),
+      payload(1, { comment: 'Updated score', commentId: 'comment-1' }),
+    ]);
+
+    const { query, variables } = JSON.parse(server.requests[0].body) as GraphQLBody;
+    expect(query).toContain('comment0: commentCreate(input: { issueId: $issueId0, body: $body0 })');
+    expect(query).toContain('comment1: commentUpdate(id: $commentId1, input: { body: $body1 })');
+    expect(variables).toMatchObject({ body0: 'New score', body1: 'Updated score', commentId1: 'comment-1' });
+  });
+
+  it('only fails the issue whose alias failed', async () => {
+    server.setHandler(answerAliases({ update1: 'Entity not found' }));
+
+    const results = await client.updateLinearIssues([payload(0), payload(1), payload(2)]);
+
+    expect(results.map(r => r.success)).toEqual([true, false, true]);
+    expect(results[1]).toMatchObject({ updated: false, error: 'Entity not found' });
+  });
+
+  it('reports a failed comment separately from the issue update', async () => {
+    server.setHandler(answerAliases({ comment0: 'Body too long' }));
+
+    const [result] = await client.updateLinearIssues([payload(0, { comment: 'Score' })]);
+
+    expect(result).toEqual({
+      success: false,
+      issueId: 'issue-0',
+      updated: true,
+      error: 'Comment not written: Body too long',
+    });
+  });
+
+  it('fails the whole batch on an error not tied to an alias', async () => {
+    server.setHandler(() => ({ status: 400, body: { errors: [{ message: 'Syntax error' }] } }));
+
+    const results = await client.updateLinearIssues([payload(0), payload(1)]);
+
+    expect(results).toHaveLength(2);
+    expect(results.every(r => !r.success && !r.updated)).toBe(true);
+    expect(results[0].error).toContain('Syntax error');
+  });
+
+  it('retries a rate-limited batch before reporting results', async () => {
+    const answer = answerAliases();
+    server.setHandler((request, index) => index === 0
+      ? { status: 429, body: { errors: [{ message: 'Rate limited', extensions: { code: 'RATELIMITED' } }] } }
+      : answer(request));
+
+    const results = await client.updateLinearIssues([payload(0)]);
+
+    expect(server.requests).toHaveLength(2);
+    expect(results[0]).toMatchObject({ success: true, updated: true });
+  });
+
+  it('skips the request when no payload has anything to write', async () => {
+    const results = await client.updateLinearIssues([{ issueId: 'issue-0' }]);
+
+    expect(server.requests).toHaveLength(0);
+    expect(results).toEqual([{ success: true, issueId: 'issue-0', updated: true }]);
+  });
+});
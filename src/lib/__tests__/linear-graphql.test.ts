@@ -0,0 +1,152 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockServer, startMockServer } from './helpers/mock-server';
+
+type GraphQLModule = typeof import('@/lib/linear-graphql');
+
+let server: MockServer;
+
+// Fresh module per test so the rate-limit state doesn't leak between them
+async function loadGraphQL(): Promise<GraphQLModule> {
+  vi.resetModules();
+  return import('@/lib/linear-graphql');
+}
+
+beforeAll(async () => {
+  server = await startMockServer();
+  process.env.LINEAR_API_URL = `${server.url}/graphql`;
+});
+
+afterAll(async () => {
+  delete process.env.LINEAR_API_URL;
+  await server.close();
+});
+
+beforeEach(() => {
+  server.requests.splice(0);
+  // No jitter, so backoff waits are zero
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('requestLinearGraphQL', () => {
+  it('returns data and records the rate-limit headers', async () => {
+    server.setHandler(() => ({
+      headers: {
+        'x-ratelimit-requests-limit': '1500',
+        'x-ratelimit-requests-remaining': '1499',
+        'x-ratelimit-requests-reset': '1700000000000',
+        'x-ratelimit-complexity-limit': '250000',
+        'x-ratelimit-complexity-remaining': '249000',
+        'x-complexity': '42',
+      },
+      body: { data: { viewer: { id: 'user-1' } } },
+    }));
+    const { requestLinearGraphQL, getLinearRateLimitState } = await loadGraphQL();
+
+    const result = await requestLinearGraphQL('lin_api_test', 'query { viewer { id } }', { first: 1 });
+
+    expect(result).toEqual({ data: { viewer: { id: 'user-1' } }, errors: undefined });
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].headers.authorization).toBe('lin_api_test');
+    expect(JSON.parse(server.requests[0].body)).toEqual({ query: 'query { viewer { id } }', variables: { first: 1 } });
+    expect(getLinearRateLimitState()).toMatchObject({
+      requestsLimit: 1500,
+      requestsRemaining: 1499,
+      requestsResetAt: 1700000000000,
+      complexityLimit: 250000,
+      complexityRemaining: 249000,
+      lastComplexity: 42,
+    });
+  });
+
+  it('retries 5xx responses until one succeeds', async () => {
+    server.setHandler((_request, index) => index < 2
+      ? { status: 503, body: { error: 'unavailable' } }
+      : { body: { data: { ok: true } } });
+    const { requestLinearGraphQL } = await loadGraphQL();
+
+    const result = await requestLinearGraphQL('key', 'query { ok }');
+
+    expect(result.data).toEqual({ ok: true });
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('retries a RATELIMITED error sent as HTTP 400', async () => {
+    server.setHandler((_request, index) => index === 0
+      ? { status: 400, body: { errors: [{ message: 'Rate limit exceeded', extensions: { code: 'RATELIMITED' } }] } }
+      : { body: { data: { ok: true } } });
+    const { requestLinearGraphQL } = await loadGraphQL();
+
+    const result = await requestLinearGraphQL('key', 'query { ok }');
+
+    expect(result.data).toEqual({ ok: true });
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('throws LinearRateLimitError once the retries are used up', async () => {
+    server.setHandler(() => ({ status: 429, body: { errors: [{ message: 'Too many requests' }] } }));
+    const { requestLinearGraphQL, LinearRateLimitError } = await loadGraphQL();
+
+    await expect(requestLinearGraphQL('key', 'query { ok }')).rejects.toBeInstanceOf(LinearRateLimitError);
+    expect(server.requests).toHaveLength(5);
+  });
+
+  it('throws after the retries when the server keeps failing', async () => {
+    server.setHandler(() => ({ status: 502 }));
+    const { requestLinearGraphQL } = await loadGraphQL();
+
+    await expect(requestLinearGraphQL('key', 'query { ok }')).rejects.toThrow('Linear API error: 502');
+    expect(server.requests).toHaveLength(5);
+  });
+
+  it('returns other GraphQL errors to the caller without retrying', async () => {
+    const errors = [{ message: 'Entity not found', path: ['update0'], extensions: { code: 'INVALID_INPUT' } }];
+    server.setHandler(() => ({ status: 400, body: { data: { update0: null }, errors } }));
+    const { requestLinearGraphQL } = await loadGraphQL();
+
+    const result = await requestLinearGraphQL('key', 'mutation { update0 }');
+
+    expect(result).toEqual({ data: { update0: null }, errors });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('waits for the reset before sending when the request budget is spent', async () => {
+    const resetAt = Date.now() + 200;
+    server.setHandler((_request, index) => ({
+      headers: {
+        'x-ratelimit-requests-remaining': index === 0 ? '0' : '1499',
+        'x-ratelimit-requests-reset': String(resetAt),
+      },
+      body: { data: { ok: true } },
+    }));
+    const { requestLinearGraphQL } = await loadGraphQL();
+
+    await requestLinearGraphQL('key', 'query { ok }');
+    await requestLinearGraphQL('key', 'query { ok }');
+
+    expect(server.requests).toHaveLength(2);
+    expect(Date.now()).toBeGreaterThanOrEqual(resetAt - 5);
+  });
+
+  it('waits when the complexity budget is below the estimated cost', async () => {
+    const resetAt = Date.now() + 200;
+    server.setHandler(() => ({
+      headers: {
+        'x-ratelimit-complexity-remaining': '50',
+        'x-ratelimit-complexity-reset': String(resetAt),
+      },
+      body: { data: { ok: true } },
+    }));
+    const { requestLinearGraphQL } = await loadGraphQL();
+
+    await requestLinearGraphQL('key', 'query { ok }');
+    const before = Date.now();
+    await requestLinearGraphQL('key', 'query { ok }', undefined, { estimatedComplexity: 100 });
+
+    expect(Date.now() - before).toBeGreaterThanOrEqual(resetAt - before - 5);
+  });
+});
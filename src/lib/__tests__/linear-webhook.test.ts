@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  LinearWebhookPayload,
+  LinearWebhookState,
+  applyLinearWebhookEvent,
+  isWebhookTimestampFresh,
+  verifyLinearSignature,
+} from '@/lib/linear-webhook';
+import { defaultSyncScope } from '@/lib/sync-scope';
+import issueCreate from './fixtures/linear-webhooks/issue-create.json';
+import issueUpdate from './fixtures/linear-webhooks/issue-update.json';
+import issueRemove from './fixtures/linear-webhooks/issue-remove.json';
+
+const SECRET = 'lin_wh_test_secret';
+const ISSUE_ID = issueCreate.data.id;
+
+const createPayload = issueCreate as LinearWebhookPayload;
+const updatePayload = issueUpdate as LinearWebhookPayload;
+const removePayload = issueRemove as LinearWebhookPayload;
+
+function sign(body: string, secret = SECRET): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+function emptyState(): LinearWebhookState {
+  return { issues: [], projects: [] };
+}
+
+describe('verifyLinearSignature', () => {
+  const body = JSON.stringify(issueCreate);
+
+  it('accepts the HMAC of the raw body', () => {
+    expect(verifyLinearSignature(body, sign(body), SECRET)).toBe(true);
+  });
+
+  it('rejects a tampered body', () => {
+    const tampered = body.replace('"priority":2', '"priority":1');
+    expect(tampered).not.toBe(body);
+    expect(verifyLinearSignature(tampered, sign(body), SECRET)).toBe(false);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyLinearSignature(body, sign(body, 'other-secret'), SECRET)).toBe(false);
+  });
+
+  it('rejects a signature of the wrong length without throwing', () => {
+    expect(verifyLinearSignature(body, sign(body).slice(0, 32), SECRET)).toBe(false);
+    expect(verifyLinearSignature(body, 'not-hex', SECRET)).toBe(false);
+  });
+
+  it('rejects a missing signature', () => {
+    expect(verifyLinearSignature(body, null, SECRET)).toBe(false);
+  });
+});
+
+describe('isWebhookTimestampFresh', () => {
+  const sentAt = issueCreate.webhookTimestamp;
+
+  it('accepts timestamps within a minute either way', () => {
+    expect(isWebhookTimestampFresh(sentAt, sentAt + 1000)).toBe(true);
+    expect(isWebhookTimestampFresh(sentAt, sentAt + 60 * 1000)).toBe(true);
+    expect(isWebhookTimestampFresh(sentAt, sentAt - 30 * 1000)).toBe(true);
+  });
+
+  it('rejects stale or missing timestamps', () => {
+    expect(isWebhookTimestampFresh(sentAt, sentAt + 60 * 1000 + 1)).toBe(false);
+    expect(isWebhookTimestampFresh(sentAt, sentAt - 2 * 60 * 1000)).toBe(false);
+    expect(isWebhookTimestampFresh(undefined, sentAt)).toBe(false);
+  });
+});
+
+describe('applyLinearWebhookEvent', () => {
+  it('adds a created issue in scope', () => {
+    const result = applyLinearWebhookEvent(emptyState(), createPayload);
+
+    expect(result.changed).toBe(true);
+    expect(result.affectedIssueIds).toEqual([ISSUE_ID]);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({
+      id: ISSUE_ID,
+      identifier: 'PLAT-482',
+      title: 'SSO login for enterprise workspaces',
+      url: issueCreate.url,
+      priority: 2,
+      priorityLabel: 'High',
+      sortOrder: -1203.57,
+      state: { name: 'Backlog', type: 'backlog' },
+      team: { key: 'PLAT', name: 'Platform' },
+      project: { id: issueCreate.data.projectId, name: 'Platform Product Icebox' },
+      labels: { nodes: [{ id: issueCreate.data.labels[0].id, name: 'Feature' }] },
+    });
+  });
+
+  it('updates a stored issue and keeps fields webhooks do not carry', () => {
+    const created = applyLinearWebhookEvent(emptyState(), createPayload);
+    const comments = { nodes: [{ id: 'comment-1', body: 'Needed for the ACME renewal', createdAt: '2026-03-03T10:00:00.000Z' }] };
+    const state = { ...created, issues: created.issues.map(i => ({ ...i, comments })) };
+
+    const result = applyLinearWebhookEvent(state, updatePayload);
+
+    expect(result.changed).toBe(true);
+    expect(result.affectedIssueIds).toEqual([ISSUE_ID]);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({
+      title: 'SAML SSO for enterprise workspaces',
+      priority: 1,
+      priorityLabel: 'Urgent',
+      sortOrder: -2410.12,
+      updatedAt: issueUpdate.data.updatedAt,
+      comments,
+    });
+    expect(result.issues[0].labels.nodes.map(l => l.name)).toEqual(['Feature', 'Enterprise']);
+  });
+
+  it('takes the project name from the stored projects when known', () => {
+    const state = {
+      issues: [],
+      projects: [{ id: issueCreate.data.projectId, name: 'Platform Icebox (renamed)', state: 'started' }],
+    };
+
+    const result = applyLinearWebhookEvent(state, createPayload);
+
+    expect(result.issues[0].project?.name).toBe('Platform Icebox (renamed)');
+  });
+
+  it('drops a removed issue', () => {
+    const created = applyLinearWebhookEvent(emptyState(), createPayload);
+
+    const result = applyLinearWebhookEvent(created, removePayload);
+
+    expect(result.changed).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(result.affectedIssueIds).toEqual([]);
+  });
+
+  it('ignores the removal of an issue it never stored', () => {
+    const result = applyLinearWebhookEvent(emptyState(), removePayload);
+
+    expect(result.changed).toBe(false);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('drops an issue moved out of the sync scope', () => {
+    const created = applyLinearWebhookEvent(emptyState(), createPayload);
+    const moved = {
+      ...updatePayload,
+      data: { ...updatePayload.data, project: { id: 'project-roadmap', name: 'Q3 Roadmap' }, projectId: 'project-roadmap' },
+    };
+
+    const result = applyLinearWebhookEvent(created, moved);
+
+    expect(result.changed).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('does not add issues outside the configured teams', () => {
+    const scope = { ...defaultSyncScope, teamKeys: ['MOB'] };
+
+    const result = applyLinearWebhookEvent(emptyState(), createPayload, scope);
+
+    expect(result.changed).toBe(false);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('waits for the next sync to add issues when syncing a saved Linear filter', () => {
+    const scope = { ...defaultSyncScope, customViewId: 'view-1' };
+
+    const result = applyLinearWebhookEvent(emptyState(), createPayload, scope);
+
+    expect(result.changed).toBe(false);
+  });
+
+  it('ignores event types it does not track', () => {
+    const result = applyLinearWebhookEvent(emptyState(), { ...createPayload, type: 'Reaction' });
+
+    expect(result.changed).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { ScoreCommentSnapshot, hasScoreChanged } from '@/lib/score-comment';
+
+function snapshot(extra: Partial<ScoreCommentSnapshot> = {}): ScoreCommentSnapshot {
+  return {
+    finalScore: 72.5,
+    framework: 'weighted',
+    customerTier: 'C2',
+    priority: 2,
+    factors: { revenueImpact: 8, effort: 4 },
+    flags: ['enterprise', 'quick-win'],
+    pushedAt: '2026-10-01T09:00:00.000Z',
+    ...extra,
+  };
+}
+
+describe('hasScoreChanged', () => {
+  it('ignores the push time and the order of flags', () => {
+    const next = snapshot({ flags: ['quick-win', 'enterprise'], pushedAt: '2026-10-19T09:00:00.000Z' });
+    expect(hasScoreChanged(snapshot(), next)).toBe(false);
+  });
+
+  it('detects a changed factor even when the final score and priority are the same', () => {
+    expect(hasScoreChanged(snapshot(), snapshot({ factors: { revenueImpact: 8, effort: 5 } }))).toBe(true);
+    expect(hasScoreChanged(snapshot(), snapshot({ factors: { revenueImpact: 8 } }))).toBe(true);
+  });
+
+  it('detects changes to the score, priority, framework, tier and flags', () => {
+    expect(hasScoreChanged(snapshot(), snapshot({ finalScore: 70 }))).toBe(true);
+    expect(hasScoreChanged(snapshot(), snapshot({ priority: 3 }))).toBe(true);
+    expect(hasScoreChanged(snapshot(), snapshot({ framework: 'rice' }))).toBe(true);
+    expect(hasScoreChanged(snapshot(), snapshot({ customerTier: 'C1' }))).toBe(true);
+    expect(hasScoreChanged(snapshot(), snapshot({ flags: ['enterprise'] }))).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { defaultTierMultipliers, matureProductWeights, newProductWeights } from '@/config/products';
+import { simulateScenario, withSimulatedValues } from '@/lib/scoring/simulator';
+import { WeightProfileSettings } from '@/lib/scoring/weight-profiles';
+import { ScoredFeature, ScoreFactors, WeightProfile } from '@/lib/types';
+
+function feature(id: string, scores: ScoreFactors, teamKey?: string): ScoredFeature {
+  return {
+    id,
+    identifier: id.toUpperCase(),
+    title: id,
+    description: '',
+    url: '',
+    product: 'chat',
+    customerTier: 'C3',
+    type: 'feature',
+    source: 'internal',
+    labels: [],
+    teamKey,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    scores,
+    baseScore: 0,
+    multiplier: 1,
+    finalScore: 0,
+    flags: [],
+    framework: 'weighted',
+  };
+}
+
+const strategyProfile: WeightProfile = {
+  id: 'profile-strategy',
+  name: 'Strategy first',
+  weights: { ...matureProductWeights },
+  tierMultipliers: { ...defaultTierMultipliers },
+};
+
+const settings: WeightProfileSettings = {
+  weights: { mature: matureProductWeights, new: newProductWeights },
+  tierMultipliers: defaultTierMultipliers,
+  weightProfiles: [strategyProfile],
+  profileAssignments: { products: {}, teams: { PLAT: strategyProfile.id } },
+};
+
+// Revenue-heavy on the stage weights; strategy-heavy on a team with a profile
+const features = [
+  feature('revenue', { revenueImpact: 9, strategicAlignment: 1 }),
+  feature('strategy', { revenueImpact: 1, strategicAlignment: 9 }, 'PLAT'),
+];
+
+function positions(scenario: WeightProfileSettings) {
+  return Object.fromEntries(
+    simulateScenario(features, 'weighted', settings, scenario).map(r => [r.feature.id, r])
+  );
+}
+
+describe('simulateScenario', () => {
+  it('moves features on a profile when the profile is simulated', () => {
+    const scenario = withSimulatedValues(settings, settings, {
+      [strategyProfile.id]: {
+        weights: { ...strategyProfile.weights, revenueImpact: 0, strategicAlignment: 1 },
+        tierMultipliers: strategyProfile.tierMultipliers,
+      },
+    });
+
+    const result = positions(scenario);
+
+    expect(result.strategy.baseline.rank).toBe(2);
+    expect(result.strategy.scenario.rank).toBe(1);
+    expect(result.strategy.rankDelta).toBe(1);
+    expect(result.revenue.scenario.finalScore).toBe(result.revenue.baseline.finalScore);
+  });
+
+  it('leaves features on a profile alone when only the stage weights change', () => {
+    const scenario = withSimulatedValues(settings, {
+      weights: { ...settings.weights, mature: { ...matureProductWeights, revenueImpact: 0, strategicAlignment: 1 } },
+      tierMultipliers: settings.tierMultipliers,
+    }, {});
+
+    const result = positions(scenario);
+
+    expect(result.revenue.scenario.finalScore).toBeLessThan(result.revenue.baseline.finalScore);
+    expect(result.strategy.scenario.finalScore).toBe(result.strategy.baseline.finalScore);
+  });
+
+  it('applies simulated tier multipliers of a profile to its features only', () => {
+    const scenario = withSimulatedValues(settings, settings, {
+      [strategyProfile.id]: {
+        weights: strategyProfile.weights,
+        tierMultipliers: { ...strategyProfile.tierMultipliers, C3: strategyProfile.tierMultipliers.C3 * 3 },
+      },
+    });
+
+    const result = positions(scenario);
+
+    expect(result.strategy.scenario.finalScore).toBeCloseTo(result.strategy.baseline.finalScore * 3);
+    expect(result.revenue.scenario.finalScore).toBe(result.revenue.baseline.finalScore);
+  });
+});
@@ -0,0 +1,123 @@
+import { CustomerTier } from '@/lib/types';
+import { parseCsvRecords } from '@/lib/csv';
+import { resolveTier } from '@/lib/feature-import';
+import { AccountRecord } from '@/lib/account-store';
+
+// Column names recognised for each account field (case-insensitive)
+const ACCOUNT_COLUMNS = {
+  name: ['name', 'account', 'account name', 'company', 'customer'],
+  tier: ['tier', 'customer tier'],
+  arr: ['arr', 'annual recurring revenue', 'revenue'],
+  renewalDate: ['renewal', 'renewal date', 'renewal_date', 'renews'],
+  segment: ['segment', 'industry', 'plan'],
+  externalId: ['id', 'account id', 'external id', 'crm id'],
+  features: ['features', 'feature', 'requested features', 'issues'],
+};
+
+export type AccountImportField = keyof typeof ACCOUNT_COLUMNS;
+
+// Accounts without a tier column get the same default as issues without a tier label
+const DEFAULT_TIER: CustomerTier = 'C4';
+
+const MAX_ERRORS = 200;
+
+// Account row with the Linear or import identifiers (CHAT-123, IMP-4) it requested
+export interface AccountImportItem extends AccountRecord {
+  row: number;
+  featureIdentifiers: string[];
+}
+
+export interface AccountImportError {
+  row: number; // 1-based data row (the CSV header is not counted)
+  field?: AccountImportField;
+  message: string;
+}
+
+// "$120,000", "120000", "120k" or "1.2M"
+export function parseAmount(value: string): number | null {
+  const match = value.replace(/[$€£,\s]/g, '').match(/^(\d+(?:\.\d+)?)([km])?$/i);
+  if (!match) return null;
+  const multiplier = { k: 1_000, m: 1_000_000 }[match[2]?.toLowerCase() as 'k' | 'm'] || 1;
+  return Math.round(Number(match[1]) * multiplier);
+}
+
+// Any date the Date constructor understands, as YYYY-MM-DD
+export function parseRenewalDate(value: string): string | null {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+// Parse and validate an accounts CSV; rows with any error are left out of the items
+export function parseAccountCsv(content: string): {
+  items: AccountImportItem[];
+  errors: AccountImportError[];
+  totalRows: number;
+} {
+  const records = parseCsvRecords(content);
+  const columns = records.length > 0 ? Object.keys(records[0]) : [];
+  const columnFor = Object.fromEntries(
+    (Object.entries(ACCOUNT_COLUMNS) as Array<[AccountImportField, string[]]>).map(([field, aliases]) =>
+      [field, columns.find(c => aliases.includes(c.toLowerCase()))]
+    )
+  ) as Record<AccountImportField, string | undefined>;
+
+  if (records.length > 0 && !columnFor.name) {
+    return {
+      items: [],
+      errors: [{ row: 0, field: 'name', message: `No account name column (expected one of: ${ACCOUNT_COLUMNS.name.join(', ')})` }],
+      totalRows: records.length,
+    };
+  }
+
+  const items: AccountImportItem[] = [];
+  const errors: AccountImportError[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const value = (field: AccountImportField) => (columnFor[field] ? record[columnFor[field]!] : '') || '';
+    const rowErrors: AccountImportError[] = [];
+
+    const name = value('name');
+    if (!name) {
+      rowErrors.push({ row, field: 'name', message: 'Account name is empty' });
+    }
+
+    const tierText = value('tier');
+    const tier = tierText ? resolveTier(tierText) : DEFAULT_TIER;
+    if (!tier) {
+      rowErrors.push({ row, field: 'tier', message: `Tier "${tierText}" is not C1-C5` });
+    }
+
+    const arrText = value('arr');
+    const arr = arrText ? parseAmount(arrText) : 0;
+    if (arr === null) {
+      rowErrors.push({ row, field: 'arr', message: `ARR "${arrText}" is not an amount` });
+    }
+
+    const renewalText = value('renewalDate');
+    const renewalDate = renewalText ? parseRenewalDate(renewalText) : undefined;
+    if (renewalDate === null) {
+      rowErrors.push({ row, field: 'renewalDate', message: `Renewal date "${renewalText}" is not a date` });
+    }
+
+    if (rowErrors.length > 0 || !tier || arr === null || renewalDate === null) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    items.push({
+      row,
+      name,
+      tier,
+      arr,
+      renewalDate,
+      segment: value('segment') || undefined,
+      externalId: value('externalId') || undefined,
+      featureIdentifiers: [...new Set(
+        value('features').split(/[\s,;]+/).map(id => id.trim().toUpperCase()).filter(Boolean)
+      )],
+    });
+  });
+
+  return { items, errors: errors.slice(0, MAX_ERRORS), totalRows: records.length };
+}
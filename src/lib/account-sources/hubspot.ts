@@ -0,0 +1,88 @@
+import { getEffectiveAPIKey } from '@/lib/api-keys-store';
+import { APIKeyError } from '@/lib/linear-client';
+import { requestJson } from '@/lib/rest-client';
+import { resolveTier } from '@/lib/feature-import';
+import { parseAmount, parseRenewalDate } from '@/lib/account-import';
+import { AccountRecord } from '@/lib/account-store';
+import { AccountSource } from './types';
+
+// REST endpoint for HubSpot (override to point at a local mock server)
+const HUBSPOT_API_URL = process.env.HUBSPOT_API_URL || 'https://api.hubapi.com';
+const HUBSPOT_SERVICE = { id: 'hubspot', name: 'HubSpot' } as const;
+
+// HubSpot has no standard ARR, tier or renewal properties on companies, so the
+// portal's custom property names can be set per deployment
+const COMPANY_PROPERTIES = {
+  arr: process.env.HUBSPOT_ARR_PROPERTY || 'annualrevenue',
+  tier: process.env.HUBSPOT_TIER_PROPERTY || 'customer_tier',
+  renewalDate: process.env.HUBSPOT_RENEWAL_PROPERTY || 'renewal_date',
+  segment: process.env.HUBSPOT_SEGMENT_PROPERTY || 'industry',
+};
+
+const PAGE_SIZE = 100;
+const MAX_PAGES_PER_SYNC = 100;
+
+interface HubSpotCompany {
+  id: string;
+  properties: Record<string, string | null | undefined>;
+}
+
+interface HubSpotCompanySearchPage {
+  results: HubSpotCompany[];
+  paging?: { next?: { after: string } };
+}
+
+// Companies in the customer lifecycle stage
+async function fetchCustomerCompanies(): Promise<AccountRecord[]> {
+  const token = await getEffectiveAPIKey('hubspot');
+  if (!token) {
+    throw new APIKeyError('hubspot', 'HubSpot access token not configured. Please add it in Settings > API Keys.');
+  }
+
+  const companies: HubSpotCompany[] = [];
+  let after: string | undefined;
+  for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+    const data = await requestJson<HubSpotCompanySearchPage>(`${HUBSPOT_API_URL}/crm/v3/objects/companies/search`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify({
+        filterGroups: [{ filters: [{ propertyName: 'lifecyclestage', operator: 'EQ', value: 'customer' }] }],
+        properties: ['name', ...Object.values(COMPANY_PROPERTIES)],
+        limit: PAGE_SIZE,
+        after,
+      }),
+    }, HUBSPOT_SERVICE);
+    companies.push(...data.results);
+
+    after = data.paging?.next?.after;
+    if (!after) break;
+  }
+
+  return companies
+    .filter(company => company.properties.name)
+    .map(company => {
+      const value = (property: string) => company.properties[property]?.trim() || '';
+      return {
+        name: value('name'),
+        tier: resolveTier(value(COMPANY_PROPERTIES.tier)) || 'C4',
+        arr: parseAmount(value(COMPANY_PROPERTIES.arr)) ?? 0,
+        renewalDate: parseRenewalDate(value(COMPANY_PROPERTIES.renewalDate)) || undefined,
+        segment: value(COMPANY_PROPERTIES.segment) || undefined,
+        externalId: company.id,
+      };
+    });
+}
+
+// HubSpot companies marked as customers
+export const hubspotAccountSource: AccountSource = {
+  id: 'hubspot-companies',
+  name: 'HubSpot Companies',
+
+  async isConfigured() {
+    return !!(await getEffectiveAPIKey('hubspot'));
+  },
+
+  fetchAccounts() {
+    return fetchCustomerCompanies();
+  },
+};
@@ -0,0 +1,16 @@
+import { saveAccounts } from '@/lib/account-store';
+import { AccountSource } from './types';
+import { hubspotAccountSource } from './hubspot';
+
+// Every CRM account source
+export const accountSources: AccountSource[] = [
+  hubspotAccountSource,
+];
+
+// Fetch a source's accounts and replace its stored ones; returns the number fetched
+export async function syncAccountSource(source: AccountSource): Promise<number> {
+  const records = await source.fetchAccounts();
+  await saveAccounts(source.id, records, 'replace');
+  console.log(`Synced ${records.length} accounts from ${source.name}`);
+  return records.length;
+}
@@ -0,0 +1,10 @@
+import { AccountRecord } from '@/lib/account-store';
+
+// A CRM the accounts are synced from. Adding a CRM means writing one of these and listing
+// it in the registry; synced records replace that source's accounts, keeping their links.
+export interface AccountSource {
+  id: string;
+  name: string;
+  isConfigured(): Promise<boolean>;
+  fetchAccounts(): Promise<AccountRecord[]>;
+}
@@ -0,0 +1,166 @@
+import { Account, AccountLink } from '@/lib/types';
+import { documentKeys, markDataChanged, readDocument, transaction, writeDocument } from '@/lib/db/database';
+
+// Accounts and their feature links
+export interface AccountsData {
+  accounts: Account[];
+  links: AccountLink[];
+  lastUpdated: string;
+}
+
+// Account fields as read from a CSV row or a CRM record
+export type AccountRecord = Omit<Account, 'id' | 'source' | 'updatedAt'>;
+
+export async function loadAccountsData(): Promise<AccountsData> {
+  return readAccountsData();
+}
+
+function readAccountsData(): AccountsData {
+  const data = readDocument<AccountsData>(
+    documentKeys.accounts,
+    { accounts: [], links: [], lastUpdated: '' }
+  );
+  return { accounts: data.accounts || [], links: data.links || [], lastUpdated: data.lastUpdated };
+}
+
+// Accounts feed each feature's revenue at stake, so the feature index is rebuilt
+function writeAccountsData(accounts: Account[], links: AccountLink[]): void {
+  // Links to accounts that no longer exist are dropped
+  const accountIds = new Set(accounts.map(a => a.id));
+  writeDocument<AccountsData>(documentKeys.accounts, {
+    accounts,
+    links: links.filter(l => accountIds.has(l.accountId)),
+    lastUpdated: new Date().toISOString(),
+  });
+  markDataChanged();
+}
+
+function generateAccountId(): string {
+  return `account-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Save accounts from a source. A record updates the account with the same CRM ID from that
+// source, or else the source's account with the same name, so links survive re-imports. A record
+// without a CRM ID (a CSV row) may also update another source's account of that name, which keeps
+// its source and CRM ID so the CRM still matches it. 'replace' removes the source's other
+// accounts. Returns the saved account ID of each record.
+export async function saveAccounts(
+  source: string,
+  records: AccountRecord[],
+  mode: 'append' | 'replace'
+): Promise<{ added: number; updated: number; removed: number; total: number; ids: string[] }> {
+  return transaction(() => mergeAccounts(source, records, mode));
+}
+
+function mergeAccounts(
+  source: string,
+  records: AccountRecord[],
+  mode: 'append' | 'replace'
+): { added: number; updated: number; removed: number; total: number; ids: string[] } {
+  const { accounts, links } = readAccountsData();
+  const byExternalId = new Map(
+    accounts.filter(a => a.source === source && a.externalId).map(a => [a.externalId!, a])
+  );
+  const byName = new Map(accounts.filter(a => a.source === source).map(a => [a.name.toLowerCase(), a]));
+  const otherSourceByName = new Map(accounts.filter(a => a.source !== source).map(a => [a.name.toLowerCase(), a]));
+
+  const updatedAt = new Date().toISOString();
+  const saved = new Map(accounts.map(a => [a.id, a]));
+  const touched = new Set<string>();
+  const ids: string[] = [];
+  let added = 0;
+  let updated = 0;
+
+  for (const record of records) {
+    const name = record.name.toLowerCase();
+    const match = (record.externalId && byExternalId.get(record.externalId))
+      || byName.get(name)
+      || (!record.externalId ? otherSourceByName.get(name) : undefined);
+    if (match) {
+      updated++;
+    } else {
+      added++;
+    }
+
+    const ownedElsewhere = match && match.source !== source;
+    const account: Account = ownedElsewhere
+      ? { ...record, id: match.id, source: match.source, externalId: match.externalId, updatedAt }
+      : { ...record, id: match?.id || generateAccountId(), source, updatedAt };
+    saved.set(account.id, account);
+    if (ownedElsewhere) {
+      otherSourceByName.set(name, account);
+    } else {
+      byName.set(name, account);
+      if (account.externalId) byExternalId.set(account.externalId, account);
+    }
+    touched.add(account.id);
+    ids.push(account.id);
+  }
+
+  let removed = 0;
+  if (mode === 'replace') {
+    for (const account of accounts) {
+      if (account.source === source && !touched.has(account.id)) {
+        saved.delete(account.id);
+        removed++;
+      }
+    }
+  }
+
+  const next = [...saved.values()];
+  writeAccountsData(next, links);
+  return { added, updated, removed, total: next.length, ids };
+}
+
+// Link accounts to features; existing links are kept as they are
+export async function addAccountLinks(
+  pairs: Array<{ accountId: string; featureId: string }>,
+  createdBy: string
+): Promise<number> {
+  return transaction(() => {
+    const { accounts, links } = readAccountsData();
+    const existing = new Set(links.map(l => `${l.accountId}:${l.featureId}`));
+    const createdAt = new Date().toISOString();
+    let added = 0;
+
+    for (const { accountId, featureId } of pairs) {
+      const key = `${accountId}:${featureId}`;
+      if (existing.has(key)) continue;
+      existing.add(key);
+      links.push({ accountId, featureId, createdBy, createdAt });
+      added++;
+    }
+
+    if (added > 0) {
+      writeAccountsData(accounts, links);
+    }
+    return added;
+  });
+}
+
+// Remove the link between an account and a feature
+export async function removeAccountLink(accountId: string, featureId: string): Promise<boolean> {
+  return transaction(() => {
+    const { accounts, links } = readAccountsData();
+    const next = links.filter(l => !(l.accountId === accountId && l.featureId === featureId));
+    if (next.length === links.length) return false;
+    writeAccountsData(accounts, next);
+    return true;
+  });
+}
+
+// Delete an account and its links
+export async function deleteAccount(accountId: string): Promise<boolean> {
+  return transaction(() => {
+    const { accounts, links } = readAccountsData();
+    const next = accounts.filter(a => a.id !== accountId);
+    if (next.length === accounts.length) return false;
+    writeAccountsData(next, links);
+    return true;
+  });
+}
+
+// Remove every account and link
+export async function clearAccounts(): Promise<void> {
+  writeAccountsData([], []);
+}
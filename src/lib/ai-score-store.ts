@@ -1,7 +1,6 @@
-import fs from 'fs/promises';
-import { existsSync } from 'fs';
-import paths from '@/config/paths';
-import { AIModelResult, ScoringFramework, AIPromptConfig } from '@/lib/types';
+import { AIModelResult, ScoringFramework, AIPromptConfig, CustomFramework } from '@/lib/types';
+import { documentKeys, getDatabase, markDataChanged, readDocument, transaction, writeDocument } from '@/lib/db/database';
+import { findCustomFramework } from '@/lib/scoring/frameworks/custom';
 
 // Stored AI score for a feature
 export interface StoredAIScore {
@@ -14,6 +13,9 @@ export interface StoredAIScore {
   settingsHash: string;
   framework: ScoringFramework;
   modelUsed: 'openai' | 'anthropic' | 'gemini';
+  // Set when the underlying issue changed after scoring (e.g. edited in Linear)
+  staleSince?: string;
+  staleReason?: string;
 }
 
 // AI Scores data structure
@@ -45,48 +47,68 @@ export function generateSettingsHash(
   return computeHash(content);
 }
 
-// Generate a hash from the new AIPromptConfig
+// Generate a hash from the new AIPromptConfig. A custom framework's factors and formula
+// are part of it, so editing the framework marks its scores stale.
 export function generatePromptConfigHash(
   promptConfig: AIPromptConfig,
   framework: ScoringFramework,
-  temperature: number
+  temperature: number,
+  customFrameworks?: CustomFramework[]
 ): string {
-  const content = JSON.stringify({ promptConfig, framework, temperature });
+  const custom = findCustomFramework(framework, customFrameworks);
+  const content = JSON.stringify({
+    promptConfig,
+    framework,
+    temperature,
+    customFramework: custom && { factors: custom.factors, formula: custom.formula },
+  });
   return computeHash(content);
 }
 
-// Load AI scores from file
-export async function loadAIScores(): Promise<AIScoresData> {
-  try {
-    if (!existsSync(paths.local.aiScores)) {
-      return { scores: {}, lastUpdated: '', settingsHash: '' };
-    }
-    const content = await fs.readFile(paths.local.aiScores, 'utf-8');
-    return JSON.parse(content) as AIScoresData;
-  } catch (error) {
-    console.error('Error loading AI scores:', error);
-    return { scores: {}, lastUpdated: '', settingsHash: '' };
-  }
+interface AIScoresMeta {
+  lastUpdated: string;
+  settingsHash: string;
 }
 
-// Save AI scores to file
-export async function saveAIScores(data: AIScoresData): Promise<void> {
-  try {
-    const dir = paths.local.aiScores.substring(0, paths.local.aiScores.lastIndexOf('/'));
-    if (!existsSync(dir)) {
-      await fs.mkdir(dir, { recursive: true });
-    }
-    await fs.writeFile(paths.local.aiScores, JSON.stringify(data, null, 2), 'utf-8');
-  } catch (error) {
-    console.error('Error saving AI scores:', error);
-    throw error;
+function loadMeta(): AIScoresMeta {
+  return readDocument<AIScoresMeta>(documentKeys.aiScores, { lastUpdated: '', settingsHash: '' });
+}
+
+function upsertScores(scores: StoredAIScore[], settingsHash: string): void {
+  const insert = getDatabase().prepare(
+    'INSERT OR REPLACE INTO ai_scores (feature_id, score, scored_at) VALUES (?, ?, ?)'
+  );
+  for (const score of scores) {
+    insert.run(score.featureId, JSON.stringify(score), score.scoredAt);
   }
+  writeDocument<AIScoresMeta>(documentKeys.aiScores, { lastUpdated: new Date().toISOString(), settingsHash });
+  markDataChanged();
+}
+
+// Record a change to the stored scores
+function touchLastUpdated(): void {
+  writeDocument<AIScoresMeta>(documentKeys.aiScores, { ...loadMeta(), lastUpdated: new Date().toISOString() });
+  markDataChanged();
+}
+
+// Load all AI scores
+export async function loadAIScores(): Promise<AIScoresData> {
+  const rows = getDatabase().prepare('SELECT feature_id, score FROM ai_scores').all() as Array<{
+    feature_id: string;
+    score: string;
+  }>;
+  return {
+    ...loadMeta(),
+    scores: Object.fromEntries(rows.map(row => [row.feature_id, JSON.parse(row.score) as StoredAIScore])),
+  };
 }
 
 // Get AI score for a specific feature
 export async function getAIScore(featureId: string): Promise<StoredAIScore | null> {
-  const data = await loadAIScores();
-  return data.scores[featureId] || null;
+  const row = getDatabase()
+    .prepare('SELECT score FROM ai_scores WHERE feature_id = ?')
+    .get(featureId) as { score: string } | undefined;
+  return row ? (JSON.parse(row.score) as StoredAIScore) : null;
 }
 
 // Get all AI scores as a map
@@ -105,9 +127,7 @@ export async function saveAIScore(
   modelUsed: 'openai' | 'anthropic' | 'gemini',
   gemini?: AIModelResult | null
 ): Promise<void> {
-  const data = await loadAIScores();
-
-  data.scores[featureId] = {
+  transaction(() => upsertScores([{
     featureId,
     openai,
     anthropic,
@@ -116,33 +136,66 @@ export async function saveAIScore(
     settingsHash,
     framework,
     modelUsed,
-  };
-  data.lastUpdated = new Date().toISOString();
-  data.settingsHash = settingsHash;
-
-  await saveAIScores(data);
+  }], settingsHash));
 }
 
 // Clear all AI scores (when settings change)
 export async function clearAllAIScores(): Promise<void> {
-  await saveAIScores({ scores: {}, lastUpdated: new Date().toISOString(), settingsHash: '' });
+  transaction(() => {
+    getDatabase().prepare('DELETE FROM ai_scores').run();
+    writeDocument<AIScoresMeta>(documentKeys.aiScores, { lastUpdated: new Date().toISOString(), settingsHash: '' });
+    markDataChanged();
+  });
 }
 
 // Clear scores for specific features
 export async function clearAIScores(featureIds: string[]): Promise<void> {
-  const data = await loadAIScores();
-  for (const id of featureIds) {
-    delete data.scores[id];
-  }
-  data.lastUpdated = new Date().toISOString();
-  await saveAIScores(data);
+  transaction(() => {
+    const remove = getDatabase().prepare('DELETE FROM ai_scores WHERE feature_id = ?');
+    for (const id of featureIds) {
+      remove.run(id);
+    }
+    touchLastUpdated();
+  });
+}
+
+// Mark scores for specific features as stale without discarding them
+export async function markAIScoresStale(featureIds: string[], reason: string): Promise<number> {
+  return transaction(() => {
+    const db = getDatabase();
+    const select = db.prepare('SELECT score FROM ai_scores WHERE feature_id = ?');
+    const update = db.prepare('UPDATE ai_scores SET score = ? WHERE feature_id = ?');
+    const now = new Date().toISOString();
+    let marked = 0;
+
+    for (const id of featureIds) {
+      const row = select.get(id) as { score: string } | undefined;
+      const score = row && (JSON.parse(row.score) as StoredAIScore);
+      if (score && !score.staleSince) {
+        score.staleSince = now;
+        score.staleReason = reason;
+        update.run(JSON.stringify(score), id);
+        marked++;
+      }
+    }
+
+    if (marked > 0) {
+      touchLastUpdated();
+    }
+    return marked;
+  });
+}
+
+// Check if a stored score is still valid for the current settings
+export function isAIScoreCurrent(score: StoredAIScore, currentSettingsHash: string): boolean {
+  return score.settingsHash === currentSettingsHash && !score.staleSince;
 }
 
 // Check if scores are stale (settings changed)
 export async function areScoresStale(currentSettingsHash: string): Promise<boolean> {
-  const data = await loadAIScores();
-  if (!data.settingsHash) return true;
-  return data.settingsHash !== currentSettingsHash;
+  const { settingsHash } = loadMeta();
+  if (!settingsHash) return true;
+  return settingsHash !== currentSettingsHash;
 }
 
 // Get scoring status
@@ -151,11 +204,12 @@ export async function getScoringStatus(): Promise<{
   lastUpdated: string | null;
   settingsHash: string;
 }> {
-  const data = await loadAIScores();
+  const { lastUpdated, settingsHash } = loadMeta();
+  const { total } = getDatabase().prepare('SELECT COUNT(*) AS total FROM ai_scores').get() as { total: number };
   return {
-    totalScored: Object.keys(data.scores).length,
-    lastUpdated: data.lastUpdated || null,
-    settingsHash: data.settingsHash,
+    totalScored: total,
+    lastUpdated: lastUpdated || null,
+    settingsHash,
   };
 }
 
@@ -171,23 +225,15 @@ export async function batchSaveAIScores(
   framework: ScoringFramework,
   modelUsed: 'openai' | 'anthropic' | 'gemini'
 ): Promise<void> {
-  const data = await loadAIScores();
-
-  for (const score of scores) {
-    data.scores[score.featureId] = {
-      featureId: score.featureId,
-      openai: score.openai,
-      anthropic: score.anthropic,
-      gemini: score.gemini || null,
-      scoredAt: new Date().toISOString(),
-      settingsHash,
-      framework,
-      modelUsed,
-    };
-  }
-
-  data.lastUpdated = new Date().toISOString();
-  data.settingsHash = settingsHash;
-
-  await saveAIScores(data);
+  const scoredAt = new Date().toISOString();
+  transaction(() => upsertScores(scores.map(score => ({
+    featureId: score.featureId,
+    openai: score.openai,
+    anthropic: score.anthropic,
+    gemini: score.gemini || null,
+    scoredAt,
+    settingsHash,
+    framework,
+    modelUsed,
+  })), settingsHash));
 }
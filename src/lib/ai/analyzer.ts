@@ -2,6 +2,7 @@ import { FeatureRequest, FeaturebasePost, ZendeskTicket, AIModel, ScoredFeature,
 import { runModelComparison, runSingleModel, getAvailableModels, ModelComparisonResult } from './model-compare';
 import { getRelatedFeaturebasePosts, getRelatedZendeskTickets } from '@/lib/correlator';
 import { scoreFeature } from '@/lib/scoring/engine';
+import { resolveWeightProfile } from '@/lib/scoring/weight-profiles';
 
 export interface AnalysisResult {
   feature: ScoredFeature;
@@ -25,14 +26,8 @@ export async function analyzeFeature(
   masterSourceContext?: string
 ): Promise<AnalysisResult> {
   // Get related data for context
-  const relatedPosts = getRelatedFeaturebasePosts(
-    { ...feature, description: feature.description || '' },
-    featurebasePosts
-  );
-  const relatedTickets = getRelatedZendeskTickets(
-    { ...feature, description: feature.description || '' },
-    zendeskTickets
-  );
+  const relatedPosts = getRelatedFeaturebasePosts(feature, featurebasePosts);
+  const relatedTickets = getRelatedZendeskTickets(feature, zendeskTickets);
 
   let aiResults: AnalysisResult['aiResults'] = {
     openai: null,
@@ -56,7 +51,8 @@ export async function analyzeFeature(
     settings.activeFramework,
     promptConfig,
     settings.aiModel.temperature,
-    masterSourceContext
+    masterSourceContext,
+    settings.customFrameworks
   );
 
   if (result) {
@@ -77,14 +73,16 @@ export async function analyzeFeature(
     modelUsed: settings.aiModel.enabled as 'openai' | 'anthropic' | 'gemini',
   } : null;
 
+  const profile = resolveWeightProfile(feature, settings);
   const scoredFeature = scoreFeature(
     feature,
     settings.activeFramework,
     tempAIScore,
     undefined, // No manual overrides during initial analysis
-    settings.weights[feature.product === 'chat' || feature.product === 'calling' ? 'mature' : 'new'],
-    settings.tierMultipliers,
-    settings.aiModel.defaultModel
+    profile.weights,
+    profile.tierMultipliers,
+    settings.aiModel.defaultModel,
+    settings.customFrameworks
   );
 
   return {
@@ -93,6 +93,10 @@ function parseAIResponse(content: string): AnthropicScoringResponse {
           'confidence': 'confidence',
           'ease': 'ease',
           'value': 'value',
+          'businessvalue': 'businessValue',
+          'timecriticality': 'timeCriticality',
+          'riskreduction': 'riskReduction',
+          'jobsize': 'jobSize',
         };
 
         const factor = factorMap[factorName];
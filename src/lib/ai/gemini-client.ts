@@ -92,6 +92,10 @@ function parseAIResponse(content: string): GeminiScoringResponse {
           'confidence': 'confidence',
           'ease': 'ease',
           'value': 'value',
+          'businessvalue': 'businessValue',
+          'timecriticality': 'timeCriticality',
+          'riskreduction': 'riskReduction',
+          'jobsize': 'jobSize',
         };
 
         const factor = factorMap[factorName];
@@ -199,3 +203,22 @@ export async function isGeminiConfigured(): Promise<boolean> {
   const apiKey = await getEffectiveAPIKey('gemini');
   return !!apiKey;
 }
+
+const GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+// Embed texts with Gemini, in input order
+export async function embedWithGemini(texts: string[]): Promise<number[][]> {
+  const client = await getGeminiClient();
+  if (!client) {
+    throw new GeminiKeyError('Gemini API key not configured. Please add your Gemini API key in Settings > API Keys.');
+  }
+
+  const model = client.getGenerativeModel({ model: GEMINI_EMBEDDING_MODEL });
+  const response = await model.batchEmbedContents({
+    requests: texts.map(text => ({
+      content: { role: 'user', parts: [{ text }] },
+    })),
+  });
+
+  return response.embeddings.map(e => e.values);
+}
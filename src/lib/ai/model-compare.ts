@@ -1,4 +1,4 @@
-import { AIModelResult, AIModel, FeatureRequest, FeaturebasePost, ZendeskTicket, ScoringFramework, AIPromptConfig } from '@/lib/types';
+import { AIModelResult, AIModel, FeatureRequest, FeaturebasePost, ZendeskTicket, ScoringFramework, AIPromptConfig, CustomFramework } from '@/lib/types';
 import { scoreWithOpenAI, isOpenAIConfigured } from './openai-client';
 import { scoreWithAnthropic, isAnthropicConfigured } from './anthropic-client';
 import { scoreWithGemini, isGeminiConfigured } from './gemini-client';
@@ -30,10 +30,11 @@ export async function runModelComparison(
   framework: ScoringFramework = 'weighted',
   promptConfig?: AIPromptConfig,
   temperature?: number,
-  masterSourceContext?: string
+  masterSourceContext?: string,
+  customFrameworks?: CustomFramework[]
 ): Promise<ModelComparisonResult> {
-  const systemPrompt = buildSystemPrompt(framework, feature.product, promptConfig, masterSourceContext);
-  const userPrompt = buildUserPrompt(feature, relatedPosts, relatedTickets, undefined, framework);
+  const systemPrompt = buildSystemPrompt(framework, feature.product, promptConfig, masterSourceContext, customFrameworks);
+  const userPrompt = buildUserPrompt(feature, relatedPosts, relatedTickets, undefined, framework, customFrameworks);
 
   // Check which models are configured
   const [openaiConfigured, anthropicConfigured] = await Promise.all([
@@ -117,10 +118,11 @@ export async function runSingleModel(
   framework: ScoringFramework = 'weighted',
   promptConfig?: AIPromptConfig,
   temperature?: number,
-  masterSourceContext?: string
+  masterSourceContext?: string,
+  customFrameworks?: CustomFramework[]
 ): Promise<AIModelResult | null> {
-  const systemPrompt = buildSystemPrompt(framework, feature.product, promptConfig, masterSourceContext);
-  const userPrompt = buildUserPrompt(feature, relatedPosts, relatedTickets, undefined, framework);
+  const systemPrompt = buildSystemPrompt(framework, feature.product, promptConfig, masterSourceContext, customFrameworks);
+  const userPrompt = buildUserPrompt(feature, relatedPosts, relatedTickets, undefined, framework, customFrameworks);
 
   if (model === 'openai') {
     return scoreWithOpenAI(feature, systemPrompt, userPrompt, temperature);
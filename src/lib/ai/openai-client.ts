@@ -93,6 +93,10 @@ function parseAIResponse(content: string): OpenAIScoringResponse {
           'confidence': 'confidence',
           'ease': 'ease',
           'value': 'value',
+          'businessvalue': 'businessValue',
+          'timecriticality': 'timeCriticality',
+          'riskreduction': 'riskReduction',
+          'jobsize': 'jobSize',
         };
 
         const factor = factorMap[factorName];
@@ -196,3 +200,37 @@ export async function isOpenAIConfigured(): Promise<boolean> {
   const apiKey = await getEffectiveAPIKey('openai');
   return !!apiKey;
 }
+
+// Embedding model used for semantic matching; 512 dimensions keeps the cache small
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const OPENAI_EMBEDDING_DIMENSIONS = 512;
+const OPENAI_EMBEDDING_COST = 0.00000002; // $0.02/M tokens
+
+// Embed texts with OpenAI, in input order
+export async function embedWithOpenAI(texts: string[]): Promise<{
+  vectors: number[][];
+  tokensUsed: number;
+  cost: number;
+}> {
+  const client = await getOpenAIClient();
+  if (!client) {
+    throw new OpenAIKeyError('OpenAI API key not configured. Please add your OpenAI API key in Settings > API Keys.');
+  }
+
+  const response = await client.embeddings.create({
+    model: OPENAI_EMBEDDING_MODEL,
+    input: texts,
+    dimensions: OPENAI_EMBEDDING_DIMENSIONS,
+  });
+
+  const vectors = [...response.data]
+    .sort((a, b) => a.index - b.index)
+    .map(d => d.embedding);
+  const tokensUsed = response.usage?.total_tokens || 0;
+
+  return {
+    vectors,
+    tokensUsed,
+    cost: tokensUsed * OPENAI_EMBEDDING_COST,
+  };
+}
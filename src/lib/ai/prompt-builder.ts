@@ -4,11 +4,14 @@ import {
   ZendeskTicket,
   Product,
   ScoringFramework,
+  BuiltInFramework,
+  CustomFramework,
   AIPromptConfig,
   EnhancedAIPromptConfig
 } from '@/lib/types';
 import { getProductDisplayName } from '@/config/products';
 import { defaultPromptConfig, defaultEnhancedPromptConfig } from '@/lib/config/prompt-defaults';
+import { findCustomFramework } from '@/lib/scoring/frameworks/custom';
 
 // Master source context is now provided externally (from API/server)
 // to avoid importing fs/path in client components
@@ -286,15 +289,17 @@ export function buildRulesContext(config: EnhancedAIPromptConfig): string {
   return context;
 }
 
-// Framework-specific configuration
-export const FRAMEWORK_CONFIGS: Record<ScoringFramework, {
+export interface FrameworkPromptConfig {
   name: string;
   description: string;
   methodology: string;
   instructions: string;
   factors: { key: string; name: string; prompt: string; scale: string }[];
   responseFormat: string;
-}> = {
+}
+
+// Framework-specific configuration
+export const FRAMEWORK_CONFIGS: Record<BuiltInFramework, FrameworkPromptConfig> = {
   weighted: {
     name: 'Weighted Scoring',
     description: 'Multi-factor analysis with customizable weights for comprehensive prioritization',
@@ -547,19 +552,179 @@ WON'T HAVE (Score 1-2): Not this time. Explicitly out of scope.
     { "factor": "value", "score": 7, "reasoning": "Good value...", "confidence": "medium" }
   ],
   "summary": "SHOULD HAVE: Important feature that..."
+}`
+  },
+
+  wsjf: {
+    name: 'WSJF',
+    description: 'SAFe Weighted Shortest Job First: (Business Value + Time Criticality + Risk Reduction) / Job Size',
+    methodology: `WSJF (Weighted Shortest Job First) is the Scaled Agile Framework's way to sequence work by economic impact.
+Formula: WSJF = Cost of Delay / Job Size
+Cost of Delay = Business Value + Time Criticality + Risk Reduction / Opportunity Enablement
+- Business Value: Value to users and the business (1-10)
+- Time Criticality: How fast the value decays if delayed (1-10)
+- Risk Reduction / Opportunity Enablement: Risk removed or future work enabled (1-10)
+- Job Size: Relative size of the work (1-10)
+
+Best for: SAFe teams planning program increments.`,
+    instructions: `## WSJF Framework Methodology
+WSJF puts the jobs with the highest cost of delay per unit of size first.
+Formula: WSJF = (Business Value + Time Criticality + Risk Reduction) / Job Size
+
+Score the three cost of delay components independently - a feature can be valuable but not urgent.
+Time Criticality is about deadlines and decaying value (contract dates, market windows, customers
+waiting), not about importance. Job Size is relative: compare with typical features, not absolute hours.`,
+    factors: [
+      {
+        key: 'businessValue',
+        name: 'Business Value',
+        prompt: 'What is the relative value to users and the business? Consider: revenue, retention, customer satisfaction, number of customers asking.',
+        scale: '1-3: Low value, 4-6: Moderate value, 7-9: High value, 10: Exceptional value'
+      },
+      {
+        key: 'timeCriticality',
+        name: 'Time Criticality',
+        prompt: 'How much value is lost by delaying this? Consider: fixed deadlines, contract or renewal dates, market windows, customers blocked today.',
+        scale: '1-3: Can wait without loss, 4-6: Some value lost per quarter, 7-9: Deadline or customers waiting, 10: Value lost immediately'
+      },
+      {
+        key: 'riskReduction',
+        name: 'Risk Reduction / Opportunity Enablement',
+        prompt: 'Does this reduce delivery, security, compliance or churn risk, or enable other features and new business?',
+        scale: '1-3: Little or none, 4-6: Moderate, 7-9: Significant, 10: Removes a critical risk or unlocks major opportunities'
+      },
+      {
+        key: 'jobSize',
+        name: 'Job Size',
+        prompt: 'How big is this job relative to other features? Consider: engineering, design, QA, dependencies, rollout.',
+        scale: '1: Few days, 3: 2-4 weeks, 5: 1-2 months, 7: 2-4 months, 10: 4+ months'
+      }
+    ],
+    responseFormat: `{
+  "suggestions": [
+    { "factor": "businessValue", "score": 7, "reasoning": "Requested by several enterprise customers...", "confidence": "high" },
+    { "factor": "timeCriticality", "score": 8, "reasoning": "Renewal due next quarter depends on...", "confidence": "medium" },
+    { "factor": "riskReduction", "score": 4, "reasoning": "Moderate churn risk reduction...", "confidence": "medium" },
+    { "factor": "jobSize", "score": 3, "reasoning": "Estimated 2-4 weeks...", "confidence": "medium" }
+  ],
+  "summary": "WSJF assessment..."
+}`
+  },
+
+  kano: {
+    name: 'Kano',
+    description: 'Classification: Must-be, Performance, Attractive, Indifferent, Reverse',
+    methodology: `The Kano model classifies features by how customer satisfaction responds to having or lacking them.
+Categories:
+• Must-be: Expected basics; their absence causes strong dissatisfaction, their presence goes unnoticed
+• Performance: Satisfaction rises the better they are done
+• Attractive: Delighters customers don't expect; satisfying when present, not missed when absent
+• Indifferent: Customers don't care either way
+• Reverse: Some customers are dissatisfied when present
+
+Best for: Balancing basics against delighters, customer experience planning.`,
+    instructions: `## Kano Methodology
+Kano classifies features by the customer response to their presence and absence:
+
+MUST-BE (Score 9-10): Customers assume it exists; without it the product feels broken.
+- Criteria: Competitors all have it, customers report its absence as a bug or blocker
+
+PERFORMANCE (Score 6-8): More is better; satisfaction grows with how well it is done.
+- Criteria: Speed, limits, accuracy, coverage - customers compare vendors on it
+
+ATTRACTIVE (Score 4-5): Unexpected delighters that differentiate.
+- Criteria: Few customers ask for it explicitly, but it would impress them
+
+INDIFFERENT (Score 1-3): Little effect on satisfaction either way.
+- Criteria: Internal-facing, niche, or solves a problem customers don't have
+
+REVERSE (Score 0): Some customers would be dissatisfied if it were present.
+- Criteria: Adds complexity or removes control that existing users rely on`,
+    factors: [
+      {
+        key: 'kanoCategory',
+        name: 'Kano Category',
+        prompt: 'Which Kano category does this feature belong to? Consider: how customers would react if it were present, and if it were absent.',
+        scale: 'must-be (9-10), performance (6-8), attractive (4-5), indifferent (1-3), reverse (0)'
+      },
+      {
+        key: 'value',
+        name: 'Value',
+        prompt: 'Supporting score - overall customer value, used when no category has been chosen.',
+        scale: '1-10 scale'
+      }
+    ],
+    responseFormat: `{
+  "suggestions": [
+    { "factor": "kanoCategory", "score": 7, "reasoning": "PERFORMANCE - Customers compare vendors on...", "confidence": "high", "category": "performance" },
+    { "factor": "value", "score": 7, "reasoning": "Good value...", "confidence": "medium" }
+  ],
+  "summary": "PERFORMANCE: Satisfaction grows with..."
 }`
   }
 };
 
+// Prompt configuration generated from a custom framework's factors and formula
+function buildCustomFrameworkConfig(framework: CustomFramework): FrameworkPromptConfig {
+  const description = framework.description || `Custom framework: ${framework.formula}`;
+  const factorList = framework.factors
+    .map(f => `- ${f.label} (${f.scale.min}-${f.scale.max}): ${f.description}`)
+    .join('\n');
+  const suggestions = framework.factors
+    .map(f => `    { "factor": "${f.key}", "score": ${(f.scale.min + f.scale.max) / 2}, "reasoning": "...", "confidence": "medium" }`)
+    .join(',\n');
+
+  return {
+    name: framework.name,
+    description,
+    methodology: `${description}
+Formula: Score = ${framework.formula}
+${factorList}`,
+    instructions: `## ${framework.name} Methodology
+${description}
+Each factor is scored on its own scale, then combined with this formula:
+Score = ${framework.formula}
+
+Score every factor strictly within its scale and use the whole range; don't inflate or deflate
+a factor to steer the combined score.`,
+    factors: framework.factors.map(f => ({
+      key: f.key,
+      name: f.label,
+      prompt: f.description,
+      scale: `${f.scale.min} (lowest) to ${f.scale.max} (highest)`,
+    })),
+    responseFormat: `{
+  "suggestions": [
+${suggestions}
+  ],
+  "summary": "${framework.name} assessment..."
+}`,
+  };
+}
+
+// Prompt configuration for a built-in or custom framework; a custom framework that no
+// longer exists falls back to weighted scoring, like the scoring engine does
+export function getFrameworkConfig(
+  framework: ScoringFramework,
+  customFrameworks?: CustomFramework[]
+): FrameworkPromptConfig {
+  const custom = findCustomFramework(framework, customFrameworks);
+  if (custom) {
+    return buildCustomFrameworkConfig(custom);
+  }
+  return FRAMEWORK_CONFIGS[framework as BuiltInFramework] || FRAMEWORK_CONFIGS.weighted;
+}
+
 // Build the full system prompt combining company context and framework instructions
 export function buildSystemPrompt(
   framework: ScoringFramework,
   product: Product,
   promptConfig?: AIPromptConfig,
-  masterSourceContext?: string
+  masterSourceContext?: string,
+  customFrameworks?: CustomFramework[]
 ): string {
   const config = promptConfig || defaultPromptConfig;
-  const frameworkConfig = FRAMEWORK_CONFIGS[framework];
+  const frameworkConfig = getFrameworkConfig(framework, customFrameworks);
   const productName = getProductDisplayName(product);
   const isMatureProduct = product === 'chat' || product === 'calling';
 
@@ -601,9 +766,10 @@ export function buildEnhancedSystemPrompt(
   framework: ScoringFramework,
   product: Product,
   enhancedConfig: EnhancedAIPromptConfig,
-  masterSourceContext?: string
+  masterSourceContext?: string,
+  customFrameworks?: CustomFramework[]
 ): string {
-  const frameworkConfig = FRAMEWORK_CONFIGS[framework];
+  const frameworkConfig = getFrameworkConfig(framework, customFrameworks);
   const productName = getProductDisplayName(product);
   const productConfig = enhancedConfig.products.find(p => p.id === product);
   const isMatureProduct = productConfig?.stage === 'mature';
@@ -649,10 +815,11 @@ export function buildUserPrompt(
   relatedPosts?: FeaturebasePost[],
   relatedTickets?: ZendeskTicket[],
   additionalContext?: string,
-  framework?: ScoringFramework
+  framework?: ScoringFramework,
+  customFrameworks?: CustomFramework[]
 ): string {
   const productName = getProductDisplayName(feature.product);
-  const frameworkConfig = FRAMEWORK_CONFIGS[framework || 'weighted'];
+  const frameworkConfig = getFrameworkConfig(framework || 'weighted', customFrameworks);
 
   let prompt = `## Feature to Score
 
@@ -668,6 +835,41 @@ ${feature.description || 'No description provided'}
 **Labels**: ${feature.labels.join(', ') || 'None'}
 `;
 
+  // Add roadmap context: initiatives (with the strategic goal they deliver), milestone and cycle
+  if (feature.initiatives && feature.initiatives.length > 0) {
+    prompt += `\n## Company Initiatives\n`;
+    for (const initiative of feature.initiatives) {
+      prompt += `- ${initiative.name}`;
+      if (initiative.strategicGoal) {
+        prompt += ` (delivers ${initiative.goalPriority || 'strategic'} goal: ${initiative.strategicGoal})`;
+      }
+      if (initiative.targetDate) {
+        prompt += ` - target ${initiative.targetDate}`;
+      }
+      prompt += `\n`;
+    }
+  }
+  if (feature.milestone || feature.cycle) {
+    prompt += `\n## Roadmap Schedule\n`;
+    if (feature.milestone) {
+      prompt += `- Milestone: ${feature.milestone.name}${feature.milestone.targetDate ? ` (target ${feature.milestone.targetDate})` : ''}\n`;
+    }
+    if (feature.cycle) {
+      prompt += `- Cycle: ${feature.cycle.name || `Cycle ${feature.cycle.number}`} (${feature.cycle.startsAt.slice(0, 10)} to ${feature.cycle.endsAt.slice(0, 10)})\n`;
+    }
+  }
+
+  // Add the accounts requesting the feature, largest first
+  if (feature.accounts && feature.accounts.length > 0) {
+    prompt += `\n## Requesting Accounts (${feature.accounts.length}, $${(feature.revenueAtStake || 0).toLocaleString('en-US')} ARR at stake)\n`;
+    for (const account of [...feature.accounts].sort((a, b) => b.arr - a.arr).slice(0, 10)) {
+      prompt += `- ${account.name} (${account.tier}, $${account.arr.toLocaleString('en-US')} ARR`;
+      if (account.segment) prompt += `, ${account.segment}`;
+      if (account.renewalDate) prompt += `, renews ${account.renewalDate}`;
+      prompt += `)\n`;
+    }
+  }
+
   // Add Linear comments for additional context
   if (feature.comments && feature.comments.length > 0) {
     prompt += `\n## Discussion & Comments (${feature.comments.length} comments)\n`;
@@ -745,13 +947,13 @@ export function buildFrameworkSystemPrompt(framework: ScoringFramework, product:
 }
 
 // Get framework info for display
-export function getFrameworkDisplayInfo(framework: ScoringFramework): {
+export function getFrameworkDisplayInfo(framework: ScoringFramework, customFrameworks?: CustomFramework[]): {
   name: string;
   description: string;
   methodology: string;
   factors: { key: string; name: string; description: string }[];
 } {
-  const config = FRAMEWORK_CONFIGS[framework];
+  const config = getFrameworkConfig(framework, customFrameworks);
   return {
     name: config.name,
     description: config.description,
@@ -1,10 +1,16 @@
-import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
-import path from 'path';
+import { documentKeys, readDocument, transaction, writeDocument } from '@/lib/db/database';
 
-const API_KEYS_PATH = path.join(process.cwd(), 'data/api-keys.json');
+export type APIKeyName = 'linear' | 'linearWebhook' | 'featurebase' | 'zendesk' | 'intercom' | 'hubspot' | 'openai' | 'anthropic' | 'gemini';
 
 export interface APIKeysConfig {
   linearApiKey?: string;
+  linearWebhookSecret?: string;
+  featurebaseApiKey?: string;
+  zendeskApiToken?: string;
+  zendeskSubdomain?: string; // e.g. "acme" for acme.zendesk.com
+  zendeskEmail?: string; // Agent email the API token belongs to
+  intercomAccessToken?: string;
+  hubspotAccessToken?: string; // Private app token with notes and deals read scopes
   openaiApiKey?: string;
   anthropicApiKey?: string;
   geminiApiKey?: string;
@@ -17,30 +23,41 @@ const defaultConfig: APIKeysConfig = {
 
 // Load API keys from local storage
 export async function loadAPIKeys(): Promise<APIKeysConfig> {
-  return loadLocalJson<APIKeysConfig>(API_KEYS_PATH, defaultConfig);
+  return readDocument<APIKeysConfig>(documentKeys.apiKeys, defaultConfig);
 }
 
 // Save API keys to local storage
 export async function saveAPIKeys(keys: Partial<APIKeysConfig>): Promise<APIKeysConfig> {
-  const current = await loadAPIKeys();
-  const updated: APIKeysConfig = {
-    ...current,
-    ...keys,
-    lastUpdated: new Date().toISOString(),
-  };
-  await saveLocalJson(API_KEYS_PATH, updated);
-  return updated;
+  return transaction(() => {
+    const updated: APIKeysConfig = {
+      ...readDocument<APIKeysConfig>(documentKeys.apiKeys, defaultConfig),
+      ...keys,
+      lastUpdated: new Date().toISOString(),
+    };
+    writeDocument(documentKeys.apiKeys, updated);
+    return updated;
+  });
 }
 
 // Get effective API key (from stored config or environment variable)
 export async function getEffectiveAPIKey(
-  keyName: 'linear' | 'openai' | 'anthropic' | 'gemini'
+  keyName: APIKeyName
 ): Promise<string | undefined> {
   const stored = await loadAPIKeys();
 
   switch (keyName) {
     case 'linear':
       return stored.linearApiKey || process.env.LINEAR_API_KEY;
+    case 'linearWebhook':
+      return stored.linearWebhookSecret || process.env.LINEAR_WEBHOOK_SECRET;
+    case 'featurebase':
+      return stored.featurebaseApiKey || process.env.FEATUREBASE_API_KEY;
+    case 'zendesk':
+      return stored.zendeskApiToken || process.env.ZENDESK_API_TOKEN;
+    case 'intercom':
+      return stored.intercomAccessToken || process.env.INTERCOM_ACCESS_TOKEN;
+    case 'hubspot':
+      return stored.hubspotAccessToken || process.env.HUBSPOT_ACCESS_TOKEN;
     case 'openai':
       return stored.openaiApiKey || process.env.OPENAI_API_KEY;
     case 'anthropic':
@@ -52,9 +69,31 @@ export async function getEffectiveAPIKey(
   }
 }
 
+// Get Zendesk connection details (stored values win over environment variables)
+export async function getZendeskCredentials(): Promise<{
+  subdomain: string;
+  email: string;
+  apiToken: string;
+} | null> {
+  const stored = await loadAPIKeys();
+  const subdomain = stored.zendeskSubdomain || process.env.ZENDESK_SUBDOMAIN;
+  const email = stored.zendeskEmail || process.env.ZENDESK_EMAIL;
+  const apiToken = stored.zendeskApiToken || process.env.ZENDESK_API_TOKEN;
+
+  if (!subdomain || !email || !apiToken) {
+    return null;
+  }
+  return { subdomain, email, apiToken };
+}
+
 // Check which API keys are configured
 export async function getAPIKeyStatus(): Promise<{
   linear: { configured: boolean; source: 'stored' | 'env' | 'none' };
+  linearWebhook: { configured: boolean; source: 'stored' | 'env' | 'none' };
+  featurebase: { configured: boolean; source: 'stored' | 'env' | 'none' };
+  zendesk: { configured: boolean; source: 'stored' | 'env' | 'none' };
+  intercom: { configured: boolean; source: 'stored' | 'env' | 'none' };
+  hubspot: { configured: boolean; source: 'stored' | 'env' | 'none' };
   openai: { configured: boolean; source: 'stored' | 'env' | 'none' };
   anthropic: { configured: boolean; source: 'stored' | 'env' | 'none' };
   gemini: { configured: boolean; source: 'stored' | 'env' | 'none' };
@@ -66,6 +105,30 @@ export async function getAPIKeyStatus(): Promise<{
       configured: !!(stored.linearApiKey || process.env.LINEAR_API_KEY),
       source: stored.linearApiKey ? 'stored' : process.env.LINEAR_API_KEY ? 'env' : 'none',
     },
+    linearWebhook: {
+      configured: !!(stored.linearWebhookSecret || process.env.LINEAR_WEBHOOK_SECRET),
+      source: stored.linearWebhookSecret ? 'stored' : process.env.LINEAR_WEBHOOK_SECRET ? 'env' : 'none',
+    },
+    featurebase: {
+      configured: !!(stored.featurebaseApiKey || process.env.FEATUREBASE_API_KEY),
+      source: stored.featurebaseApiKey ? 'stored' : process.env.FEATUREBASE_API_KEY ? 'env' : 'none',
+    },
+    zendesk: {
+      configured: !!(
+        (stored.zendeskApiToken || process.env.ZENDESK_API_TOKEN)
+        && (stored.zendeskSubdomain || process.env.ZENDESK_SUBDOMAIN)
+        && (stored.zendeskEmail || process.env.ZENDESK_EMAIL)
+      ),
+      source: stored.zendeskApiToken ? 'stored' : process.env.ZENDESK_API_TOKEN ? 'env' : 'none',
+    },
+    intercom: {
+      configured: !!(stored.intercomAccessToken || process.env.INTERCOM_ACCESS_TOKEN),
+      source: stored.intercomAccessToken ? 'stored' : process.env.INTERCOM_ACCESS_TOKEN ? 'env' : 'none',
+    },
+    hubspot: {
+      configured: !!(stored.hubspotAccessToken || process.env.HUBSPOT_ACCESS_TOKEN),
+      source: stored.hubspotAccessToken ? 'stored' : process.env.HUBSPOT_ACCESS_TOKEN ? 'env' : 'none',
+    },
     openai: {
       configured: !!(stored.openaiApiKey || process.env.OPENAI_API_KEY),
       source: stored.openaiApiKey ? 'stored' : process.env.OPENAI_API_KEY ? 'env' : 'none',
@@ -90,26 +153,45 @@ export function maskAPIKey(key: string | undefined): string {
 
 // Clear a specific API key
 export async function clearAPIKey(
-  keyName: 'linear' | 'openai' | 'anthropic' | 'gemini'
+  keyName: APIKeyName
 ): Promise<APIKeysConfig> {
-  const current = await loadAPIKeys();
+  return transaction(() => {
+    const current = { ...readDocument<APIKeysConfig>(documentKeys.apiKeys, defaultConfig) };
 
-  switch (keyName) {
-    case 'linear':
-      delete current.linearApiKey;
-      break;
-    case 'openai':
-      delete current.openaiApiKey;
-      break;
-    case 'anthropic':
-      delete current.anthropicApiKey;
-      break;
-    case 'gemini':
-      delete current.geminiApiKey;
-      break;
-  }
+    switch (keyName) {
+      case 'linear':
+        delete current.linearApiKey;
+        break;
+      case 'linearWebhook':
+        delete current.linearWebhookSecret;
+        break;
+      case 'featurebase':
+        delete current.featurebaseApiKey;
+        break;
+      case 'zendesk':
+        delete current.zendeskApiToken;
+        delete current.zendeskSubdomain;
+        delete current.zendeskEmail;
+        break;
+      case 'intercom':
+        delete current.intercomAccessToken;
+        break;
+      case 'hubspot':
+        delete current.hubspotAccessToken;
+        break;
+      case 'openai':
+        delete current.openaiApiKey;
+        break;
+      case 'anthropic':
+        delete current.anthropicApiKey;
+        break;
+      case 'gemini':
+        delete current.geminiApiKey;
+        break;
+    }
 
-  current.lastUpdated = new Date().toISOString();
-  await saveLocalJson(API_KEYS_PATH, current);
-  return current;
+    current.lastUpdated = new Date().toISOString();
+    writeDocument(documentKeys.apiKeys, current);
+    return current;
+  });
 }
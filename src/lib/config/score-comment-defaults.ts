@@ -0,0 +1,37 @@
+/**
+ * Client-safe defaults for the score comment written to Linear on push.
+ * The settings page uses these to show and reset the template.
+ */
+
+// Placeholders available in the score comment template
+export const SCORE_COMMENT_PLACEHOLDERS: Array<{ key: string; description: string }> = [
+  { key: 'identifier', description: 'Issue identifier, e.g. CHAT-123' },
+  { key: 'title', description: 'Issue title' },
+  { key: 'finalScore', description: 'Final score out of 10' },
+  { key: 'baseScore', description: 'Score before the customer tier multiplier' },
+  { key: 'framework', description: 'Active scoring framework' },
+  { key: 'customerTier', description: 'Customer tier, e.g. C1' },
+  { key: 'multiplier', description: 'Customer tier multiplier' },
+  { key: 'priority', description: 'Linear priority being pushed' },
+  { key: 'factors', description: 'Factor scores as a Markdown list' },
+  { key: 'flags', description: 'Flags as a Markdown list' },
+  { key: 'diff', description: 'Changes since the previous score comment' },
+  { key: 'updatedAt', description: 'Time of this push' },
+];
+
+export const DEFAULT_SCORE_COMMENT_TEMPLATE = `## Priority Score Breakdown
+
+**Final Score**: {{finalScore}}/10
+**Framework**: {{framework}}
+**Customer Tier**: {{customerTier}} ({{multiplier}}x multiplier)
+
+### Factor Scores:
+{{factors}}
+
+### Flags:
+{{flags}}
+
+### Changes since last push:
+{{diff}}
+
+*Scored by Product OS · updated {{updatedAt}}*`;
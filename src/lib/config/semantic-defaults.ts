@@ -0,0 +1,25 @@
+/**
+ * Client-safe defaults for semantic matching. Cosine similarities from the
+ * providers' models and the local model sit in different ranges, so each
+ * provider has its own starting threshold.
+ */
+
+import { EmbeddingProvider, SemanticMatchingSettings } from '@/lib/types';
+
+export const DEFAULT_SEMANTIC_THRESHOLDS: Record<EmbeddingProvider, number> = {
+  local: 0.35,
+  openai: 0.5,
+  gemini: 0.65,
+};
+
+export const EMBEDDING_PROVIDER_NAMES: Record<EmbeddingProvider, string> = {
+  local: 'Local (offline)',
+  openai: 'OpenAI text-embedding-3-small',
+  gemini: 'Gemini text-embedding-004',
+};
+
+export const defaultSemanticMatching: SemanticMatchingSettings = {
+  enabled: false,
+  provider: 'local',
+  threshold: DEFAULT_SEMANTIC_THRESHOLDS.local,
+};
@@ -7,55 +7,30 @@ import {
   CustomerTier,
   FeatureType,
   FeatureSource,
+  SyncScope,
+  LinearInitiative,
+  FeatureInitiative,
+  StrategicGoal,
+  ImportedFeature,
+  DuplicateDecision,
+  Account,
+  AccountLink,
+  FeatureAccount,
+  FeedbackSignal,
 } from '@/lib/types';
 import {
   getProductFromProject,
   getProductFromLabels,
   getCustomerTierFromLabels,
 } from '@/config/products';
+import { defaultSyncScope, isBacklogIssueInScope } from '@/lib/sync-scope';
+import { extractKeywords, calculateKeywordSimilarity } from '@/lib/text-match';
+import { SemanticMatcher } from '@/lib/semantic-match';
+import { duplicatePairKey } from '@/lib/duplicate-store';
+import { FeedbackSource, SourceFeedback } from '@/lib/feedback-sources/types';
 
-// Normalize text for matching
-function normalizeText(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
-// Extract keywords from text
-function extractKeywords(text: string): string[] {
-  const normalized = normalizeText(text);
-  const stopWords = new Set([
-    'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
-    'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
-    'should', 'may', 'might', 'must', 'can', 'to', 'of', 'in', 'for',
-    'on', 'with', 'at', 'by', 'from', 'as', 'into', 'through', 'during',
-    'before', 'after', 'above', 'below', 'between', 'under', 'again',
-    'further', 'then', 'once', 'here', 'there', 'when', 'where', 'why',
-    'how', 'all', 'each', 'few', 'more', 'most', 'other', 'some', 'such',
-    'no', 'nor', 'not', 'only', 'own', 'same', 'so', 'than', 'too', 'very',
-    'just', 'and', 'but', 'or', 'if', 'because', 'until', 'while', 'about',
-    'feature', 'request', 'add', 'support', 'need', 'want', 'like', 'please',
-    'it', 'this', 'that', 'these', 'those', 'i', 'we', 'you', 'they',
-  ]);
-
-  return normalized
-    .split(' ')
-    .filter(word => word.length > 2 && !stopWords.has(word));
-}
-
-// Calculate similarity score between two sets of keywords
-function calculateKeywordSimilarity(keywords1: string[], keywords2: string[]): number {
-  if (keywords1.length === 0 || keywords2.length === 0) return 0;
-
-  const set1 = new Set(keywords1);
-  const set2 = new Set(keywords2);
-  const intersection = new Set([...set1].filter(k => set2.has(k)));
-  const union = new Set([...set1, ...set2]);
-
-  return intersection.size / union.size;
-}
+// Comments kept per feature for AI scoring context
+const MAX_COMMENTS = 10;
 
 // Find Featurebase URL from Linear attachments
 function findFeaturebaseUrl(issue: LinearIssue): string | undefined {
@@ -70,225 +45,349 @@ function findFeaturebaseUrl(issue: LinearIssue): string | undefined {
   return undefined;
 }
 
-// Check if Linear issue has Featurebase label
-function hasFeaturebaseLabel(issue: LinearIssue): boolean {
-  if (!issue.labels?.nodes) return false;
-  return issue.labels.nodes.some(
-    label => label.name.toLowerCase().includes('featurebase')
-  );
-}
+// Determine feature type from labels
+function getFeatureType(issue: LinearIssue): FeatureType {
+  const labels = issue.labels?.nodes?.map(l => l.name.toLowerCase()) || [];
 
-// Match Linear issue to Featurebase posts
-function matchFeaturebasePosts(
-  issue: LinearIssue,
-  posts: FeaturebasePost[]
-): { post: FeaturebasePost; score: number } | null {
-  // First, try to match by Featurebase URL in attachments
-  const featurebaseUrl = findFeaturebaseUrl(issue);
-  if (featurebaseUrl) {
-    const matchedPost = posts.find(post =>
-      featurebaseUrl.includes(post.id) || post.url === featurebaseUrl
-    );
-    if (matchedPost) {
-      return { post: matchedPost, score: 1.0 };
-    }
+  if (labels.some(l => l.includes('bug') || l.includes('defect'))) {
+    return 'bug';
   }
-
-  // If issue has Featurebase label, try title matching
-  if (hasFeaturebaseLabel(issue)) {
-    const issueKeywords = extractKeywords(issue.title);
-
-    for (const post of posts) {
-      const postKeywords = extractKeywords(post.title);
-      const similarity = calculateKeywordSimilarity(issueKeywords, postKeywords);
-
-      if (similarity > 0.5) {
-        return { post, score: similarity };
-      }
-    }
+  if (labels.some(l => l.includes('enhancement') || l.includes('improve'))) {
+    return 'enhancement';
   }
 
-  // Fall back to keyword matching for any issue
-  const issueKeywords = extractKeywords(issue.title + ' ' + (issue.description || ''));
-
-  let bestMatch: { post: FeaturebasePost; score: number } | null = null;
+  return 'feature';
+}
 
-  for (const post of posts) {
-    const postKeywords = extractKeywords(post.title + ' ' + (post.content || ''));
-    const similarity = calculateKeywordSimilarity(issueKeywords, postKeywords);
+// Determine source from labels: the first feedback source whose label the issue carries
+function getFeatureSource(issue: LinearIssue, sources: FeedbackSource[]): FeatureSource {
+  const labels = issue.labels?.nodes?.map(l => l.name.toLowerCase()) || [];
 
-    if (similarity > 0.4 && (!bestMatch || similarity > bestMatch.score)) {
-      bestMatch = { post, score: similarity };
+  for (const source of sources) {
+    if (source.issueLabels?.some(sourceLabel => labels.some(l => l.includes(sourceLabel)))) {
+      return source.id;
     }
   }
 
-  return bestMatch;
+  return 'internal';
 }
 
-// Count related Zendesk tickets
-function countRelatedZendeskTickets(
-  issue: LinearIssue,
-  tickets: ZendeskTicket[]
-): number {
-  const issueKeywords = extractKeywords(issue.title + ' ' + (issue.description || ''));
-
-  let count = 0;
-  for (const ticket of tickets) {
-    const ticketKeywords = extractKeywords(ticket.subject + ' ' + (ticket.description || ''));
-    const similarity = calculateKeywordSimilarity(issueKeywords, ticketKeywords);
-
-    if (similarity > 0.3) {
-      count++;
-    }
-  }
+// Optional inputs that shape correlation
+export interface CorrelationOptions {
+  projectMappings?: Record<string, Product>; // Custom project-to-product mappings
+  excludedProjects?: string[]; // Projects to exclude
+  syncScope?: SyncScope; // Which issues count as backlog candidates
+  initiatives?: LinearInitiative[]; // Linear initiatives, matched to issues by project
+  strategicGoals?: StrategicGoal[]; // Goals that can reference initiatives
+  feedback?: SourceFeedback[]; // Signals from the feedback sources, matched by each source
+  importedFeatures?: ImportedFeature[]; // Features imported from CSV/JSON, added alongside Linear issues
+  semantic?: SemanticMatcher; // Embedding matcher; keyword matching is used without it
+  duplicateDecisions?: DuplicateDecision[]; // Reviewed duplicate pairs, which override detection
+  accounts?: { accounts: Account[]; links: AccountLink[] }; // Customer accounts and their feature links
+}
 
-  return count;
+// Imported features have no Linear issue; this shape lets them share the issue matching
+function toImportedIssue(feature: ImportedFeature): LinearIssue {
+  return {
+    id: feature.id,
+    identifier: feature.identifier,
+    title: feature.title,
+    description: feature.description,
+    url: '',
+    state: { id: 'imported', name: 'Imported', type: 'backlog' },
+    priority: 0,
+    priorityLabel: 'No priority',
+    labels: { nodes: feature.labels.map(name => ({ id: name, name })) },
+    createdAt: feature.importedAt,
+    updatedAt: feature.importedAt,
+    sortOrder: 0,
+  };
 }
 
-// Determine feature type from labels
-function getFeatureType(issue: LinearIssue): FeatureType {
-  const labels = issue.labels?.nodes?.map(l => l.name.toLowerCase()) || [];
+interface AccountIndex {
+  byName: Map<string, Account>;
+  linkedByFeature: Map<string, Account[]>;
+}
 
-  if (labels.some(l => l.includes('bug') || l.includes('defect'))) {
-    return 'bug';
-  }
-  if (labels.some(l => l.includes('enhancement') || l.includes('improve'))) {
-    return 'enhancement';
+// Index accounts by lower-case name, for feedback signals, and by the features linked to them
+function indexAccounts(data: { accounts: Account[]; links: AccountLink[] }): AccountIndex {
+  const byId = new Map(data.accounts.map(a => [a.id, a]));
+  const byName = new Map(data.accounts.map(a => [a.name.toLowerCase(), a]));
+  const linkedByFeature = new Map<string, Account[]>();
+  for (const link of data.links) {
+    const account = byId.get(link.accountId);
+    if (!account) continue;
+    linkedByFeature.set(link.featureId, [...(linkedByFeature.get(link.featureId) || []), account]);
   }
-
-  return 'feature';
+  return { byName, linkedByFeature };
 }
 
-// Determine source from labels
-function getFeatureSource(issue: LinearIssue): FeatureSource {
-  const labels = issue.labels?.nodes?.map(l => l.name.toLowerCase()) || [];
-
-  if (labels.some(l => l.includes('featurebase'))) {
-    return 'featurebase';
+// Accounts linked to a feature, then accounts named on its matched feedback signals
+function getFeatureAccounts(
+  featureId: string,
+  signals: FeedbackSignal[],
+  index: AccountIndex
+): FeatureAccount[] {
+  const accounts = new Map<string, FeatureAccount>();
+  const add = (account: Account, via: FeatureAccount['via']) => {
+    if (accounts.has(account.id)) return;
+    accounts.set(account.id, {
+      accountId: account.id,
+      name: account.name,
+      tier: account.tier,
+      arr: account.arr,
+      renewalDate: account.renewalDate,
+      segment: account.segment,
+      via,
+    });
+  };
+
+  for (const account of index.linkedByFeature.get(featureId) || []) {
+    add(account, 'link');
   }
-  if (labels.some(l => l.includes('support') || l.includes('zendesk'))) {
-    return 'support';
+  for (const signal of signals) {
+    const account = signal.accountName && index.byName.get(signal.accountName.trim().toLowerCase());
+    if (account) add(account, 'feedback');
   }
 
-  return 'internal';
+  return [...accounts.values()];
+}
+
+function sumArr(accounts: FeatureAccount[]): number {
+  return accounts.reduce((sum, a) => sum + a.arr, 0);
 }
 
-// Filter issues to only include Product Icebox items with backlog state
-function isProductIceboxIssue(issue: LinearIssue): boolean {
-  const projectName = issue.project?.name?.toLowerCase() || '';
-  const isIceboxProject = projectName.includes('product icebox') || projectName.includes('icebox');
-  return isIceboxProject;
+// Index initiatives by the projects they contain
+function indexInitiativesByProject(initiatives: LinearInitiative[]): Map<string, LinearInitiative[]> {
+  const byProject = new Map<string, LinearInitiative[]>();
+  for (const initiative of initiatives) {
+    for (const projectId of initiative.projectIds) {
+      const list = byProject.get(projectId) || [];
+      list.push(initiative);
+      byProject.set(projectId, list);
+    }
+  }
+  return byProject;
 }
 
-// Filter to only include backlog state issues (Backlog, Icebox states)
-function isBacklogIssue(issue: LinearIssue): boolean {
-  const stateType = issue.state?.type?.toLowerCase() || '';
-  return stateType === 'backlog';
+// Initiatives an issue belongs to, with the strategic goal each one delivers for the product
+function getFeatureInitiatives(
+  issue: LinearIssue,
+  product: Product,
+  initiativesByProject: Map<string, LinearInitiative[]>,
+  strategicGoals: StrategicGoal[]
+): FeatureInitiative[] | undefined {
+  const initiatives = issue.project?.id ? initiativesByProject.get(issue.project.id) : undefined;
+  if (!initiatives || initiatives.length === 0) return undefined;
+
+  return initiatives.map(initiative => {
+    // Goals without products apply everywhere; a primary goal wins over a secondary one
+    const goal = strategicGoals
+      .filter(g => g.initiativeIds?.includes(initiative.id))
+      .filter(g => g.products.length === 0 || g.products.includes(product))
+      .sort((a, b) => (a.priority === 'primary' ? 0 : 1) - (b.priority === 'primary' ? 0 : 1))[0];
+
+    return {
+      id: initiative.id,
+      name: initiative.name,
+      status: initiative.status,
+      targetDate: initiative.targetDate,
+      strategicGoal: goal?.goal,
+      goalPriority: goal?.priority,
+    };
+  });
 }
 
 // Correlate all data sources and create FeatureRequests
 export function correlateData(
   linearIssues: LinearIssue[],
-  featurebasePosts: FeaturebasePost[],
-  zendeskTickets: ZendeskTicket[],
-  projectMappings?: Record<string, Product>, // Custom project-to-product mappings
-  excludedProjects?: string[] // Projects to exclude
+  options: CorrelationOptions = {}
 ): FeatureRequest[] {
-  // Filter to only backlog state issues from included projects
+  const {
+    projectMappings,
+    excludedProjects,
+    syncScope = defaultSyncScope,
+    strategicGoals = [],
+    feedback = [],
+    importedFeatures = [],
+    semantic,
+    duplicateDecisions = [],
+  } = options;
+  const accountIndex = indexAccounts(options.accounts || { accounts: [], links: [] });
+  const feedbackSources = feedback.map(f => f.source);
+  const initiativesByProject = indexInitiativesByProject(options.initiatives || []);
+
+  // Filter to in-scope backlog issues from included projects
   const excludedSet = new Set(excludedProjects || []);
   const filteredIssues = linearIssues.filter(issue => {
     // Exclude if project is in excluded list
     if (issue.project?.id && excludedSet.has(issue.project.id)) {
       return false;
     }
-    // Only include backlog state
-    return isBacklogIssue(issue);
+    // Only include issues in the sync scope's teams, projects, labels and state types
+    return isBacklogIssueInScope(issue, syncScope);
   });
   console.log(`Filtering to ${filteredIssues.length} backlog issues from ${linearIssues.length} total (${excludedSet.size} projects excluded)`);
 
-  const features: FeatureRequest[] = [];
-
-  for (const issue of filteredIssues) {
-    // Determine product from project or labels
+  // Build a feature from an issue once its product, tier and source are known
+  const buildFeature = (
+    issue: LinearIssue,
+    product: Product,
+    customerTier: CustomerTier,
+    source: FeatureSource
+  ): FeatureRequest => {
     const labels = issue.labels?.nodes?.map(l => l.name) || [];
 
-    // First check for custom project mapping
-    let product: Product;
-    if (projectMappings && issue.project?.id && projectMappings[issue.project.id]) {
-      product = projectMappings[issue.project.id];
-    } else {
-      // Fall back to auto-detection
-      product = getProductFromProject(issue.project?.name);
-    }
-
-    // Override with label-based product if more specific (labels take priority)
-    const labelProduct = getProductFromLabels(labels);
-    if (labelProduct) {
-      product = labelProduct;
-    }
-
-    // Extract customer tier from labels
-    const customerTier: CustomerTier = getCustomerTierFromLabels(labels);
+    // Let each feedback source match its own signals
+    const matchedSignals = feedback.flatMap(({ source, signals }) =>
+      source.correlate(issue, signals, semantic).map(signal => ({ source: source.id, signal }))
+    );
+    const feedbackSignals = matchedSignals.map(({ source, signal }) => ({ source, id: signal.id }));
 
-    // Match to Featurebase
-    const featurebaseMatch = matchFeaturebasePosts(issue, featurebasePosts);
+    // Featurebase demand is the best matching post; support tickets are the Zendesk signals,
+    // so the counts agree with the signals shown on the feature
+    const featurebasePost = matchedSignals.find(m => m.source === 'featurebase')?.signal;
+    const supportTickets = matchedSignals.filter(m => m.source === 'zendesk').map(m => m.signal);
+    const identifier = issue.identifier.toUpperCase();
+    const linkedTickets = supportTickets.filter(t => t.linkedIdentifiers?.includes(identifier));
 
-    // Count related support tickets
-    const supportTicketCount = countRelatedZendeskTickets(issue, zendeskTickets);
+    // Requesting accounts raise the tier to the highest among them (C1 is highest)
+    const accounts = getFeatureAccounts(issue.id, matchedSignals.map(m => m.signal), accountIndex);
+    const tier = accounts.reduce<CustomerTier>((highest, a) => (a.tier < highest ? a.tier : highest), customerTier);
 
-    // Extract comments from Linear issue (limit to most recent 10 for context)
+    // Extract comments from Linear issue (limit to most recent ones for context)
     const comments = issue.comments?.nodes
-      ?.slice(0, 10)
+      ?.slice(0, MAX_COMMENTS)
       .map(c => ({
         body: c.body,
         createdAt: c.createdAt,
       }));
 
-    const feature: FeatureRequest = {
+    return {
       id: issue.id,
       identifier: issue.identifier,
       title: issue.title,
       description: issue.description || '',
       url: issue.url,
       product,
-      customerTier,
+      customerTier: tier,
       type: getFeatureType(issue),
-      source: getFeatureSource(issue),
-      featurebaseUrl: featurebaseMatch?.post.url || findFeaturebaseUrl(issue),
-      featurebaseUpvotes: featurebaseMatch?.post.upvotes,
-      supportTicketCount,
+      source,
+      featurebaseUrl: featurebasePost?.url || findFeaturebaseUrl(issue),
+      featurebaseUpvotes: featurebasePost?.weight,
+      supportTicketCount: supportTickets.length,
+      linkedTicketIds: linkedTickets.length > 0 ? linkedTickets.map(t => t.id) : undefined,
+      supportTicketIds: supportTickets.length > 0 ? supportTickets.map(t => t.id) : undefined,
+      feedbackSignals: feedbackSignals.length > 0 ? feedbackSignals : undefined,
+      accounts: accounts.length > 0 ? accounts : undefined,
+      revenueAtStake: accounts.length > 0 ? sumArr(accounts) : undefined,
       createdAt: issue.createdAt,
       updatedAt: issue.updatedAt,
       labels,
       projectName: issue.project?.name,
+      teamKey: issue.team?.key,
+      initiatives: getFeatureInitiatives(issue, product, initiativesByProject, strategicGoals),
+      milestone: issue.projectMilestone,
+      cycle: issue.cycle,
       linearState: issue.state?.name,
       linearPriority: issue.priority,
       sortOrder: issue.sortOrder,
       comments: comments && comments.length > 0 ? comments : undefined,
     };
+  };
+
+  const features: FeatureRequest[] = [];
+
+  for (const issue of filteredIssues) {
+    // Determine product from project or labels
+    const labels = issue.labels?.nodes?.map(l => l.name) || [];
+
+    // First check for custom project mapping
+    let product: Product;
+    if (projectMappings && issue.project?.id && projectMappings[issue.project.id]) {
+      product = projectMappings[issue.project.id];
+    } else {
+      // Fall back to auto-detection
+      product = getProductFromProject(issue.project?.name);
+    }
+
+    // Override with label-based product if more specific (labels take priority)
+    const labelProduct = getProductFromLabels(labels);
+    if (labelProduct) {
+      product = labelProduct;
+    }
+
+    // Extract customer tier from labels
+    const customerTier: CustomerTier = getCustomerTierFromLabels(labels);
 
+    features.push(buildFeature(issue, product, customerTier, getFeatureSource(issue, feedbackSources)));
+  }
+
+  // Imported features keep the product, tier and upvotes given in the file
+  for (const imported of importedFeatures) {
+    const feature = buildFeature(toImportedIssue(imported), imported.product, imported.customerTier, 'import');
+    if (imported.upvotes !== undefined) {
+      feature.featurebaseUpvotes = imported.upvotes;
+    }
     features.push(feature);
   }
 
-  // Detect and mark duplicates
-  markDuplicates(features);
+  // Detect and mark duplicates, then credit their demand to the originals
+  markDuplicates(features, duplicateDecisions);
+  rollUpDuplicates(features);
 
   console.log(`Correlated ${features.length} features`);
   return features;
 }
 
-// Detect and mark duplicate features based on title similarity
-function markDuplicates(features: FeatureRequest[]): void {
-  const DUPLICATE_THRESHOLD = 0.6; // 60% similarity = likely duplicate
+// Feature similarity at or above which a pair is suspected to be a duplicate
+export const DUPLICATE_THRESHOLD = 0.6;
+
+// Mark duplicate features. Reviewed decisions win: confirmed pairs are marked whatever their
+// similarity and dismissed pairs never are. Other pairs are suspected by title similarity.
+function markDuplicates(features: FeatureRequest[], decisions: DuplicateDecision[]): void {
+  const featuresById = new Map(features.map(f => [f.id, f]));
+  const dismissed = new Set(
+    decisions
+      .filter(d => d.status === 'dismissed')
+      .map(d => duplicatePairKey(d.original.id, d.duplicate.id))
+  );
+
+  // Track which features are originals (have duplicates pointing to them)
+  const duplicatesMap = new Map<string, string[]>(); // originalId -> [duplicateIds]
+
+  const markDuplicate = (
+    original: FeatureRequest,
+    duplicate: FeatureRequest,
+    status: 'suspected' | 'confirmed',
+    similarity?: number
+  ) => {
+    duplicate.isDuplicate = true;
+    duplicate.duplicateOf = original.id;
+    duplicate.duplicateOfIdentifier = original.identifier;
+    duplicate.duplicateStatus = status;
+    duplicate.duplicateSimilarity = similarity;
+
+    if (!duplicatesMap.has(original.id)) {
+      duplicatesMap.set(original.id, []);
+    }
+    duplicatesMap.get(original.id)!.push(duplicate.id);
+  };
+
+  for (const decision of decisions) {
+    if (decision.status !== 'confirmed') continue;
+    const original = featuresById.get(decision.original.id);
+    const duplicate = featuresById.get(decision.duplicate.id);
+    if (original && duplicate && !duplicate.isDuplicate) {
+      markDuplicate(original, duplicate, 'confirmed', decision.similarity);
+    }
+  }
 
   // Sort by creation date so older features become the "original"
   const sortedFeatures = [...features].sort(
     (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
   );
 
-  // Track which features are originals (have duplicates pointing to them)
-  const duplicatesMap = new Map<string, string[]>(); // originalId -> [duplicateIds]
-
   for (let i = 0; i < sortedFeatures.length; i++) {
     const feature = sortedFeatures[i];
 
@@ -302,9 +401,10 @@ function markDuplicates(features: FeatureRequest[]): void {
     for (let j = i + 1; j < sortedFeatures.length; j++) {
       const otherFeature = sortedFeatures[j];
 
-      // Skip if already marked as duplicate or different product
+      // Skip if already marked as duplicate, different product or dismissed in review
       if (otherFeature.isDuplicate) continue;
       if (otherFeature.product !== feature.product) continue;
+      if (dismissed.has(duplicatePairKey(feature.id, otherFeature.id))) continue;
 
       const otherKeywords = extractKeywords(otherFeature.title + ' ' + (otherFeature.description || ''));
       if (otherKeywords.length === 0) continue;
@@ -313,15 +413,7 @@ function markDuplicates(features: FeatureRequest[]): void {
 
       if (similarity >= DUPLICATE_THRESHOLD) {
         // Mark the newer feature as a duplicate of the older one
-        otherFeature.isDuplicate = true;
-        otherFeature.duplicateOf = feature.id;
-        otherFeature.duplicateOfIdentifier = feature.identifier;
-
-        // Track duplicates for the original
-        if (!duplicatesMap.has(feature.id)) {
-          duplicatesMap.set(feature.id, []);
-        }
-        duplicatesMap.get(feature.id)!.push(otherFeature.id);
+        markDuplicate(feature, otherFeature, 'suspected', similarity);
       }
     }
   }
@@ -340,48 +432,99 @@ function markDuplicates(features: FeatureRequest[]): void {
   }
 }
 
-// Get related Featurebase posts for a specific feature
-export function getRelatedFeaturebasePosts(
-  feature: FeatureRequest,
-  posts: FeaturebasePost[]
-): FeaturebasePost[] {
-  const keywords = extractKeywords(feature.title + ' ' + feature.description);
-  const related: { post: FeaturebasePost; score: number }[] = [];
+// Add each original's duplicates' upvotes, support tickets, comments and requesting accounts
+// to it and raise it to the highest customer tier among them. A Featurebase post or support ticket already
+// counted for the group is not counted again.
+function rollUpDuplicates(features: FeatureRequest[]): void {
+  const featuresById = new Map(features.map(f => [f.id, f]));
+
+  for (const original of features) {
+    const duplicates = (original.duplicates || [])
+      .map(id => featuresById.get(id))
+      .filter((f): f is FeatureRequest => !!f);
+    if (duplicates.length === 0) continue;
+
+    const countedPosts = new Set(original.featurebaseUrl ? [original.featurebaseUrl] : []);
+    const countedTickets = new Set(original.supportTicketIds || []);
+    const ownCustomerTier = original.customerTier;
+    const comments = [...(original.comments || [])];
+    const accounts = new Map((original.accounts || []).map(a => [a.accountId, a]));
+    let upvotes = 0;
+    let supportTickets = 0;
+    let duplicateComments = 0;
+
+    for (const duplicate of duplicates) {
+      if (duplicate.featurebaseUpvotes && !(duplicate.featurebaseUrl && countedPosts.has(duplicate.featurebaseUrl))) {
+        upvotes += duplicate.featurebaseUpvotes;
+        if (duplicate.featurebaseUrl) countedPosts.add(duplicate.featurebaseUrl);
+      }
+
+      const newTickets = (duplicate.supportTicketIds || []).filter(id => !countedTickets.has(id));
+      newTickets.forEach(id => countedTickets.add(id));
+      supportTickets += newTickets.length;
+
+      // C1 is the highest tier, so tiers compare as strings
+      if (duplicate.customerTier < original.customerTier) {
+        original.customerTier = duplicate.customerTier;
+      }
 
-  for (const post of posts) {
-    const postKeywords = extractKeywords(post.title + ' ' + post.content);
-    const similarity = calculateKeywordSimilarity(keywords, postKeywords);
+      comments.push(...(duplicate.comments || []));
+      duplicateComments += duplicate.comments?.length || 0;
 
-    if (similarity > 0.2) {
-      related.push({ post, score: similarity });
+      for (const account of duplicate.accounts || []) {
+        if (!accounts.has(account.accountId)) accounts.set(account.accountId, account);
+      }
+    }
+
+    if (upvotes > 0) {
+      original.featurebaseUpvotes = (original.featurebaseUpvotes || 0) + upvotes;
+    }
+    original.supportTicketCount = countedTickets.size;
+    original.supportTicketIds = countedTickets.size > 0 ? [...countedTickets] : undefined;
+    if (comments.length > 0) {
+      original.comments = comments
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, MAX_COMMENTS);
+    }
+    if (accounts.size > 0) {
+      original.accounts = [...accounts.values()];
+      original.revenueAtStake = sumArr(original.accounts);
     }
+    original.duplicateRollup = {
+      duplicateIds: duplicates.map(d => d.id),
+      upvotes,
+      supportTickets,
+      comments: duplicateComments,
+      ownCustomerTier,
+    };
   }
+}
 
-  return related
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 5)
-    .map(r => r.post);
+// Featurebase posts matched to a feature, best match first
+export function getRelatedFeaturebasePosts(
+  feature: FeatureRequest,
+  posts: FeaturebasePost[]
+): FeaturebasePost[] {
+  return getMatchedRecords(feature, 'featurebase', posts);
 }
 
-// Get related Zendesk tickets for a specific feature
+// Zendesk tickets matched to a feature: linked tickets newest first, otherwise best match first
 export function getRelatedZendeskTickets(
   feature: FeatureRequest,
   tickets: ZendeskTicket[]
 ): ZendeskTicket[] {
-  const keywords = extractKeywords(feature.title + ' ' + feature.description);
-  const related: { ticket: ZendeskTicket; score: number }[] = [];
-
-  for (const ticket of tickets) {
-    const ticketKeywords = extractKeywords(ticket.subject + ' ' + ticket.description);
-    const similarity = calculateKeywordSimilarity(keywords, ticketKeywords);
-
-    if (similarity > 0.2) {
-      related.push({ ticket, score: similarity });
-    }
-  }
+  return getMatchedRecords(feature, 'zendesk', tickets);
+}
 
-  return related
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 5)
-    .map(r => r.ticket);
+// Records behind the signals a source matched to the feature, in match order
+function getMatchedRecords<T extends { id: string }>(
+  feature: FeatureRequest,
+  sourceId: string,
+  records: T[]
+): T[] {
+  const byId = new Map(records.map(r => [r.id, r]));
+  return (feature.feedbackSignals || [])
+    .filter(s => s.source === sourceId)
+    .map(s => byId.get(s.id))
+    .filter((r): r is T => !!r);
 }
@@ -0,0 +1,80 @@
+// Minimal RFC 4180 CSV parsing and writing: quoted fields, escaped quotes, embedded newlines, CRLF
+
+// Parse CSV text into rows of fields; blank lines are skipped
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(f => f !== '')) rows.push(row);
+
+  return rows;
+}
+
+// Parse CSV with a header row into records keyed by the trimmed header names
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map(h => h.trim());
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = (row[index] ?? '').trim();
+    });
+    return record;
+  });
+}
+
+type CsvCell = string | number | null | undefined;
+
+// Quote a field when it holds a delimiter, quote, newline or edge whitespace
+function formatCsvField(value: CsvCell): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  if (/[",\r\n]/.test(text) || text.trim() !== text) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+// Serialize rows to CSV text
+export function formatCsv(rows: CsvCell[][], lineEnding: '\n' | '\r\n' = '\n'): string {
+  return rows.map(row => row.map(formatCsvField).join(',')).join(lineEnding) + lineEnding;
+}
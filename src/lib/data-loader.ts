@@ -1,7 +1,15 @@
 import fs from 'fs/promises';
 import { existsSync } from 'fs';
 import paths from '@/config/paths';
-import { LinearIssue, FeaturebasePost, ZendeskTicket } from '@/lib/types';
+import { LinearIssue, LinearInitiative, FeaturebasePost, ZendeskTicket, ImportedFeature, DuplicateDecision } from '@/lib/types';
+import { SourceFeedback } from '@/lib/feedback-sources/types';
+import { loadFeedback } from '@/lib/feedback-sources/registry';
+import { loadImportedFeatures } from '@/lib/import-store';
+import { loadDuplicateDecisions } from '@/lib/duplicate-store';
+import { AccountsData, loadAccountsData } from '@/lib/account-store';
+import { loadSettings } from '@/lib/settings-store';
+import { SemanticMatcher, loadSemanticMatcher } from '@/lib/semantic-match';
+import { markDataChanged } from '@/lib/db/database';
 
 // Generic JSON file loader with error handling
 async function loadJsonFile<T>(filePath: string, defaultValue: T): Promise<T> {
@@ -60,23 +68,95 @@ export async function loadLinearProjects(): Promise<Array<{ id: string; name: st
   return data.projects || [];
 }
 
-// Load Featurebase posts
+// Initiative or roadmap as exported by agent-os (projects as a connection or a plain list)
+interface AgentOsInitiative {
+  id: string;
+  name: string;
+  description?: string;
+  status?: string;
+  targetDate?: string;
+  projects?: { nodes?: Array<{ id: string }> } | Array<{ id: string }>;
+  projectIds?: string[];
+}
+
+function toLinearInitiative(item: AgentOsInitiative): LinearInitiative {
+  const projects = Array.isArray(item.projects) ? item.projects : item.projects?.nodes || [];
+  return {
+    id: item.id,
+    name: item.name,
+    description: item.description,
+    status: item.status,
+    targetDate: item.targetDate,
+    projectIds: item.projectIds || projects.map(p => p.id),
+  };
+}
+
+// Load Linear initiatives (prefer local data, fallback to agent-os initiatives and roadmaps)
+export async function loadLinearInitiatives(): Promise<LinearInitiative[]> {
+  // Try local data first (from direct Linear sync)
+  if (existsSync(paths.local.linear.initiatives)) {
+    const data = await loadJsonFile<{ initiatives: LinearInitiative[] }>(
+      paths.local.linear.initiatives,
+      { initiatives: [] }
+    );
+    return data.initiatives || [];
+  }
+
+  // Fallback to agent-os data; roadmaps predate initiatives and group projects the same way
+  if (!existsSync(paths.agentOs.linear.initiatives) && !existsSync(paths.agentOs.linear.roadmaps)) {
+    return [];
+  }
+  const [initiativesData, roadmapsData] = await Promise.all([
+    loadJsonFile<{ initiatives?: AgentOsInitiative[] }>(paths.agentOs.linear.initiatives, {}),
+    loadJsonFile<{ roadmaps?: AgentOsInitiative[] }>(paths.agentOs.linear.roadmaps, {}),
+  ]);
+  const initiatives = [
+    ...(initiativesData.initiatives || []),
+    ...(roadmapsData.roadmaps || []),
+  ].map(toLinearInitiative);
+  console.log(`Loaded ${initiatives.length} Linear initiatives and roadmaps from agent-os`);
+  return initiatives;
+}
+
+// Load Featurebase posts (prefer local data, fallback to agent-os)
 export async function loadFeaturebasePosts(): Promise<FeaturebasePost[]> {
+  // Try local data first (from direct Featurebase sync)
+  if (existsSync(paths.local.featurebase.posts)) {
+    const data = await loadJsonFile<{ posts: FeaturebasePost[] }>(
+      paths.local.featurebase.posts,
+      { posts: [] }
+    );
+    console.log(`Loaded ${data.posts?.length || 0} Featurebase posts from local sync`);
+    return data.posts || [];
+  }
+
+  // Fallback to agent-os data
   const data = await loadJsonFile<{ posts: FeaturebasePost[] }>(
     paths.agentOs.featurebase.posts,
     { posts: [] }
   );
-  console.log(`Loaded ${data.posts?.length || 0} Featurebase posts`);
+  console.log(`Loaded ${data.posts?.length || 0} Featurebase posts from agent-os`);
   return data.posts || [];
 }
 
-// Load Zendesk tickets
+// Load Zendesk tickets (prefer local data, fallback to agent-os)
 export async function loadZendeskTickets(): Promise<ZendeskTicket[]> {
+  // Try local data first (from direct Zendesk sync)
+  if (existsSync(paths.local.zendesk.tickets)) {
+    const data = await loadJsonFile<{ tickets: ZendeskTicket[] }>(
+      paths.local.zendesk.tickets,
+      { tickets: [] }
+    );
+    console.log(`Loaded ${data.tickets?.length || 0} Zendesk tickets from local sync`);
+    return data.tickets || [];
+  }
+
+  // Fallback to agent-os data
   const data = await loadJsonFile<{ tickets: ZendeskTicket[] }>(
     paths.agentOs.zendesk.tickets,
     { tickets: [] }
   );
-  console.log(`Loaded ${data.tickets?.length || 0} Zendesk tickets`);
+  console.log(`Loaded ${data.tickets?.length || 0} Zendesk tickets from agent-os`);
   return data.tickets || [];
 }
 
@@ -107,21 +187,50 @@ export async function getLastSyncTime(): Promise<string | null> {
 // Load all data sources in parallel
 export async function loadAllData(): Promise<{
   linearIssues: LinearIssue[];
+  linearInitiatives: LinearInitiative[];
   featurebasePosts: FeaturebasePost[];
   zendeskTickets: ZendeskTicket[];
+  feedback: SourceFeedback[];
+  importedFeatures: ImportedFeature[];
+  semanticMatcher?: SemanticMatcher;
+  duplicateDecisions: DuplicateDecision[];
+  accounts: AccountsData;
   lastSynced: string | null;
 }> {
-  const [linearIssues, featurebasePosts, zendeskTickets, lastSynced] = await Promise.all([
+  const [
+    linearIssues,
+    linearInitiatives,
+    featurebasePosts,
+    zendeskTickets,
+    feedback,
+    importedFeatures,
+    semanticMatcher,
+    duplicateDecisions,
+    accounts,
+    lastSynced,
+  ] = await Promise.all([
     loadLinearIssues(),
+    loadLinearInitiatives(),
     loadFeaturebasePosts(),
     loadZendeskTickets(),
+    loadFeedback(),
+    loadImportedFeatures(),
+    loadSettings().then(settings => loadSemanticMatcher(settings.semanticMatching)),
+    loadDuplicateDecisions(),
+    loadAccountsData(),
     getLastSyncTime(),
   ]);
 
   return {
     linearIssues,
+    linearInitiatives,
     featurebasePosts,
     zendeskTickets,
+    feedback,
+    importedFeatures,
+    semanticMatcher,
+    duplicateDecisions,
+    accounts,
     lastSynced,
   };
 }
@@ -139,6 +248,8 @@ export async function saveLocalJson<T>(filePath: string, data: T): Promise<void>
       await fs.mkdir(dir, { recursive: true });
     }
     await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    // Synced issues, feedback, imports and decisions all feed the cached feature index
+    markDataChanged();
   } catch (error) {
     console.error(`Error saving ${filePath}:`, error);
     throw error;
@@ -0,0 +1,65 @@
+import { existsSync, mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import paths from '@/config/paths';
+import { documentKeys, runMigrations } from './migrations';
+import { importJsonStores } from './json-import';
+
+export { documentKeys };
+
+let db: Database.Database | null = null;
+
+// Open the database on first use, migrate it and copy in any legacy JSON stores
+export function getDatabase(): Database.Database {
+  if (db) return db;
+
+  const dir = path.dirname(paths.local.database);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const connection = new Database(paths.local.database);
+  // WAL lets readers run during a write; the timeout makes concurrent writers
+  // (scoring jobs, overrides, other workers) wait for the lock instead of failing
+  connection.pragma('journal_mode = WAL');
+  connection.pragma('busy_timeout = 5000');
+
+  runMigrations(connection);
+  importJsonStores(connection);
+
+  db = connection;
+  return db;
+}
+
+// Run reads and writes as one transaction, so read-modify-write updates can't interleave
+export function transaction<T>(fn: () => T): T {
+  return getDatabase().transaction(fn).immediate();
+}
+
+// Read a JSON document, or the default when it was never written
+export function readDocument<T>(key: string, defaultValue: T): T {
+  const row = getDatabase()
+    .prepare('SELECT value FROM documents WHERE key = ?')
+    .get(key) as { value: string } | undefined;
+  return row ? (JSON.parse(row.value) as T) : defaultValue;
+}
+
+export function writeDocument<T>(key: string, value: T): void {
+  getDatabase().prepare(`
+    INSERT INTO documents (key, value, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).run(key, JSON.stringify(value), new Date().toISOString());
+}
+
+// Counter bumped by every write that changes which features are correlated or how they
+// score. It lives in the database so caches in other workers see the change too.
+export function markDataChanged(): void {
+  getDatabase().prepare(`
+    INSERT INTO documents (key, value, updated_at) VALUES (?, '1', ?)
+    ON CONFLICT (key) DO UPDATE SET value = CAST(value AS INTEGER) + 1, updated_at = excluded.updated_at
+  `).run(documentKeys.dataVersion, new Date().toISOString());
+}
+
+export function getDataVersion(): number {
+  return readDocument<number>(documentKeys.dataVersion, 0);
+}
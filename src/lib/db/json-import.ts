@@ -0,0 +1,162 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import { AuditEntry, ScoreOverride, UsageRecord } from '@/lib/types';
+import paths from '@/config/paths';
+import { documentKeys } from './migrations';
+
+// Copies the rows of one legacy file into the database; returns the number of rows
+type JsonImporter = (db: Database.Database, data: unknown) => number;
+
+function writeDocument(db: Database.Database, key: string, value: unknown): void {
+  db.prepare(`
+    INSERT INTO documents (key, value, updated_at) VALUES (?, ?, ?)
+    ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).run(key, JSON.stringify(value), new Date().toISOString());
+}
+
+const importers: Array<{ file: string; importer: JsonImporter }> = [
+  {
+    file: paths.local.scoreOverrides,
+    importer: (db, data) => {
+      const overrides = (data as { overrides?: ScoreOverride[] }).overrides || [];
+      const insert = db.prepare(`
+        INSERT OR REPLACE INTO score_overrides
+          (feature_id, factor, value, previous_value, reason, updated_by, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const o of overrides) {
+        insert.run(
+          o.featureId,
+          o.factor,
+          JSON.stringify(o.value),
+          o.previousValue === undefined ? null : JSON.stringify(o.previousValue),
+          o.reason ?? null,
+          o.updatedBy,
+          o.updatedAt
+        );
+      }
+      return overrides.length;
+    },
+  },
+  {
+    file: paths.local.audit,
+    importer: (db, data) => {
+      const entries = (data as { entries?: AuditEntry[] }).entries || [];
+      const insert = db.prepare('INSERT INTO audit_entries (id, feature_id, updated_at, entry) VALUES (?, ?, ?, ?)');
+      for (const entry of entries) {
+        insert.run(entry.id, entry.featureId, entry.updatedAt, JSON.stringify(entry));
+      }
+      return entries.length;
+    },
+  },
+  {
+    file: paths.local.aiScores,
+    importer: (db, data) => {
+      const { scores = {}, lastUpdated = '', settingsHash = '' } = data as {
+        scores?: Record<string, { featureId: string; scoredAt: string }>;
+        lastUpdated?: string;
+        settingsHash?: string;
+      };
+      const insert = db.prepare('INSERT OR REPLACE INTO ai_scores (feature_id, score, scored_at) VALUES (?, ?, ?)');
+      const rows = Object.values(scores);
+      for (const score of rows) {
+        insert.run(score.featureId, JSON.stringify(score), score.scoredAt);
+      }
+      writeDocument(db, documentKeys.aiScores, { lastUpdated, settingsHash });
+      return rows.length;
+    },
+  },
+  {
+    file: paths.local.usage,
+    importer: (db, data) => {
+      const records = (data as { records?: UsageRecord[] }).records || [];
+      const insert = db.prepare('INSERT INTO usage_records (date, model, tokens_used, cost, feature_id) VALUES (?, ?, ?, ?, ?)');
+      for (const r of records) {
+        insert.run(r.date, r.model, r.tokensUsed, r.cost, r.featureId ?? null);
+      }
+      return records.length;
+    },
+  },
+  {
+    file: paths.local.settings,
+    importer: (db, data) => {
+      writeDocument(db, documentKeys.settings, data);
+      return 1;
+    },
+  },
+  {
+    file: paths.local.apiKeys,
+    importer: (db, data) => {
+      writeDocument(db, documentKeys.apiKeys, data);
+      return 1;
+    },
+  },
+  {
+    file: paths.local.pushHistory,
+    importer: (db, data) => {
+      writeDocument(db, documentKeys.pushHistory, data);
+      return (data as { batches?: unknown[] }).batches?.length || 0;
+    },
+  },
+  {
+    file: paths.local.managedLabels,
+    importer: (db, data) => {
+      writeDocument(db, documentKeys.managedLabels, data);
+      return Object.keys((data as { issues?: Record<string, string[]> }).issues || {}).length;
+    },
+  },
+  {
+    file: paths.local.duplicateDecisions,
+    importer: (db, data) => {
+      writeDocument(db, documentKeys.duplicateDecisions, data);
+      return (data as { decisions?: unknown[] }).decisions?.length || 0;
+    },
+  },
+  {
+    file: paths.local.accounts,
+    importer: (db, data) => {
+      writeDocument(db, documentKeys.accounts, data);
+      const { accounts = [], links = [] } = data as { accounts?: unknown[]; links?: unknown[] };
+      return accounts.length + links.length;
+    },
+  },
+  {
+    file: paths.local.importedFeatures,
+    importer: (db, data) => {
+      writeDocument(db, documentKeys.importedFeatures, data);
+      return (data as { features?: unknown[] }).features?.length || 0;
+    },
+  },
+];
+
+// Copy each legacy JSON store into the database once. The files are left in place;
+// a file that fails to parse is skipped and tried again on the next start. Whether a
+// file was imported is checked inside its transaction, so concurrent workers import it once.
+export function importJsonStores(db: Database.Database): Array<{ file: string; rows: number }> {
+  const isImported = db.prepare('SELECT 1 FROM json_imports WHERE file = ?');
+  const record = db.prepare('INSERT INTO json_imports (file, rows, imported_at) VALUES (?, ?, ?)');
+  const results: Array<{ file: string; rows: number }> = [];
+
+  for (const { file, importer } of importers) {
+    const name = path.basename(file);
+    if (isImported.get(name) || !existsSync(file)) continue;
+
+    try {
+      const data = JSON.parse(readFileSync(file, 'utf-8'));
+      const rows = db.transaction(() => {
+        if (isImported.get(name)) return null;
+        const count = importer(db, data);
+        record.run(name, count, new Date().toISOString());
+        return count;
+      }).immediate();
+      if (rows === null) continue;
+      results.push({ file: name, rows });
+      console.log(`Imported ${rows} rows from ${name} into the database`);
+    } catch (error) {
+      console.error(`Error importing ${name} into the database:`, error);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,108 @@
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Keys of the rows in the documents table
+export const documentKeys = {
+  settings: 'settings',
+  apiKeys: 'api-keys',
+  aiScores: 'ai-scores',
+  dataVersion: 'data-version',
+  pushHistory: 'push-history',
+  managedLabels: 'managed-labels',
+  duplicateDecisions: 'duplicate-decisions',
+  accounts: 'accounts',
+  importedFeatures: 'imported-features',
+} as const;
+
+// Applied in order; a released migration is never edited, schema changes get a new one.
+// Statements use IF NOT EXISTS so a migration can run again on a database that has it.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial-stores',
+    sql: `
+      -- Single JSON documents such as settings and API keys
+      CREATE TABLE IF NOT EXISTS documents (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS score_overrides (
+        feature_id TEXT NOT NULL,
+        factor TEXT NOT NULL,
+        value TEXT NOT NULL,
+        previous_value TEXT,
+        reason TEXT,
+        updated_by TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (feature_id, factor)
+      );
+
+      CREATE TABLE IF NOT EXISTS audit_entries (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL,
+        feature_id TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        entry TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS audit_entries_feature ON audit_entries (feature_id);
+
+      CREATE TABLE IF NOT EXISTS ai_scores (
+        feature_id TEXT PRIMARY KEY,
+        score TEXT NOT NULL,
+        scored_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS usage_records (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL,
+        model TEXT NOT NULL,
+        tokens_used REAL NOT NULL,
+        cost REAL NOT NULL,
+        feature_id TEXT
+      );
+      CREATE INDEX IF NOT EXISTS usage_records_date ON usage_records (date);
+
+      -- Legacy JSON files already copied into the database
+      CREATE TABLE IF NOT EXISTS json_imports (
+        file TEXT PRIMARY KEY,
+        rows INTEGER NOT NULL,
+        imported_at TEXT NOT NULL
+      );
+    `,
+  },
+];
+
+// Apply the migrations newer than the database's schema version (user_version). The
+// version is read inside an immediate transaction, which holds the write lock, so two
+// workers opening the database at once can't both apply the same migrations.
+export function runMigrations(db: Database.Database): number {
+  return db.transaction(() => {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const current = db.pragma('user_version', { simple: true }) as number;
+    const pending = migrations.filter(m => m.version > current).sort((a, b) => a.version - b.version);
+
+    const record = db.prepare('INSERT OR REPLACE INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)');
+    for (const migration of pending) {
+      db.exec(migration.sql);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    }
+    if (pending.length > 0) {
+      db.pragma(`user_version = ${pending[pending.length - 1].version}`);
+    }
+    return pending.length;
+  }).immediate();
+}
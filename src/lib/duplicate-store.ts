@@ -0,0 +1,73 @@
+import { DuplicateDecision } from '@/lib/types';
+import { documentKeys, markDataChanged, readDocument, transaction, writeDocument } from '@/lib/db/database';
+
+interface DuplicateDecisionsData {
+  decisions: DuplicateDecision[];
+  lastUpdated: string;
+}
+
+// Decisions apply to a pair in either direction
+export function duplicatePairKey(featureId: string, otherFeatureId: string): string {
+  return [featureId, otherFeatureId].sort().join(':');
+}
+
+// Load reviewed pairs, newest first
+export async function loadDuplicateDecisions(): Promise<DuplicateDecision[]> {
+  return readDuplicateDecisions();
+}
+
+function readDuplicateDecisions(): DuplicateDecision[] {
+  const data = readDocument<DuplicateDecisionsData>(
+    documentKeys.duplicateDecisions,
+    { decisions: [], lastUpdated: new Date().toISOString() }
+  );
+  return [...(data.decisions || [])].sort(
+    (a, b) => new Date(b.decidedAt).getTime() - new Date(a.decidedAt).getTime()
+  );
+}
+
+// Decisions change which features are merged, so the feature index is rebuilt
+function writeDuplicateDecisions(decisions: DuplicateDecision[]): void {
+  writeDocument<DuplicateDecisionsData>(documentKeys.duplicateDecisions, {
+    decisions,
+    lastUpdated: new Date().toISOString(),
+  });
+  markDataChanged();
+}
+
+// Get the decision for a pair, in either direction
+export async function getDuplicateDecision(
+  featureId: string,
+  otherFeatureId: string
+): Promise<DuplicateDecision | null> {
+  const key = duplicatePairKey(featureId, otherFeatureId);
+  const decisions = await loadDuplicateDecisions();
+  return decisions.find(d => duplicatePairKey(d.original.id, d.duplicate.id) === key) || null;
+}
+
+// Record a decision, replacing any earlier decision for the same pair
+export async function recordDuplicateDecision(decision: DuplicateDecision): Promise<void> {
+  const key = duplicatePairKey(decision.original.id, decision.duplicate.id);
+  transaction(() => {
+    writeDuplicateDecisions([
+      decision,
+      ...readDuplicateDecisions().filter(d => duplicatePairKey(d.original.id, d.duplicate.id) !== key),
+    ]);
+  });
+}
+
+// Forget the decision for a pair so detection decides again
+export async function removeDuplicateDecision(
+  featureId: string,
+  otherFeatureId: string
+): Promise<DuplicateDecision | null> {
+  const key = duplicatePairKey(featureId, otherFeatureId);
+  return transaction(() => {
+    const decisions = readDuplicateDecisions();
+    const removed = decisions.find(d => duplicatePairKey(d.original.id, d.duplicate.id) === key) || null;
+    if (removed) {
+      writeDuplicateDecisions(decisions.filter(d => d !== removed));
+    }
+    return removed;
+  });
+}
@@ -0,0 +1,76 @@
+import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
+import paths from '@/config/paths';
+
+// Vectors are stored as base64 Float32Arrays so the JSON file stays compact
+interface EmbeddingData {
+  model: string | null;
+  vectors: Record<string, string>; // Content hash -> base64 vector
+  lastUpdated: string | null;
+}
+
+// Decoded vectors of the last load or save; the file only changes through this module
+let cached: { model: string; vectors: Map<string, Float32Array> } | null = null;
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+async function loadEmbeddingData(): Promise<EmbeddingData> {
+  return loadLocalJson<EmbeddingData>(paths.local.embeddings, {
+    model: null,
+    vectors: {},
+    lastUpdated: null,
+  });
+}
+
+// Cached vectors for an embedding model; vectors from another model are ignored
+export async function loadEmbeddings(model: string): Promise<Map<string, Float32Array>> {
+  if (cached?.model === model) {
+    return cached.vectors;
+  }
+
+  const data = await loadEmbeddingData();
+  const vectors = new Map<string, Float32Array>();
+  if (data.model === model) {
+    for (const [hash, encoded] of Object.entries(data.vectors)) {
+      vectors.set(hash, decodeVector(encoded));
+    }
+  }
+
+  cached = { model, vectors };
+  return vectors;
+}
+
+// Replace the cache with the vectors of one model
+export async function saveEmbeddings(model: string, vectors: Map<string, Float32Array>): Promise<void> {
+  const encoded: Record<string, string> = {};
+  for (const [hash, vector] of vectors) {
+    encoded[hash] = encodeVector(vector);
+  }
+
+  await saveLocalJson<EmbeddingData>(paths.local.embeddings, {
+    model,
+    vectors: encoded,
+    lastUpdated: new Date().toISOString(),
+  });
+  cached = { model, vectors };
+}
+
+// Model and size of the stored cache
+export async function getEmbeddingCacheStatus(): Promise<{
+  model: string | null;
+  count: number;
+  lastUpdated: string | null;
+}> {
+  const data = await loadEmbeddingData();
+  return {
+    model: data.model,
+    count: Object.keys(data.vectors).length,
+    lastUpdated: data.lastUpdated,
+  };
+}
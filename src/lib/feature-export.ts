@@ -0,0 +1,217 @@
+import { CustomFramework, ScoreFactors, ScoredFeature, ScoringFramework } from '@/lib/types';
+import { getProductDisplayName } from '@/config/products';
+import { getFrameworkInfo } from '@/lib/scoring/engine';
+import { findCustomFramework } from '@/lib/scoring/frameworks/custom';
+import { formatCsv } from '@/lib/csv';
+
+// 'excel' is CSV with a byte order mark and CRLF so Excel opens it as UTF-8
+export type ExportFormat = 'csv' | 'excel' | 'json' | 'markdown';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'excel', 'json', 'markdown'];
+
+export interface ExportFile {
+  content: string;
+  contentType: string;
+  extension: string;
+}
+
+type FactorColumn = { factor: string; label: string };
+
+// Column order for factor scores; only factors some feature has are exported
+const FACTOR_COLUMNS: Array<{ factor: keyof ScoreFactors; label: string }> = [
+  { factor: 'revenueImpact', label: 'Revenue Impact' },
+  { factor: 'enterpriseReadiness', label: 'Enterprise Readiness' },
+  { factor: 'requestVolume', label: 'Request Volume' },
+  { factor: 'competitiveParity', label: 'Competitive Parity' },
+  { factor: 'strategicAlignment', label: 'Strategic Alignment' },
+  { factor: 'capabilityGap', label: 'Capability Gap' },
+  { factor: 'competitiveDifferentiation', label: 'Competitive Differentiation' },
+  { factor: 'reach', label: 'Reach' },
+  { factor: 'impact', label: 'Impact' },
+  { factor: 'confidence', label: 'Confidence' },
+  { factor: 'ease', label: 'Ease' },
+  { factor: 'value', label: 'Value' },
+  { factor: 'effort', label: 'Effort' },
+  { factor: 'businessValue', label: 'Business Value' },
+  { factor: 'timeCriticality', label: 'Time Criticality' },
+  { factor: 'riskReduction', label: 'Risk Reduction' },
+  { factor: 'jobSize', label: 'Job Size' },
+  { factor: 'moscow', label: 'MoSCoW' },
+  { factor: 'kano', label: 'Kano' },
+];
+
+const PRIORITY_NAMES: Record<number, string> = {
+  1: 'Urgent',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low',
+};
+
+type Cell = string | number | null | undefined;
+
+// Full AI summary, preferring the same models as the priority table
+function getAISummary(feature: ScoredFeature): string {
+  const result = feature.aiSuggestions?.anthropic
+    || feature.aiSuggestions?.openai
+    || feature.aiSuggestions?.gemini;
+  return result?.summary || '';
+}
+
+function getOverriddenFactors(feature: ScoredFeature): Array<keyof ScoreFactors> {
+  if (!feature.manualOverrides) return [];
+  return (Object.keys(feature.manualOverrides) as Array<keyof ScoreFactors>)
+    .filter(factor => feature.manualOverrides?.[factor] !== undefined);
+}
+
+// A custom framework exports its own factors instead of the built-in ones
+function getFactorColumns(framework: ScoringFramework, customFrameworks?: CustomFramework[]): FactorColumn[] {
+  const custom = findCustomFramework(framework, customFrameworks);
+  return custom ? custom.factors.map(f => ({ factor: f.key, label: f.label })) : FACTOR_COLUMNS;
+}
+
+function getFactorScore(feature: ScoredFeature, factor: string): Cell {
+  return (feature.scores as Record<string, Cell>)[factor];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Header row and one row per feature, shared by the CSV and Markdown formats
+function buildTable(features: ScoredFeature[], columns: FactorColumn[]): { header: string[]; rows: Cell[][] } {
+  const factors = columns.filter(({ factor }) =>
+    features.some(f => getFactorScore(f, factor) !== undefined)
+  );
+  const factorLabels = new Map<string, string>(columns.map(c => [c.factor, c.label]));
+
+  const header = [
+    'Rank',
+    'Identifier',
+    'Title',
+    'Product',
+    'Customer Tier',
+    'Source',
+    'Requested By',
+    'Revenue at Stake',
+    ...factors.map(c => c.label),
+    'Overrides',
+    'Base Score',
+    'Multiplier',
+    'Final Score',
+    'Priority',
+    'Flags',
+    'AI Summary',
+    'URL',
+  ];
+
+  const rows = features.map((feature, index): Cell[] => [
+    index + 1,
+    feature.identifier,
+    feature.title,
+    getProductDisplayName(feature.product),
+    feature.customerTier,
+    feature.source,
+    (feature.accounts || []).map(a => a.name).join('; '),
+    feature.revenueAtStake,
+    ...factors.map(({ factor }) => getFactorScore(feature, factor)),
+    getOverriddenFactors(feature).map(f => factorLabels.get(f) || f).join('; '),
+    round(feature.baseScore),
+    round(feature.multiplier),
+    round(feature.finalScore),
+    feature.mappedLinearPriority ? PRIORITY_NAMES[feature.mappedLinearPriority] : '',
+    feature.flags.join('; '),
+    getAISummary(feature),
+    feature.url,
+  ]);
+
+  return { header, rows };
+}
+
+// Spreadsheets evaluate text starting with these as formulas
+function escapeFormula(cell: Cell): Cell {
+  return typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell;
+}
+
+function escapeMarkdownCell(cell: Cell): string {
+  if (cell === null || cell === undefined) return '';
+  return String(cell).replace(/\|/g, '\\|').replace(/\s*[\r\n]+\s*/g, ' ');
+}
+
+function toMarkdown(features: ScoredFeature[], framework: ScoringFramework, customFrameworks?: CustomFramework[]): string {
+  const { header, rows } = buildTable(features, getFactorColumns(framework, customFrameworks));
+  const lines = [
+    `**${getFrameworkInfo(framework, customFrameworks).name}** · ${features.length} features · exported ${new Date().toISOString().slice(0, 10)}`,
+    '',
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeMarkdownCell).join(' | ')} |`),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+function toJson(features: ScoredFeature[], framework: ScoringFramework): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    framework,
+    count: features.length,
+    features: features.map((feature, index) => ({
+      rank: index + 1,
+      id: feature.id,
+      identifier: feature.identifier,
+      title: feature.title,
+      url: feature.url,
+      product: feature.product,
+      customerTier: feature.customerTier,
+      source: feature.source,
+      labels: feature.labels,
+      scores: feature.scores,
+      manualOverrides: feature.manualOverrides || {},
+      baseScore: feature.baseScore,
+      multiplier: feature.multiplier,
+      finalScore: feature.finalScore,
+      mappedLinearPriority: feature.mappedLinearPriority,
+      flags: feature.flags,
+      aiSummary: getAISummary(feature) || null,
+    })),
+  }, null, 2);
+}
+
+// Serialize ranked features in the requested format
+export function exportFeatures(
+  features: ScoredFeature[],
+  format: ExportFormat,
+  framework: ScoringFramework,
+  customFrameworks?: CustomFramework[]
+): ExportFile {
+  switch (format) {
+    case 'excel': {
+      const { header, rows } = buildTable(features, getFactorColumns(framework, customFrameworks));
+      return {
+        content: '\uFEFF' + formatCsv([header, ...rows.map(row => row.map(escapeFormula))], '\r\n'),
+        contentType: 'text/csv; charset=utf-8',
+        extension: 'csv',
+      };
+    }
+    case 'json':
+      return {
+        content: toJson(features, framework),
+        contentType: 'application/json; charset=utf-8',
+        extension: 'json',
+      };
+    case 'markdown':
+      return {
+        content: toMarkdown(features, framework, customFrameworks),
+        contentType: 'text/markdown; charset=utf-8',
+        extension: 'md',
+      };
+    case 'csv':
+    default: {
+      const { header, rows } = buildTable(features, getFactorColumns(framework, customFrameworks));
+      return {
+        content: formatCsv([header, ...rows]),
+        contentType: 'text/csv; charset=utf-8',
+        extension: 'csv',
+      };
+    }
+  }
+}
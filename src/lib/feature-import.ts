@@ -0,0 +1,174 @@
+import {
+  CustomerTier,
+  ImportColumnMapping,
+  ImportField,
+  ImportPreview,
+  ImportRowError,
+  ImportedFeature,
+  Product,
+} from '@/lib/types';
+import { productConfigs, getProductFromLabels } from '@/config/products';
+import { parseCsvRecords } from '@/lib/csv';
+
+export type ImportFormat = 'csv' | 'json';
+
+// Imported feature before it is given an ID, with the file row it came from
+export type ImportItem = Omit<ImportedFeature, 'id' | 'identifier' | 'importedAt'> & { row: number };
+
+// Fallbacks for rows that leave the product or tier empty
+export interface ImportDefaults {
+  product: Product;
+  tier: CustomerTier;
+}
+
+// Column names recognised for each field when no mapping is given (case-insensitive)
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'name', 'summary', 'subject', 'feature', 'request'],
+  description: ['description', 'details', 'body', 'content', 'notes'],
+  product: ['product', 'product area', 'area'],
+  tier: ['tier', 'customer tier', 'priority tier', 'segment'],
+  labels: ['labels', 'tags', 'label', 'tag'],
+  upvotes: ['upvotes', 'votes', 'requests', 'count'],
+};
+
+const PREVIEW_ITEMS = 20;
+const MAX_ERRORS = 200;
+
+// Parse an import file into one record per row. JSON may be an array of objects or an
+// object with a "features" array.
+export function parseImportFile(content: string, format: ImportFormat): Record<string, unknown>[] {
+  if (format === 'csv') {
+    return parseCsvRecords(content);
+  }
+
+  const data = JSON.parse(content);
+  const rows = Array.isArray(data) ? data : data?.features;
+  if (!Array.isArray(rows)) {
+    throw new Error('JSON must be an array of objects or an object with a "features" array');
+  }
+  return rows.filter((row): row is Record<string, unknown> => !!row && typeof row === 'object' && !Array.isArray(row));
+}
+
+// Every column or key that appears in the file, in first-seen order
+export function getImportColumns(records: Record<string, unknown>[]): string[] {
+  const columns = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) columns.add(key);
+  }
+  return [...columns];
+}
+
+// Guess the mapping from column names
+export function suggestImportMapping(columns: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as Array<[ImportField, string[]]>) {
+    const column = columns.find(c => aliases.includes(c.trim().toLowerCase()));
+    if (column) mapping[field] = column;
+  }
+  return mapping;
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(String).join(', ');
+  return String(value).trim();
+}
+
+// Product by ID, display name or one of its label patterns
+function resolveProduct(value: string): Product | null {
+  const lower = value.toLowerCase();
+  const config = productConfigs.find(p => p.id === lower || p.name.toLowerCase() === lower);
+  return config?.id || getProductFromLabels([value]);
+}
+
+// "C2", "2" or "Tier 2"
+export function resolveTier(value: string): CustomerTier | null {
+  const match = value.match(/^(?:tier\s*|c)?([1-5])$/i);
+  return match ? (`C${match[1]}` as CustomerTier) : null;
+}
+
+function toLabels(value: unknown): string[] {
+  const parts = Array.isArray(value) ? value.map(String) : toText(value).split(/[,;]/);
+  return [...new Set(parts.map(l => l.trim()).filter(Boolean))];
+}
+
+// Validate every row against the mapping; rows with any error are left out of the items
+export function validateImportRows(
+  records: Record<string, unknown>[],
+  mapping: ImportColumnMapping,
+  defaults: ImportDefaults
+): { items: ImportItem[]; errors: ImportRowError[] } {
+  const items: ImportItem[] = [];
+  const errors: ImportRowError[] = [];
+  const value = (record: Record<string, unknown>, field: ImportField) =>
+    mapping[field] ? record[mapping[field]] : undefined;
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const rowErrors: ImportRowError[] = [];
+
+    const title = toText(value(record, 'title'));
+    if (!title) {
+      rowErrors.push({ row, field: 'title', message: 'Title is empty' });
+    } else if (title.length > 255) {
+      rowErrors.push({ row, field: 'title', message: 'Title is longer than 255 characters' });
+    }
+
+    const productText = toText(value(record, 'product'));
+    const product = productText ? resolveProduct(productText) : defaults.product;
+    if (!product) {
+      rowErrors.push({ row, field: 'product', message: `Unknown product "${productText}"` });
+    }
+
+    const tierText = toText(value(record, 'tier'));
+    const tier = tierText ? resolveTier(tierText) : defaults.tier;
+    if (!tier) {
+      rowErrors.push({ row, field: 'tier', message: `Tier "${tierText}" is not C1-C5` });
+    }
+
+    const upvotesText = toText(value(record, 'upvotes'));
+    const upvotes = upvotesText ? Number(upvotesText.replace(/,/g, '')) : undefined;
+    if (upvotes !== undefined && (!Number.isInteger(upvotes) || upvotes < 0)) {
+      rowErrors.push({ row, field: 'upvotes', message: `Upvotes "${upvotesText}" is not a whole number` });
+    }
+
+    if (rowErrors.length > 0 || !product || !tier) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    items.push({
+      row,
+      title,
+      description: toText(value(record, 'description')),
+      product,
+      customerTier: tier,
+      labels: toLabels(value(record, 'labels')),
+      upvotes,
+    });
+  });
+
+  return { items, errors };
+}
+
+// Parse and validate a file for the preview; a mapping left out is guessed from the columns
+export function buildImportPreview(
+  content: string,
+  format: ImportFormat,
+  defaults: ImportDefaults,
+  mapping?: ImportColumnMapping
+): ImportPreview {
+  const records = parseImportFile(content, format);
+  const columns = getImportColumns(records);
+  const effectiveMapping = mapping || suggestImportMapping(columns);
+  const { items, errors } = validateImportRows(records, effectiveMapping, defaults);
+
+  return {
+    columns,
+    mapping: effectiveMapping,
+    totalRows: records.length,
+    validRows: items.length,
+    items: items.slice(0, PREVIEW_ITEMS),
+    errors: errors.slice(0, MAX_ERRORS),
+  };
+}
@@ -0,0 +1,131 @@
+import { FeatureRequest, ScoreFactors, ScoredFeature, ScoringFramework, Settings } from '@/lib/types';
+import { loadAllData } from '@/lib/data-loader';
+import { correlateData } from '@/lib/correlator';
+import { scoreAndSortFeatures, scoreFeature } from '@/lib/scoring/engine';
+import { resolveWeightProfile } from '@/lib/scoring/weight-profiles';
+import { loadSettings } from '@/lib/settings-store';
+import { getOverridesMap } from '@/lib/score-store';
+import { getAIScoresMap, StoredAIScore } from '@/lib/ai-score-store';
+import { getDataVersion } from '@/lib/db/database';
+
+// Correlated features and everything they are scored with, as of one data version
+export interface FeatureIndex {
+  version: number;
+  builtAt: number;
+  data: Awaited<ReturnType<typeof loadAllData>>;
+  settings: Settings;
+  overridesMap: Map<string, Partial<ScoreFactors>>;
+  aiScoresMap: Map<string, StoredAIScore>;
+  features: FeatureRequest[];
+  byId: Map<string, FeatureRequest>;
+  // Scored and sorted lists by framework, filled on first use
+  scored: Map<string, ScoredFeature[]>;
+}
+
+// Slack exports, CSV feedback and the agent-os data are files changed outside the app,
+// so an index is also rebuilt once it is this old
+const MAX_INDEX_AGE_MS = 5 * 60 * 1000;
+
+let cached: FeatureIndex | null = null;
+let pending: { version: number; promise: Promise<FeatureIndex> } | null = null;
+
+async function buildFeatureIndex(version: number): Promise<FeatureIndex> {
+  const [data, settings, overridesMap, aiScoresMap] = await Promise.all([
+    loadAllData(),
+    loadSettings(),
+    getOverridesMap(),
+    getAIScoresMap(),
+  ]);
+
+  const features = correlateData(data.linearIssues, {
+    projectMappings: settings.projectMappings,
+    excludedProjects: settings.excludedProjects,
+    syncScope: settings.syncScope,
+    initiatives: data.linearInitiatives,
+    strategicGoals: settings.promptConfig.enhanced?.strategicGoals,
+    feedback: data.feedback,
+    importedFeatures: data.importedFeatures,
+    semantic: data.semanticMatcher,
+    duplicateDecisions: data.duplicateDecisions,
+    accounts: data.accounts,
+  });
+
+  return {
+    version,
+    builtAt: Date.now(),
+    data,
+    settings,
+    overridesMap,
+    aiScoresMap,
+    features,
+    byId: new Map(features.map(f => [f.id, f])),
+    scored: new Map(),
+  };
+}
+
+// The current index, rebuilt only after a sync, settings, override, AI score or other
+// data write (see markDataChanged). Concurrent requests share one rebuild.
+export async function getFeatureIndex(): Promise<FeatureIndex> {
+  const version = getDataVersion();
+  if (cached && cached.version === version && Date.now() - cached.builtAt < MAX_INDEX_AGE_MS) {
+    return cached;
+  }
+  if (pending && pending.version === version) {
+    return pending.promise;
+  }
+
+  const promise = buildFeatureIndex(version);
+  pending = { version, promise };
+  try {
+    const index = await promise;
+    // A slower, older build must not replace a newer one
+    if (!cached || cached.version <= index.version) {
+      cached = index;
+    }
+    return index;
+  } finally {
+    if (pending?.promise === promise) {
+      pending = null;
+    }
+  }
+}
+
+// Every feature scored with its resolved weight profile and sorted
+export function getScoredFeatures(index: FeatureIndex, framework: ScoringFramework): ScoredFeature[] {
+  let scored = index.scored.get(framework);
+  if (!scored) {
+    scored = scoreAndSortFeatures(
+      index.features,
+      framework,
+      index.aiScoresMap,
+      index.overridesMap,
+      index.settings,
+      index.settings.aiModel.defaultModel,
+      index.settings.customFrameworks
+    );
+    index.scored.set(framework, scored);
+  }
+  return scored;
+}
+
+// One feature scored with its resolved weight profile, or null if it isn't in the index
+export function getScoredFeature(
+  index: FeatureIndex,
+  featureId: string,
+  framework: ScoringFramework
+): ScoredFeature | null {
+  const feature = index.byId.get(featureId);
+  if (!feature) return null;
+
+  const profile = resolveWeightProfile(feature, index.settings);
+  return scoreFeature(
+    feature,
+    framework,
+    index.aiScoresMap.get(featureId) || null,
+    index.overridesMap.get(featureId),
+    profile.weights,
+    profile.tierMultipliers,
+    index.settings.aiModel.defaultModel,
+    index.settings.customFrameworks
+  );
+}
@@ -0,0 +1,186 @@
+import { getEffectiveAPIKey } from '@/lib/api-keys-store';
+import { APIKeyError } from '@/lib/linear-client';
+import { requestJson } from '@/lib/rest-client';
+import { FeaturebasePost, FeaturebaseVoter } from '@/lib/types';
+
+// REST endpoint for Featurebase (override to point at a local mock server)
+export const FEATUREBASE_API_URL = process.env.FEATUREBASE_API_URL || 'https://do.featurebase.app/v2';
+
+// Public portal used to build post links, e.g. https://feedback.example.com
+const FEATUREBASE_PORTAL_URL = process.env.FEATUREBASE_PORTAL_URL || '';
+
+const PAGE_SIZE = 100;
+
+// Paginated list response shared by Featurebase endpoints
+interface FeaturebasePage<T> {
+  results: T[];
+  page: number;
+  totalPages: number;
+  totalResults?: number;
+}
+
+interface FeaturebaseApiPost {
+  id: string;
+  slug?: string;
+  title: string;
+  content?: string;
+  upvotes?: number;
+  commentCount?: number;
+  postUrl?: string;
+  postStatus?: { name?: string; type?: string } | null;
+  postCategory?: { category?: string } | null;
+  date: string;
+  lastModified?: string;
+}
+
+interface FeaturebaseApiVoter {
+  userId?: string;
+  id?: string;
+  name?: string;
+  email?: string;
+  companies?: Array<{ name?: string }>;
+}
+
+interface FeaturebaseApiComment {
+  id: string;
+  content?: string;
+  author?: string;
+  createdAt: string;
+}
+
+// Check if Featurebase is configured
+export async function isFeaturebaseConfigured(): Promise<boolean> {
+  return !!(await getEffectiveAPIKey('featurebase'));
+}
+
+async function requireFeaturebaseApiKey(): Promise<string> {
+  const apiKey = await getEffectiveAPIKey('featurebase');
+  if (!apiKey) {
+    throw new APIKeyError('featurebase', 'Featurebase API key not configured. Please add your Featurebase API key in Settings > API Keys.');
+  }
+  return apiKey;
+}
+
+// GET a Featurebase endpoint
+async function featurebaseRequest<T>(
+  apiKey: string,
+  endpoint: string,
+  params: Record<string, string | number>
+): Promise<T> {
+  const url = new URL(`${FEATUREBASE_API_URL}${endpoint}`);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, String(value));
+  }
+
+  return requestJson<T>(url, {
+    headers: {
+      'X-API-Key': apiKey,
+      'Accept': 'application/json',
+    },
+  }, { id: 'featurebase', name: 'Featurebase' });
+}
+
+// Fetch every page of a list endpoint
+async function fetchAllPages<T>(
+  apiKey: string,
+  endpoint: string,
+  params: Record<string, string | number> = {}
+): Promise<T[]> {
+  const items: T[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const data = await featurebaseRequest<FeaturebasePage<T>>(apiKey, endpoint, {
+      ...params,
+      limit: PAGE_SIZE,
+      page,
+    });
+    items.push(...(data.results || []));
+    totalPages = data.totalPages || 1;
+    page++;
+  } while (page <= totalPages);
+
+  return items;
+}
+
+function toVoter(voter: FeaturebaseApiVoter): FeaturebaseVoter {
+  return {
+    id: voter.userId || voter.id,
+    name: voter.name,
+    email: voter.email,
+    companyName: voter.companies?.[0]?.name,
+  };
+}
+
+function postUrl(post: FeaturebaseApiPost): string {
+  if (post.postUrl) return post.postUrl;
+  if (FEATUREBASE_PORTAL_URL && post.slug) {
+    return `${FEATUREBASE_PORTAL_URL.replace(/\/$/, '')}/p/${post.slug}`;
+  }
+  return '';
+}
+
+// Fetch all Featurebase posts with their voters and comments. Voters and comments are
+// only re-fetched for posts whose vote or comment count changed since `previous`.
+export async function fetchFeaturebasePosts(
+  previous: FeaturebasePost[] = []
+): Promise<FeaturebasePost[]> {
+  const apiKey = await requireFeaturebaseApiKey();
+  const previousById = new Map(previous.map(p => [p.id, p]));
+
+  const apiPosts = await fetchAllPages<FeaturebaseApiPost>(apiKey, '/posts', { sortBy: 'date' });
+  console.log(`Fetched ${apiPosts.length} Featurebase posts`);
+
+  const posts: FeaturebasePost[] = [];
+  let refreshed = 0;
+
+  for (const apiPost of apiPosts) {
+    const known = previousById.get(apiPost.id);
+    const upvotes = apiPost.upvotes ?? 0;
+    const commentCount = apiPost.commentCount ?? 0;
+    const unchanged = known
+      && known.upvotes === upvotes
+      && known.commentCount === commentCount
+      && known.voters !== undefined;
+
+    let voters = known?.voters;
+    let comments = known?.comments;
+    if (!unchanged) {
+      refreshed++;
+      const [apiVoters, apiComments] = await Promise.all([
+        upvotes > 0
+          ? fetchAllPages<FeaturebaseApiVoter>(apiKey, '/posts/upvoters', { submissionId: apiPost.id })
+          : Promise.resolve([]),
+        commentCount > 0
+          ? fetchAllPages<FeaturebaseApiComment>(apiKey, '/comment', { submissionId: apiPost.id })
+          : Promise.resolve([]),
+      ]);
+      voters = apiVoters.map(toVoter);
+      comments = apiComments.map(c => ({
+        id: c.id,
+        content: c.content || '',
+        author: c.author || 'Unknown',
+        createdAt: c.createdAt,
+      }));
+    }
+
+    posts.push({
+      id: apiPost.id,
+      title: apiPost.title,
+      content: apiPost.content || '',
+      status: apiPost.postStatus?.name || 'Unknown',
+      upvotes,
+      url: postUrl(apiPost),
+      category: apiPost.postCategory?.category,
+      commentCount,
+      voters,
+      comments,
+      createdAt: apiPost.date,
+      updatedAt: apiPost.lastModified || apiPost.date,
+    });
+  }
+
+  console.log(`Refreshed voters and comments for ${refreshed} Featurebase posts`);
+  return posts;
+}
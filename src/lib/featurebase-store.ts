@@ -0,0 +1,22 @@
+import { existsSync } from 'fs';
+import { FeaturebasePost } from '@/lib/types';
+import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
+import paths from '@/config/paths';
+
+interface PostsData {
+  posts: FeaturebasePost[];
+  syncedAt: string;
+}
+
+// Load locally synced Featurebase posts (null if Featurebase has never been synced)
+export async function loadStoredPosts(): Promise<PostsData | null> {
+  if (!existsSync(paths.local.featurebase.posts)) {
+    return null;
+  }
+  return loadLocalJson<PostsData>(paths.local.featurebase.posts, { posts: [], syncedAt: '' });
+}
+
+// Save the full post set
+export async function saveStoredPosts(posts: FeaturebasePost[], syncedAt: string): Promise<void> {
+  await saveLocalJson(paths.local.featurebase.posts, { posts, syncedAt });
+}
@@ -0,0 +1,61 @@
+import { FeedbackSignal, LinearIssue } from '@/lib/types';
+import { extractKeywords } from '@/lib/text-match';
+import { SemanticMatcher, compareTexts, matchText } from '@/lib/semantic-match';
+
+export interface CorrelateOptions {
+  threshold: number; // Minimum keyword similarity for an unlinked signal
+  limit?: number; // Most content matches to keep
+  semantic?: SemanticMatcher; // Compares by embedding instead, with its own threshold
+}
+
+// Signals are matched against every issue, so their text and keywords are worked out once
+const signalDocuments = new WeakMap<FeedbackSignal, { text: string; keywords: string[] }>();
+
+function getSignalDocument(signal: FeedbackSignal): { text: string; keywords: string[] } {
+  let document = signalDocuments.get(signal);
+  if (!document) {
+    document = {
+      text: matchText(signal.title, signal.body),
+      keywords: extractKeywords(`${signal.title} ${signal.body}`),
+    };
+    signalDocuments.set(signal, document);
+  }
+  return document;
+}
+
+// Match signals to an issue: signals that reference the issue (by identifier, or by a URL
+// attached to the issue) win; otherwise the most similar signals above the threshold
+export function defaultCorrelate(
+  issue: LinearIssue,
+  signals: FeedbackSignal[],
+  { threshold, limit = 5, semantic }: CorrelateOptions
+): FeedbackSignal[] {
+  const identifier = issue.identifier.toUpperCase();
+  const attachmentUrls = new Set(issue.attachments?.nodes?.map(a => a.url) || []);
+
+  const linked = signals.filter(signal =>
+    signal.linkedIdentifiers?.includes(identifier)
+    || (signal.url && attachmentUrls.has(signal.url))
+  );
+  if (linked.length > 0) {
+    return linked.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  const issueText = matchText(issue.title, issue.description);
+  const issueKeywords = extractKeywords(issue.title + ' ' + (issue.description || ''));
+  if (issueKeywords.length === 0 && !semantic) return [];
+
+  const related: { signal: FeedbackSignal; score: number }[] = [];
+  for (const signal of signals) {
+    const document = getSignalDocument(signal);
+    const similarity = compareTexts(issueText, issueKeywords, document.text, document.keywords, threshold, semantic);
+    if (similarity !== null) {
+      related.push({ signal, score: similarity });
+    }
+  }
+
+  return related
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(r => r.signal);
+}
@@ -0,0 +1,169 @@
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import paths from '@/config/paths';
+import { parseCsvRecords } from '@/lib/csv';
+import { markDataChanged } from '@/lib/db/database';
+import { extractLinearReferences } from '@/lib/linear-references';
+import { FeedbackSource } from './types';
+import { defaultCorrelate } from './correlate';
+
+// One row of a CSV file uploaded or dropped into data/feedback/csv
+interface CsvFeedbackRow {
+  file: string;
+  row: number; // Line number in the file, counting the header
+  values: Record<string, string>;
+  modifiedAt: string; // File time, used when the row has no date
+}
+
+// Accepted header names for each field (compared case-insensitively)
+const COLUMNS = {
+  id: ['id'],
+  title: ['title', 'subject', 'summary', 'request', 'feature'],
+  body: ['body', 'description', 'details', 'content', 'feedback', 'text', 'comment'],
+  url: ['url', 'link'],
+  author: ['author', 'name', 'requester', 'email', 'submitted by'],
+  account: ['account', 'company', 'customer', 'organization'],
+  weight: ['votes', 'upvotes', 'weight', 'count', 'mentions'],
+  date: ['date', 'created', 'created at', 'createdat', 'submitted'],
+  linear: ['linear', 'issue', 'linear issue', 'identifier'],
+};
+
+function pick(values: Record<string, string>, names: string[]): string {
+  for (const [column, value] of Object.entries(values)) {
+    if (value && names.includes(column.toLowerCase())) return value;
+  }
+  return '';
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+async function listCsvFiles(): Promise<string[]> {
+  if (!existsSync(paths.local.feedback.csv)) return [];
+  const files = await fs.readdir(paths.local.feedback.csv);
+  return files.filter(f => f.toLowerCase().endsWith('.csv')).sort();
+}
+
+// Rows with a title or body; others carry no feedback
+function feedbackRows(content: string): Record<string, string>[] {
+  return parseCsvRecords(content).filter(values => pick(values, COLUMNS.title) || pick(values, COLUMNS.body));
+}
+
+// A stored feedback file, as listed in Settings
+export interface CsvFeedbackFile {
+  file: string;
+  rows: number;
+  modifiedAt: string;
+}
+
+export async function listCsvFeedbackFiles(): Promise<CsvFeedbackFile[]> {
+  return Promise.all((await listCsvFiles()).map(async file => {
+    const filePath = path.join(paths.local.feedback.csv, file);
+    const [content, stats] = await Promise.all([fs.readFile(filePath, 'utf-8'), fs.stat(filePath)]);
+    return { file, rows: feedbackRows(content).length, modifiedAt: stats.mtime.toISOString() };
+  }));
+}
+
+// Check an uploaded file; the stored name keeps only safe characters so it can't leave the folder
+export function validateCsvFeedbackFile(
+  fileName: unknown,
+  content: unknown
+): { file?: { name: string; content: string; rows: number }; errors: string[] } {
+  const name = typeof fileName === 'string'
+    ? path.basename(fileName.trim()).replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^[.-]+/, '')
+    : '';
+  if (!name.toLowerCase().endsWith('.csv') || name.length <= 4) {
+    return { errors: ['File name must end in .csv'] };
+  }
+  if (typeof content !== 'string' || !content.trim()) {
+    return { errors: ['File is empty'] };
+  }
+
+  let columns: string[];
+  let rows: number;
+  try {
+    const records = parseCsvRecords(content);
+    columns = Object.keys(records[0] || {}).map(c => c.toLowerCase());
+    rows = feedbackRows(content).length;
+  } catch (error) {
+    return { errors: [`Could not parse file: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+  }
+
+  const errors: string[] = [];
+  if (!columns.some(c => COLUMNS.title.includes(c) || COLUMNS.body.includes(c))) {
+    errors.push(`Add a title column (${COLUMNS.title.join(', ')}) or a body column (${COLUMNS.body.join(', ')})`);
+  } else if (rows === 0) {
+    errors.push('No rows with a title or body');
+  }
+  return errors.length > 0 ? { errors } : { file: { name, content, rows }, errors: [] };
+}
+
+// Store a checked file, replacing one with the same name; correlation picks it up on the next index rebuild
+export async function saveCsvFeedbackFile(name: string, content: string): Promise<void> {
+  await fs.mkdir(paths.local.feedback.csv, { recursive: true });
+  await fs.writeFile(path.join(paths.local.feedback.csv, name), content, 'utf-8');
+  markDataChanged();
+}
+
+export async function deleteCsvFeedbackFile(file: string): Promise<boolean> {
+  if (!(await listCsvFiles()).includes(file)) return false;
+  await fs.unlink(path.join(paths.local.feedback.csv, file));
+  markDataChanged();
+  return true;
+}
+
+// Feedback exported to CSV from any tool (survey results, sales call notes, ...)
+export const csvSource: FeedbackSource<CsvFeedbackRow> = {
+  id: 'csv',
+  name: 'CSV Upload',
+
+  async isConfigured() {
+    return (await listCsvFiles()).length > 0;
+  },
+
+  async load() {
+    const rows: CsvFeedbackRow[] = [];
+    for (const file of await listCsvFiles()) {
+      const filePath = path.join(paths.local.feedback.csv, file);
+      try {
+        const [content, stats] = await Promise.all([fs.readFile(filePath, 'utf-8'), fs.stat(filePath)]);
+        parseCsvRecords(content).forEach((values, index) => {
+          if (pick(values, COLUMNS.title) || pick(values, COLUMNS.body)) {
+            rows.push({ file, row: index + 2, values, modifiedAt: stats.mtime.toISOString() });
+          }
+        });
+      } catch (error) {
+        console.error(`Error loading ${filePath}:`, error);
+      }
+    }
+    console.log(`Loaded ${rows.length} feedback rows from CSV files`);
+    return rows;
+  },
+
+  normalize({ file, row, values, modifiedAt }) {
+    const body = pick(values, COLUMNS.body);
+    const linear = pick(values, COLUMNS.linear);
+    const date = new Date(pick(values, COLUMNS.date));
+    const weight = Number(pick(values, COLUMNS.weight));
+
+    return {
+      id: `${file}:${pick(values, COLUMNS.id) || row}`,
+      source: 'csv',
+      kind: 'request',
+      title: pick(values, COLUMNS.title) || truncate(body, 100),
+      body,
+      url: pick(values, COLUMNS.url) || undefined,
+      author: pick(values, COLUMNS.author) || undefined,
+      accountName: pick(values, COLUMNS.account) || undefined,
+      weight: Number.isFinite(weight) && weight > 0 ? weight : 1,
+      linkedIdentifiers: extractLinearReferences(`${linear} ${body}`, linear.split(/[\s,;]+/)),
+      createdAt: Number.isNaN(date.getTime()) ? modifiedAt : date.toISOString(),
+    };
+  },
+
+  correlate(issue, signals, semantic) {
+    return defaultCorrelate(issue, signals, { threshold: 0.3, semantic });
+  },
+};
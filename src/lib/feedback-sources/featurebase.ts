@@ -0,0 +1,47 @@
+import { FeaturebasePost } from '@/lib/types';
+import { loadFeaturebasePosts } from '@/lib/data-loader';
+import { fetchFeaturebasePosts, isFeaturebaseConfigured } from '@/lib/featurebase-client';
+import { loadStoredPosts, saveStoredPosts } from '@/lib/featurebase-store';
+import { FeedbackSource } from './types';
+import { defaultCorrelate } from './correlate';
+
+// Featurebase posts; upvotes are the signal weight
+export const featurebaseSource: FeedbackSource<FeaturebasePost> = {
+  id: 'featurebase',
+  name: 'Featurebase',
+  issueLabels: ['featurebase'],
+
+  isConfigured() {
+    return isFeaturebaseConfigured();
+  },
+
+  async sync() {
+    const stored = await loadStoredPosts();
+    const posts = await fetchFeaturebasePosts(stored?.posts);
+    await saveStoredPosts(posts, new Date().toISOString());
+    console.log(`Synced ${posts.length} Featurebase posts`);
+    return { itemCount: posts.length };
+  },
+
+  load() {
+    return loadFeaturebasePosts();
+  },
+
+  normalize(post) {
+    return {
+      id: post.id,
+      source: 'featurebase',
+      kind: 'request',
+      title: post.title,
+      body: post.content || '',
+      url: post.url || undefined,
+      status: post.status,
+      weight: post.upvotes || 0,
+      createdAt: post.createdAt,
+    };
+  },
+
+  correlate(issue, signals, semantic) {
+    return defaultCorrelate(issue, signals, { threshold: 0.2, semantic });
+  },
+};
@@ -0,0 +1,168 @@
+import { existsSync } from 'fs';
+import paths from '@/config/paths';
+import { getEffectiveAPIKey } from '@/lib/api-keys-store';
+import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
+import { APIKeyError } from '@/lib/linear-client';
+import { requestJson } from '@/lib/rest-client';
+import { htmlToText } from '@/lib/text-match';
+import { extractLinearReferences } from '@/lib/linear-references';
+import { FeedbackSource, FeedbackSyncResult } from './types';
+import { defaultCorrelate } from './correlate';
+
+// REST endpoint for HubSpot (override to point at a local mock server)
+const HUBSPOT_API_URL = process.env.HUBSPOT_API_URL || 'https://api.hubapi.com';
+const HUBSPOT_SERVICE = { id: 'hubspot', name: 'HubSpot' } as const;
+
+const PAGE_SIZE = 100;
+// Safety stop for a single sync; a sync that hits it keeps the notes stored before
+const MAX_PAGES_PER_SYNC = 50;
+
+interface HubSpotNote {
+  id: string;
+  properties: { hs_note_body?: string | null; hs_timestamp?: string | null; hs_createdate?: string | null };
+  associations?: { deals?: { results: Array<{ id: string }> } };
+}
+
+interface HubSpotNotesPage {
+  results: HubSpotNote[];
+  paging?: { next?: { after: string } };
+}
+
+interface HubSpotDeal {
+  id: string;
+  properties: { dealname?: string | null };
+}
+
+// Deal note as stored locally
+interface HubSpotDealNote {
+  id: string;
+  body: string;
+  dealId: string;
+  dealName: string;
+  url?: string;
+  createdAt: string;
+}
+
+interface DealNotesData {
+  notes: HubSpotDealNote[];
+  syncedAt: string;
+}
+
+// Re-fetch every note attached to a deal; notes are few enough that a full sync stays cheap.
+// A complete fetch replaces the stored notes, so deleted ones go away; one cut off by the
+// page cap is partial and only adds to and updates them.
+async function syncDealNotes(): Promise<FeedbackSyncResult> {
+  const token = await getEffectiveAPIKey('hubspot');
+  if (!token) {
+    throw new APIKeyError('hubspot', 'HubSpot access token not configured. Please add it in Settings > API Keys.');
+  }
+  const init = { headers: { 'Authorization': `Bearer ${token}`, 'Accept': 'application/json' } };
+
+  const notes: Array<{ note: HubSpotNote; dealId: string }> = [];
+  let after: string | undefined;
+  for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+    const url = new URL(`${HUBSPOT_API_URL}/crm/v3/objects/notes`);
+    url.searchParams.set('limit', String(PAGE_SIZE));
+    url.searchParams.set('properties', 'hs_note_body,hs_timestamp');
+    url.searchParams.set('associations', 'deals');
+    if (after) url.searchParams.set('after', after);
+
+    const data = await requestJson<HubSpotNotesPage>(url, init, HUBSPOT_SERVICE);
+    for (const note of data.results) {
+      const dealId = note.associations?.deals?.results[0]?.id;
+      if (dealId) notes.push({ note, dealId });
+    }
+
+    after = data.paging?.next?.after;
+    if (!after) break;
+  }
+
+  // Deal names, read in batches of 100
+  const dealIds = [...new Set(notes.map(n => n.dealId))];
+  const dealNames = new Map<string, string>();
+  for (let i = 0; i < dealIds.length; i += 100) {
+    const data = await requestJson<{ results: HubSpotDeal[] }>(`${HUBSPOT_API_URL}/crm/v3/objects/deals/batch/read`, {
+      method: 'POST',
+      headers: { ...init.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        properties: ['dealname'],
+        inputs: dealIds.slice(i, i + 100).map(id => ({ id })),
+      }),
+    }, HUBSPOT_SERVICE);
+    for (const deal of data.results) {
+      dealNames.set(deal.id, deal.properties.dealname || `Deal ${deal.id}`);
+    }
+  }
+
+  const account = await requestJson<{ portalId?: number }>(`${HUBSPOT_API_URL}/account-info/v3/details`, init, HUBSPOT_SERVICE);
+
+  const dealNotes: HubSpotDealNote[] = notes.map(({ note, dealId }) => ({
+    id: note.id,
+    body: htmlToText(note.properties.hs_note_body || ''),
+    dealId,
+    dealName: dealNames.get(dealId) || `Deal ${dealId}`,
+    url: account.portalId ? `https://app.hubspot.com/contacts/${account.portalId}/record/0-3/${dealId}` : undefined,
+    createdAt: note.properties.hs_timestamp || note.properties.hs_createdate || new Date().toISOString(),
+  }));
+
+  const truncated = !!after;
+  const stored = truncated && existsSync(paths.local.feedback.hubspot)
+    ? await loadLocalJson<DealNotesData>(paths.local.feedback.hubspot, { notes: [], syncedAt: '' })
+    : null;
+  const byId = new Map((stored?.notes || []).map(n => [n.id, n]));
+  for (const note of dealNotes) {
+    byId.set(note.id, note);
+  }
+
+  const saved = [...byId.values()];
+  await saveLocalJson(paths.local.feedback.hubspot, { notes: saved, syncedAt: new Date().toISOString() });
+  console.log(`Synced ${dealNotes.length} HubSpot deal notes from ${dealIds.length} deals${truncated ? ' (partial)' : ''}`);
+
+  return {
+    itemCount: saved.length,
+    warning: truncated
+      ? `stopped after ${MAX_PAGES_PER_SYNC} pages; notes past them were not fetched and earlier notes were kept`
+      : undefined,
+  };
+}
+
+// Notes sales reps leave on HubSpot deals
+export const hubspotSource: FeedbackSource<HubSpotDealNote> = {
+  id: 'hubspot',
+  name: 'HubSpot',
+  issueLabels: ['hubspot'],
+
+  async isConfigured() {
+    return !!(await getEffectiveAPIKey('hubspot'));
+  },
+
+  sync() {
+    return syncDealNotes();
+  },
+
+  async load() {
+    if (!existsSync(paths.local.feedback.hubspot)) return [];
+    const data = await loadLocalJson<DealNotesData>(paths.local.feedback.hubspot, { notes: [], syncedAt: '' });
+    return data.notes || [];
+  },
+
+  normalize(note) {
+    const firstLine = note.body.split('\n').find(l => l.trim())?.trim() || note.dealName;
+    return {
+      id: note.id,
+      source: 'hubspot',
+      kind: 'deal-note',
+      title: firstLine.length > 100 ? `${firstLine.slice(0, 99)}…` : firstLine,
+      body: note.body,
+      url: note.url,
+      accountName: note.dealName,
+      weight: 1,
+      linkedIdentifiers: extractLinearReferences(note.body),
+      createdAt: note.createdAt,
+    };
+  },
+
+  correlate(issue, signals, semantic) {
+    return defaultCorrelate(issue, signals, { threshold: 0.3, semantic });
+  },
+};
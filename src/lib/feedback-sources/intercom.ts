@@ -0,0 +1,189 @@
+import { existsSync } from 'fs';
+import paths from '@/config/paths';
+import { getEffectiveAPIKey } from '@/lib/api-keys-store';
+import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
+import { APIKeyError } from '@/lib/linear-client';
+import { requestJson } from '@/lib/rest-client';
+import { htmlToText } from '@/lib/text-match';
+import { extractLinearReferences } from '@/lib/linear-references';
+import { FeedbackSource, FeedbackSyncResult } from './types';
+import { defaultCorrelate } from './correlate';
+
+// REST endpoint for Intercom (override to point at a local mock server)
+const INTERCOM_API_URL = process.env.INTERCOM_API_URL || 'https://api.intercom.io';
+const INTERCOM_SERVICE = { id: 'intercom', name: 'Intercom' } as const;
+
+// How far back the first sync reaches
+const INITIAL_LOOKBACK_DAYS = 365;
+const PAGE_SIZE = 150;
+// Safety stop for a single sync; the next sync continues from the last conversation read
+const MAX_PAGES_PER_SYNC = 50;
+
+interface IntercomApiConversation {
+  id: string;
+  title: string | null;
+  state: string;
+  created_at: number;
+  updated_at: number;
+  source?: {
+    subject?: string | null;
+    body?: string | null;
+    author?: { name?: string | null; email?: string | null };
+  };
+  tags?: { tags: Array<{ name: string }> };
+}
+
+interface IntercomSearchPage {
+  conversations: IntercomApiConversation[];
+  pages?: { next?: { starting_after?: string } | null };
+}
+
+// Conversation as stored locally
+interface IntercomConversation {
+  id: string;
+  title: string;
+  body: string;
+  author?: string;
+  state: string;
+  tags: string[];
+  url?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ConversationsData {
+  conversations: IntercomConversation[];
+  syncedAt: string; // Conversations updated after this are fetched by the next sync
+}
+
+function intercomHeaders(token: string): HeadersInit {
+  return {
+    'Authorization': `Bearer ${token}`,
+    'Accept': 'application/json',
+    'Content-Type': 'application/json',
+    'Intercom-Version': '2.11',
+  };
+}
+
+function toConversation(conversation: IntercomApiConversation, appId: string | undefined): IntercomConversation {
+  const body = htmlToText(conversation.source?.body || '');
+  return {
+    id: conversation.id,
+    title: conversation.title || htmlToText(conversation.source?.subject || '') || body.split('\n')[0].slice(0, 100),
+    body,
+    author: conversation.source?.author?.name || conversation.source?.author?.email || undefined,
+    state: conversation.state,
+    tags: conversation.tags?.tags.map(t => t.name) || [],
+    url: appId ? `https://app.intercom.com/a/apps/${appId}/inbox/inbox/conversation/${conversation.id}` : undefined,
+    createdAt: new Date(conversation.created_at * 1000).toISOString(),
+    updatedAt: new Date(conversation.updated_at * 1000).toISOString(),
+  };
+}
+
+// Conversations updated since the last sync, merged into the stored set. They are read
+// oldest update first, so a sync stopped by the page cap resumes where it left off.
+async function syncConversations(): Promise<FeedbackSyncResult> {
+  const token = await getEffectiveAPIKey('intercom');
+  if (!token) {
+    throw new APIKeyError('intercom', 'Intercom access token not configured. Please add it in Settings > API Keys.');
+  }
+
+  const stored = existsSync(paths.local.feedback.intercom)
+    ? await loadLocalJson<ConversationsData>(paths.local.feedback.intercom, { conversations: [], syncedAt: '' })
+    : null;
+  const since = stored?.syncedAt
+    ? Math.floor(new Date(stored.syncedAt).getTime() / 1000)
+    : Math.floor(Date.now() / 1000) - INITIAL_LOOKBACK_DAYS * 24 * 60 * 60;
+  const syncedAt = new Date().toISOString();
+
+  // The workspace id is only needed to link back to the inbox
+  const me = await requestJson<{ app?: { id_code?: string } }>(
+    `${INTERCOM_API_URL}/me`,
+    { headers: intercomHeaders(token) },
+    INTERCOM_SERVICE
+  );
+
+  const byId = new Map((stored?.conversations || []).map(c => [c.id, c]));
+  let startingAfter: string | undefined;
+  let lastUpdatedAt: number | undefined;
+  let changed = 0;
+
+  for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+    const data = await requestJson<IntercomSearchPage>(`${INTERCOM_API_URL}/conversations/search`, {
+      method: 'POST',
+      headers: intercomHeaders(token),
+      body: JSON.stringify({
+        query: { field: 'updated_at', operator: '>', value: since },
+        sort: { field: 'updated_at', order: 'ascending' },
+        pagination: { per_page: PAGE_SIZE, starting_after: startingAfter },
+      }),
+    }, INTERCOM_SERVICE);
+
+    for (const conversation of data.conversations) {
+      byId.set(conversation.id, toConversation(conversation, me.app?.id_code));
+      lastUpdatedAt = conversation.updated_at;
+      changed++;
+    }
+
+    startingAfter = data.pages?.next?.starting_after;
+    if (!startingAfter) break;
+  }
+
+  // Stopped at the cap: resume just before the last update read, since conversations updated
+  // in the same second may still be unread (re-reading one only replaces it)
+  const truncated = !!startingAfter && lastUpdatedAt !== undefined;
+  const conversations = [...byId.values()];
+  await saveLocalJson(paths.local.feedback.intercom, {
+    conversations,
+    syncedAt: truncated ? new Date((lastUpdatedAt! - 1) * 1000).toISOString() : syncedAt,
+  });
+  console.log(`Synced ${changed} changed Intercom conversations (${conversations.length} total)`);
+
+  return {
+    itemCount: conversations.length,
+    warning: truncated
+      ? `stopped after ${MAX_PAGES_PER_SYNC} pages; the next sync continues with the remaining conversations`
+      : undefined,
+  };
+}
+
+// Intercom conversations
+export const intercomSource: FeedbackSource<IntercomConversation> = {
+  id: 'intercom',
+  name: 'Intercom',
+  issueLabels: ['intercom'],
+
+  async isConfigured() {
+    return !!(await getEffectiveAPIKey('intercom'));
+  },
+
+  sync() {
+    return syncConversations();
+  },
+
+  async load() {
+    if (!existsSync(paths.local.feedback.intercom)) return [];
+    const data = await loadLocalJson<ConversationsData>(paths.local.feedback.intercom, { conversations: [], syncedAt: '' });
+    return data.conversations || [];
+  },
+
+  normalize(conversation) {
+    return {
+      id: conversation.id,
+      source: 'intercom',
+      kind: 'conversation',
+      title: conversation.title,
+      body: conversation.body,
+      url: conversation.url,
+      author: conversation.author,
+      status: conversation.state,
+      weight: 1,
+      linkedIdentifiers: extractLinearReferences(`${conversation.title} ${conversation.body}`, conversation.tags),
+      createdAt: conversation.createdAt,
+    };
+  },
+
+  correlate(issue, signals, semantic) {
+    return defaultCorrelate(issue, signals, { threshold: 0.3, semantic });
+  },
+};
@@ -0,0 +1,52 @@
+import { FeatureRequest, FeedbackSignalGroup } from '@/lib/types';
+import { FeedbackSource, SourceFeedback } from './types';
+import { featurebaseSource } from './featurebase';
+import { zendeskSource } from './zendesk';
+import { intercomSource } from './intercom';
+import { hubspotSource } from './hubspot';
+import { slackSource } from './slack';
+import { csvSource } from './csv';
+
+// Every feedback source, in the order their labels are checked and their signals shown
+export const feedbackSources: FeedbackSource[] = [
+  featurebaseSource,
+  zendeskSource,
+  intercomSource,
+  hubspotSource,
+  slackSource,
+  csvSource,
+];
+
+// Load and normalize the signals of every source; a source that fails to load is skipped
+export async function loadFeedback(): Promise<SourceFeedback[]> {
+  return Promise.all(feedbackSources.map(async source => {
+    try {
+      const records = await source.load();
+      return { source, signals: records.map(record => source.normalize(record)) };
+    } catch (error) {
+      console.error(`Error loading ${source.name} feedback:`, error);
+      return { source, signals: [] };
+    }
+  }));
+}
+
+// Signals matched to a feature, grouped by the source they came from
+export function getFeatureFeedback(
+  feature: FeatureRequest,
+  feedback: SourceFeedback[]
+): FeedbackSignalGroup[] {
+  const groups: FeedbackSignalGroup[] = [];
+
+  for (const { source, signals } of feedback) {
+    const ids = new Set(feature.feedbackSignals?.filter(s => s.source === source.id).map(s => s.id));
+    if (ids.size === 0) continue;
+
+    groups.push({
+      source: source.id,
+      name: source.name,
+      signals: signals.filter(s => ids.has(s.id)),
+    });
+  }
+
+  return groups;
+}
@@ -0,0 +1,100 @@
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import paths from '@/config/paths';
+import { extractLinearReferences } from '@/lib/linear-references';
+import { FeedbackSource } from './types';
+import { defaultCorrelate } from './correlate';
+
+// Message as written by Slack's workspace export (one JSON array per channel and day)
+interface SlackExportMessage {
+  type: string;
+  subtype?: string;
+  ts: string;
+  thread_ts?: string;
+  user?: string;
+  user_profile?: { real_name?: string; display_name?: string };
+  text?: string;
+  reply_count?: number;
+  reactions?: Array<{ name: string; count: number }>;
+}
+
+interface SlackChannelMessage {
+  channel: string;
+  message: SlackExportMessage;
+}
+
+// Slack markup: <url|label>, <url>, <@U123>, <#C123|channel>
+function toPlainText(text: string): string {
+  return text
+    .replace(/<([^>|]+)\|([^>]+)>/g, (_, target: string, label: string) => (target.startsWith('http') ? `${label} (${target})` : label))
+    .replace(/<@([A-Z0-9]+)>/g, '@$1')
+    .replace(/<([^>]+)>/g, '$1');
+}
+
+function firstLine(text: string): string {
+  const line = text.split('\n').find(l => l.trim())?.trim() || '';
+  return line.length > 100 ? `${line.slice(0, 99)}…` : line;
+}
+
+async function listChannels(): Promise<string[]> {
+  if (!existsSync(paths.local.feedback.slack)) return [];
+  const entries = await fs.readdir(paths.local.feedback.slack, { withFileTypes: true });
+  return entries.filter(e => e.isDirectory()).map(e => e.name).sort();
+}
+
+// Feedback channels from a Slack export, unzipped into data/feedback/slack/<channel>/
+export const slackSource: FeedbackSource<SlackChannelMessage> = {
+  id: 'slack',
+  name: 'Slack',
+  issueLabels: ['slack'],
+
+  async isConfigured() {
+    return (await listChannels()).length > 0;
+  },
+
+  async load() {
+    const messages: SlackChannelMessage[] = [];
+    for (const channel of await listChannels()) {
+      const channelDir = path.join(paths.local.feedback.slack, channel);
+      const files = (await fs.readdir(channelDir)).filter(f => f.endsWith('.json'));
+      for (const file of files) {
+        try {
+          const day = JSON.parse(await fs.readFile(path.join(channelDir, file), 'utf-8')) as SlackExportMessage[];
+          for (const message of day) {
+            // Joins, bot posts and thread replies are not feedback on their own
+            if (message.type !== 'message' || message.subtype || !message.text) continue;
+            if (message.thread_ts && message.thread_ts !== message.ts) continue;
+            messages.push({ channel, message });
+          }
+        } catch (error) {
+          console.error(`Error loading ${path.join(channelDir, file)}:`, error);
+        }
+      }
+    }
+    console.log(`Loaded ${messages.length} Slack messages from export`);
+    return messages;
+  },
+
+  normalize({ channel, message }) {
+    const text = toPlainText(message.text || '');
+    const reactions = (message.reactions || []).reduce((sum, r) => sum + r.count, 0);
+
+    return {
+      id: `${channel}:${message.ts}`,
+      source: 'slack',
+      kind: 'message',
+      title: firstLine(text),
+      body: text,
+      author: message.user_profile?.real_name || message.user_profile?.display_name || message.user,
+      status: `#${channel}`,
+      weight: 1 + reactions, // Reactions usually mean "me too"
+      linkedIdentifiers: extractLinearReferences(text),
+      createdAt: new Date(Number(message.ts) * 1000).toISOString(),
+    };
+  },
+
+  correlate(issue, signals, semantic) {
+    return defaultCorrelate(issue, signals, { threshold: 0.3, semantic });
+  },
+};
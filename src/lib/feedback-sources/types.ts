@@ -0,0 +1,29 @@
+import { FeedbackSignal, LinearIssue } from '@/lib/types';
+import { SemanticMatcher } from '@/lib/semantic-match';
+
+// What a sync stored; `warning` is set when the sync stopped short, e.g. at its page cap
+export interface FeedbackSyncResult {
+  itemCount: number;
+  warning?: string;
+}
+
+// A feedback source adapter. Adding a source means writing one of these and listing it
+// in the registry; the correlator and the detail page only see FeedbackSignals.
+export interface FeedbackSource<TRecord = unknown> {
+  id: string;
+  name: string;
+  issueLabels?: string[]; // Linear labels marking an issue as coming from this source
+  isConfigured(): Promise<boolean>;
+  // Fetch from the source's API into local storage and return the stored record count.
+  // Sources fed by files dropped into data/feedback have no sync.
+  sync?(): Promise<FeedbackSyncResult>;
+  load(): Promise<TRecord[]>;
+  normalize(record: TRecord): FeedbackSignal;
+  correlate(issue: LinearIssue, signals: FeedbackSignal[], semantic?: SemanticMatcher): FeedbackSignal[];
+}
+
+// Normalized signals of one source, as loaded for correlation
+export interface SourceFeedback {
+  source: FeedbackSource;
+  signals: FeedbackSignal[];
+}
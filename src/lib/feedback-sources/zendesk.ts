@@ -0,0 +1,51 @@
+import { ZendeskTicket } from '@/lib/types';
+import { loadZendeskTickets } from '@/lib/data-loader';
+import { fetchZendeskTicketChanges, isZendeskConfigured } from '@/lib/zendesk-client';
+import { loadStoredTickets, saveStoredTickets, mergeTicketChanges } from '@/lib/zendesk-store';
+import { extractLinearReferences } from '@/lib/linear-references';
+import { FeedbackSource } from './types';
+import { defaultCorrelate } from './correlate';
+
+// Zendesk tickets, linked to issues by Linear identifier tags or URLs
+export const zendeskSource: FeedbackSource<ZendeskTicket> = {
+  id: 'zendesk',
+  name: 'Zendesk',
+  issueLabels: ['zendesk', 'support'],
+
+  isConfigured() {
+    return isZendeskConfigured();
+  },
+
+  // Only tickets changed since the stored export cursor are fetched
+  async sync() {
+    const stored = await loadStoredTickets();
+    const changes = await fetchZendeskTicketChanges(stored?.cursor);
+    const tickets = mergeTicketChanges(stored?.tickets || [], changes.tickets, changes.deletedIds);
+    await saveStoredTickets(tickets, changes.cursor, new Date().toISOString());
+    console.log(`Synced ${changes.tickets.length} changed Zendesk tickets (${tickets.length} total)`);
+    return { itemCount: tickets.length };
+  },
+
+  load() {
+    return loadZendeskTickets();
+  },
+
+  normalize(ticket) {
+    return {
+      id: ticket.id,
+      source: 'zendesk',
+      kind: 'ticket',
+      title: ticket.subject,
+      body: ticket.description || '',
+      url: ticket.url,
+      status: `${ticket.priority} · ${ticket.status}`,
+      weight: 1,
+      linkedIdentifiers: extractLinearReferences(`${ticket.subject} ${ticket.description || ''}`, ticket.tags),
+      createdAt: ticket.createdAt,
+    };
+  },
+
+  correlate(issue, signals, semantic) {
+    return defaultCorrelate(issue, signals, { threshold: 0.2, semantic });
+  },
+};
@@ -0,0 +1,89 @@
+import { ImportedFeature } from '@/lib/types';
+import { documentKeys, markDataChanged, readDocument, transaction, writeDocument } from '@/lib/db/database';
+import { ImportItem } from '@/lib/feature-import';
+
+interface ImportedFeaturesData {
+  features: ImportedFeature[];
+  lastUpdated: string;
+}
+
+// Load all imported features
+export async function loadImportedFeatures(): Promise<ImportedFeature[]> {
+  return readImportedFeatures();
+}
+
+function readImportedFeatures(): ImportedFeature[] {
+  const data = readDocument<ImportedFeaturesData>(
+    documentKeys.importedFeatures,
+    { features: [], lastUpdated: '' }
+  );
+  return data.features || [];
+}
+
+// Imported features are part of the feature index, so it is rebuilt
+function writeImportedFeatures(features: ImportedFeature[], lastUpdated: string): void {
+  writeDocument<ImportedFeaturesData>(documentKeys.importedFeatures, { features, lastUpdated });
+  markDataChanged();
+}
+
+function generateImportId(): string {
+  return `import-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Save validated items. A row whose title matches an existing import updates it in place,
+// so re-importing a file keeps IDs (and their scores); 'replace' drops everything else.
+export async function saveImportedItems(
+  items: ImportItem[],
+  fileName: string | undefined,
+  mode: 'append' | 'replace'
+): Promise<{ added: number; updated: number; total: number }> {
+  return transaction(() => mergeImportedItems(items, fileName, mode));
+}
+
+function mergeImportedItems(
+  items: ImportItem[],
+  fileName: string | undefined,
+  mode: 'append' | 'replace'
+): { added: number; updated: number; total: number } {
+  const existing = readImportedFeatures();
+  const byTitle = new Map(existing.map(f => [f.title.toLowerCase(), f]));
+  let nextNumber = existing.reduce((max, f) => Math.max(max, Number(f.identifier.split('-')[1]) || 0), 0) + 1;
+
+  const importedAt = new Date().toISOString();
+  const saved = new Map<string, ImportedFeature>(mode === 'append' ? existing.map(f => [f.id, f]) : []);
+  let added = 0;
+  let updated = 0;
+
+  for (const item of items) {
+    const match = byTitle.get(item.title.toLowerCase());
+    if (match) {
+      updated++;
+    } else {
+      added++;
+    }
+
+    const feature: ImportedFeature = {
+      id: match?.id || generateImportId(),
+      identifier: match?.identifier || `IMP-${nextNumber++}`,
+      title: item.title,
+      description: item.description,
+      product: item.product,
+      customerTier: item.customerTier,
+      labels: item.labels,
+      upvotes: item.upvotes,
+      fileName,
+      importedAt,
+    };
+    saved.set(feature.id, feature);
+    byTitle.set(feature.title.toLowerCase(), feature);
+  }
+
+  const features = [...saved.values()];
+  writeImportedFeatures(features, importedAt);
+  return { added, updated, total: features.length };
+}
+
+// Remove every imported feature
+export async function clearImportedFeatures(): Promise<void> {
+  writeImportedFeatures([], new Date().toISOString());
+}
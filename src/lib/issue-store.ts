@@ -0,0 +1,140 @@
+import { existsSync } from 'fs';
+import { LinearInitiative, LinearIssue, LinearIssueChange, LinearSyncCounts, SyncScope } from '@/lib/types';
+import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
+import paths from '@/config/paths';
+
+export interface StoredLinearProject {
+  id: string;
+  name: string;
+  description?: string;
+  state: string;
+}
+
+interface IssuesData {
+  issues: LinearIssue[];
+  syncedAt: string;
+  projectCount?: number;
+  scope?: SyncScope; // Scope the issues were synced with; a different scope needs a full sync
+}
+
+interface ProjectsData {
+  projects: StoredLinearProject[];
+  syncedAt: string;
+}
+
+// Load locally synced issues (null if Linear has never been synced)
+export async function loadStoredIssues(): Promise<IssuesData | null> {
+  if (!existsSync(paths.local.linear.issues)) {
+    return null;
+  }
+  return loadLocalJson<IssuesData>(paths.local.linear.issues, { issues: [], syncedAt: '' });
+}
+
+// Load locally synced projects
+export async function loadStoredProjects(): Promise<StoredLinearProject[]> {
+  const data = await loadLocalJson<ProjectsData>(paths.local.linear.projects, { projects: [], syncedAt: '' });
+  return data.projects || [];
+}
+
+// Save the full issue set
+export async function saveStoredIssues(
+  issues: LinearIssue[],
+  syncedAt: string,
+  projectCount: number,
+  scope?: SyncScope
+): Promise<void> {
+  await saveLocalJson(paths.local.linear.issues, {
+    issues,
+    syncedAt,
+    projectCount,
+    scope,
+  });
+}
+
+// Save the synced project list
+export async function saveStoredProjects(
+  projects: StoredLinearProject[],
+  syncedAt: string
+): Promise<void> {
+  await saveLocalJson(paths.local.linear.projects, {
+    projects,
+    syncedAt,
+  });
+}
+
+// Save the synced initiatives
+export async function saveStoredInitiatives(
+  initiatives: LinearInitiative[],
+  syncedAt: string
+): Promise<void> {
+  await saveLocalJson(paths.local.linear.initiatives, {
+    initiatives,
+    syncedAt,
+  });
+}
+
+// Reflect priority/sortOrder values just pushed to Linear in the local copy
+export async function updateStoredIssuePriorities(
+  updates: Array<{ issueId: string; priority: number; sortOrder: number }>
+): Promise<void> {
+  const stored = await loadStoredIssues();
+  if (!stored || updates.length === 0) return;
+
+  const byId = new Map(updates.map(u => [u.issueId, u]));
+  const issues = stored.issues.map(issue => {
+    const update = byId.get(issue.id);
+    return update ? { ...issue, priority: update.priority, sortOrder: update.sortOrder } : issue;
+  });
+
+  await saveStoredIssues(issues, stored.syncedAt, stored.projectCount ?? 0, stored.scope);
+}
+
+// Strip incremental-only fields before storing an issue
+function toStoredIssue(change: LinearIssueChange): LinearIssue {
+  const issue: LinearIssueChange = { ...change };
+  delete issue.archivedAt;
+  delete issue.trashed;
+  return issue;
+}
+
+// Merge incrementally fetched changes into the stored issue set.
+// Archived/trashed issues and issues missing from liveIssueIds are removed.
+export function mergeIssueChanges(
+  existing: LinearIssue[],
+  changes: LinearIssueChange[],
+  liveIssueIds?: string[]
+): { issues: LinearIssue[]; counts: LinearSyncCounts } {
+  const counts: LinearSyncCounts = { added: 0, changed: 0, removed: 0 };
+  const byId = new Map(existing.map(issue => [issue.id, issue]));
+
+  for (const change of changes) {
+    const current = byId.get(change.id);
+
+    if (change.archivedAt || change.trashed) {
+      if (current) {
+        byId.delete(change.id);
+        counts.removed++;
+      }
+      continue;
+    }
+
+    if (!current) {
+      counts.added++;
+    } else if (current.updatedAt !== change.updatedAt) {
+      counts.changed++;
+    }
+    byId.set(change.id, toStoredIssue(change));
+  }
+
+  if (liveIssueIds) {
+    const live = new Set(liveIssueIds);
+    for (const id of Array.from(byId.keys())) {
+      if (!live.has(id)) {
+        byId.delete(id);
+        counts.removed++;
+      }
+    }
+  }
+
+  return { issues: Array.from(byId.values()), counts };
+}
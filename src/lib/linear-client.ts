@@ -1,14 +1,44 @@
-import { LinearUpdatePayload, LinearSyncResult, ScoredFeature } from '@/lib/types';
+import {
+  LinearIssue,
+  LinearIssueChange,
+  LinearInitiative,
+  LinearPushBatch,
+  LinearPushBatchItem,
+  LinearPushPlanItem,
+  LinearUpdatePayload,
+  LinearSyncResult,
+  LinearWriteBackSettings,
+  Product,
+  ScoredFeature,
+  SyncScope,
+} from '@/lib/types';
 import { addAuditEntry } from './score-store';
+import { mapScoreToPriority } from './scoring/engine';
+import { addPushBatch, generateBatchId, markPushBatchUndone } from './push-history-store';
+import { loadManagedLabels, updateManagedLabels } from './managed-label-store';
+import { buildManagedLabels, isGeneratedLabelName, managedLabelColor } from './linear-labels';
+import {
+  ScoreCommentSnapshot,
+  buildScoreSnapshot,
+  hasScoreChanged,
+  isScoreComment,
+  parseScoreCommentMarker,
+  renderScoreComment,
+} from './score-comment';
 import { getEffectiveAPIKey, getAPIKeyStatus } from './api-keys-store';
-
-// GraphQL endpoint for Linear
-const LINEAR_API_URL = 'https://api.linear.app/graphql';
+import { buildIssueFilter, matchesProjectScope } from './sync-scope';
+import {
+  LINEAR_API_URL,
+  LinearGraphQLError,
+  LinearRateLimitState,
+  getLinearRateLimitState,
+  requestLinearGraphQL,
+} from './linear-graphql';
 
 // API Key Error type for better error handling
 export class APIKeyError extends Error {
   constructor(
-    public service: 'linear' | 'openai' | 'anthropic',
+    public service: 'linear' | 'featurebase' | 'zendesk' | 'intercom' | 'hubspot' | 'openai' | 'anthropic',
     message: string
   ) {
     super(message);
@@ -39,27 +69,21 @@ export async function getLinearConfigStatus(): Promise<{
   };
 }
 
-// Execute GraphQL query
-async function executeGraphQL(query: string, variables?: Record<string, unknown>): Promise<unknown> {
+// Issue updates sent per aliased GraphQL request
+const UPDATE_BATCH_SIZE = 20;
+
+async function requireLinearApiKey(): Promise<string> {
   const apiKey = await getLinearApiKey();
   if (!apiKey) {
     throw new APIKeyError('linear', 'Linear API key not configured. Please add your Linear API key in Settings > API Keys.');
   }
+  return apiKey;
+}
 
-  const response = await fetch(LINEAR_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': apiKey,
-    },
-    body: JSON.stringify({ query, variables }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Linear API error: ${response.status} ${response.statusText}`);
-  }
-
-  const result = await response.json();
+// Execute GraphQL query
+async function executeGraphQL(query: string, variables?: Record<string, unknown>): Promise<unknown> {
+  const apiKey = await requireLinearApiKey();
+  const result = await requestLinearGraphQL(apiKey, query, variables);
 
   if (result.errors) {
     throw new Error(`Linear GraphQL error: ${JSON.stringify(result.errors)}`);
@@ -68,14 +92,6 @@ async function executeGraphQL(query: string, variables?: Record<string, unknown>
   return result.data;
 }
 
-// Map score to Linear priority (1-4)
-export function mapScoreToPriority(score: number): 1 | 2 | 3 | 4 {
-  if (score >= 8) return 1; // Urgent
-  if (score >= 6) return 2; // High
-  if (score >= 4) return 3; // Normal
-  return 4; // Low
-}
-
 // Get priority label name
 export function getPriorityLabel(priority: 1 | 2 | 3 | 4): string {
   const labels: Record<number, string> = {
@@ -91,79 +107,268 @@ export function getPriorityLabel(priority: 1 | 2 | 3 | 4): string {
 export async function updateLinearIssue(
   payload: LinearUpdatePayload
 ): Promise<LinearSyncResult> {
-  try {
-    const updateFields: string[] = [];
-    const variables: Record<string, unknown> = {
-      issueId: payload.issueId,
-    };
+  const [result] = await updateLinearIssues([payload]);
+  return result;
+}
 
-    // Build update mutation
+// Build one aliased mutation (`update0`, `comment0`, ...) for a batch of payloads
+function buildBatchUpdateMutation(payloads: LinearUpdatePayload[]): {
+  mutation: string;
+  variables: Record<string, unknown>;
+} {
+  const definitions: string[] = [];
+  const fields: string[] = [];
+  const variables: Record<string, unknown> = {};
+
+  payloads.forEach((payload, i) => {
+    const input: string[] = [];
     if (payload.priority !== undefined) {
-      updateFields.push('priority: $priority');
-      variables.priority = payload.priority;
+      definitions.push(`$priority${i}: Int`);
+      input.push(`priority: $priority${i}`);
+      variables[`priority${i}`] = payload.priority;
     }
-
     if (payload.sortOrder !== undefined) {
-      updateFields.push('sortOrder: $sortOrder');
-      variables.sortOrder = payload.sortOrder;
+      definitions.push(`$sortOrder${i}: Float`);
+      input.push(`sortOrder: $sortOrder${i}`);
+      variables[`sortOrder${i}`] = payload.sortOrder;
+    }
+    if (payload.addedLabelIds?.length) {
+      definitions.push(`$addedLabelIds${i}: [String!]`);
+      input.push(`addedLabelIds: $addedLabelIds${i}`);
+      variables[`addedLabelIds${i}`] = payload.addedLabelIds;
     }
+    if (payload.removedLabelIds?.length) {
+      definitions.push(`$removedLabelIds${i}: [String!]`);
+      input.push(`removedLabelIds: $removedLabelIds${i}`);
+      variables[`removedLabelIds${i}`] = payload.removedLabelIds;
+    }
+    if (input.length === 0 && !payload.comment) return;
 
-    if (updateFields.length > 0) {
-      const mutation = `
-        mutation UpdateIssue($issueId: String!, $priority: Int, $sortOrder: Float) {
-          issueUpdate(id: $issueId, input: { ${updateFields.join(', ')} }) {
-            success
-            issue {
-              id
-              priority
-              sortOrder
-            }
-          }
-        }
-      `;
+    // Editing an existing comment doesn't reference the issue
+    if (input.length > 0 || !payload.commentId) {
+      definitions.push(`$issueId${i}: String!`);
+      variables[`issueId${i}`] = payload.issueId;
+    }
 
-      await executeGraphQL(mutation, variables);
+    if (input.length > 0) {
+      fields.push(`update${i}: issueUpdate(id: $issueId${i}, input: { ${input.join(', ')} }) { success }`);
+    }
+    if (payload.comment && payload.commentId) {
+      definitions.push(`$body${i}: String!`, `$commentId${i}: String!`);
+      variables[`body${i}`] = payload.comment;
+      variables[`commentId${i}`] = payload.commentId;
+      fields.push(`comment${i}: commentUpdate(id: $commentId${i}, input: { body: $body${i} }) { success }`);
+    } else if (payload.comment) {
+      definitions.push(`$body${i}: String!`);
+      variables[`body${i}`] = payload.comment;
+      fields.push(`comment${i}: commentCreate(input: { issueId: $issueId${i}, body: $body${i} }) { success }`);
     }
+  });
 
-    // Add comment if provided
-    if (payload.comment) {
-      const commentMutation = `
-        mutation AddComment($issueId: String!, $body: String!) {
-          commentCreate(input: { issueId: $issueId, body: $body }) {
-            success
-          }
-        }
-      `;
+  return {
+    mutation: fields.length > 0
+      ? `mutation BatchUpdateIssues(${definitions.join(', ')}) {\n  ${fields.join('\n  ')}\n}`
+      : '',
+    variables,
+  };
+}
 
-      await executeGraphQL(commentMutation, {
-        issueId: payload.issueId,
-        body: payload.comment,
-      });
-    }
+// Why one alias of a batch failed, or undefined if it succeeded or wasn't sent
+function aliasError(
+  alias: string,
+  data: Record<string, unknown> | null,
+  errors: LinearGraphQLError[]
+): string | undefined {
+  const aliasErrors = errors.filter(e => String(e.path?.[0]) === alias);
+  if (aliasErrors.length > 0) {
+    return aliasErrors.map(e => e.message).join('; ');
+  }
+  if (data && alias in data && !(data[alias] as { success?: boolean } | null)?.success) {
+    return `Linear rejected ${alias}`;
+  }
+  return undefined;
+}
 
+// Result for one payload of a batch. The issue update and the comment are separate aliases,
+// so a failed comment doesn't hide that the priority and sortOrder were changed.
+function batchItemResult(
+  payload: LinearUpdatePayload,
+  index: number,
+  data: Record<string, unknown> | null,
+  errors: LinearGraphQLError[]
+): LinearSyncResult {
+  const updateError = aliasError(`update${index}`, data, errors);
+  const commentError = aliasError(`comment${index}`, data, errors);
+
+  if (updateError || commentError) {
     return {
-      success: true,
+      success: false,
       issueId: payload.issueId,
+      updated: !updateError,
+      error: [updateError, commentError && `Comment not written: ${commentError}`].filter(Boolean).join('; '),
     };
-  } catch (error) {
-    return {
+  }
+  return { success: true, issueId: payload.issueId, updated: true };
+}
+
+// Update many Linear issues, sending UPDATE_BATCH_SIZE aliased mutations per request.
+// Results are returned in payload order; a failed alias only fails its own issue.
+export async function updateLinearIssues(
+  payloads: LinearUpdatePayload[]
+): Promise<LinearSyncResult[]> {
+  const results: LinearSyncResult[] = [];
+  const failAll = (items: LinearUpdatePayload[], error: unknown): LinearSyncResult[] =>
+    items.map(payload => ({
       success: false,
       issueId: payload.issueId,
+      updated: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    }));
+
+  let apiKey: string;
+  try {
+    apiKey = await requireLinearApiKey();
+  } catch (error) {
+    return failAll(payloads, error);
   }
+
+  for (let start = 0; start < payloads.length; start += UPDATE_BATCH_SIZE) {
+    const batch = payloads.slice(start, start + UPDATE_BATCH_SIZE);
+    const { mutation, variables } = buildBatchUpdateMutation(batch);
+
+    if (!mutation) {
+      results.push(...batch.map(payload => ({ success: true, issueId: payload.issueId, updated: true })));
+      continue;
+    }
+
+    try {
+      const response = await requestLinearGraphQL(apiKey, mutation, variables);
+      const errors = response.errors || [];
+
+      // Errors not tied to an alias (e.g. a bad query) fail the whole batch
+      const batchError = errors.find(e => !e.path || e.path.length === 0);
+      if (batchError) {
+        throw new Error(`Linear GraphQL error: ${JSON.stringify(errors)}`);
+      }
+
+      results.push(...batch.map((payload, i) => batchItemResult(payload, i, response.data, errors)));
+    } catch (error) {
+      results.push(...failAll(batch, error));
+    }
+  }
+
+  return results;
 }
 
-// Update multiple issues (batch sync)
-// Groups features by project and assigns sortOrder per-project
-export async function syncFeaturesToLinear(
+// Live values of an issue in Linear (team and labels only when requested)
+interface LiveIssueState {
+  priority: number;
+  sortOrder: number;
+  teamId?: string;
+  labels?: Array<{ id: string; name: string }>;
+}
+
+// Fetch the live priority and sortOrder of issues, keyed by issue ID
+export async function fetchIssuePriorities(
+  issueIds: string[],
+  options: { withLabels?: boolean } = {}
+): Promise<Map<string, LiveIssueState>> {
+  const current = new Map<string, LiveIssueState>();
+  const CHUNK_SIZE = 100;
+  const fields = options.withLabels
+    ? 'id priority sortOrder team { id } labels { nodes { id name } }'
+    : 'id priority sortOrder';
+
+  for (let i = 0; i < issueIds.length; i += CHUNK_SIZE) {
+    const chunk = issueIds.slice(i, i + CHUNK_SIZE);
+    const nodes = await fetchIssuePages<{
+      id: string;
+      priority: number;
+      sortOrder: number;
+      team?: { id: string };
+      labels?: { nodes: Array<{ id: string; name: string }> };
+    }>(
+      { id: { in: chunk } },
+      { fields, pageSize: CHUNK_SIZE }
+    );
+    for (const node of nodes) {
+      const state: LiveIssueState = { priority: node.priority, sortOrder: node.sortOrder };
+      if (options.withLabels) {
+        state.teamId = node.team?.id;
+        state.labels = node.labels?.nodes || [];
+      }
+      current.set(node.id, state);
+    }
+  }
+
+  return current;
+}
+
+// Find the Product OS score comment on each issue (the newest one carrying our marker)
+async function fetchScoreComments(
+  issueIds: string[]
+): Promise<Map<string, { commentId: string; snapshot: ScoreCommentSnapshot | null }>> {
+  const found = new Map<string, { commentId: string; snapshot: ScoreCommentSnapshot | null }>();
+  const CHUNK_SIZE = 50;
+
+  for (let i = 0; i < issueIds.length; i += CHUNK_SIZE) {
+    const chunk = issueIds.slice(i, i + CHUNK_SIZE);
+    const nodes = await fetchIssuePages<{
+      id: string;
+      comments: { nodes: Array<{ id: string; body: string; createdAt: string }> };
+    }>(
+      { id: { in: chunk } },
+      { fields: 'id comments(first: 100) { nodes { id body createdAt } }', pageSize: CHUNK_SIZE }
+    );
+
+    for (const node of nodes) {
+      const ours = (node.comments?.nodes || [])
+        .filter(comment => isScoreComment(comment.body))
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      if (ours.length > 0) {
+        found.set(node.id, { commentId: ours[0].id, snapshot: parseScoreCommentMarker(ours[0].body) });
+      }
+    }
+  }
+
+  return found;
+}
+
+// Managed labels to add (by name) and remove (live labels) so an issue ends up with `desired`.
+// Only labels we generate or applied in an earlier push are ever removed.
+function diffManagedLabels(
+  desired: string[],
+  live: Array<{ id: string; name: string }>,
+  previouslyManaged: string[]
+): { add: string[]; remove: Array<{ id: string; name: string }> } {
+  const desiredKeys = new Set(desired.map(name => name.toLowerCase()));
+  const liveKeys = new Set(live.map(label => label.name.toLowerCase()));
+  const managedKeys = new Set(previouslyManaged.map(name => name.toLowerCase()));
+
+  return {
+    add: desired.filter(name => !liveKeys.has(name.toLowerCase())),
+    remove: live.filter(label => {
+      const key = label.name.toLowerCase();
+      return !desiredKeys.has(key) && (isGeneratedLabelName(label.name) || managedKeys.has(key));
+    }),
+  };
+}
+
+// Options for writing managed labels as part of a push
+interface LabelPlanOptions {
+  writeBack: LinearWriteBackSettings;
+  managedLabels: Record<string, string[]>;
+}
+
+// Work out what a push would write: features are grouped by project and
+// assigned sortOrder per-project, highest score first.
+// Issues missing from `current` fall back to the locally synced values.
+export function buildLinearPushPlan(
   features: ScoredFeature[],
-  addComments: boolean = false,
-  updatedBy: string = 'system'
-): Promise<{ success: number; failed: number; results: LinearSyncResult[] }> {
-  const results: LinearSyncResult[] = [];
-  let success = 0;
-  let failed = 0;
+  current: Map<string, LiveIssueState>,
+  labelOptions?: LabelPlanOptions
+): LinearPushPlanItem[] {
+  const plan: LinearPushPlanItem[] = [];
 
   // Group features by project ID
   const featuresByProject = new Map<string, ScoredFeature[]>();
@@ -178,14 +383,10 @@ export async function syncFeaturesToLinear(
     featuresByProject.get(projectKey)!.push(feature);
   }
 
-  // Process each project group
-  for (const [projectName, projectFeatures] of featuresByProject) {
+  for (const [, projectFeatures] of featuresByProject) {
     // Sort features within this project by finalScore (highest first)
     const sortedProjectFeatures = [...projectFeatures].sort((a, b) => b.finalScore - a.finalScore);
 
-    console.log(`Syncing ${sortedProjectFeatures.length} features to project: ${projectName}`);
-
-    // Assign sortOrder within this project (starting from -1000)
     for (let i = 0; i < sortedProjectFeatures.length; i++) {
       const feature = sortedProjectFeatures[i];
       const priority = feature.mappedLinearPriority || mapScoreToPriority(feature.finalScore);
@@ -194,138 +395,516 @@ export async function syncFeaturesToLinear(
       // Use negative numbers to ensure prioritized items appear at top
       const sortOrder = -1000 + i;
 
-      const payload: LinearUpdatePayload = {
+      const liveState = current.get(feature.id);
+      const live = {
+        priority: liveState?.priority ?? feature.linearPriority ?? 0,
+        sortOrder: liveState?.sortOrder ?? feature.sortOrder ?? 0,
+      };
+
+      const item: LinearPushPlanItem = {
         issueId: feature.id,
-        priority,
-        sortOrder,
+        identifier: feature.identifier,
+        title: feature.title,
+        projectName: feature.projectName,
+        finalScore: feature.finalScore,
+        current: live,
+        proposed: { priority, sortOrder },
+        priorityChanged: live.priority !== priority,
+        sortOrderChanged: live.sortOrder !== sortOrder,
       };
 
-      // Add comment with score breakdown if requested
-      if (addComments) {
-        payload.comment = formatScoreComment(feature);
+      if (labelOptions?.writeBack.labelsEnabled && liveState?.labels) {
+        const diff = diffManagedLabels(
+          buildManagedLabels(feature, labelOptions.writeBack),
+          liveState.labels,
+          labelOptions.managedLabels[feature.id] || []
+        );
+        item.labels = { add: diff.add, remove: diff.remove.map(label => label.name) };
+        item.labelsChanged = diff.add.length > 0 || diff.remove.length > 0;
       }
 
-      const result = await updateLinearIssue(payload);
-      results.push(result);
+      plan.push(item);
+    }
+  }
 
-      if (result.success) {
-        success++;
+  return plan;
+}
 
-        // Add audit entry
-        await addAuditEntry({
-          id: `sync-${Date.now()}-${feature.id}`,
-          featureId: feature.id,
-          action: 'sync_to_linear',
-          newValue: `Priority: ${priority}, SortOrder: ${sortOrder} (in ${projectName})`,
-          updatedBy,
-          updatedAt: new Date().toISOString(),
-        });
-      } else {
-        failed++;
-      }
+// Fetch live values and build the push plan, keeping the live state for label IDs
+async function loadPushPlan(
+  features: ScoredFeature[],
+  writeBack?: LinearWriteBackSettings
+): Promise<{ plan: LinearPushPlanItem[]; current: Map<string, LiveIssueState> }> {
+  const withLabels = !!writeBack?.labelsEnabled;
+  const [current, managedLabels] = await Promise.all([
+    fetchIssuePriorities(features.map(f => f.id), { withLabels }),
+    withLabels ? loadManagedLabels() : Promise.resolve({}),
+  ]);
+  const plan = buildLinearPushPlan(
+    features,
+    current,
+    writeBack ? { writeBack, managedLabels } : undefined
+  );
+  return { plan, current };
+}
 
-      // Small delay to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-  }
+// Dry run: compare live Linear values with what a push would write
+export async function planLinearPush(
+  features: ScoredFeature[],
+  writeBack?: LinearWriteBackSettings
+): Promise<LinearPushPlanItem[]> {
+  const { plan } = await loadPushPlan(features, writeBack);
+  return plan;
+}
 
-  return { success, failed, results };
+// Whether a plan item has anything to write
+export function isPushPlanItemChanged(item: LinearPushPlanItem): boolean {
+  return item.priorityChanged || item.sortOrderChanged || !!item.labelsChanged;
 }
 
-// Format score breakdown for Linear comment
-function formatScoreComment(feature: ScoredFeature): string {
-  const lines = [
-    '## Priority Score Breakdown',
-    '',
-    `**Final Score**: ${feature.finalScore.toFixed(1)}/10`,
-    `**Framework**: ${feature.framework}`,
-    `**Customer Tier**: ${feature.customerTier} (${feature.multiplier}x multiplier)`,
-    '',
-    '### Factor Scores:',
-  ];
+// Options for a push to Linear
+export interface LinearPushOptions {
+  addComments?: boolean;
+  updatedBy?: string;
+  issueIds?: string[]; // Limit the push to rows selected in the preview
+  product?: Product;
+  writeBack?: LinearWriteBackSettings;
+}
 
-  // Add factor scores
-  const scores = feature.scores;
-  if (scores.revenueImpact !== undefined) {
-    lines.push(`- Revenue Impact: ${scores.revenueImpact}/10`);
+// Resolve label IDs for the names each plan item adds, creating missing labels per team
+async function resolveAddedLabels(
+  items: LinearPushPlanItem[],
+  current: Map<string, LiveIssueState>
+): Promise<Map<string, Array<{ id: string; name: string }>>> {
+  const namesByTeam = new Map<string, Set<string>>();
+  for (const item of items) {
+    const teamId = current.get(item.issueId)?.teamId;
+    if (!teamId || !item.labels?.add.length) continue;
+    if (!namesByTeam.has(teamId)) namesByTeam.set(teamId, new Set());
+    item.labels.add.forEach(name => namesByTeam.get(teamId)!.add(name));
   }
-  if (scores.enterpriseReadiness !== undefined) {
-    lines.push(`- Enterprise Readiness: ${scores.enterpriseReadiness}/10`);
+
+  const labelsByTeam = new Map<string, Record<string, string>>();
+  for (const [teamId, names] of namesByTeam) {
+    labelsByTeam.set(teamId, await ensureTeamLabels(teamId, Array.from(names)));
   }
-  if (scores.requestVolume !== undefined) {
-    lines.push(`- Request Volume: ${scores.requestVolume}/10`);
+
+  const added = new Map<string, Array<{ id: string; name: string }>>();
+  for (const item of items) {
+    const teamLabels = labelsByTeam.get(current.get(item.issueId)?.teamId || '');
+    if (!teamLabels || !item.labels?.add.length) continue;
+    added.set(item.issueId, item.labels.add
+      .filter(name => teamLabels[name])
+      .map(name => ({ id: teamLabels[name], name })));
   }
-  if (scores.competitiveParity !== undefined) {
-    lines.push(`- Competitive Parity: ${scores.competitiveParity}/10`);
+  return added;
+}
+
+// Update multiple issues (batch sync)
+// Only issues with something to change are written; `issueIds` further limits
+// the push to rows selected in the preview. Managed labels are written when
+// label write-back is enabled. With comments on, an issue whose score differs from
+// its score comment gets the comment even if nothing else changed. Each push that
+// changes issue values is recorded as a batch so it can be undone.
+export async function syncFeaturesToLinear(
+  features: ScoredFeature[],
+  options: LinearPushOptions = {}
+): Promise<{
+  success: number;
+  failed: number;
+  skipped: number;
+  results: LinearSyncResult[];
+  applied: Array<{ issueId: string; priority: number; sortOrder: number }>;
+  batch: LinearPushBatch | null;
+}> {
+  const { addComments = false, updatedBy = 'system', issueIds, product, writeBack } = options;
+  const applied: Array<{ issueId: string; priority: number; sortOrder: number }> = [];
+  const batchItems: LinearPushBatchItem[] = [];
+  const labelChanges: Array<{ issueId: string; added: string[]; removed: string[] }> = [];
+  const batchId = generateBatchId();
+  let success = 0;
+  let failed = 0;
+
+  const featuresById = new Map(features.map(f => [f.id, f]));
+  const selected = issueIds ? new Set(issueIds) : null;
+  const { plan, current } = await loadPushPlan(features, writeBack);
+  const candidates = plan.filter(item => !selected || selected.has(item.issueId));
+
+  // Score comments are edited in place when an earlier push left one
+  const scoreComments = addComments
+    ? await fetchScoreComments(candidates.map(item => item.issueId))
+    : new Map<string, { commentId: string; snapshot: ScoreCommentSnapshot | null }>();
+
+  // Add comment with score breakdown if requested, unless the existing one already shows this score
+  const comments = new Map<string, string>();
+  for (const item of addComments ? candidates : []) {
+    const feature = featuresById.get(item.issueId)!;
+    const existing = scoreComments.get(item.issueId);
+    const snapshot = buildScoreSnapshot(feature, item.proposed.priority);
+    if (existing?.snapshot && !hasScoreChanged(existing.snapshot, snapshot)) continue;
+
+    comments.set(item.issueId, renderScoreComment(feature, {
+      template: writeBack?.commentTemplate,
+      priority: item.proposed.priority,
+      previous: existing?.snapshot,
+    }));
   }
-  if (scores.strategicAlignment !== undefined) {
-    lines.push(`- Strategic Alignment: ${scores.strategicAlignment}/10`);
+
+  const toWrite = candidates.filter(item => isPushPlanItemChanged(item) || comments.has(item.issueId));
+
+  console.log(`Pushing ${toWrite.length} of ${plan.length} issues to Linear (${plan.length - toWrite.length} unchanged or deselected)`);
+
+  const addedLabels = await resolveAddedLabels(toWrite, current);
+  const removedLabels = new Map(toWrite.map(item => {
+    const names = new Set(item.labels?.remove || []);
+    return [item.issueId, (current.get(item.issueId)?.labels || []).filter(label => names.has(label.name))];
+  }));
+
+  // Issues whose values are up to date only get their comment
+  const payloads = toWrite.map((item): LinearUpdatePayload => {
+    const changed = isPushPlanItemChanged(item);
+    return {
+      issueId: item.issueId,
+      priority: changed ? item.proposed.priority : undefined,
+      sortOrder: changed ? item.proposed.sortOrder : undefined,
+      addedLabelIds: addedLabels.get(item.issueId)?.map(label => label.id),
+      removedLabelIds: removedLabels.get(item.issueId)?.map(label => label.id),
+      comment: comments.get(item.issueId),
+      commentId: comments.has(item.issueId) ? scoreComments.get(item.issueId)?.commentId : undefined,
+    };
+  });
+  const results = await updateLinearIssues(payloads);
+
+  for (let i = 0; i < toWrite.length; i++) {
+    const item = toWrite[i];
+    const result = results[i];
+    const { priority, sortOrder } = item.proposed;
+    const added = addedLabels.get(item.issueId) || [];
+    const removed = removedLabels.get(item.issueId) || [];
+
+    if (result.success) {
+      success++;
+    } else {
+      failed++;
+    }
+
+    // Only the comment was written, so there is nothing to record or undo
+    if (!isPushPlanItemChanged(item)) continue;
+
+    batchItems.push({
+      issueId: item.issueId,
+      identifier: item.identifier,
+      title: item.title,
+      previous: item.current,
+      applied: { priority, sortOrder },
+      labels: added.length > 0 || removed.length > 0 ? { added, removed } : undefined,
+      success: result.success,
+      updated: result.updated,
+      error: result.error,
+    });
+
+    // A failed comment still leaves the new values in Linear, so they are recorded and can be undone
+    if (result.updated) {
+      applied.push({ issueId: item.issueId, priority, sortOrder });
+      if (added.length > 0 || removed.length > 0) {
+        labelChanges.push({
+          issueId: item.issueId,
+          added: added.map(label => label.name),
+          removed: removed.map(label => label.name),
+        });
+      }
+
+      // Add audit entry
+      await addAuditEntry({
+        id: `sync-${Date.now()}-${item.issueId}`,
+        featureId: item.issueId,
+        action: 'sync_to_linear',
+        oldValue: `Priority: ${item.current.priority}, SortOrder: ${item.current.sortOrder}`,
+        newValue: `Priority: ${priority}, SortOrder: ${sortOrder} (in ${item.projectName || 'unknown'})`,
+        batchId,
+        updatedBy,
+        updatedAt: new Date().toISOString(),
+      });
+    }
   }
-  if (scores.capabilityGap !== undefined) {
-    lines.push(`- Capability Gap: ${scores.capabilityGap}/10`);
+
+  await updateManagedLabels(labelChanges);
+
+  let batch: LinearPushBatch | null = null;
+  if (batchItems.length > 0) {
+    batch = {
+      id: batchId,
+      kind: 'push',
+      product,
+      createdAt: new Date().toISOString(),
+      createdBy: updatedBy,
+      items: batchItems,
+    };
+    await addPushBatch(batch);
   }
-  if (scores.effort !== undefined) {
-    lines.push(`- Effort: ${scores.effort}/10`);
+
+  return { success, failed, skipped: plan.length - toWrite.length, results, applied, batch };
+}
+
+// An issue an undo left alone because it was edited in Linear after the push
+export interface LinearUndoConflict {
+  issueId: string;
+  identifier: string;
+  title: string;
+  applied: { priority: number; sortOrder: number };
+  live: { priority: number; sortOrder: number };
+}
+
+// Undo a recorded push by writing each issue's previous priority and sortOrder back.
+// Issues changed in Linear since the push are reported as conflicts and left alone
+// unless `force` is set; issues already back at their previous values are skipped.
+// The push is marked undone once every issue has been restored.
+export async function undoLinearPush(
+  batch: LinearPushBatch,
+  updatedBy: string = 'system',
+  force: boolean = false
+): Promise<{
+  restored: number;
+  failed: number;
+  conflicts: LinearUndoConflict[];
+  applied: Array<{ issueId: string; priority: number; sortOrder: number }>;
+  undoBatch: LinearPushBatch | null;
+}> {
+  const pushed = batch.items.filter(item => item.updated ?? item.success);
+  const live = await fetchIssuePriorities(pushed.map(item => item.issueId));
+  const undoBatchId = generateBatchId();
+  const undoItems: LinearPushBatchItem[] = [];
+  const applied: Array<{ issueId: string; priority: number; sortOrder: number }> = [];
+  const conflicts: LinearUndoConflict[] = [];
+  let restored = 0;
+  let failed = 0;
+
+  const toRestore: Array<{ item: LinearPushBatchItem; current: LiveIssueState }> = [];
+
+  for (const item of pushed) {
+    const current = live.get(item.issueId);
+    if (!current) {
+      failed++;
+      undoItems.push({
+        issueId: item.issueId,
+        identifier: item.identifier,
+        title: item.title,
+        previous: item.applied,
+        applied: item.previous,
+        success: false,
+        error: 'Issue no longer found in Linear',
+      });
+      continue;
+    }
+
+    // Label changes can't be checked cheaply, so pushes that wrote labels are always replayed
+    const alreadyRestored = current.priority === item.previous.priority
+      && current.sortOrder === item.previous.sortOrder
+      && !item.labels;
+    if (alreadyRestored) continue;
+
+    const changedSincePush = current.priority !== item.applied.priority
+      || current.sortOrder !== item.applied.sortOrder;
+    if (changedSincePush && !force) {
+      conflicts.push({
+        issueId: item.issueId,
+        identifier: item.identifier,
+        title: item.title,
+        applied: item.applied,
+        live: current,
+      });
+      continue;
+    }
+
+    toRestore.push({ item, current });
   }
 
-  // Add flags
-  if (feature.flags.length > 0) {
-    lines.push('', '### Flags:');
-    for (const flag of feature.flags) {
-      lines.push(`- ${flag}`);
+  const results = await updateLinearIssues(toRestore.map(({ item }) => ({
+    issueId: item.issueId,
+    priority: item.previous.priority as LinearUpdatePayload['priority'],
+    sortOrder: item.previous.sortOrder,
+    addedLabelIds: item.labels?.removed.map(label => label.id),
+    removedLabelIds: item.labels?.added.map(label => label.id),
+  })));
+  const labelChanges: Array<{ issueId: string; added: string[]; removed: string[] }> = [];
+
+  for (let i = 0; i < toRestore.length; i++) {
+    const { item, current } = toRestore[i];
+    const result = results[i];
+
+    undoItems.push({
+      issueId: item.issueId,
+      identifier: item.identifier,
+      title: item.title,
+      previous: { priority: current.priority, sortOrder: current.sortOrder },
+      applied: item.previous,
+      labels: item.labels ? { added: item.labels.removed, removed: item.labels.added } : undefined,
+      success: result.success,
+      updated: result.updated,
+      error: result.error,
+    });
+
+    if (result.success) {
+      restored++;
+      applied.push({ issueId: item.issueId, ...item.previous });
+      if (item.labels) {
+        labelChanges.push({
+          issueId: item.issueId,
+          added: item.labels.removed.map(label => label.name),
+          removed: item.labels.added.map(label => label.name),
+        });
+      }
+
+      await addAuditEntry({
+        id: `sync-${Date.now()}-${item.issueId}`,
+        featureId: item.issueId,
+        action: 'sync_to_linear',
+        oldValue: `Priority: ${current.priority}, SortOrder: ${current.sortOrder}`,
+        newValue: `Priority: ${item.previous.priority}, SortOrder: ${item.previous.sortOrder}`,
+        reason: `Undo of push ${batch.id}`,
+        batchId: undoBatchId,
+        updatedBy,
+        updatedAt: new Date().toISOString(),
+      });
+    } else {
+      failed++;
     }
   }
 
-  lines.push('', '*Scored by Product OS*');
+  await updateManagedLabels(labelChanges);
+
+  let undoBatch: LinearPushBatch | null = null;
+  if (undoItems.length > 0) {
+    undoBatch = {
+      id: undoBatchId,
+      kind: 'undo',
+      product: batch.product,
+      createdAt: new Date().toISOString(),
+      createdBy: updatedBy,
+      items: undoItems,
+      revertsBatchId: batch.id,
+    };
+    await addPushBatch(undoBatch);
+  }
+
+  if (conflicts.length === 0 && failed === 0) {
+    await markPushBatchUndone(batch.id, updatedBy, undoBatch?.id);
+  }
 
-  return lines.join('\n');
+  return { restored, failed, conflicts, applied, undoBatch };
 }
 
-// Get or create priority labels
-export async function ensurePriorityLabels(teamId: string): Promise<Record<string, string>> {
+// Look up label IDs by name for a team (team or workspace labels), creating missing ones
+export async function ensureTeamLabels(
+  teamId: string,
+  names: string[]
+): Promise<Record<string, string>> {
   const labels: Record<string, string> = {};
+  if (names.length === 0) return labels;
 
   // Query existing labels
   const query = `
-    query GetTeamLabels($teamId: String!) {
-      team(id: $teamId) {
-        labels {
-          nodes {
+    query GetLabels($filter: IssueLabelFilter) {
+      issueLabels(filter: $filter, first: 250) {
+        nodes {
+          id
+          name
+          team {
             id
-            name
           }
         }
       }
     }
   `;
 
-  const data = await executeGraphQL(query, { teamId }) as { team: { labels: { nodes: { id: string; name: string }[] } } };
-  const existingLabels = data.team?.labels?.nodes || [];
-
-  // Check for existing priority labels
-  const priorityLabels = ['P0 - Urgent', 'P1 - High', 'P2 - Normal', 'P3 - Low'];
+  const data = await executeGraphQL(query, { filter: { name: { in: names } } }) as {
+    issueLabels: { nodes: Array<{ id: string; name: string; team: { id: string } | null }> };
+  };
+  const existingLabels = (data.issueLabels?.nodes || []).filter(l => !l.team || l.team.id === teamId);
 
-  for (const labelName of priorityLabels) {
-    const existing = existingLabels.find(l => l.name === labelName);
+  for (const labelName of names) {
+    const existing = existingLabels.find(l => l.name.toLowerCase() === labelName.toLowerCase());
     if (existing) {
       labels[labelName] = existing.id;
+      continue;
+    }
+
+    const mutation = `
+      mutation CreateLabel($teamId: String!, $name: String!, $color: String) {
+        issueLabelCreate(input: { teamId: $teamId, name: $name, color: $color }) {
+          success
+          issueLabel {
+            id
+          }
+        }
+      }
+    `;
+    const created = await executeGraphQL(mutation, {
+      teamId,
+      name: labelName,
+      color: managedLabelColor(labelName),
+    }) as { issueLabelCreate: { success: boolean; issueLabel: { id: string } | null } };
+
+    if (created.issueLabelCreate?.issueLabel) {
+      labels[labelName] = created.issueLabelCreate.issueLabel.id;
     }
   }
 
   return labels;
 }
 
+// Mark an issue as a duplicate of another in Linear; returns the relation ID
+export async function createLinearDuplicateRelation(
+  duplicateIssueId: string,
+  originalIssueId: string
+): Promise<string> {
+  const mutation = `
+    mutation MarkDuplicate($issueId: String!, $relatedIssueId: String!) {
+      issueRelationCreate(input: { issueId: $issueId, relatedIssueId: $relatedIssueId, type: duplicate }) {
+        success
+        issueRelation {
+          id
+        }
+      }
+    }
+  `;
+  const data = await executeGraphQL(mutation, {
+    issueId: duplicateIssueId,
+    relatedIssueId: originalIssueId,
+  }) as { issueRelationCreate: { success: boolean; issueRelation: { id: string } | null } };
+
+  const relation = data.issueRelationCreate?.issueRelation;
+  if (!data.issueRelationCreate?.success || !relation) {
+    throw new Error('Linear did not create the duplicate relation');
+  }
+  return relation.id;
+}
+
+// Remove a relation created by createLinearDuplicateRelation
+export async function deleteLinearIssueRelation(relationId: string): Promise<void> {
+  const mutation = `
+    mutation DeleteRelation($id: String!) {
+      issueRelationDelete(id: $id) {
+        success
+      }
+    }
+  `;
+  await executeGraphQL(mutation, { id: relationId });
+}
+
 // Get Linear API status
 export async function getLinearStatus(): Promise<{
   configured: boolean;
   source: 'stored' | 'env' | 'none';
   apiUrl: string;
+  rateLimit: LinearRateLimitState;
 }> {
   const configStatus = await getLinearConfigStatus();
   return {
     configured: configStatus.configured,
     source: configStatus.source,
     apiUrl: LINEAR_API_URL,
+    rateLimit: getLinearRateLimitState(),
   };
 }
 
@@ -379,24 +958,129 @@ export async function fetchLinearProjects(): Promise<Array<{
   return allProjects;
 }
 
+// Issue fields requested by every issue query
+const ISSUE_FIELDS = `
+  id
+  identifier
+  title
+  description
+  url
+  state {
+    id
+    name
+    type
+  }
+  priority
+  priorityLabel
+  labels {
+    nodes {
+      id
+      name
+    }
+  }
+  project {
+    id
+    name
+  }
+  team {
+    id
+    key
+    name
+  }
+  attachments {
+    nodes {
+      id
+      url
+      title
+    }
+  }
+  comments {
+    nodes {
+      id
+      body
+      createdAt
+    }
+  }
+  projectMilestone {
+    id
+    name
+    targetDate
+  }
+  cycle {
+    id
+    number
+    name
+    startsAt
+    endsAt
+  }
+  createdAt
+  updatedAt
+  sortOrder
+`;
+
+// Fetch all initiatives with the projects they contain
+export async function fetchLinearInitiatives(): Promise<LinearInitiative[]> {
+  const query = `
+    query GetInitiatives($first: Int!, $after: String) {
+      initiatives(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          id
+          name
+          description
+          status
+          targetDate
+          projects {
+            nodes {
+              id
+            }
+          }
+        }
+      }
+    }
+  `;
+
+  const initiatives: LinearInitiative[] = [];
+  let hasNextPage = true;
+  let after: string | undefined;
+
+  while (hasNextPage) {
+    const data = await executeGraphQL(query, { first: 50, after }) as {
+      initiatives: {
+        pageInfo: { hasNextPage: boolean; endCursor: string };
+        nodes: Array<{
+          id: string;
+          name: string;
+          description?: string;
+          status?: string;
+          targetDate?: string;
+          projects: { nodes: Array<{ id: string }> };
+        }>;
+      };
+    };
+
+    for (const node of data.initiatives.nodes) {
+      initiatives.push({
+        id: node.id,
+        name: node.name,
+        description: node.description || undefined,
+        status: node.status || undefined,
+        targetDate: node.targetDate || undefined,
+        projectIds: node.projects?.nodes?.map(p => p.id) || [],
+      });
+    }
+    hasNextPage = data.initiatives.pageInfo.hasNextPage;
+    after = data.initiatives.pageInfo.endCursor;
+  }
+
+  return initiatives;
+}
+
 // Fetch issues from a specific project
-export async function fetchProjectIssues(projectId: string): Promise<Array<{
-  id: string;
-  identifier: string;
-  title: string;
-  description?: string;
-  url: string;
-  state: { id: string; name: string; type: string };
-  priority: number;
-  priorityLabel: string;
-  labels: { nodes: Array<{ id: string; name: string }> };
-  project?: { id: string; name: string };
-  attachments?: { nodes: Array<{ id: string; url: string; title?: string }> };
-  comments?: { nodes: Array<{ id: string; body: string; createdAt: string }> };
-  createdAt: string;
-  updatedAt: string;
-  sortOrder: number;
-}>> {
+export async function fetchProjectIssues(projectId: string): Promise<LinearIssue[]> {
   const query = `
     query GetProjectIssues($projectId: String!, $first: Int!, $after: String) {
       project(id: $projectId) {
@@ -406,68 +1090,14 @@ export async function fetchProjectIssues(projectId: string): Promise<Array<{
             endCursor
           }
           nodes {
-            id
-            identifier
-            title
-            description
-            url
-            state {
-              id
-              name
-              type
-            }
-            priority
-            priorityLabel
-            labels {
-              nodes {
-                id
-                name
-              }
-            }
-            project {
-              id
-              name
-            }
-            attachments {
-              nodes {
-                id
-                url
-                title
-              }
-            }
-            comments {
-              nodes {
-                id
-                body
-                createdAt
-              }
-            }
-            createdAt
-            updatedAt
-            sortOrder
+            ${ISSUE_FIELDS}
           }
         }
       }
     }
   `;
 
-  const allIssues: Array<{
-    id: string;
-    identifier: string;
-    title: string;
-    description?: string;
-    url: string;
-    state: { id: string; name: string; type: string };
-    priority: number;
-    priorityLabel: string;
-    labels: { nodes: Array<{ id: string; name: string }> };
-    project?: { id: string; name: string };
-    attachments?: { nodes: Array<{ id: string; url: string; title?: string }> };
-    comments?: { nodes: Array<{ id: string; body: string; createdAt: string }> };
-    createdAt: string;
-    updatedAt: string;
-    sortOrder: number;
-  }> = [];
+  const allIssues: LinearIssue[] = [];
 
   let hasNextPage = true;
   let after: string | undefined;
@@ -477,7 +1107,7 @@ export async function fetchProjectIssues(projectId: string): Promise<Array<{
       project: {
         issues: {
           pageInfo: { hasNextPage: boolean; endCursor: string };
-          nodes: typeof allIssues;
+          nodes: LinearIssue[];
         };
       };
     };
@@ -494,68 +1124,207 @@ export async function fetchProjectIssues(projectId: string): Promise<Array<{
   return allIssues;
 }
 
-// Fetch all issues from "Product Icebox" projects
-export async function fetchProductIceboxIssues(): Promise<{
-  issues: Array<{
-    id: string;
-    identifier: string;
-    title: string;
-    description?: string;
-    url: string;
-    state: { id: string; name: string; type: string };
-    priority: number;
-    priorityLabel: string;
-    labels: { nodes: Array<{ id: string; name: string }> };
-    project?: { id: string; name: string };
-    attachments?: { nodes: Array<{ id: string; url: string; title?: string }> };
-    comments?: { nodes: Array<{ id: string; body: string; createdAt: string }> };
-    createdAt: string;
-    updatedAt: string;
-    sortOrder: number;
-  }>;
-  projects: Array<{ id: string; name: string; description?: string; state: string }>;
-  syncedAt: string;
-}> {
-  // Fetch all projects first
+type LinearProjectSummary = { id: string; name: string; description?: string; state: string };
+
+// Page through issues matching a filter, optionally through a saved Linear filter (custom view)
+async function fetchIssuePages<T>(
+  filter: Record<string, unknown>,
+  options: { fields: string; customViewId?: string; includeArchived?: boolean; pageSize?: number }
+): Promise<T[]> {
+  const connectionArgs = 'first: $first, after: $after, filter: $filter, includeArchived: $includeArchived';
+  const connection = `
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    nodes {
+      ${options.fields}
+    }
+  `;
+
+  const query = options.customViewId
+    ? `
+      query GetViewIssues($viewId: String!, $filter: IssueFilter, $includeArchived: Boolean, $first: Int!, $after: String) {
+        customView(id: $viewId) {
+          issues(${connectionArgs}) {
+            ${connection}
+          }
+        }
+      }
+    `
+    : `
+      query GetIssues($filter: IssueFilter, $includeArchived: Boolean, $first: Int!, $after: String) {
+        issues(${connectionArgs}) {
+          ${connection}
+        }
+      }
+    `;
+
+  type Page = { pageInfo: { hasNextPage: boolean; endCursor: string }; nodes: T[] };
+  const results: T[] = [];
+
+  let hasNextPage = true;
+  let after: string | undefined;
+
+  while (hasNextPage) {
+    const data = await executeGraphQL(query, {
+      viewId: options.customViewId,
+      filter,
+      includeArchived: options.includeArchived ?? false,
+      first: options.pageSize ?? 50,
+      after,
+    }) as { issues?: Page; customView?: { issues: Page } };
+
+    const page = options.customViewId ? data.customView?.issues : data.issues;
+    if (!page) {
+      break;
+    }
+
+    results.push(...page.nodes);
+    hasNextPage = page.pageInfo.hasNextPage;
+    after = page.pageInfo.endCursor;
+  }
+
+  return results;
+}
+
+// Fetch the projects covered by a sync scope
+async function fetchScopeProjects(scope: SyncScope): Promise<LinearProjectSummary[]> {
   const allProjects = await fetchLinearProjects();
+  return allProjects.filter(p => matchesProjectScope(p.name, scope));
+}
 
-  // Filter for Product Icebox projects
-  const productIceboxProjects = allProjects.filter(p =>
-    p.name.toLowerCase().includes('product icebox') ||
-    p.name.toLowerCase().includes('icebox')
+// Fetch in-scope issues updated after a timestamp.
+// Archived and trashed issues are included so the caller can drop them locally.
+export async function fetchIssuesUpdatedSince(
+  scope: SyncScope,
+  projectIds: string[] | undefined,
+  since: string
+): Promise<LinearIssueChange[]> {
+  if (projectIds && projectIds.length === 0) return [];
+
+  return fetchIssuePages<LinearIssueChange>(
+    { ...buildIssueFilter(scope, projectIds), updatedAt: { gt: since } },
+    {
+      fields: `
+        ${ISSUE_FIELDS}
+        archivedAt
+        trashed
+      `,
+      customViewId: scope.customViewId,
+      includeArchived: true,
+    }
   );
+}
 
-  console.log(`Found ${productIceboxProjects.length} Product Icebox projects`);
+// Fetch only the IDs (and projects) of live in-scope issues.
+// Cheap enough to run on every incremental sync to detect hard deletes and issues moved out of scope.
+export async function fetchScopedIssueIds(
+  scope: SyncScope,
+  projectIds: string[] | undefined
+): Promise<Array<{ id: string; project?: { id: string } | null }>> {
+  if (projectIds && projectIds.length === 0) return [];
+
+  return fetchIssuePages<{ id: string; project?: { id: string } | null }>(
+    buildIssueFilter(scope, projectIds),
+    {
+      fields: 'id project { id }',
+      customViewId: scope.customViewId,
+      pageSize: 250,
+    }
+  );
+}
 
-  // Fetch issues from each Product Icebox project
-  const allIssues: Array<{
-    id: string;
-    identifier: string;
-    title: string;
-    description?: string;
-    url: string;
-    state: { id: string; name: string; type: string };
-    priority: number;
-    priorityLabel: string;
-    labels: { nodes: Array<{ id: string; name: string }> };
-    project?: { id: string; name: string };
-    attachments?: { nodes: Array<{ id: string; url: string; title?: string }> };
-    comments?: { nodes: Array<{ id: string; body: string; createdAt: string }> };
-    createdAt: string;
-    updatedAt: string;
-    sortOrder: number;
-  }> = [];
+// Resolve which projects a sync covers and which project IDs to filter issues by.
+// A saved Linear filter defines its own issue set, so no project filter is applied.
+async function resolveScopeProjects(scope: SyncScope): Promise<{
+  projects: LinearProjectSummary[];
+  projectIds: string[] | undefined;
+}> {
+  if (scope.customViewId || scope.projectPatterns.length === 0) {
+    return { projects: await fetchLinearProjects(), projectIds: undefined };
+  }
+  const projects = await fetchScopeProjects(scope);
+  return { projects, projectIds: projects.map(p => p.id) };
+}
+
+// Keep only projects that actually contain synced issues when the scope isn't project-based
+function projectsWithIssues(
+  projects: LinearProjectSummary[],
+  issues: Array<{ project?: { id: string } | null }>,
+  scope: SyncScope
+): LinearProjectSummary[] {
+  if (!scope.customViewId && scope.projectPatterns.length > 0) return projects;
+  const used = new Set(issues.map(i => i.project?.id).filter(Boolean));
+  return projects.filter(p => used.has(p.id));
+}
+
+// Fetch all issues in the sync scope
+export async function fetchScopedIssues(scope: SyncScope): Promise<{
+  issues: LinearIssue[];
+  projects: LinearProjectSummary[];
+  syncedAt: string;
+}> {
+  // Capture the cursor before fetching so edits made mid-sync are picked up next time
+  const syncedAt = new Date().toISOString();
+  const { projects, projectIds } = await resolveScopeProjects(scope);
+
+  console.log(
+    scope.customViewId
+      ? `Fetching issues from saved Linear filter ${scope.customViewId}`
+      : `Fetching issues from ${projectIds ? `${projectIds.length} projects` : 'all projects'}`
+  );
+
+  const issues = projectIds && projectIds.length === 0
+    ? []
+    : await fetchIssuePages<LinearIssue>(buildIssueFilter(scope, projectIds), {
+        fields: ISSUE_FIELDS,
+        customViewId: scope.customViewId,
+      });
+
+  return {
+    issues,
+    projects: projectsWithIssues(projects, issues, scope),
+    syncedAt,
+  };
+}
 
-  for (const project of productIceboxProjects) {
-    console.log(`Fetching issues from: ${project.name}`);
-    const issues = await fetchProjectIssues(project.id);
-    allIssues.push(...issues);
-    console.log(`  - Found ${issues.length} issues`);
+// Fetch only what changed in the sync scope since the last sync.
+// Projects not seen by the previous sync are fetched in full, since their
+// issues may predate the cursor.
+export async function fetchScopedIssueChanges(
+  scope: SyncScope,
+  since: string,
+  knownProjectIds: string[]
+): Promise<{
+  changes: LinearIssueChange[];
+  liveIssueIds: string[];
+  projects: LinearProjectSummary[];
+  syncedAt: string;
+}> {
+  const syncedAt = new Date().toISOString();
+  const { projects, projectIds } = await resolveScopeProjects(scope);
+
+  const known = new Set(knownProjectIds);
+  const newProjectIds = projectIds ? projectIds.filter(id => !known.has(id)) : [];
+  const existingProjectIds = projectIds ? projectIds.filter(id => known.has(id)) : undefined;
+
+  const changes = await fetchIssuesUpdatedSince(scope, existingProjectIds, since);
+  if (newProjectIds.length > 0) {
+    console.log(`${newProjectIds.length} new projects since last sync, fetching all their issues`);
+    changes.push(...await fetchIssuePages<LinearIssue>(buildIssueFilter(scope, newProjectIds), {
+      fields: ISSUE_FIELDS,
+    }));
   }
 
+  const liveIssues = await fetchScopedIssueIds(scope, projectIds);
+
+  console.log(`Fetched ${changes.length} changed issues since ${since}`);
+
   return {
-    issues: allIssues,
-    projects: productIceboxProjects,
-    syncedAt: new Date().toISOString(),
+    changes,
+    liveIssueIds: liveIssues.map(i => i.id),
+    projects: projectsWithIssues(projects, liveIssues, scope),
+    syncedAt,
   };
 }
@@ -0,0 +1,194 @@
+// Low-level Linear GraphQL transport: rate-limit tracking, backoff and retries
+
+// GraphQL endpoint for Linear (override to point at a local mock server)
+export const LINEAR_API_URL = process.env.LINEAR_API_URL || 'https://api.linear.app/graphql';
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30 * 1000;
+
+// Assumed cost of a request before Linear has reported one
+const DEFAULT_COMPLEXITY = 100;
+
+// HTTP statuses worth retrying (rate limited or upstream hiccups)
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export interface LinearGraphQLError {
+  message: string;
+  path?: Array<string | number>;
+  extensions?: { code?: string; [key: string]: unknown };
+}
+
+export interface LinearGraphQLResponse<T = Record<string, unknown>> {
+  data: T | null;
+  errors?: LinearGraphQLError[];
+}
+
+// Latest rate-limit budget reported by Linear's response headers
+export interface LinearRateLimitState {
+  requestsLimit?: number;
+  requestsRemaining?: number;
+  requestsResetAt?: number; // epoch ms
+  complexityLimit?: number;
+  complexityRemaining?: number;
+  complexityResetAt?: number; // epoch ms
+  lastComplexity?: number; // complexity of the last request
+  updatedAt?: string;
+}
+
+// Thrown when Linear keeps rate limiting after all retries
+export class LinearRateLimitError extends Error {
+  constructor(message: string, public resetAt?: number) {
+    super(message);
+    this.name = 'LinearRateLimitError';
+  }
+}
+
+let rateLimitState: LinearRateLimitState = {};
+
+// Current view of the rate-limit budget
+export function getLinearRateLimitState(): LinearRateLimitState {
+  return { ...rateLimitState };
+}
+
+function readNumberHeader(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name);
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Record rate-limit headers; missing headers keep their previous values
+function updateRateLimitState(headers: Headers): void {
+  const next: LinearRateLimitState = {
+    requestsLimit: readNumberHeader(headers, 'x-ratelimit-requests-limit'),
+    requestsRemaining: readNumberHeader(headers, 'x-ratelimit-requests-remaining'),
+    requestsResetAt: readNumberHeader(headers, 'x-ratelimit-requests-reset'),
+    complexityLimit: readNumberHeader(headers, 'x-ratelimit-complexity-limit'),
+    complexityRemaining: readNumberHeader(headers, 'x-ratelimit-complexity-remaining'),
+    complexityResetAt: readNumberHeader(headers, 'x-ratelimit-complexity-reset'),
+    lastComplexity: readNumberHeader(headers, 'x-complexity'),
+  };
+
+  const merged: LinearRateLimitState = { ...rateLimitState };
+  for (const [key, value] of Object.entries(next) as Array<[keyof LinearRateLimitState, number | undefined]>) {
+    if (value !== undefined) {
+      (merged as Record<string, number | string | undefined>)[key] = value;
+    }
+  }
+  merged.updatedAt = new Date().toISOString();
+  rateLimitState = merged;
+}
+
+// How long to wait before sending a request of the given estimated complexity
+function budgetDelay(estimatedComplexity: number, now: number): number {
+  const { requestsRemaining, requestsResetAt, complexityRemaining, complexityResetAt } = rateLimitState;
+  let wait = 0;
+
+  if (requestsRemaining !== undefined && requestsRemaining <= 0 && requestsResetAt && requestsResetAt > now) {
+    wait = Math.max(wait, requestsResetAt - now);
+  }
+  if (complexityRemaining !== undefined && complexityRemaining < estimatedComplexity && complexityResetAt && complexityResetAt > now) {
+    wait = Math.max(wait, complexityResetAt - now);
+  }
+
+  return Math.min(wait, MAX_BACKOFF_MS);
+}
+
+// Exponential backoff with full jitter; waits for the reported reset when known
+function backoffDelay(attempt: number, resetAt?: number): number {
+  const now = Date.now();
+  if (resetAt && resetAt > now) {
+    return Math.min(resetAt - now + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS);
+  }
+  const ceiling = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isRateLimited(errors: LinearGraphQLError[] | undefined): boolean {
+  return !!errors?.some(e => e.extensions?.code === 'RATELIMITED');
+}
+
+// Earliest reset time of whichever budget ran out
+function rateLimitResetAt(): number | undefined {
+  const { requestsRemaining, requestsResetAt, complexityResetAt } = rateLimitState;
+  if (requestsRemaining !== undefined && requestsRemaining <= 0 && requestsResetAt) {
+    return requestsResetAt;
+  }
+  return complexityResetAt;
+}
+
+// Send a GraphQL request to Linear, waiting out exhausted budgets and retrying
+// rate limits, 5xx responses and network failures. GraphQL errors other than
+// RATELIMITED are returned to the caller alongside any partial data.
+export async function requestLinearGraphQL<T = Record<string, unknown>>(
+  apiKey: string,
+  query: string,
+  variables?: Record<string, unknown>,
+  options: { estimatedComplexity?: number } = {}
+): Promise<LinearGraphQLResponse<T>> {
+  const estimatedComplexity = options.estimatedComplexity
+    ?? rateLimitState.lastComplexity
+    ?? DEFAULT_COMPLEXITY;
+
+  for (let attempt = 0; ; attempt++) {
+    const wait = budgetDelay(estimatedComplexity, Date.now());
+    if (wait > 0) {
+      console.log(`Linear rate-limit budget low, waiting ${Math.round(wait)}ms`);
+      await sleep(wait);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(LINEAR_API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': apiKey,
+        },
+        body: JSON.stringify({ query, variables }),
+      });
+    } catch (error) {
+      if (attempt >= MAX_RETRIES) {
+        throw new Error(`Linear API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    updateRateLimitState(response.headers);
+
+    // Linear reports rate limiting as HTTP 400 with a RATELIMITED code, so read the body first
+    let result: LinearGraphQLResponse<T> | null = null;
+    try {
+      result = await response.json() as LinearGraphQLResponse<T>;
+    } catch {
+      result = null;
+    }
+
+    const rateLimited = response.status === 429 || isRateLimited(result?.errors);
+    if (rateLimited || RETRYABLE_STATUSES.has(response.status)) {
+      if (attempt >= MAX_RETRIES) {
+        if (rateLimited) {
+          throw new LinearRateLimitError('Linear API rate limit exceeded', rateLimitResetAt());
+        }
+        throw new Error(`Linear API error: ${response.status} ${response.statusText}`);
+      }
+      const delay = backoffDelay(attempt, rateLimited ? rateLimitResetAt() : undefined);
+      console.log(`Linear API ${rateLimited ? 'rate limited' : `returned ${response.status}`}, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    // Other GraphQL errors (validation, permissions) may come with a 400; the caller decides
+    if (!result || (!response.ok && !result.errors)) {
+      throw new Error(`Linear API error: ${response.status} ${response.statusText}`);
+    }
+
+    return { data: result.data ?? null, errors: result.errors };
+  }
+}
@@ -0,0 +1,89 @@
+import { LinearWriteBackSettings, MoSCoWCategory, ScoredFeature } from '@/lib/types';
+import { DEFAULT_SCORE_COMMENT_TEMPLATE } from '@/lib/config/score-comment-defaults';
+
+// Label write-back is opt-in
+export const defaultLinearWriteBack: LinearWriteBackSettings = {
+  labelsEnabled: false,
+  scoreLabels: true,
+  moscowLabels: true,
+  flagLabels: true,
+  commentTemplate: DEFAULT_SCORE_COMMENT_TEMPLATE,
+};
+
+const SCORE_LABEL_PREFIX = 'Score: ';
+const MOSCOW_LABEL_PREFIX = 'MoSCoW: ';
+
+// Score buckets follow the score -> Linear priority thresholds
+const SCORE_BUCKETS: Array<{ min: number; label: string }> = [
+  { min: 8, label: `${SCORE_LABEL_PREFIX}8-10` },
+  { min: 6, label: `${SCORE_LABEL_PREFIX}6-8` },
+  { min: 4, label: `${SCORE_LABEL_PREFIX}4-6` },
+  { min: -Infinity, label: `${SCORE_LABEL_PREFIX}0-4` },
+];
+
+const MOSCOW_LABELS: Record<MoSCoWCategory, string> = {
+  must: `${MOSCOW_LABEL_PREFIX}Must`,
+  should: `${MOSCOW_LABEL_PREFIX}Should`,
+  could: `${MOSCOW_LABEL_PREFIX}Could`,
+  wont: `${MOSCOW_LABEL_PREFIX}Won't`,
+};
+
+// Scoring flags that are written as labels (others, like pending-ai-score, stay local)
+export const FLAG_LABELS: Record<string, string> = {
+  'enterprise': 'Enterprise',
+  'high-demand': 'High Volume',
+  'high-tier-customer': 'Key Customer',
+  'strategic-priority': 'Strategic',
+  'company-initiative': 'Initiative',
+};
+
+// Label colors used when a managed label has to be created in Linear
+const MANAGED_LABEL_COLORS = {
+  score: '#5e6ad2',
+  moscow: '#26b5ce',
+  flag: '#f2994a',
+};
+
+// Color for a managed label, by kind
+export function managedLabelColor(name: string): string {
+  if (name.startsWith(SCORE_LABEL_PREFIX)) return MANAGED_LABEL_COLORS.score;
+  if (name.startsWith(MOSCOW_LABEL_PREFIX)) return MANAGED_LABEL_COLORS.moscow;
+  return MANAGED_LABEL_COLORS.flag;
+}
+
+// Whether a label name is one Product OS writes. Flag labels only count when
+// we applied them ourselves, since teams may already use e.g. "Enterprise".
+export function isGeneratedLabelName(name: string): boolean {
+  return name.startsWith(SCORE_LABEL_PREFIX) || name.startsWith(MOSCOW_LABEL_PREFIX);
+}
+
+// Labels a feature should carry in Linear under the given write-back settings
+export function buildManagedLabels(
+  feature: Pick<ScoredFeature, 'finalScore' | 'flags' | 'scores'>,
+  writeBack: LinearWriteBackSettings
+): string[] {
+  if (!writeBack.labelsEnabled) return [];
+  const labels: string[] = [];
+
+  if (writeBack.scoreLabels) {
+    labels.push(SCORE_BUCKETS.find(bucket => feature.finalScore >= bucket.min)!.label);
+  }
+
+  if (writeBack.moscowLabels) {
+    const category = feature.scores.moscow
+      || (Object.keys(MOSCOW_LABELS) as MoSCoWCategory[]).find(c => feature.flags.includes(c));
+    if (category) {
+      labels.push(MOSCOW_LABELS[category]);
+    }
+  }
+
+  if (writeBack.flagLabels) {
+    for (const flag of feature.flags) {
+      if (FLAG_LABELS[flag]) {
+        labels.push(FLAG_LABELS[flag]);
+      }
+    }
+  }
+
+  return labels;
+}
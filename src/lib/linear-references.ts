@@ -0,0 +1,25 @@
+// Explicit references to Linear issues in feedback: issue URLs and identifier tags
+
+// Linear issue URLs, e.g. https://linear.app/acme/issue/CHAT-123/some-title
+const LINEAR_URL_PATTERN = /linear\.app\/[^/\s]+\/issue\/([a-z][a-z0-9]*-\d+)/gi;
+
+// Tags naming an issue: "chat-123", or prefixed as "linear-chat-123" / "linear_chat_123"
+const LINEAR_TAG_PATTERN = /^(?:linear[-_:])?([a-z][a-z0-9]*)[-_](\d+)$/i;
+
+// Linear identifiers referenced by Linear URLs in the text or by tags (uppercased, e.g. CHAT-123)
+export function extractLinearReferences(text: string, tags: string[] = []): string[] {
+  const references = new Set<string>();
+
+  for (const tag of tags) {
+    const match = tag.match(LINEAR_TAG_PATTERN);
+    if (match) {
+      references.add(`${match[1]}-${match[2]}`.toUpperCase());
+    }
+  }
+
+  for (const match of text.matchAll(LINEAR_URL_PATTERN)) {
+    references.add(match[1].toUpperCase());
+  }
+
+  return [...references];
+}
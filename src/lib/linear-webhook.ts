@@ -0,0 +1,244 @@
+import crypto from 'crypto';
+import { LinearCycleRef, LinearIssue, LinearMilestoneRef, SyncScope } from '@/lib/types';
+import { StoredLinearProject } from '@/lib/issue-store';
+import { defaultSyncScope, isIssueInSyncScope, matchesProjectScope } from '@/lib/sync-scope';
+
+// Linear rejects webhooks older than a minute; we do the same to prevent replays
+const WEBHOOK_TOLERANCE_MS = 60 * 1000;
+
+// Webhook payload as sent by Linear
+export interface LinearWebhookPayload {
+  action: 'create' | 'update' | 'remove';
+  type: string;
+  data: Record<string, unknown>;
+  url?: string;
+  createdAt?: string;
+  updatedFrom?: Record<string, unknown>;
+  webhookTimestamp?: number;
+}
+
+// Local issue store state a webhook event is applied to
+export interface LinearWebhookState {
+  issues: LinearIssue[];
+  projects: StoredLinearProject[];
+}
+
+export interface LinearWebhookResult extends LinearWebhookState {
+  changed: boolean;
+  // Issues whose content changed (their AI scores should be marked stale)
+  affectedIssueIds: string[];
+}
+
+// Verify the `linear-signature` header (HMAC-SHA256 of the raw body, hex encoded)
+export function verifyLinearSignature(
+  rawBody: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  const expectedBuffer = Buffer.from(expected, 'hex');
+  const signatureBuffer = Buffer.from(signature, 'hex');
+
+  if (expectedBuffer.length !== signatureBuffer.length) return false;
+  return crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
+// Check the payload timestamp is recent enough to not be a replay
+export function isWebhookTimestampFresh(
+  webhookTimestamp: number | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!webhookTimestamp) return false;
+  return Math.abs(now - webhookTimestamp) <= WEBHOOK_TOLERANCE_MS;
+}
+
+// Resolve a milestone/cycle reference from webhook data: use the embedded object when sent,
+// otherwise keep the stored one while its id still matches (null id = removed)
+function resolveIssueRef<T extends { id: string }>(
+  embedded: T | null | undefined,
+  id: string | null | undefined,
+  existing: T | undefined
+): T | undefined {
+  if (embedded) return embedded;
+  if (id === undefined) return existing;
+  return id && existing?.id === id ? existing : undefined;
+}
+
+// Convert webhook Issue data to the shape stored by sync, keeping fields webhooks don't carry
+function toLinearIssue(
+  data: Record<string, unknown>,
+  url: string | undefined,
+  existing: LinearIssue | undefined,
+  project: { id: string; name: string } | undefined
+): LinearIssue {
+  const state = data.state as { id: string; name: string; type: string } | undefined;
+  const labels = (data.labels as Array<{ id: string; name: string }> | undefined) || [];
+  const team = data.team as { id: string; key: string; name: string } | undefined;
+
+  return {
+    id: data.id as string,
+    identifier: data.identifier as string,
+    title: data.title as string,
+    description: (data.description as string | undefined) ?? undefined,
+    url: url || existing?.url || '',
+    state: state
+      ? { id: state.id, name: state.name, type: state.type }
+      : existing?.state || { id: '', name: 'Unknown', type: 'unstarted' },
+    priority: (data.priority as number | undefined) ?? 0,
+    priorityLabel: (data.priorityLabel as string | undefined) ?? existing?.priorityLabel ?? '',
+    labels: { nodes: labels.map(l => ({ id: l.id, name: l.name })) },
+    project: project ? { id: project.id, name: project.name } : undefined,
+    team: team ? { id: team.id, key: team.key, name: team.name } : existing?.team,
+    attachments: existing?.attachments,
+    comments: existing?.comments,
+    projectMilestone: resolveIssueRef(
+      data.projectMilestone as LinearMilestoneRef | null | undefined,
+      data.projectMilestoneId as string | null | undefined,
+      existing?.projectMilestone
+    ),
+    cycle: resolveIssueRef(
+      data.cycle as LinearCycleRef | null | undefined,
+      data.cycleId as string | null | undefined,
+      existing?.cycle
+    ),
+    createdAt: data.createdAt as string,
+    updatedAt: data.updatedAt as string,
+    sortOrder: (data.sortOrder as number | undefined) ?? existing?.sortOrder ?? 0,
+  };
+}
+
+// Apply an Issue event
+function applyIssueEvent(
+  state: LinearWebhookState,
+  payload: LinearWebhookPayload,
+  scope: SyncScope
+): LinearWebhookResult {
+  const { data } = payload;
+  const issueId = data.id as string;
+  const existing = state.issues.find(i => i.id === issueId);
+  const project = state.projects.find(p => p.id === data.projectId)
+    || (data.project as { id: string; name: string } | undefined);
+  const others = state.issues.filter(i => i.id !== issueId);
+  const dropped = (): LinearWebhookResult => existing
+    ? { ...state, issues: others, changed: true, affectedIssueIds: [] }
+    : { ...state, changed: false, affectedIssueIds: [] };
+
+  if (payload.action === 'remove' || data.archivedAt || data.trashed) {
+    return dropped();
+  }
+
+  // A saved Linear filter can't be evaluated locally; new issues arrive with the next sync
+  if (scope.customViewId && !existing) {
+    return { ...state, changed: false, affectedIssueIds: [] };
+  }
+
+  const issue = toLinearIssue(data, payload.url, existing, project);
+
+  // Moved out of scope (other project, team or labels): drop it
+  if (!isIssueInSyncScope(issue, scope)) {
+    return dropped();
+  }
+
+  return {
+    ...state,
+    issues: [...others, issue],
+    changed: true,
+    affectedIssueIds: [issueId],
+  };
+}
+
+// Apply a Comment event to the comments of its issue
+function applyCommentEvent(state: LinearWebhookState, payload: LinearWebhookPayload): LinearWebhookResult {
+  const { data } = payload;
+  const commentId = data.id as string;
+  const issueId = data.issueId as string;
+  const issue = state.issues.find(i => i.id === issueId);
+
+  if (!issue) {
+    return { ...state, changed: false, affectedIssueIds: [] };
+  }
+
+  const comments = (issue.comments?.nodes || []).filter(c => c.id !== commentId);
+  if (payload.action !== 'remove') {
+    comments.push({
+      id: commentId,
+      body: data.body as string,
+      createdAt: data.createdAt as string,
+    });
+  }
+
+  const updated: LinearIssue = { ...issue, comments: { nodes: comments } };
+  return {
+    ...state,
+    issues: state.issues.map(i => (i.id === issueId ? updated : i)),
+    changed: true,
+    affectedIssueIds: [issueId],
+  };
+}
+
+// Apply a Project event (renames flow into issues; removals drop the project's issues)
+function applyProjectEvent(
+  state: LinearWebhookState,
+  payload: LinearWebhookPayload,
+  scope: SyncScope
+): LinearWebhookResult {
+  const { data } = payload;
+  const projectId = data.id as string;
+  const name = data.name as string;
+  const existing = state.projects.find(p => p.id === projectId);
+  const projectIssueIds = state.issues.filter(i => i.project?.id === projectId).map(i => i.id);
+
+  const inScope = scope.customViewId ? !!existing : matchesProjectScope(name, scope);
+  const tracked = payload.action !== 'remove' && !data.archivedAt && inScope;
+
+  if (!tracked) {
+    if (!existing) {
+      return { ...state, changed: false, affectedIssueIds: [] };
+    }
+    return {
+      issues: state.issues.filter(i => i.project?.id !== projectId),
+      projects: state.projects.filter(p => p.id !== projectId),
+      changed: true,
+      affectedIssueIds: [],
+    };
+  }
+
+  const project: StoredLinearProject = {
+    id: projectId,
+    name,
+    description: (data.description as string | undefined) ?? existing?.description,
+    state: (data.state as string | undefined) ?? existing?.state ?? 'planned',
+  };
+
+  return {
+    issues: state.issues.map(i =>
+      i.project?.id === projectId ? { ...i, project: { id: projectId, name } } : i
+    ),
+    projects: existing
+      ? state.projects.map(p => (p.id === projectId ? project : p))
+      : [...state.projects, project],
+    changed: true,
+    // A rename can change the product a project maps to
+    affectedIssueIds: existing && existing.name !== name ? projectIssueIds : [],
+  };
+}
+
+// Apply a webhook event to the local issue store state
+export function applyLinearWebhookEvent(
+  state: LinearWebhookState,
+  payload: LinearWebhookPayload,
+  scope: SyncScope = defaultSyncScope
+): LinearWebhookResult {
+  switch (payload.type) {
+    case 'Issue':
+      return applyIssueEvent(state, payload, scope);
+    case 'Comment':
+      return applyCommentEvent(state, payload);
+    case 'Project':
+      return applyProjectEvent(state, payload, scope);
+    default:
+      return { ...state, changed: false, affectedIssueIds: [] };
+  }
+}
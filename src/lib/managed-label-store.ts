@@ -0,0 +1,46 @@
+import { documentKeys, readDocument, transaction, writeDocument } from '@/lib/db/database';
+
+// Label names Product OS applied to each Linear issue, so later pushes can remove them
+interface ManagedLabelsData {
+  issues: Record<string, string[]>;
+  lastUpdated: string;
+}
+
+// Load managed label names keyed by issue ID
+export async function loadManagedLabels(): Promise<Record<string, string[]>> {
+  return readManagedLabels();
+}
+
+function readManagedLabels(): Record<string, string[]> {
+  const data = readDocument<ManagedLabelsData>(
+    documentKeys.managedLabels,
+    { issues: {}, lastUpdated: new Date().toISOString() }
+  );
+  return data.issues || {};
+}
+
+// Record label names added to and removed from issues by a push or undo, in one
+// transaction so a concurrent push's labels aren't lost
+export async function updateManagedLabels(
+  changes: Array<{ issueId: string; added: string[]; removed: string[] }>
+): Promise<void> {
+  if (changes.length === 0) return;
+
+  transaction(() => {
+    const issues = readManagedLabels();
+    for (const { issueId, added, removed } of changes) {
+      const names = (issues[issueId] || []).filter(name => !removed.includes(name));
+      const next = Array.from(new Set([...names, ...added]));
+      if (next.length > 0) {
+        issues[issueId] = next;
+      } else {
+        delete issues[issueId];
+      }
+    }
+
+    writeDocument<ManagedLabelsData>(documentKeys.managedLabels, {
+      issues,
+      lastUpdated: new Date().toISOString(),
+    });
+  });
+}
@@ -0,0 +1,64 @@
+import { LinearPushBatch } from '@/lib/types';
+import { documentKeys, readDocument, transaction, writeDocument } from '@/lib/db/database';
+
+interface PushHistoryData {
+  batches: LinearPushBatch[];
+  lastUpdated: string;
+}
+
+// Keep the history bounded like the audit log
+const MAX_BATCHES = 200;
+
+// Generate a batch ID
+export function generateBatchId(): string {
+  return `batch-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Load all recorded batches, newest first
+export async function loadPushHistory(): Promise<LinearPushBatch[]> {
+  return readPushHistory();
+}
+
+function readPushHistory(): LinearPushBatch[] {
+  const data = readDocument<PushHistoryData>(
+    documentKeys.pushHistory,
+    { batches: [], lastUpdated: new Date().toISOString() }
+  );
+  return [...(data.batches || [])].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+// Get a single batch
+export async function getPushBatch(batchId: string): Promise<LinearPushBatch | null> {
+  const batches = await loadPushHistory();
+  return batches.find(b => b.id === batchId) || null;
+}
+
+// Read, change and save the history in one transaction so concurrent pushes aren't lost
+function updatePushHistory(change: (batches: LinearPushBatch[]) => LinearPushBatch[]): void {
+  transaction(() => {
+    writeDocument<PushHistoryData>(documentKeys.pushHistory, {
+      batches: change(readPushHistory()).slice(0, MAX_BATCHES),
+      lastUpdated: new Date().toISOString(),
+    });
+  });
+}
+
+// Record a batch
+export async function addPushBatch(batch: LinearPushBatch): Promise<void> {
+  updatePushHistory(batches => [batch, ...batches.filter(b => b.id !== batch.id)]);
+}
+
+// Mark a push as undone (undoBatchId is absent when nothing needed restoring)
+export async function markPushBatchUndone(
+  batchId: string,
+  undoneBy: string,
+  undoBatchId?: string
+): Promise<void> {
+  updatePushHistory(batches => batches.map(b =>
+    b.id === batchId
+      ? { ...b, undoneAt: new Date().toISOString(), undoneBy, undoBatchId }
+      : b
+  ));
+}
@@ -0,0 +1,61 @@
+import { APIKeyError } from '@/lib/linear-client';
+
+// Shared JSON-over-HTTP request with retries for the REST feedback sources
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Wait from a Retry-After header (seconds), or exponential backoff with jitter
+function retryDelay(response: Response | null, attempt: number): number {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+  }
+  return Math.random() * Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+}
+
+// Send a request and parse the JSON response, retrying rate limits, 5xx responses and
+// network failures. Rejected credentials throw an APIKeyError for the service.
+export async function requestJson<T>(
+  url: URL | string,
+  init: RequestInit,
+  service: { id: APIKeyError['service']; name: string }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | null = null;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (attempt >= MAX_RETRIES) {
+        throw new Error(`${service.name} API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      await sleep(retryDelay(null, attempt));
+      continue;
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new APIKeyError(service.id, `${service.name} credentials were rejected. Please check them in Settings > API Keys.`);
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      if (attempt >= MAX_RETRIES) {
+        throw new Error(`${service.name} API error: ${response.status} ${response.statusText}`);
+      }
+      const delay = retryDelay(response, attempt);
+      console.log(`${service.name} API returned ${response.status}, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`${service.name} API error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json() as T;
+  }
+}
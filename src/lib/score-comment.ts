@@ -0,0 +1,178 @@
+import { ScoredFeature } from '@/lib/types';
+import { DEFAULT_SCORE_COMMENT_TEMPLATE } from '@/lib/config/score-comment-defaults';
+
+// Hidden Markdown reference marking our score comment; carries the score it was written with
+const MARKER_PREFIX = '[//]: # (product-os:score:';
+const MARKER_PATTERN = /\[\/\/\]: # \(product-os:score:([A-Za-z0-9+/=]+)\)/;
+
+const FACTOR_NAMES: Record<string, string> = {
+  revenueImpact: 'Revenue Impact',
+  enterpriseReadiness: 'Enterprise Readiness',
+  requestVolume: 'Request Volume',
+  competitiveParity: 'Competitive Parity',
+  strategicAlignment: 'Strategic Alignment',
+  capabilityGap: 'Capability Gap',
+  competitiveDifferentiation: 'Competitive Differentiation',
+  effort: 'Effort',
+};
+
+const PRIORITY_NAMES: Record<number, string> = {
+  0: 'No priority',
+  1: 'Urgent',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low',
+};
+
+// Score values embedded in the comment marker, used to diff the next push against
+export interface ScoreCommentSnapshot {
+  finalScore: number;
+  framework: string;
+  customerTier: string;
+  priority?: number;
+  factors: Record<string, number>;
+  flags: string[];
+  pushedAt: string;
+}
+
+// Whether a comment body is a Product OS score comment
+export function isScoreComment(body: string): boolean {
+  return body.includes(MARKER_PREFIX);
+}
+
+// Read the snapshot from a score comment (null if missing or unreadable)
+export function parseScoreCommentMarker(body: string): ScoreCommentSnapshot | null {
+  const match = body.match(MARKER_PATTERN);
+  if (!match) return null;
+
+  try {
+    return JSON.parse(Buffer.from(match[1], 'base64').toString('utf-8')) as ScoreCommentSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+function encodeMarker(snapshot: ScoreCommentSnapshot): string {
+  return `${MARKER_PREFIX}${Buffer.from(JSON.stringify(snapshot), 'utf-8').toString('base64')})`;
+}
+
+// Snapshot of a feature's current score
+export function buildScoreSnapshot(feature: ScoredFeature, priority?: number): ScoreCommentSnapshot {
+  const factors: Record<string, number> = {};
+  for (const key of Object.keys(FACTOR_NAMES)) {
+    const value = feature.scores[key as keyof ScoredFeature['scores']];
+    if (typeof value === 'number') {
+      factors[key] = value;
+    }
+  }
+
+  return {
+    finalScore: Number(feature.finalScore.toFixed(1)),
+    framework: feature.framework,
+    customerTier: feature.customerTier,
+    priority,
+    factors,
+    flags: [...feature.flags],
+    pushedAt: new Date().toISOString(),
+  };
+}
+
+// Whether a score differs from the one a comment was written with (the push time aside)
+export function hasScoreChanged(previous: ScoreCommentSnapshot, next: ScoreCommentSnapshot): boolean {
+  const factorKeys = new Set([...Object.keys(previous.factors), ...Object.keys(next.factors)]);
+  const flags = (snapshot: ScoreCommentSnapshot) => [...snapshot.flags].sort().join('\n');
+
+  return previous.finalScore !== next.finalScore
+    || previous.priority !== next.priority
+    || previous.framework !== next.framework
+    || previous.customerTier !== next.customerTier
+    || [...factorKeys].some(key => previous.factors[key] !== next.factors[key])
+    || flags(previous) !== flags(next);
+}
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`;
+}
+
+// Markdown list of what changed between two snapshots
+export function formatScoreDiff(
+  previous: ScoreCommentSnapshot | null,
+  next: ScoreCommentSnapshot
+): string {
+  if (!previous) {
+    return '- First score posted by Product OS';
+  }
+
+  const lines: string[] = [];
+
+  if (previous.finalScore !== next.finalScore) {
+    lines.push(`- Final Score: ${previous.finalScore.toFixed(1)} → ${next.finalScore.toFixed(1)} (${formatDelta(next.finalScore - previous.finalScore)})`);
+  }
+  if (previous.priority !== undefined && next.priority !== undefined && previous.priority !== next.priority) {
+    lines.push(`- Priority: ${PRIORITY_NAMES[previous.priority] ?? previous.priority} → ${PRIORITY_NAMES[next.priority] ?? next.priority}`);
+  }
+  if (previous.framework !== next.framework) {
+    lines.push(`- Framework: ${previous.framework} → ${next.framework}`);
+  }
+  if (previous.customerTier !== next.customerTier) {
+    lines.push(`- Customer Tier: ${previous.customerTier} → ${next.customerTier}`);
+  }
+
+  for (const [key, name] of Object.entries(FACTOR_NAMES)) {
+    const before = previous.factors[key];
+    const after = next.factors[key];
+    if (before === after) continue;
+    if (before === undefined) {
+      lines.push(`- ${name}: added (${after}/10)`);
+    } else if (after === undefined) {
+      lines.push(`- ${name}: removed (was ${before}/10)`);
+    } else {
+      lines.push(`- ${name}: ${before} → ${after} (${formatDelta(after - before)})`);
+    }
+  }
+
+  const addedFlags = next.flags.filter(flag => !previous.flags.includes(flag));
+  const removedFlags = previous.flags.filter(flag => !next.flags.includes(flag));
+  if (addedFlags.length > 0) lines.push(`- Flags added: ${addedFlags.join(', ')}`);
+  if (removedFlags.length > 0) lines.push(`- Flags removed: ${removedFlags.join(', ')}`);
+
+  if (lines.length === 0) {
+    return `- No change since ${new Date(previous.pushedAt).toISOString().slice(0, 10)}`;
+  }
+  return lines.join('\n');
+}
+
+// Render the score comment from a Markdown template, ending with the hidden marker
+export function renderScoreComment(
+  feature: ScoredFeature,
+  options: { template?: string; priority?: number; previous?: ScoreCommentSnapshot | null } = {}
+): string {
+  const snapshot = buildScoreSnapshot(feature, options.priority);
+  const template = options.template?.trim() || DEFAULT_SCORE_COMMENT_TEMPLATE;
+
+  const factors = Object.entries(snapshot.factors)
+    .map(([key, value]) => `- ${FACTOR_NAMES[key]}: ${value}/10`)
+    .join('\n');
+  const flags = snapshot.flags.map(flag => `- ${flag}`).join('\n');
+
+  const values: Record<string, string> = {
+    identifier: feature.identifier,
+    title: feature.title,
+    finalScore: feature.finalScore.toFixed(1),
+    baseScore: feature.baseScore.toFixed(1),
+    framework: feature.framework,
+    customerTier: feature.customerTier,
+    multiplier: String(feature.multiplier),
+    priority: options.priority !== undefined ? PRIORITY_NAMES[options.priority] ?? String(options.priority) : '',
+    factors: factors || '- None',
+    flags: flags || '- None',
+    diff: formatScoreDiff(options.previous ?? null, snapshot),
+    updatedAt: snapshot.pushedAt.slice(0, 16).replace('T', ' ') + ' UTC',
+  };
+
+  const body = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) =>
+    key in values ? values[key] : placeholder
+  );
+
+  return `${body}\n\n${encodeMarker(snapshot)}`;
+}
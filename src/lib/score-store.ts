@@ -1,47 +1,69 @@
-import { ScoreOverride, ScoreFactors, AuditEntry, MoSCoWCategory } from '@/lib/types';
-import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
-import paths from '@/config/paths';
-
-interface ScoreOverridesData {
-  overrides: ScoreOverride[];
-  lastUpdated: string;
+import { ScoreOverride, ScoreFactors, AuditEntry, MoSCoWCategory, KanoCategory } from '@/lib/types';
+import { getDatabase, markDataChanged, transaction } from '@/lib/db/database';
+
+interface ScoreOverrideRow {
+  feature_id: string;
+  factor: string;
+  value: string;
+  previous_value: string | null;
+  reason: string | null;
+  updated_by: string;
+  updated_at: string;
 }
 
-interface AuditData {
-  entries: AuditEntry[];
-  lastUpdated: string;
-}
+// Audit entries kept; older ones are dropped as new ones arrive
+const MAX_AUDIT_ENTRIES = 1000;
 
 // Generate a simple UUID
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
-// Load all score overrides
-export async function loadScoreOverrides(): Promise<ScoreOverride[]> {
-  const data = await loadLocalJson<ScoreOverridesData>(
-    paths.local.scoreOverrides,
-    { overrides: [], lastUpdated: new Date().toISOString() }
-  );
-  return data.overrides;
+function toScoreOverride(row: ScoreOverrideRow): ScoreOverride {
+  return {
+    featureId: row.feature_id,
+    factor: row.factor as keyof ScoreFactors,
+    value: JSON.parse(row.value),
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at,
+    reason: row.reason ?? undefined,
+    previousValue: row.previous_value === null ? undefined : JSON.parse(row.previous_value),
+  };
 }
 
-// Save score overrides
-async function saveScoreOverrides(overrides: ScoreOverride[]): Promise<void> {
-  await saveLocalJson(paths.local.scoreOverrides, {
-    overrides,
-    lastUpdated: new Date().toISOString(),
-  });
+function findOverride(featureId: string, factor: keyof ScoreFactors): ScoreOverride | undefined {
+  const row = getDatabase()
+    .prepare('SELECT * FROM score_overrides WHERE feature_id = ? AND factor = ?')
+    .get(featureId, factor) as ScoreOverrideRow | undefined;
+  return row && toScoreOverride(row);
+}
+
+function insertAuditEntry(entry: AuditEntry): void {
+  const db = getDatabase();
+  db.prepare('INSERT INTO audit_entries (id, feature_id, updated_at, entry) VALUES (?, ?, ?, ?)')
+    .run(entry.id, entry.featureId, entry.updatedAt, JSON.stringify(entry));
+  db.prepare('DELETE FROM audit_entries WHERE seq <= (SELECT MAX(seq) FROM audit_entries) - ?')
+    .run(MAX_AUDIT_ENTRIES);
+}
+
+// Load all score overrides
+export async function loadScoreOverrides(): Promise<ScoreOverride[]> {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM score_overrides ORDER BY rowid')
+    .all() as ScoreOverrideRow[];
+  return rows.map(toScoreOverride);
 }
 
 // Get overrides for a specific feature
 export async function getFeatureOverrides(featureId: string): Promise<Partial<ScoreFactors>> {
-  const overrides = await loadScoreOverrides();
-  const featureOverrides = overrides.filter(o => o.featureId === featureId);
+  const rows = getDatabase()
+    .prepare('SELECT * FROM score_overrides WHERE feature_id = ?')
+    .all(featureId) as ScoreOverrideRow[];
+  const featureOverrides = rows.map(toScoreOverride);
 
   const result: Partial<ScoreFactors> = {};
   for (const override of featureOverrides) {
-    (result as Record<string, number | MoSCoWCategory>)[override.factor] = override.value;
+    (result as Record<string, number | MoSCoWCategory | KanoCategory>)[override.factor] = override.value;
   }
 
   return result;
@@ -57,7 +79,7 @@ export async function getOverridesMap(): Promise<Map<string, Partial<ScoreFactor
       map.set(override.featureId, {});
     }
     const featureOverrides = map.get(override.featureId)!;
-    (featureOverrides as Record<string, number | MoSCoWCategory>)[override.factor] = override.value;
+    (featureOverrides as Record<string, number | MoSCoWCategory | KanoCategory>)[override.factor] = override.value;
   }
 
   return map;
@@ -67,51 +89,54 @@ export async function getOverridesMap(): Promise<Map<string, Partial<ScoreFactor
 export async function setScoreOverride(
   featureId: string,
   factor: keyof ScoreFactors,
-  value: number | MoSCoWCategory,
+  value: number | MoSCoWCategory | KanoCategory,
   updatedBy: string,
   reason?: string
 ): Promise<ScoreOverride> {
-  const overrides = await loadScoreOverrides();
+  return transaction(() => {
+    // The previous value comes from the existing override for this feature/factor
+    const previousValue = findOverride(featureId, factor)?.value;
 
-  // Find existing override for this feature/factor
-  const existingIndex = overrides.findIndex(
-    o => o.featureId === featureId && o.factor === factor
-  );
-
-  const previousValue = existingIndex >= 0 ? overrides[existingIndex].value : undefined;
-
-  const newOverride: ScoreOverride = {
-    featureId,
-    factor,
-    value,
-    updatedBy,
-    updatedAt: new Date().toISOString(),
-    reason,
-    previousValue,
-  };
+    const newOverride: ScoreOverride = {
+      featureId,
+      factor,
+      value,
+      updatedBy,
+      updatedAt: new Date().toISOString(),
+      reason,
+      previousValue,
+    };
+
+    getDatabase().prepare(`
+      INSERT OR REPLACE INTO score_overrides
+        (feature_id, factor, value, previous_value, reason, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      featureId,
+      factor,
+      JSON.stringify(value),
+      previousValue === undefined ? null : JSON.stringify(previousValue),
+      reason ?? null,
+      updatedBy,
+      newOverride.updatedAt
+    );
+    markDataChanged();
 
-  if (existingIndex >= 0) {
-    overrides[existingIndex] = newOverride;
-  } else {
-    overrides.push(newOverride);
-  }
+    // Add audit entry
+    insertAuditEntry({
+      id: generateId(),
+      featureId,
+      action: 'manual_override',
+      factor,
+      oldValue: previousValue,
+      newValue: value,
+      reason,
+      updatedBy,
+      updatedAt: new Date().toISOString(),
+    });
 
-  await saveScoreOverrides(overrides);
-
-  // Add audit entry
-  await addAuditEntry({
-    id: generateId(),
-    featureId,
-    action: 'manual_override',
-    factor,
-    oldValue: previousValue,
-    newValue: value,
-    reason,
-    updatedBy,
-    updatedAt: new Date().toISOString(),
+    return newOverride;
   });
-
-  return newOverride;
 }
 
 // Remove a score override
@@ -120,18 +145,17 @@ export async function removeScoreOverride(
   factor: keyof ScoreFactors,
   updatedBy: string
 ): Promise<void> {
-  const overrides = await loadScoreOverrides();
-  const existingIndex = overrides.findIndex(
-    o => o.featureId === featureId && o.factor === factor
-  );
+  transaction(() => {
+    const removed = findOverride(featureId, factor);
+    if (!removed) return;
 
-  if (existingIndex >= 0) {
-    const removed = overrides[existingIndex];
-    overrides.splice(existingIndex, 1);
-    await saveScoreOverrides(overrides);
+    getDatabase()
+      .prepare('DELETE FROM score_overrides WHERE feature_id = ? AND factor = ?')
+      .run(featureId, factor);
+    markDataChanged();
 
     // Add audit entry
-    await addAuditEntry({
+    insertAuditEntry({
       id: generateId(),
       featureId,
       action: 'manual_override',
@@ -142,7 +166,7 @@ export async function removeScoreOverride(
       updatedBy,
       updatedAt: new Date().toISOString(),
     });
-  }
+  });
 }
 
 // Clear all overrides for a feature
@@ -150,14 +174,15 @@ export async function clearFeatureOverrides(
   featureId: string,
   updatedBy: string
 ): Promise<void> {
-  const overrides = await loadScoreOverrides();
-  const remaining = overrides.filter(o => o.featureId !== featureId);
-
-  if (remaining.length !== overrides.length) {
-    await saveScoreOverrides(remaining);
+  transaction(() => {
+    const { changes } = getDatabase()
+      .prepare('DELETE FROM score_overrides WHERE feature_id = ?')
+      .run(featureId);
+    if (changes === 0) return;
+    markDataChanged();
 
     // Add audit entry
-    await addAuditEntry({
+    insertAuditEntry({
       id: generateId(),
       featureId,
       action: 'manual_override',
@@ -165,36 +190,28 @@ export async function clearFeatureOverrides(
       updatedBy,
       updatedAt: new Date().toISOString(),
     });
-  }
+  });
 }
 
 // Load audit log
 export async function loadAuditLog(): Promise<AuditEntry[]> {
-  const data = await loadLocalJson<AuditData>(
-    paths.local.audit,
-    { entries: [], lastUpdated: new Date().toISOString() }
-  );
-  return data.entries;
+  const rows = getDatabase()
+    .prepare('SELECT entry FROM audit_entries ORDER BY seq')
+    .all() as Array<{ entry: string }>;
+  return rows.map(row => JSON.parse(row.entry) as AuditEntry);
 }
 
-// Add audit entry
+// Add audit entry (only the last 1000 entries are kept)
 export async function addAuditEntry(entry: AuditEntry): Promise<void> {
-  const entries = await loadAuditLog();
-  entries.push(entry);
-
-  // Keep only last 1000 entries
-  const trimmedEntries = entries.slice(-1000);
-
-  await saveLocalJson(paths.local.audit, {
-    entries: trimmedEntries,
-    lastUpdated: new Date().toISOString(),
-  });
+  transaction(() => insertAuditEntry(entry));
 }
 
 // Get audit entries for a specific feature
 export async function getFeatureAuditLog(featureId: string): Promise<AuditEntry[]> {
-  const entries = await loadAuditLog();
-  return entries
-    .filter(e => e.featureId === featureId)
+  const rows = getDatabase()
+    .prepare('SELECT entry FROM audit_entries WHERE feature_id = ?')
+    .all(featureId) as Array<{ entry: string }>;
+  return rows
+    .map(row => JSON.parse(row.entry) as AuditEntry)
     .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
 }
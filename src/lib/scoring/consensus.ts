@@ -0,0 +1,122 @@
+import {
+  ConsensusAgreement,
+  ConsensusEntry,
+  CustomFramework,
+  FrameworkRank,
+  ScoreFactors,
+  ScoredFeature,
+  ScoringFramework,
+} from '@/lib/types';
+import { getFrameworkConfig } from '@/lib/ai/prompt-builder';
+
+// Percentile spreads (highest minus lowest) at which frameworks are considered to agree or disagree
+const ROBUST_MAX_SPREAD = 20;
+const CONTESTED_MIN_SPREAD = 50;
+
+// A spread needs at least two rankings to say anything about agreement
+export const MIN_RANKED_FRAMEWORKS = 2;
+
+export interface FrameworkRanking {
+  framework: ScoringFramework;
+  features: ScoredFeature[]; // Sorted by the framework, best first
+}
+
+// Whether a feature's AI scores and overrides cover every factor the framework is scored on.
+// An AI score only holds the factors of the framework it was made under; under any other
+// framework the missing factors fall back to defaults, which would rank the feature on placeholders.
+export function hasFrameworkFactorScores(
+  framework: ScoringFramework,
+  scores: ScoreFactors,
+  customFrameworks?: CustomFramework[]
+): boolean {
+  const values = scores as Record<string, unknown>;
+  return getFrameworkConfig(framework, customFrameworks).factors.every(f => values[f.key] !== undefined);
+}
+
+export function getAgreement(spread: number): ConsensusAgreement {
+  if (spread >= CONTESTED_MIN_SPREAD) return 'contested';
+  if (spread <= ROBUST_MAX_SPREAD) return 'robust';
+  return 'mixed';
+}
+
+// Rank and percentile of each feature in one framework's list. Features with the same final
+// score share the average of their positions, so categorical frameworks (MoSCoW, Kano) don't
+// order features within a category arbitrarily.
+export function rankFeatures(features: ScoredFeature[], framework: ScoringFramework): Map<string, FrameworkRank> {
+  const sorted = [...features].sort((a, b) => b.finalScore - a.finalScore);
+  const ranks = new Map<string, FrameworkRank>();
+  const n = sorted.length;
+
+  let start = 0;
+  while (start < n) {
+    let end = start;
+    while (end + 1 < n && sorted[end + 1].finalScore === sorted[start].finalScore) {
+      end++;
+    }
+
+    const rank = (start + end) / 2 + 1;
+    const percentile = n > 1 ? ((n - rank) / (n - 1)) * 100 : 100;
+    for (let i = start; i <= end; i++) {
+      ranks.set(sorted[i].id, {
+        framework,
+        rank,
+        percentile: Math.round(percentile * 10) / 10,
+        finalScore: sorted[i].finalScore,
+      });
+    }
+    start = end + 1;
+  }
+
+  return ranks;
+}
+
+// Consensus ranking: the average percentile across frameworks (a Borda count scaled to 0-100),
+// with the spread showing how much the frameworks disagree. Each ranking holds only the features
+// with real factor scores under that framework; a feature missing from a ranking is listed in its
+// unscoredFrameworks and left out of its consensus and spread. Features in fewer than
+// MIN_RANKED_FRAMEWORKS rankings are not included.
+export function buildConsensusRanking(rankings: FrameworkRanking[]): ConsensusEntry[] {
+  if (rankings.length === 0) return [];
+
+  const ranksByFramework = rankings.map(r => rankFeatures(r.features, r.framework));
+  const features = new Map<string, ScoredFeature>();
+  for (const ranking of rankings) {
+    for (const feature of ranking.features) {
+      if (!features.has(feature.id)) features.set(feature.id, feature);
+    }
+  }
+
+  const entries: ConsensusEntry[] = [];
+  for (const feature of features.values()) {
+    const ranks = ranksByFramework.map(r => r.get(feature.id));
+    const featureRanks = ranks.filter((r): r is FrameworkRank => !!r);
+    if (featureRanks.length < MIN_RANKED_FRAMEWORKS) continue;
+
+    const percentiles = featureRanks.map(r => r.percentile);
+    const consensusScore = percentiles.reduce((a, b) => a + b, 0) / percentiles.length;
+    const spread = Math.max(...percentiles) - Math.min(...percentiles);
+
+    entries.push({
+      featureId: feature.id,
+      identifier: feature.identifier,
+      title: feature.title,
+      url: feature.url,
+      product: feature.product,
+      customerTier: feature.customerTier,
+      consensusRank: 0,
+      consensusScore: Math.round(consensusScore * 10) / 10,
+      spread: Math.round(spread * 10) / 10,
+      agreement: getAgreement(spread),
+      ranks: featureRanks,
+      unscoredFrameworks: rankings.filter((_, index) => !ranks[index]).map(r => r.framework),
+    });
+  }
+
+  // Higher consensus first; among equals, the features frameworks agree on most
+  entries.sort((a, b) => b.consensusScore - a.consensusScore || a.spread - b.spread);
+  entries.forEach((entry, index) => {
+    entry.consensusRank = index + 1;
+  });
+
+  return entries;
+}
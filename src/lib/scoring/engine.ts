@@ -1,4 +1,6 @@
 import {
+  BuiltInFramework,
+  CustomFramework,
   FeatureRequest,
   ScoredFeature,
   ScoreFactors,
@@ -12,6 +14,10 @@ import { applyRICEScoring, getRICEFactors } from './frameworks/rice';
 import { applyICEScoring, getICEFactors } from './frameworks/ice';
 import { applyValueEffortScoring, getValueEffortFactors } from './frameworks/value-effort';
 import { applyMoSCoWScoring, getAllMoSCoWCategories } from './frameworks/moscow';
+import { applyWSJFScoring, getWSJFFactors } from './frameworks/wsjf';
+import { applyKanoScoring, getAllKanoCategories, isKanoCategory } from './frameworks/kano';
+import { applyCustomScoring, findCustomFramework, getCustomFactors, isCustomFramework } from './frameworks/custom';
+import { WeightProfileSettings, resolveWeightProfile } from './weight-profiles';
 import { StoredAIScore } from '@/lib/ai-score-store';
 
 // Extract scores from AI results
@@ -45,20 +51,77 @@ export function extractAIScores(
     if (factor && typeof suggestion.score === 'number') {
       (scores as Record<string, number | undefined>)[factor] = suggestion.score;
     }
+    // The Kano classification comes as a category alongside its score
+    if ((factor as string) === 'kanoCategory' && isKanoCategory(suggestion.category)) {
+      scores.kano = suggestion.category;
+    }
   }
 
   return scores;
 }
 
-// Apply scoring with the selected framework
+const BUILT_IN_FRAMEWORKS: BuiltInFramework[] = ['weighted', 'rice', 'ice', 'value-effort', 'moscow', 'wsjf', 'kano'];
+
+// Minimum strategic alignment for features in an initiative linked to a strategic goal
+const INITIATIVE_ALIGNMENT_FLOOR = {
+  primary: 8,
+  secondary: 6,
+};
+
+// Raise the AI strategic alignment score for features delivering a goal's initiative
+function applyInitiativeAlignment(feature: FeatureRequest, scores: ScoreFactors): ScoreFactors {
+  if (typeof scores.strategicAlignment !== 'number' || !feature.initiatives) {
+    return scores;
+  }
+
+  const floor = Math.max(
+    0,
+    ...feature.initiatives.map(i => (i.goalPriority ? INITIATIVE_ALIGNMENT_FLOOR[i.goalPriority] : 0))
+  );
+  if (scores.strategicAlignment >= floor) {
+    return scores;
+  }
+  return { ...scores, strategicAlignment: floor };
+}
+
+// Minimum revenue impact for the combined ARR of the accounts requesting a feature
+const REVENUE_IMPACT_FLOORS: Array<{ arr: number; score: number }> = [
+  { arr: 1_000_000, score: 9 },
+  { arr: 500_000, score: 8 },
+  { arr: 250_000, score: 7 },
+  { arr: 100_000, score: 6 },
+  { arr: 50_000, score: 5 },
+];
+
+// Raise the AI revenue impact score to the floor for the feature's revenue at stake
+function applyRevenueAtStake(feature: FeatureRequest, scores: ScoreFactors): ScoreFactors {
+  if (typeof scores.revenueImpact !== 'number' || !feature.revenueAtStake) {
+    return scores;
+  }
+
+  const floor = REVENUE_IMPACT_FLOORS.find(f => feature.revenueAtStake! >= f.arr)?.score ?? 0;
+  if (scores.revenueImpact >= floor) {
+    return scores;
+  }
+  return { ...scores, revenueImpact: floor };
+}
+
+// Apply scoring with the selected framework; a custom framework that no longer exists
+// falls back to weighted scoring
 export function applyFrameworkScoring(
   feature: FeatureRequest,
   scores: ScoreFactors,
   framework: ScoringFramework,
   manualOverrides?: Partial<ScoreFactors>,
   customWeights?: Partial<WeightConfig>,
-  customMultipliers?: Partial<TierMultipliers>
+  customMultipliers?: Partial<TierMultipliers>,
+  customFrameworks?: CustomFramework[]
 ): Partial<ScoredFeature> {
+  const custom = findCustomFramework(framework, customFrameworks);
+  if (custom) {
+    return applyCustomScoring(feature, scores, custom, manualOverrides, customMultipliers);
+  }
+
   switch (framework) {
     case 'weighted':
       return applyWeightedScoring(feature, scores, manualOverrides, customWeights, customMultipliers);
@@ -70,11 +133,23 @@ export function applyFrameworkScoring(
       return applyValueEffortScoring(feature, scores, manualOverrides, customMultipliers);
     case 'moscow':
       return applyMoSCoWScoring(feature, scores, manualOverrides, customMultipliers);
+    case 'wsjf':
+      return applyWSJFScoring(feature, scores, manualOverrides, customMultipliers);
+    case 'kano':
+      return applyKanoScoring(feature, scores, manualOverrides, customMultipliers);
     default:
       return applyWeightedScoring(feature, scores, manualOverrides, customWeights, customMultipliers);
   }
 }
 
+// Map final score to Linear priority (1-4)
+export function mapScoreToPriority(score: number): 1 | 2 | 3 | 4 {
+  if (score >= 8) return 1; // Urgent
+  if (score >= 6) return 2; // High
+  if (score >= 4) return 3; // Normal
+  return 4; // Low
+}
+
 // Full scoring pipeline: AI scores + framework + overrides
 export function scoreFeature(
   feature: FeatureRequest,
@@ -83,13 +158,18 @@ export function scoreFeature(
   manualOverrides?: Partial<ScoreFactors>,
   customWeights?: Partial<WeightConfig>,
   customMultipliers?: Partial<TierMultipliers>,
-  defaultModel: 'openai' | 'anthropic' | 'gemini' = 'gemini'
+  defaultModel: 'openai' | 'anthropic' | 'gemini' = 'gemini',
+  customFrameworks?: CustomFramework[]
 ): ScoredFeature {
   // Check if feature has been scored by AI
   const hasAIScore = aiScore && (aiScore.openai || aiScore.anthropic || aiScore.gemini);
 
-  // Extract AI scores
-  const aiScores = extractAIScores(aiScore, defaultModel);
+  // Extract AI scores, raising strategic alignment for goal-linked initiatives and revenue
+  // impact for the ARR of requesting accounts
+  const aiScores = applyRevenueAtStake(
+    feature,
+    applyInitiativeAlignment(feature, extractAIScores(aiScore, defaultModel))
+  );
 
   // Merge with manual overrides (overrides take precedence)
   const scores: ScoreFactors = { ...aiScores, ...manualOverrides };
@@ -101,7 +181,8 @@ export function scoreFeature(
     framework,
     manualOverrides,
     customWeights,
-    customMultipliers
+    customMultipliers,
+    customFrameworks
   );
 
   // Generate flags
@@ -132,6 +213,16 @@ export function scoreFeature(
     flags.push('strategic-priority');
   }
 
+  // Time-critical flag (WSJF cost of delay)
+  if (scores.timeCriticality && scores.timeCriticality >= 8) {
+    flags.push('time-critical');
+  }
+
+  // Company initiative flag
+  if (feature.initiatives && feature.initiatives.length > 0) {
+    flags.push('company-initiative');
+  }
+
   // Add framework-specific flags
   if (frameworkResult.flags) {
     flags.push(...frameworkResult.flags);
@@ -139,16 +230,7 @@ export function scoreFeature(
 
   // Map final score to Linear priority
   const finalScore = frameworkResult.finalScore || 0;
-  let mappedLinearPriority: 1 | 2 | 3 | 4;
-  if (finalScore >= 8) {
-    mappedLinearPriority = 1; // Urgent
-  } else if (finalScore >= 6) {
-    mappedLinearPriority = 2; // High
-  } else if (finalScore >= 4) {
-    mappedLinearPriority = 3; // Normal
-  } else {
-    mappedLinearPriority = 4; // Low
-  }
+  const mappedLinearPriority = mapScoreToPriority(finalScore);
 
   // Build AI suggestions object
   const aiSuggestions: ScoredFeature['aiSuggestions'] = aiScore
@@ -169,31 +251,34 @@ export function scoreFeature(
     finalScore,
     flags,
     mappedLinearPriority,
-    framework,
+    framework: frameworkResult.framework || framework,
   };
 }
 
-// Score multiple features and sort by final score
+// Score multiple features and sort by final score. Each feature gets the weights and tier
+// multipliers of its resolved profile; without profile settings the built-in weights are used.
 export function scoreAndSortFeatures(
   features: FeatureRequest[],
   framework: ScoringFramework,
   aiScoresMap: Map<string, StoredAIScore>,
   overridesMap: Map<string, Partial<ScoreFactors>>,
-  customWeights?: Partial<WeightConfig>,
-  customMultipliers?: Partial<TierMultipliers>,
-  defaultModel: 'openai' | 'anthropic' | 'gemini' = 'gemini'
+  profileSettings?: WeightProfileSettings,
+  defaultModel: 'openai' | 'anthropic' | 'gemini' = 'gemini',
+  customFrameworks?: CustomFramework[]
 ): ScoredFeature[] {
-  const scored = features.map(feature =>
-    scoreFeature(
+  const scored = features.map(feature => {
+    const profile = profileSettings && resolveWeightProfile(feature, profileSettings);
+    return scoreFeature(
       feature,
       framework,
       aiScoresMap.get(feature.id) || null,
       overridesMap.get(feature.id),
-      customWeights,
-      customMultipliers,
-      defaultModel
-    )
-  );
+      profile?.weights,
+      profile?.tierMultipliers,
+      defaultModel,
+      customFrameworks
+    );
+  });
 
   // Sort by final score (descending), then by whether it has AI score
   return scored.sort((a, b) => {
@@ -208,8 +293,8 @@ export function scoreAndSortFeatures(
   });
 }
 
-// Get framework display info
-export function getFrameworkInfo(framework: ScoringFramework): {
+// Get framework display info; a custom framework that no longer exists shows as weighted
+export function getFrameworkInfo(framework: ScoringFramework, customFrameworks?: CustomFramework[]): {
   id: ScoringFramework;
   name: string;
   description: string;
@@ -217,7 +302,21 @@ export function getFrameworkInfo(framework: ScoringFramework): {
   methodology?: string;
   bestFor?: string;
 } {
-  const frameworks: Record<ScoringFramework, { name: string; description: string; formula: string; methodology: string; bestFor: string }> = {
+  if (isCustomFramework(framework)) {
+    const custom = findCustomFramework(framework, customFrameworks);
+    if (!custom) {
+      return getFrameworkInfo('weighted');
+    }
+    return {
+      id: custom.id,
+      name: custom.name,
+      description: custom.description || `Custom framework with ${custom.factors.length} factors`,
+      formula: custom.formula,
+      methodology: custom.factors.map(f => `${f.label} (${f.scale.min}-${f.scale.max}): ${f.description}`).join(' '),
+    };
+  }
+
+  const frameworks: Record<BuiltInFramework, { name: string; description: string; formula: string; methodology: string; bestFor: string }> = {
     weighted: {
       name: 'Weighted Scoring',
       description: 'Multi-factor analysis with customizable weights for comprehensive prioritization',
@@ -253,13 +352,27 @@ export function getFrameworkInfo(framework: ScoringFramework): {
       methodology: 'Categorizes features into four buckets: Must Have (critical, non-negotiable), Should Have (important but not critical), Could Have (nice to have), Won\'t Have (out of scope this time).',
       bestFor: 'Release planning, scope definition, stakeholder alignment',
     },
+    wsjf: {
+      name: 'WSJF',
+      description: 'Weighted Shortest Job First from the Scaled Agile Framework (SAFe)',
+      formula: '(Business Value + Time Criticality + Risk Reduction) / Job Size',
+      methodology: 'Ranks work by cost of delay per unit of size. Cost of Delay = Business Value + Time Criticality + Risk Reduction / Opportunity Enablement, each 1-10; Job Size = relative size of the work (1-10). Small jobs with a high cost of delay go first.',
+      bestFor: 'SAFe teams planning program increments, sequencing work by economic impact',
+    },
+    kano: {
+      name: 'Kano',
+      description: 'Classification by how features affect customer satisfaction',
+      formula: 'Must-be > Performance > Attractive > Indifferent > Reverse',
+      methodology: 'Classifies features by the customer response to having or lacking them: Must-be (expected basics), Performance (more is better), Attractive (delighters), Indifferent (no effect) and Reverse (some customers prefer it absent).',
+      bestFor: 'Balancing basics against delighters, customer experience planning',
+    },
   };
 
   return { id: framework, ...frameworks[framework] };
 }
 
-// Get all frameworks
-export function getAllFrameworks(): {
+// Get all frameworks, built-in first
+export function getAllFrameworks(customFrameworks: CustomFramework[] = []): {
   id: ScoringFramework;
   name: string;
   description: string;
@@ -267,12 +380,24 @@ export function getAllFrameworks(): {
   methodology?: string;
   bestFor?: string;
 }[] {
-  const frameworks: ScoringFramework[] = ['weighted', 'rice', 'ice', 'value-effort', 'moscow'];
-  return frameworks.map(getFrameworkInfo);
+  const frameworks: ScoringFramework[] = [
+    ...BUILT_IN_FRAMEWORKS,
+    ...customFrameworks.map(f => f.id),
+  ];
+  return frameworks.map(framework => getFrameworkInfo(framework, customFrameworks));
 }
 
 // Get factors for a specific framework
-export function getFrameworkFactors(framework: ScoringFramework, product?: 'chat' | 'calling' | 'ai-agents' | 'byoa') {
+export function getFrameworkFactors(
+  framework: ScoringFramework,
+  product?: 'chat' | 'calling' | 'ai-agents' | 'byoa',
+  customFrameworks?: CustomFramework[]
+) {
+  const custom = findCustomFramework(framework, customFrameworks);
+  if (custom) {
+    return getCustomFactors(custom);
+  }
+
   switch (framework) {
     case 'weighted':
       return getWeightedFactors(product || 'chat');
@@ -284,6 +409,10 @@ export function getFrameworkFactors(framework: ScoringFramework, product?: 'chat
       return getValueEffortFactors();
     case 'moscow':
       return getAllMoSCoWCategories();
+    case 'wsjf':
+      return getWSJFFactors();
+    case 'kano':
+      return getAllKanoCategories();
     default:
       return getWeightedFactors(product || 'chat');
   }
@@ -296,11 +425,10 @@ export function compareFrameworkScores(
   manualOverrides?: Partial<ScoreFactors>,
   customWeights?: Partial<WeightConfig>,
   customMultipliers?: Partial<TierMultipliers>
-): Record<ScoringFramework, { baseScore: number; finalScore: number }> {
-  const frameworks: ScoringFramework[] = ['weighted', 'rice', 'ice', 'value-effort', 'moscow'];
-  const results: Record<ScoringFramework, { baseScore: number; finalScore: number }> = {} as Record<ScoringFramework, { baseScore: number; finalScore: number }>;
+): Record<BuiltInFramework, { baseScore: number; finalScore: number }> {
+  const results: Record<BuiltInFramework, { baseScore: number; finalScore: number }> = {} as Record<BuiltInFramework, { baseScore: number; finalScore: number }>;
 
-  for (const framework of frameworks) {
+  for (const framework of BUILT_IN_FRAMEWORKS) {
     const scored = scoreFeature(feature, framework, aiScore, manualOverrides, customWeights, customMultipliers);
     results[framework] = {
       baseScore: scored.baseScore,
@@ -0,0 +1,291 @@
+// Arithmetic formulas for custom frameworks, e.g. (audience * benefit * certainty) / cost.
+// Formulas are parsed into a tree and evaluated directly; nothing is ever passed to eval.
+
+export type FormulaFunction = 'min' | 'max' | 'abs' | 'sqrt' | 'log';
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'factor'; name: string }
+  | { type: 'negate'; operand: FormulaNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: FormulaFunction; args: FormulaNode[] };
+
+// Name and number of arguments of each function a formula may call
+const FUNCTIONS: Record<FormulaFunction, { minArgs: number; maxArgs: number; apply: (...args: number[]) => number }> = {
+  min: { minArgs: 2, maxArgs: Infinity, apply: Math.min },
+  max: { minArgs: 2, maxArgs: Infinity, apply: Math.max },
+  abs: { minArgs: 1, maxArgs: 1, apply: Math.abs },
+  sqrt: { minArgs: 1, maxArgs: 1, apply: Math.sqrt },
+  log: { minArgs: 1, maxArgs: 1, apply: Math.log },
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS) as FormulaFunction[];
+
+export const MAX_FORMULA_LENGTH = 500;
+export const MAX_NESTING = 32;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+export class FormulaError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d+)?|\.\d+)/.exec(formula.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = NAME_PATTERN.exec(formula.slice(i));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], position: i });
+      i += name[0].length;
+      continue;
+    }
+
+    if ('+-*/^(),'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character "${char}" at position ${i + 1}`, i);
+  }
+
+  tokens.push({ type: 'end', position: formula.length });
+  return tokens;
+}
+
+// Recursive descent over: expression = term (+|- term)*, term = unary (*|/ unary)*,
+// unary = -unary | power, power = primary (^ unary)?, primary = number | factor | call | (expression)
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.expression();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new FormulaError(`Unexpected "${this.describe(next)}" at position ${next.position + 1}`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'symbol' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    if (!this.isSymbol(value)) {
+      const token = this.peek();
+      throw new FormulaError(`Expected "${value}" at position ${token.position + 1}`, token.position);
+    }
+    this.index++;
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'end of formula' : String(token.value);
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_NESTING) {
+      throw new FormulaError('Formula is nested too deeply', this.peek().position);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private expression(): FormulaNode {
+    let node = this.term();
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const operator = (this.tokens[this.index++] as { value: '+' | '-' }).value;
+      node = { type: 'binary', operator, left: node, right: this.term() };
+    }
+    return node;
+  }
+
+  private term(): FormulaNode {
+    let node = this.unary();
+    while (this.isSymbol('*') || this.isSymbol('/')) {
+      const operator = (this.tokens[this.index++] as { value: '*' | '/' }).value;
+      node = { type: 'binary', operator, left: node, right: this.unary() };
+    }
+    return node;
+  }
+
+  private unary(): FormulaNode {
+    if (this.isSymbol('-')) {
+      this.index++;
+      return this.nested(() => ({ type: 'negate', operand: this.unary() }));
+    }
+    return this.power();
+  }
+
+  private power(): FormulaNode {
+    const base = this.primary();
+    if (this.isSymbol('^')) {
+      this.index++;
+      return this.nested(() => ({ type: 'binary', operator: '^', left: base, right: this.unary() }));
+    }
+    return base;
+  }
+
+  private primary(): FormulaNode {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.index++;
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.type === 'name') {
+      this.index++;
+      if (!this.isSymbol('(')) {
+        return { type: 'factor', name: token.value };
+      }
+      return this.call(token.value, token.position);
+    }
+
+    if (this.isSymbol('(')) {
+      this.index++;
+      const node = this.nested(() => this.expression());
+      this.expect(')');
+      return node;
+    }
+
+    throw new FormulaError(`Unexpected "${this.describe(token)}" at position ${token.position + 1}`, token.position);
+  }
+
+  private call(name: string, position: number): FormulaNode {
+    if (!FORMULA_FUNCTIONS.includes(name as FormulaFunction)) {
+      throw new FormulaError(`Unknown function "${name}"; available: ${FORMULA_FUNCTIONS.join(', ')}`, position);
+    }
+    const fn = FUNCTIONS[name as FormulaFunction];
+
+    this.expect('(');
+    const args: FormulaNode[] = [];
+    if (!this.isSymbol(')')) {
+      args.push(this.nested(() => this.expression()));
+      while (this.isSymbol(',')) {
+        this.index++;
+        args.push(this.nested(() => this.expression()));
+      }
+    }
+    this.expect(')');
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `at least ${fn.minArgs}`;
+      throw new FormulaError(`${name}() takes ${expected} argument${fn.minArgs === 1 ? '' : 's'}`, position);
+    }
+    return { type: 'call', name: name as FormulaFunction, args };
+  }
+}
+
+// Parse a formula; throws a FormulaError describing the first problem
+export function parseFormula(formula: string): FormulaNode {
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError(`Formula is longer than ${MAX_FORMULA_LENGTH} characters`, MAX_FORMULA_LENGTH);
+  }
+  if (!formula.trim()) {
+    throw new FormulaError('Formula is empty', 0);
+  }
+  return new Parser(tokenize(formula)).parse();
+}
+
+// Factor names a formula refers to, in order of first use
+export function getFormulaFactors(node: FormulaNode, names: string[] = []): string[] {
+  switch (node.type) {
+    case 'factor':
+      if (!names.includes(node.name)) names.push(node.name);
+      break;
+    case 'negate':
+      getFormulaFactors(node.operand, names);
+      break;
+    case 'binary':
+      getFormulaFactors(node.left, names);
+      getFormulaFactors(node.right, names);
+      break;
+    case 'call':
+      node.args.forEach(arg => getFormulaFactors(arg, names));
+      break;
+  }
+  return names;
+}
+
+// Whether the whole of the text reads as one name (factor or function) in a formula
+export function isFormulaName(text: string): boolean {
+  return NAME_PATTERN.exec(text)?.[0] === text;
+}
+
+// Problems with a formula over the given factors; empty when it can be evaluated
+export function validateFormula(formula: string, factorKeys: string[]): string[] {
+  let node: FormulaNode;
+  try {
+    node = parseFormula(formula);
+  } catch (error) {
+    return [error instanceof Error ? error.message : 'Invalid formula'];
+  }
+
+  return getFormulaFactors(node)
+    .filter(name => !factorKeys.includes(name))
+    .map(name => `Formula uses "${name}", which is not one of the factors (${factorKeys.join(', ') || 'none defined'})`);
+}
+
+function applyOperator(operator: '+' | '-' | '*' | '/' | '^', left: number, right: number): number {
+  switch (operator) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/': return left / right;
+    case '^': return Math.pow(left, right);
+  }
+}
+
+// Evaluate a parsed formula; a missing factor counts as 0. The result may be NaN or
+// infinite (e.g. division by zero), which callers have to handle.
+export function evaluateFormula(node: FormulaNode, values: Record<string, number>): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'factor': {
+      const value = values[node.name];
+      return typeof value === 'number' ? value : 0;
+    }
+    case 'negate':
+      return -evaluateFormula(node.operand, values);
+    case 'binary':
+      return applyOperator(node.operator, evaluateFormula(node.left, values), evaluateFormula(node.right, values));
+    case 'call':
+      return FUNCTIONS[node.name].apply(...node.args.map(arg => evaluateFormula(arg, values)));
+  }
+}
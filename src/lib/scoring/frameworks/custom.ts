@@ -0,0 +1,258 @@
+import {
+  CustomFramework,
+  CustomFrameworkFactor,
+  CustomFrameworkId,
+  FeatureRequest,
+  ScoreFactors,
+  ScoredFeature,
+  ScoringFramework,
+  TierMultipliers,
+} from '@/lib/types';
+import { defaultTierMultipliers } from '@/config/products';
+import {
+  FORMULA_FUNCTIONS,
+  FormulaFunction,
+  FormulaNode,
+  evaluateFormula,
+  isFormulaName,
+  parseFormula,
+  validateFormula,
+} from '../formula';
+
+export interface CustomScoringResult {
+  values: Record<string, number>;
+  rawScore: number;
+  baseScore: number;
+  multiplier: number;
+  finalScore: number;
+  formulaError: boolean;
+}
+
+const CUSTOM_PREFIX = 'custom:';
+const MAX_FACTORS = 12;
+
+// Factors the built-in frameworks score. AI scores and overrides are stored by factor key,
+// so a custom factor with one of these keys would pick up another framework's scores.
+const BUILT_IN_FACTOR_KEYS: (keyof ScoreFactors)[] = [
+  'revenueImpact',
+  'enterpriseReadiness',
+  'requestVolume',
+  'competitiveParity',
+  'strategicAlignment',
+  'effort',
+  'capabilityGap',
+  'competitiveDifferentiation',
+  'reach',
+  'impact',
+  'confidence',
+  'ease',
+  'value',
+  'businessValue',
+  'timeCriticality',
+  'riskReduction',
+  'jobSize',
+];
+
+export function isCustomFramework(framework: ScoringFramework): framework is CustomFrameworkId {
+  return framework.startsWith(CUSTOM_PREFIX);
+}
+
+export function findCustomFramework(
+  framework: ScoringFramework,
+  customFrameworks: CustomFramework[] = []
+): CustomFramework | undefined {
+  return isCustomFramework(framework) ? customFrameworks.find(f => f.id === framework) : undefined;
+}
+
+// Parsed formulas by source text, so ranking hundreds of features parses each formula once
+const parsedFormulas = new Map<string, FormulaNode | null>();
+
+function getParsedFormula(formula: string): FormulaNode | null {
+  if (!parsedFormulas.has(formula)) {
+    let node: FormulaNode | null = null;
+    try {
+      node = parseFormula(formula);
+    } catch {
+      // Saved formulas are validated, so this only happens with hand-edited settings
+    }
+    parsedFormulas.set(formula, node);
+  }
+  return parsedFormulas.get(formula)!;
+}
+
+// Score each factor is given before the AI has scored it: the middle of its scale
+function defaultFactorValue(factor: CustomFrameworkFactor): number {
+  return (factor.scale.min + factor.scale.max) / 2;
+}
+
+// Evaluate the framework's formula over the feature's factor scores
+export function calculateCustomScore(
+  feature: FeatureRequest,
+  scores: ScoreFactors,
+  framework: CustomFramework,
+  customMultipliers?: Partial<TierMultipliers>
+): CustomScoringResult {
+  const multipliers = { ...defaultTierMultipliers, ...customMultipliers };
+  const factorScores = scores as Record<string, unknown>;
+
+  const values: Record<string, number> = {};
+  for (const factor of framework.factors) {
+    const score = factorScores[factor.key];
+    values[factor.key] = typeof score === 'number' ? score : defaultFactorValue(factor);
+  }
+
+  const node = getParsedFormula(framework.formula);
+  const evaluated = node ? evaluateFormula(node, values) : NaN;
+  const formulaError = !Number.isFinite(evaluated);
+  const rawScore = formulaError ? 0 : evaluated;
+
+  // Like the built-in frameworks, scores are kept on the 0-10 scale priorities are mapped from
+  const baseScore = Math.min(Math.max(Math.round(rawScore * 100) / 100, 0), 10);
+  const tierMultiplier = multipliers[feature.customerTier] || 1.0;
+
+  return {
+    values,
+    rawScore,
+    baseScore,
+    multiplier: tierMultiplier,
+    finalScore: Math.round(baseScore * tierMultiplier * 100) / 100,
+    formulaError,
+  };
+}
+
+// Apply a custom framework to a feature request
+export function applyCustomScoring(
+  feature: FeatureRequest,
+  scores: ScoreFactors,
+  framework: CustomFramework,
+  manualOverrides?: Partial<ScoreFactors>,
+  customMultipliers?: Partial<TierMultipliers>
+): Partial<ScoredFeature> {
+  const mergedScores = { ...scores, ...manualOverrides };
+  const result = calculateCustomScore(feature, mergedScores, framework, customMultipliers);
+
+  return {
+    scores: mergedScores,
+    manualOverrides,
+    baseScore: result.baseScore,
+    multiplier: result.multiplier,
+    finalScore: result.finalScore,
+    framework: framework.id,
+    flags: result.formulaError ? ['formula-error'] : undefined,
+  };
+}
+
+// Get the factors of a custom framework for display
+export function getCustomFactors(framework: CustomFramework): {
+  factor: string;
+  key: string;
+  description: string;
+  scale: string;
+}[] {
+  return framework.factors.map(f => ({
+    factor: f.label,
+    key: f.key,
+    description: f.description,
+    scale: `${f.scale.min}-${f.scale.max}`,
+  }));
+}
+
+function toSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'framework';
+}
+
+// ID for a new framework, unique among the existing ones
+function createFrameworkId(name: string, existing: CustomFramework[]): CustomFrameworkId {
+  const slug = toSlug(name);
+  let id: CustomFrameworkId = `${CUSTOM_PREFIX}${slug}`;
+  for (let n = 2; existing.some(f => f.id === id); n++) {
+    id = `${CUSTOM_PREFIX}${slug}-${n}`;
+  }
+  return id;
+}
+
+function validateFactor(input: Partial<CustomFrameworkFactor>, index: number): string[] {
+  const errors: string[] = [];
+  const name = input.label?.trim() || input.key?.trim() || `Factor ${index + 1}`;
+
+  if (!input.key || !isFormulaName(input.key)) {
+    errors.push(`${name}: key must start with a letter and contain only letters, digits and underscores`);
+  } else if (FORMULA_FUNCTIONS.includes(input.key as FormulaFunction)) {
+    errors.push(`${name}: "${input.key}" is a formula function and can't be a factor key`);
+  } else if (input.key === 'moscow' || input.key === 'kano') {
+    errors.push(`${name}: "${input.key}" holds categories and can't be a numeric factor`);
+  } else if (BUILT_IN_FACTOR_KEYS.includes(input.key as keyof ScoreFactors)) {
+    errors.push(`${name}: "${input.key}" is a built-in factor; pick another key`);
+  }
+  if (!input.label?.trim()) {
+    errors.push(`${name}: label is required`);
+  }
+  if (!input.description?.trim()) {
+    errors.push(`${name}: description is required; the AI scores the factor from it`);
+  }
+  const min = input.scale?.min;
+  const max = input.scale?.max;
+  if (typeof min !== 'number' || typeof max !== 'number' || !Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+    errors.push(`${name}: scale needs a minimum below its maximum`);
+  }
+  return errors;
+}
+
+// Check a framework definition before it is saved. The result keeps the ID and creation
+// time of the framework it replaces, or gets new ones.
+export function validateCustomFramework(
+  input: Partial<CustomFramework>,
+  existing: CustomFramework[]
+): { framework?: CustomFramework; errors: string[] } {
+  const errors: string[] = [];
+  const previous = input.id ? existing.find(f => f.id === input.id) : undefined;
+  const name = input.name?.trim() || '';
+  const factors = Array.isArray(input.factors) ? input.factors : [];
+
+  if (input.id && !previous) {
+    errors.push(`Framework ${input.id} does not exist`);
+  }
+  if (!name) {
+    errors.push('Name is required');
+  } else if (existing.some(f => f.id !== previous?.id && f.name.toLowerCase() === name.toLowerCase())) {
+    errors.push(`A framework named "${name}" already exists`);
+  }
+
+  if (factors.length === 0) {
+    errors.push('Add at least one factor');
+  } else if (factors.length > MAX_FACTORS) {
+    errors.push(`A framework can have at most ${MAX_FACTORS} factors`);
+  }
+  factors.forEach((factor, index) => errors.push(...validateFactor(factor, index)));
+
+  const keys = factors.map(f => f.key || '');
+  const duplicates = keys.filter((key, index) => key && keys.indexOf(key) !== index);
+  if (duplicates.length > 0) {
+    errors.push(`Factor keys must be unique: ${[...new Set(duplicates)].join(', ')}`);
+  }
+
+  errors.push(...validateFormula(input.formula || '', keys.filter(Boolean)));
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const now = new Date().toISOString();
+  return {
+    framework: {
+      id: previous?.id || createFrameworkId(name, existing),
+      name,
+      description: input.description?.trim() || '',
+      factors: factors.map(f => ({
+        key: f.key!,
+        label: f.label!.trim(),
+        scale: { min: f.scale!.min, max: f.scale!.max },
+        description: f.description!.trim(),
+      })),
+      formula: input.formula!.trim(),
+      createdAt: previous?.createdAt || now,
+      updatedAt: now,
+    },
+    errors: [],
+  };
+}
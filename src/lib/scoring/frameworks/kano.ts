@@ -0,0 +1,153 @@
+import { FeatureRequest, ScoreFactors, KanoCategory, TierMultipliers, ScoredFeature } from '@/lib/types';
+import { defaultTierMultipliers } from '@/config/products';
+
+export interface KanoScoringResult {
+  category: KanoCategory;
+  baseScore: number;
+  multiplier: number;
+  finalScore: number;
+}
+
+// Kano Categories (by how customer satisfaction responds to the feature):
+// - Must-be: Expected basics - missing them causes dissatisfaction, having them goes unnoticed
+// - Performance: Satisfaction rises with how well it is done
+// - Attractive: Delighters - unexpected, satisfying when present, not missed when absent
+// - Indifferent: Customers don't care either way
+// - Reverse: Some customers are dissatisfied when it is present
+
+export const KANO_CATEGORIES: KanoCategory[] = ['must-be', 'performance', 'attractive', 'indifferent', 'reverse'];
+
+const categoryScores: Record<KanoCategory, number> = {
+  'must-be': 10,
+  performance: 7,
+  attractive: 5,
+  indifferent: 2,
+  reverse: 0,
+};
+
+export function getKanoCategoryLabel(category: KanoCategory): string {
+  const labels: Record<KanoCategory, string> = {
+    'must-be': 'Must-be',
+    performance: 'Performance',
+    attractive: 'Attractive',
+    indifferent: 'Indifferent',
+    reverse: 'Reverse',
+  };
+  return labels[category];
+}
+
+export function isKanoCategory(value: unknown): value is KanoCategory {
+  return KANO_CATEGORIES.includes(value as KanoCategory);
+}
+
+// Infer a Kano category from other scores if not explicitly set. Only the categories that
+// follow from value are inferred; attractive and reverse need an explicit classification.
+export function inferKanoCategory(scores: ScoreFactors): KanoCategory {
+  if (scores.kano) return scores.kano;
+
+  const factors: number[] = [];
+
+  if (scores.value !== undefined) factors.push(scores.value);
+  if (scores.businessValue !== undefined) factors.push(scores.businessValue);
+  if (scores.revenueImpact !== undefined) factors.push(scores.revenueImpact);
+  if (scores.enterpriseReadiness !== undefined) factors.push(scores.enterpriseReadiness);
+  if (scores.capabilityGap !== undefined) factors.push(scores.capabilityGap);
+
+  if (factors.length === 0) return 'indifferent';
+
+  const avgScore = factors.reduce((a, b) => a + b, 0) / factors.length;
+
+  if (avgScore >= 8) return 'must-be';
+  if (avgScore >= 5) return 'performance';
+  return 'indifferent';
+}
+
+export function calculateKanoScore(
+  feature: FeatureRequest,
+  scores: ScoreFactors,
+  customMultipliers?: Partial<TierMultipliers>
+): KanoScoringResult {
+  const multipliers = { ...defaultTierMultipliers, ...customMultipliers };
+
+  // Get or infer category
+  const category = inferKanoCategory(scores);
+  const baseScore = categoryScores[category];
+
+  // Apply customer tier multiplier
+  const tierMultiplier = multipliers[feature.customerTier] || 1.0;
+
+  return {
+    category,
+    baseScore,
+    multiplier: tierMultiplier,
+    finalScore: Math.round(baseScore * tierMultiplier * 100) / 100,
+  };
+}
+
+// Apply Kano scoring to a feature request
+export function applyKanoScoring(
+  feature: FeatureRequest,
+  scores: ScoreFactors,
+  manualOverrides?: Partial<ScoreFactors>,
+  customMultipliers?: Partial<TierMultipliers>
+): Partial<ScoredFeature> {
+  const mergedScores = { ...scores, ...manualOverrides };
+  const result = calculateKanoScore(feature, mergedScores, customMultipliers);
+
+  return {
+    scores: mergedScores,
+    manualOverrides,
+    baseScore: result.baseScore,
+    multiplier: result.multiplier,
+    finalScore: result.finalScore,
+    framework: 'kano',
+    flags: [result.category],
+  };
+}
+
+// Get all categories for display
+export function getAllKanoCategories(): {
+  id: KanoCategory;
+  label: string;
+  description: string;
+  color: string;
+  score: number;
+}[] {
+  return [
+    {
+      id: 'must-be',
+      label: 'Must-be',
+      description: 'Expected basics - their absence causes dissatisfaction',
+      color: 'red',
+      score: 10,
+    },
+    {
+      id: 'performance',
+      label: 'Performance',
+      description: 'The better it is done, the more satisfied customers are',
+      color: 'orange',
+      score: 7,
+    },
+    {
+      id: 'attractive',
+      label: 'Attractive',
+      description: 'Delighters - unexpected, not missed when absent',
+      color: 'blue',
+      score: 5,
+    },
+    {
+      id: 'indifferent',
+      label: 'Indifferent',
+      description: 'Customers do not care either way',
+      color: 'gray',
+      score: 2,
+    },
+    {
+      id: 'reverse',
+      label: 'Reverse',
+      description: 'Some customers are dissatisfied when it is present',
+      color: 'purple',
+      score: 0,
+    },
+  ];
+}
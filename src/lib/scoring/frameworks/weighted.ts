@@ -1,5 +1,6 @@
 import { FeatureRequest, ScoreFactors, WeightConfig, TierMultipliers, ScoredFeature } from '@/lib/types';
 import { getProductWeights, defaultTierMultipliers } from '@/config/products';
+import { getProductStage } from '../weight-profiles';
 
 export interface WeightedScoringResult {
   baseScore: number;
@@ -30,7 +31,7 @@ export function calculateWeightedScore(
   let baseScore = 0;
 
   // Check which weights apply based on product type (mature vs new)
-  const isMatureProduct = feature.product === 'chat' || feature.product === 'calling';
+  const isMatureProduct = getProductStage(feature.product) === 'mature';
 
   if (isMatureProduct) {
     // Mature product factors
@@ -199,7 +200,7 @@ export function getWeightedFactors(product: 'chat' | 'calling' | 'ai-agents' | '
   weight: number;
   description: string;
 }[] {
-  const isMature = product === 'chat' || product === 'calling';
+  const isMature = getProductStage(product) === 'mature';
 
   if (isMature) {
     return [
@@ -220,3 +221,12 @@ export function getWeightedFactors(product: 'chat' | 'calling' | 'ai-agents' | '
     { factor: 'Effort (inverse)', key: 'effort', weight: 0.15, description: 'Development effort required' },
   ];
 }
+
+// Labels for every weight, mature product factors first
+export function getWeightFactorLabels(): Record<keyof WeightConfig, string> {
+  return [...getWeightedFactors('chat'), ...getWeightedFactors('ai-agents')]
+    .reduce((labels, f) => ({
+      ...labels,
+      [f.key]: labels[f.key as keyof WeightConfig] || f.factor,
+    }), {} as Record<keyof WeightConfig, string>);
+}
@@ -0,0 +1,109 @@
+import { FeatureRequest, ScoreFactors, TierMultipliers, ScoredFeature } from '@/lib/types';
+import { defaultTierMultipliers } from '@/config/products';
+
+export interface WSJFScoringResult {
+  businessValue: number;
+  timeCriticality: number;
+  riskReduction: number;
+  jobSize: number;
+  costOfDelay: number;
+  baseScore: number;
+  multiplier: number;
+  finalScore: number;
+}
+
+// WSJF Formula (SAFe): Cost of Delay / Job Size
+// Cost of Delay = Business Value + Time Criticality + Risk Reduction / Opportunity Enablement
+// All factors are on a 1-10 scale
+// - Business Value: Value to users and the business (1-10)
+// - Time Criticality: How quickly does the value decay if we wait? (1-10)
+// - Risk Reduction: Does this reduce risk or enable new opportunities? (1-10)
+// - Job Size: Relative size of the work (1-10, where 10 = largest)
+
+export function calculateWSJFScore(
+  feature: FeatureRequest,
+  scores: ScoreFactors,
+  customMultipliers?: Partial<TierMultipliers>
+): WSJFScoringResult {
+  const multipliers = { ...defaultTierMultipliers, ...customMultipliers };
+
+  // Get WSJF factors (with defaults); job size falls back to effort, which measures the same thing
+  const businessValue = scores.businessValue ?? scores.value ?? 5;
+  const timeCriticality = scores.timeCriticality ?? 5;
+  const riskReduction = scores.riskReduction ?? 5;
+  const jobSize = Math.max(scores.jobSize ?? scores.effort ?? 5, 1); // Prevent division by zero
+
+  // Cost of delay ranges 3-30, so WSJF ranges 0.3-30; like RICE, it is capped at 10
+  const costOfDelay = businessValue + timeCriticality + riskReduction;
+  const rawScore = costOfDelay / jobSize;
+  const baseScore = Math.min(Math.round(rawScore * 10) / 10, 10);
+
+  // Apply customer tier multiplier
+  const tierMultiplier = multipliers[feature.customerTier] || 1.0;
+
+  return {
+    businessValue,
+    timeCriticality,
+    riskReduction,
+    jobSize,
+    costOfDelay,
+    baseScore,
+    multiplier: tierMultiplier,
+    finalScore: Math.round(baseScore * tierMultiplier * 100) / 100,
+  };
+}
+
+// Apply WSJF scoring to a feature request
+export function applyWSJFScoring(
+  feature: FeatureRequest,
+  scores: ScoreFactors,
+  manualOverrides?: Partial<ScoreFactors>,
+  customMultipliers?: Partial<TierMultipliers>
+): Partial<ScoredFeature> {
+  const mergedScores = { ...scores, ...manualOverrides };
+  const result = calculateWSJFScore(feature, mergedScores, customMultipliers);
+
+  return {
+    scores: mergedScores,
+    manualOverrides,
+    baseScore: result.baseScore,
+    multiplier: result.multiplier,
+    finalScore: result.finalScore,
+    framework: 'wsjf',
+  };
+}
+
+// Get the WSJF factors for display
+export function getWSJFFactors(): {
+  factor: string;
+  key: keyof ScoreFactors;
+  description: string;
+  scale: string;
+}[] {
+  return [
+    {
+      factor: 'Business Value',
+      key: 'businessValue',
+      description: 'How much value does this deliver to users and the business?',
+      scale: '1-10 (1 = little, 10 = very high)',
+    },
+    {
+      factor: 'Time Criticality',
+      key: 'timeCriticality',
+      description: 'How much value is lost by delaying it? Fixed deadlines, windows, waiting customers',
+      scale: '1-10 (1 = can wait, 10 = urgent)',
+    },
+    {
+      factor: 'Risk Reduction / Opportunity Enablement',
+      key: 'riskReduction',
+      description: 'Does it reduce delivery, security or compliance risk, or enable future work?',
+      scale: '1-10 (1 = none, 10 = major)',
+    },
+    {
+      factor: 'Job Size',
+      key: 'jobSize',
+      description: 'Relative size of the work compared to other features',
+      scale: '1-10 (1 = days, 10 = several months)',
+    },
+  ];
+}
@@ -0,0 +1,150 @@
+import { CustomFramework, ScoredFeature, ScoringFramework, WeightProfile, WeightScenario } from '@/lib/types';
+import { applyFrameworkScoring, mapScoreToPriority } from './engine';
+import {
+  WeightProfileSettings,
+  pickMultipliers,
+  pickWeights,
+  resolveWeightProfile,
+  validateTierMultipliers,
+  validateWeightConfig,
+} from './weight-profiles';
+
+// Stage weights and multipliers a simulation is run with
+export type ScenarioValues = Pick<WeightScenario, 'weights' | 'tierMultipliers'>;
+
+// Simulated weights and multipliers of one named profile
+export type ProfileValues = Pick<WeightProfile, 'weights' | 'tierMultipliers'>;
+
+export interface SimulatedPosition {
+  rank: number;
+  finalScore: number;
+  priority: 1 | 2 | 3 | 4;
+}
+
+export interface SimulatedFeature {
+  feature: ScoredFeature;
+  baseline: SimulatedPosition;
+  scenario: SimulatedPosition;
+  rankDelta: number; // Positive = moved up
+  priorityChange: 'up' | 'down' | null; // Crossed a priority threshold
+}
+
+// Rescore features from their factor scores (AI scores with overrides already merged), without
+// any AI calls. Each feature is scored with the profile it resolves to under the given settings.
+function rankWith(
+  features: ScoredFeature[],
+  framework: ScoringFramework,
+  settings: WeightProfileSettings,
+  customFrameworks?: CustomFramework[]
+): Map<string, SimulatedPosition> {
+  const scored = features.map(feature => {
+    const profile = resolveWeightProfile(feature, settings);
+    const result = applyFrameworkScoring(
+      feature,
+      feature.scores,
+      framework,
+      undefined,
+      profile.weights,
+      profile.tierMultipliers,
+      customFrameworks
+    );
+    return {
+      id: feature.id,
+      pending: feature.flags.includes('pending-ai-score'),
+      finalScore: result.finalScore || 0,
+    };
+  });
+
+  // Same order as scoreAndSortFeatures: scored features first, then by final score
+  scored.sort((a, b) => (a.pending !== b.pending ? (a.pending ? 1 : -1) : b.finalScore - a.finalScore));
+
+  return new Map(scored.map((s, index) => [s.id, {
+    rank: index + 1,
+    finalScore: s.finalScore,
+    priority: mapScoreToPriority(s.finalScore),
+  }]));
+}
+
+// Settings with simulated stage weights and edited profiles in place of the saved ones
+export function withSimulatedValues(
+  settings: WeightProfileSettings,
+  stage: ScenarioValues,
+  profiles: Record<string, ProfileValues>
+): WeightProfileSettings {
+  return {
+    ...settings,
+    weights: stage.weights,
+    tierMultipliers: stage.tierMultipliers,
+    weightProfiles: settings.weightProfiles.map(p => (profiles[p.id] ? { ...p, ...profiles[p.id] } : p)),
+  };
+}
+
+// Compare the ranking under the saved settings with the ranking under a scenario
+export function simulateScenario(
+  features: ScoredFeature[],
+  framework: ScoringFramework,
+  baseline: WeightProfileSettings,
+  scenario: WeightProfileSettings,
+  customFrameworks?: CustomFramework[]
+): SimulatedFeature[] {
+  const before = rankWith(features, framework, baseline, customFrameworks);
+  const after = rankWith(features, framework, scenario, customFrameworks);
+
+  return features
+    .map(feature => {
+      const baselinePosition = before.get(feature.id)!;
+      const scenarioPosition = after.get(feature.id)!;
+      return {
+        feature,
+        baseline: baselinePosition,
+        scenario: scenarioPosition,
+        rankDelta: baselinePosition.rank - scenarioPosition.rank,
+        // Lower priority numbers are more urgent
+        priorityChange: scenarioPosition.priority < baselinePosition.priority
+          ? 'up' as const
+          : scenarioPosition.priority > baselinePosition.priority
+          ? 'down' as const
+          : null,
+      };
+    })
+    .sort((a, b) => a.scenario.rank - b.scenario.rank);
+}
+
+// Check scenario values before they are saved or applied
+export function validateScenarioValues(input: Partial<ScenarioValues>): string[] {
+  return [
+    ...validateWeightConfig(input.weights?.mature, 'Mature product weight'),
+    ...validateWeightConfig(input.weights?.new, 'New product weight'),
+    ...validateTierMultipliers(input.tierMultipliers),
+  ];
+}
+
+// Check a scenario before it is saved. A scenario with the name of an existing one replaces it.
+export function validateWeightScenario(
+  input: Partial<WeightScenario>,
+  existing: WeightScenario[]
+): { scenario?: WeightScenario; errors: string[] } {
+  const name = input.name?.trim() || '';
+  const errors = [
+    ...(name ? [] : ['Name is required']),
+    ...validateScenarioValues(input),
+  ];
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const previous = existing.find(s => s.name.toLowerCase() === name.toLowerCase());
+  return {
+    scenario: {
+      id: previous?.id || `scenario-${Date.now().toString(36)}`,
+      name,
+      weights: {
+        mature: pickWeights(input.weights!.mature),
+        new: pickWeights(input.weights!.new),
+      },
+      tierMultipliers: pickMultipliers(input.tierMultipliers!),
+      createdAt: new Date().toISOString(),
+    },
+    errors: [],
+  };
+}
@@ -0,0 +1,186 @@
+import {
+  FeatureRequest,
+  Product,
+  Settings,
+  TierMultipliers,
+  WeightConfig,
+  WeightProfile,
+  WeightProfileAssignments,
+} from '@/lib/types';
+import { getProductConfig } from '@/config/products';
+
+// Settings a feature's weights are resolved from
+export type WeightProfileSettings = Pick<Settings, 'weights' | 'tierMultipliers' | 'weightProfiles' | 'profileAssignments'>;
+
+// Weights and tier multipliers a feature is scored with, and where they came from
+export interface ResolvedWeightProfile {
+  id: string; // Profile ID, or the stage ('mature' / 'new') when no profile is assigned
+  name: string;
+  source: 'team' | 'product' | 'stage';
+  weights: WeightConfig;
+  tierMultipliers: TierMultipliers;
+}
+
+export const WEIGHT_KEYS: (keyof WeightConfig)[] = [
+  'revenueImpact',
+  'enterpriseReadiness',
+  'requestVolume',
+  'competitiveParity',
+  'strategicAlignment',
+  'effort',
+  'capabilityGap',
+  'competitiveDifferentiation',
+];
+
+export const TIERS: (keyof TierMultipliers)[] = ['C1', 'C2', 'C3', 'C4', 'C5'];
+
+// Upper bounds the validators accept (and the editors' sliders reach)
+export const MAX_WEIGHT = 1;
+export const MAX_MULTIPLIER = 5;
+
+export const EMPTY_PROFILE_ASSIGNMENTS: WeightProfileAssignments = {
+  products: {},
+  teams: {},
+};
+
+export function getProductStage(product: Product): keyof Settings['weights'] {
+  return getProductConfig(product)?.stage === 'new' ? 'new' : 'mature';
+}
+
+// The one place a feature's weights are chosen. A profile assigned to the feature's Linear team
+// wins over one assigned to its product; without either, the product stage's weights are used.
+export function resolveWeightProfile(
+  feature: Pick<FeatureRequest, 'product' | 'teamKey'>,
+  settings: WeightProfileSettings
+): ResolvedWeightProfile {
+  const { products, teams } = settings.profileAssignments;
+  const teamKey = feature.teamKey?.toUpperCase();
+  const candidates: [ResolvedWeightProfile['source'], string | undefined][] = [
+    ['team', teamKey && teams[teamKey]],
+    ['product', products[feature.product]],
+  ];
+
+  for (const [source, profileId] of candidates) {
+    const profile = profileId && settings.weightProfiles.find(p => p.id === profileId);
+    if (profile) {
+      return {
+        id: profile.id,
+        name: profile.name,
+        source,
+        weights: profile.weights,
+        tierMultipliers: profile.tierMultipliers,
+      };
+    }
+  }
+
+  const stage = getProductStage(feature.product);
+  return {
+    id: stage,
+    name: stage === 'new' ? 'New products' : 'Mature products',
+    source: 'stage',
+    weights: settings.weights[stage],
+    tierMultipliers: settings.tierMultipliers,
+  };
+}
+
+// Copies without any other keys a request may carry
+export function pickWeights(weights: WeightConfig): WeightConfig {
+  return Object.fromEntries(WEIGHT_KEYS.map(key => [key, weights[key]])) as unknown as WeightConfig;
+}
+
+export function pickMultipliers(multipliers: TierMultipliers): TierMultipliers {
+  return Object.fromEntries(TIERS.map(tier => [tier, multipliers[tier]])) as unknown as TierMultipliers;
+}
+
+function isInRange(value: unknown, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max;
+}
+
+// Errors are prefixed with the label, e.g. "Mature product weight effort must be between 0 and 1"
+export function validateWeightConfig(weights: Partial<WeightConfig> | undefined, label: string): string[] {
+  return WEIGHT_KEYS
+    .filter(key => !isInRange(weights?.[key], MAX_WEIGHT))
+    .map(key => `${label} ${key} must be between 0 and ${MAX_WEIGHT}`);
+}
+
+export function validateTierMultipliers(multipliers: Partial<TierMultipliers> | undefined): string[] {
+  return TIERS
+    .filter(tier => !isInRange(multipliers?.[tier], MAX_MULTIPLIER))
+    .map(tier => `${tier} multiplier must be between 0 and ${MAX_MULTIPLIER}`);
+}
+
+// Check a profile before it is saved, either new or replacing the one with its ID
+export function validateWeightProfile(
+  input: Partial<WeightProfile>,
+  existing: WeightProfile[]
+): { profile?: WeightProfile; errors: string[] } {
+  const name = input.name?.trim() || '';
+  const errors = [
+    ...(name ? [] : ['Name is required']),
+    ...validateWeightConfig(input.weights, 'Weight'),
+    ...validateTierMultipliers(input.tierMultipliers),
+  ];
+  if (name && existing.some(p => p.id !== input.id && p.name.toLowerCase() === name.toLowerCase())) {
+    errors.push(`A profile named "${name}" already exists`);
+  }
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const previous = existing.find(p => p.id === input.id);
+  return {
+    profile: {
+      id: previous?.id || `profile-${Date.now().toString(36)}`,
+      name,
+      weights: pickWeights(input.weights as WeightConfig),
+      tierMultipliers: pickMultipliers(input.tierMultipliers as TierMultipliers),
+    },
+    errors: [],
+  };
+}
+
+// Check assignments against the saved profiles; team keys are stored upper-case like Linear shows them
+export function validateProfileAssignments(
+  input: Partial<WeightProfileAssignments>,
+  profiles: WeightProfile[]
+): { assignments?: WeightProfileAssignments; errors: string[] } {
+  const profileIds = new Set(profiles.map(p => p.id));
+  const errors: string[] = [];
+  const assignments: WeightProfileAssignments = { products: {}, teams: {} };
+
+  for (const [product, profileId] of Object.entries(input.products || {})) {
+    if (!profileId) continue;
+    if (!getProductConfig(product as Product)) {
+      errors.push(`Unknown product ${product}`);
+    } else if (!profileIds.has(profileId)) {
+      errors.push(`Unknown profile ${profileId} for product ${product}`);
+    } else {
+      assignments.products[product as Product] = profileId;
+    }
+  }
+
+  for (const [team, profileId] of Object.entries(input.teams || {})) {
+    const teamKey = team.trim().toUpperCase();
+    if (!teamKey || !profileId) continue;
+    if (!profileIds.has(profileId)) {
+      errors.push(`Unknown profile ${profileId} for team ${teamKey}`);
+    } else {
+      assignments.teams[teamKey] = profileId;
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { assignments, errors: [] };
+}
+
+// Assignments left once a profile is deleted
+export function removeProfileAssignments(
+  assignments: WeightProfileAssignments,
+  profileId: string
+): WeightProfileAssignments {
+  const keep = (entries: Record<string, string | undefined>) =>
+    Object.fromEntries(Object.entries(entries).filter(([, id]) => id !== profileId));
+  return {
+    products: keep(assignments.products),
+    teams: keep(assignments.teams),
+  } as WeightProfileAssignments;
+}
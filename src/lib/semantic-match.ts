@@ -0,0 +1,228 @@
+import { createHash } from 'crypto';
+import {
+  EmbeddingProvider,
+  FeaturebasePost,
+  ImportedFeature,
+  LinearIssue,
+  SemanticMatchingSettings,
+  ZendeskTicket,
+} from '@/lib/types';
+import { extractKeywords, calculateKeywordSimilarity } from '@/lib/text-match';
+import { loadEmbeddings, saveEmbeddings } from '@/lib/embedding-store';
+import { embedWithOpenAI } from '@/lib/ai/openai-client';
+import { embedWithGemini } from '@/lib/ai/gemini-client';
+import { addUsageRecord } from '@/lib/usage-tracker';
+import { SourceFeedback } from '@/lib/feedback-sources/types';
+
+// Long descriptions add little to an embedding and cost tokens
+const MAX_TEXT_LENGTH = 4000;
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+const LOCAL_DIMENSIONS = 512;
+
+// Cache key per provider model; changing the model discards the cached vectors
+const EMBEDDING_MODELS: Record<Exclude<EmbeddingProvider, 'local'>, string> = {
+  openai: 'openai:text-embedding-3-small:512',
+  gemini: 'gemini:text-embedding-004',
+};
+
+// Compares texts by embedding; similarity is null when either text has no vector
+export interface SemanticMatcher {
+  provider: EmbeddingProvider;
+  threshold: number;
+  similarity(a: string, b: string): number | null;
+}
+
+// The text compared for a document. Cached vectors are keyed by a hash of exactly this
+// text, so the correlator and the embedding refresh must both build it here.
+export function matchText(title: string, body?: string | null): string {
+  return `${title}\n${body || ''}`.trim().slice(0, MAX_TEXT_LENGTH);
+}
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 32);
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+// Vectors are normalized when created, so the dot product is the cosine similarity
+function dot(a: Float32Array, b: Float32Array): number {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// 32-bit FNV-1a
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Deterministic offline embedding: hashed keywords, keyword pairs and character trigrams.
+// Trigrams let "exporting" match "export"; it does not understand synonyms like the
+// provider models do.
+export function localEmbedding(text: string): Float32Array {
+  const vector = new Float32Array(LOCAL_DIMENSIONS);
+  const add = (feature: string, weight: number) => {
+    const hash = hashFeature(feature);
+    // The top bit picks the sign so colliding features tend to cancel out
+    vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  const keywords = extractKeywords(text);
+  keywords.forEach((word, index) => {
+    add(`w:${word}`, 1);
+    if (index > 0) add(`b:${keywords[index - 1]} ${word}`, 0.5);
+
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, 0.3);
+    }
+  });
+
+  return normalize(vector);
+}
+
+function createMatcher(
+  provider: EmbeddingProvider,
+  threshold: number,
+  lookup: (text: string) => Float32Array | null
+): SemanticMatcher {
+  // Each text is compared against many others, so its vector is looked up once
+  const vectors = new Map<string, Float32Array | null>();
+  const vectorFor = (text: string) => {
+    let vector = vectors.get(text);
+    if (vector === undefined) {
+      vector = lookup(text);
+      vectors.set(text, vector);
+    }
+    return vector;
+  };
+
+  return {
+    provider,
+    threshold,
+    similarity(a, b) {
+      const vectorA = vectorFor(a);
+      const vectorB = vectorA && vectorFor(b);
+      return vectorA && vectorB ? dot(vectorA, vectorB) : null;
+    },
+  };
+}
+
+// Matcher for the current settings, or undefined when semantic matching is off
+export async function loadSemanticMatcher(
+  settings: SemanticMatchingSettings
+): Promise<SemanticMatcher | undefined> {
+  if (!settings.enabled) return undefined;
+
+  if (settings.provider === 'local') {
+    return createMatcher('local', settings.threshold, localEmbedding);
+  }
+
+  const vectors = await loadEmbeddings(EMBEDDING_MODELS[settings.provider]);
+  return createMatcher(settings.provider, settings.threshold, text => vectors.get(contentHash(text)) || null);
+}
+
+// Score two texts if they are related: by embedding when both have one, otherwise by
+// keyword overlap against the caller's keyword threshold. Null when not related.
+export function compareTexts(
+  a: string,
+  aKeywords: string[],
+  b: string,
+  bKeywords: string[],
+  keywordThreshold: number,
+  semantic?: SemanticMatcher
+): number | null {
+  const similarity = semantic?.similarity(a, b) ?? null;
+  if (semantic && similarity !== null) {
+    return similarity >= semantic.threshold ? similarity : null;
+  }
+
+  const keywordSimilarity = calculateKeywordSimilarity(aKeywords, bKeywords);
+  return keywordSimilarity > keywordThreshold ? keywordSimilarity : null;
+}
+
+// Every text the correlator compares
+export function collectMatchTexts(data: {
+  linearIssues: LinearIssue[];
+  featurebasePosts: FeaturebasePost[];
+  zendeskTickets: ZendeskTicket[];
+  feedback: SourceFeedback[];
+  importedFeatures: ImportedFeature[];
+}): string[] {
+  return [
+    ...data.linearIssues.map(i => matchText(i.title, i.description)),
+    ...data.importedFeatures.map(f => matchText(f.title, f.description)),
+    ...data.featurebasePosts.map(p => matchText(p.title, p.content)),
+    ...data.zendeskTickets.map(t => matchText(t.subject, t.description)),
+    ...data.feedback.flatMap(f => f.signals.map(s => matchText(s.title, s.body))),
+  ];
+}
+
+async function embedBatch(provider: Exclude<EmbeddingProvider, 'local'>, texts: string[]): Promise<number[][]> {
+  if (provider === 'gemini') {
+    return embedWithGemini(texts);
+  }
+
+  const result = await embedWithOpenAI(texts);
+  if (result.tokensUsed > 0) {
+    await addUsageRecord('openai', result.tokensUsed, result.cost);
+  }
+  return result.vectors;
+}
+
+// Embed texts that have no cached vector and drop vectors no text uses any more.
+// The local model needs no cache. Batches embedded before a failure are kept.
+export async function refreshEmbeddings(
+  settings: SemanticMatchingSettings,
+  texts: string[]
+): Promise<{ embedded: number; total: number }> {
+  const byHash = new Map(texts.filter(Boolean).map(text => [contentHash(text), text]));
+  if (!settings.enabled || settings.provider === 'local') {
+    return { embedded: 0, total: byHash.size };
+  }
+
+  const provider = settings.provider;
+  const model = EMBEDDING_MODELS[provider];
+  const cachedVectors = await loadEmbeddings(model);
+
+  const vectors = new Map<string, Float32Array>();
+  for (const hash of byHash.keys()) {
+    const vector = cachedVectors.get(hash);
+    if (vector) vectors.set(hash, vector);
+  }
+
+  const missing = [...byHash.entries()].filter(([hash]) => !vectors.has(hash));
+  let embedded = 0;
+  try {
+    for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const batchVectors = await embedBatch(provider, batch.map(([, text]) => text));
+      batch.forEach(([hash], index) => {
+        const values = batchVectors[index];
+        if (values) vectors.set(hash, normalize(Float32Array.from(values)));
+      });
+      embedded += batch.length;
+    }
+  } finally {
+    await saveEmbeddings(model, vectors);
+  }
+
+  console.log(`Embedded ${embedded} texts with ${provider} (${vectors.size} cached)`);
+  return { embedded, total: byHash.size };
+}
@@ -6,11 +6,31 @@ import {
   AIModel,
   Product,
   AIPromptConfig,
-  EnhancedAIPromptConfig
+  EnhancedAIPromptConfig,
+  SyncScope,
+  LinearWriteBackSettings,
+  SemanticMatchingSettings,
+  CustomFramework,
+  CustomFrameworkId,
+  WeightScenario,
+  WeightProfile,
+  WeightProfileAssignments
 } from '@/lib/types';
-import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
-import paths from '@/config/paths';
+import { documentKeys, markDataChanged, readDocument, transaction, writeDocument } from '@/lib/db/database';
 import { matureProductWeights, newProductWeights, defaultTierMultipliers } from '@/config/products';
+import { defaultSyncScope } from '@/lib/sync-scope';
+import { defaultLinearWriteBack } from '@/lib/linear-labels';
+import { defaultSemanticMatching } from '@/lib/config/semantic-defaults';
+import { validateCustomFramework } from '@/lib/scoring/frameworks/custom';
+import { ScenarioValues, validateScenarioValues, validateWeightScenario } from '@/lib/scoring/simulator';
+import {
+  EMPTY_PROFILE_ASSIGNMENTS,
+  pickMultipliers,
+  pickWeights,
+  removeProfileAssignments,
+  validateProfileAssignments,
+  validateWeightProfile,
+} from '@/lib/scoring/weight-profiles';
 // Import client-safe defaults (no fs dependency)
 import {
   defaultEnhancedPromptConfig,
@@ -39,15 +59,23 @@ const defaultSettings: Settings = {
   promptConfig: defaultPromptConfig,
   projectMappings: {}, // Custom project-to-product mappings (projectId -> product)
   excludedProjects: [], // Projects to exclude from features list
+  syncScope: defaultSyncScope,
+  linearWriteBack: defaultLinearWriteBack,
+  semanticMatching: defaultSemanticMatching,
+  customFrameworks: [],
+  weightScenarios: [],
+  weightProfiles: [],
+  profileAssignments: EMPTY_PROFILE_ASSIGNMENTS,
   lastUpdated: new Date().toISOString(),
 };
 
 // Load settings
 export async function loadSettings(): Promise<Settings> {
-  const settings = await loadLocalJson<Settings>(
-    paths.local.settings,
-    defaultSettings
-  );
+  return readSettings();
+}
+
+function readSettings(): Settings {
+  const settings = readDocument<Settings>(documentKeys.settings, defaultSettings);
 
   // Ensure all required fields exist (for backwards compatibility)
   const mergedSettings: Settings = {
@@ -73,6 +101,16 @@ export async function loadSettings(): Promise<Settings> {
     },
     projectMappings: { ...defaultSettings.projectMappings, ...settings.projectMappings },
     excludedProjects: settings.excludedProjects || defaultSettings.excludedProjects,
+    syncScope: { ...defaultSettings.syncScope, ...settings.syncScope },
+    linearWriteBack: { ...defaultSettings.linearWriteBack, ...settings.linearWriteBack },
+    semanticMatching: { ...defaultSettings.semanticMatching, ...settings.semanticMatching },
+    customFrameworks: settings.customFrameworks || defaultSettings.customFrameworks,
+    weightScenarios: settings.weightScenarios || defaultSettings.weightScenarios,
+    weightProfiles: settings.weightProfiles || defaultSettings.weightProfiles,
+    profileAssignments: {
+      products: { ...settings.profileAssignments?.products },
+      teams: { ...settings.profileAssignments?.teams },
+    },
   };
 
   return mergedSettings;
@@ -141,109 +179,116 @@ function mergeEnhancedConfig(
 
 // Save settings
 export async function saveSettings(settings: Settings): Promise<void> {
+  writeSettings(settings);
+}
+
+function writeSettings(settings: Settings): void {
   const updatedSettings = {
     ...settings,
     lastUpdated: new Date().toISOString(),
   };
-  await saveLocalJson(paths.local.settings, updatedSettings);
+  writeDocument(documentKeys.settings, updatedSettings);
+  markDataChanged();
+}
+
+// Read, change and save the settings in one transaction so concurrent updates aren't lost
+function updateSettings(change: (settings: Settings) => void): Settings {
+  return transaction(() => {
+    const settings = readSettings();
+    change(settings);
+    writeSettings(settings);
+    return settings;
+  });
 }
 
 // Update active framework
 export async function setActiveFramework(framework: ScoringFramework): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.activeFramework = framework;
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.activeFramework = framework;
+  });
 }
 
 // Update weights for mature products
 export async function setMatureWeights(weights: Partial<WeightConfig>): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.weights.mature = { ...settings.weights.mature, ...weights };
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.weights.mature = { ...settings.weights.mature, ...weights };
+  });
 }
 
 // Update weights for new products
 export async function setNewProductWeights(weights: Partial<WeightConfig>): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.weights.new = { ...settings.weights.new, ...weights };
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.weights.new = { ...settings.weights.new, ...weights };
+  });
 }
 
 // Update tier multipliers
 export async function setTierMultipliers(multipliers: Partial<TierMultipliers>): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.tierMultipliers = { ...settings.tierMultipliers, ...multipliers };
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.tierMultipliers = { ...settings.tierMultipliers, ...multipliers };
+  });
 }
 
 // Update AI model settings
 export async function setAIModelSettings(aiSettings: Partial<Settings['aiModel']>): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.aiModel = { ...settings.aiModel, ...aiSettings };
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.aiModel = { ...settings.aiModel, ...aiSettings };
+  });
 }
 
 // Update prompt configuration (legacy)
 export async function setPromptConfig(promptConfig: Partial<AIPromptConfig>): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.promptConfig = {
-    ...settings.promptConfig,
-    ...promptConfig,
-    customerTiers: {
-      ...settings.promptConfig.customerTiers,
-      ...promptConfig.customerTiers,
-    },
-    // Keep enhanced config if it exists
-    enhanced: settings.promptConfig.enhanced,
-  };
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.promptConfig = {
+      ...settings.promptConfig,
+      ...promptConfig,
+      customerTiers: {
+        ...settings.promptConfig.customerTiers,
+        ...promptConfig.customerTiers,
+      },
+      // Keep enhanced config if it exists
+      enhanced: settings.promptConfig.enhanced,
+    };
+  });
 }
 
 // Update enhanced prompt configuration
 export async function setEnhancedPromptConfig(
   enhancedConfig: Partial<EnhancedAIPromptConfig>
 ): Promise<Settings> {
-  const settings = await loadSettings();
-  const currentEnhanced = settings.promptConfig.enhanced || defaultEnhancedPromptConfig;
+  return updateSettings((settings) => {
+    const currentEnhanced = settings.promptConfig.enhanced || defaultEnhancedPromptConfig;
 
-  settings.promptConfig.enhanced = mergeEnhancedConfig(currentEnhanced, enhancedConfig);
+    settings.promptConfig.enhanced = mergeEnhancedConfig(currentEnhanced, enhancedConfig);
 
-  // Also update legacy fields for backwards compatibility
-  if (enhancedConfig.companyDescription) {
-    settings.promptConfig.companyDescription = enhancedConfig.companyDescription;
-  }
-  if (enhancedConfig.products) {
-    settings.promptConfig.products = enhancedConfig.products.map(
-      p => `${p.name} - ${p.scoringFocus.join(', ')}`
-    );
-  }
-  if (enhancedConfig.strategicGoals) {
-    settings.promptConfig.strategicPriorities = enhancedConfig.strategicGoals
-      .filter(g => g.priority === 'primary')
-      .map(g => g.goal);
-  }
-  if (enhancedConfig.knownGaps) {
-    settings.promptConfig.knownGaps = enhancedConfig.knownGaps.map(g =>
-      g.notes ? `${g.name} (${g.notes})` : g.name
-    );
-  }
-  if (enhancedConfig.customerTiers) {
-    for (const tier of enhancedConfig.customerTiers) {
-      settings.promptConfig.customerTiers[tier.tier] = tier.definition;
+    // Also update legacy fields for backwards compatibility
+    if (enhancedConfig.companyDescription) {
+      settings.promptConfig.companyDescription = enhancedConfig.companyDescription;
     }
-  }
-  if (enhancedConfig.additionalInstructions !== undefined) {
-    settings.promptConfig.additionalInstructions = enhancedConfig.additionalInstructions;
-  }
-
-  await saveSettings(settings);
-  return settings;
+    if (enhancedConfig.products) {
+      settings.promptConfig.products = enhancedConfig.products.map(
+        p => `${p.name} - ${p.scoringFocus.join(', ')}`
+      );
+    }
+    if (enhancedConfig.strategicGoals) {
+      settings.promptConfig.strategicPriorities = enhancedConfig.strategicGoals
+        .filter(g => g.priority === 'primary')
+        .map(g => g.goal);
+    }
+    if (enhancedConfig.knownGaps) {
+      settings.promptConfig.knownGaps = enhancedConfig.knownGaps.map(g =>
+        g.notes ? `${g.name} (${g.notes})` : g.name
+      );
+    }
+    if (enhancedConfig.customerTiers) {
+      for (const tier of enhancedConfig.customerTiers) {
+        settings.promptConfig.customerTiers[tier.tier] = tier.definition;
+      }
+    }
+    if (enhancedConfig.additionalInstructions !== undefined) {
+      settings.promptConfig.additionalInstructions = enhancedConfig.additionalInstructions;
+    }
+  });
 }
 
 // Get enhanced prompt config (with defaults applied)
@@ -253,76 +298,208 @@ export function getEnhancedPromptConfig(settings: Settings): EnhancedAIPromptCon
 
 // Reset prompt configuration to defaults
 export async function resetPromptConfig(): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.promptConfig = { ...defaultPromptConfig };
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.promptConfig = { ...defaultPromptConfig };
+  });
 }
 
 // Reset only enhanced config to defaults
 export async function resetEnhancedPromptConfig(): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.promptConfig.enhanced = { ...defaultEnhancedPromptConfig };
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.promptConfig.enhanced = { ...defaultEnhancedPromptConfig };
+  });
 }
 
 // Update project mapping (set custom product for a project)
 export async function setProjectMapping(projectId: string, product: Product): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.projectMappings[projectId] = product;
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.projectMappings[projectId] = product;
+  });
 }
 
 // Remove project mapping (revert to auto-detection)
 export async function removeProjectMapping(projectId: string): Promise<Settings> {
-  const settings = await loadSettings();
-  delete settings.projectMappings[projectId];
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    delete settings.projectMappings[projectId];
+  });
 }
 
 // Update multiple project mappings at once
 export async function setProjectMappings(mappings: Record<string, Product>): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.projectMappings = { ...settings.projectMappings, ...mappings };
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.projectMappings = { ...settings.projectMappings, ...mappings };
+  });
 }
 
 // Clear all project mappings
 export async function clearProjectMappings(): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.projectMappings = {};
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.projectMappings = {};
+  });
 }
 
 // Exclude a project
 export async function excludeProject(projectId: string): Promise<Settings> {
-  const settings = await loadSettings();
-  if (!settings.excludedProjects.includes(projectId)) {
-    settings.excludedProjects.push(projectId);
-  }
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    if (!settings.excludedProjects.includes(projectId)) {
+      settings.excludedProjects.push(projectId);
+    }
+  });
 }
 
 // Include a project (remove from excluded list)
 export async function includeProject(projectId: string): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.excludedProjects = settings.excludedProjects.filter(id => id !== projectId);
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.excludedProjects = settings.excludedProjects.filter(id => id !== projectId);
+  });
 }
 
 // Set excluded projects list
 export async function setExcludedProjects(projectIds: string[]): Promise<Settings> {
-  const settings = await loadSettings();
-  settings.excludedProjects = projectIds;
-  await saveSettings(settings);
-  return settings;
+  return updateSettings((settings) => {
+    settings.excludedProjects = projectIds;
+  });
+}
+
+// Update the Linear sync scope
+export async function setSyncScope(scope: Partial<SyncScope>): Promise<Settings> {
+  return updateSettings((settings) => {
+    settings.syncScope = { ...settings.syncScope, ...scope };
+  });
+}
+
+// Update what a Linear push writes besides priority and sort order
+export async function setLinearWriteBack(writeBack: Partial<LinearWriteBackSettings>): Promise<Settings> {
+  return updateSettings((settings) => {
+    settings.linearWriteBack = { ...settings.linearWriteBack, ...writeBack };
+  });
+}
+
+// Update embedding-based matching
+export async function setSemanticMatching(semanticMatching: Partial<SemanticMatchingSettings>): Promise<Settings> {
+  return updateSettings((settings) => {
+    settings.semanticMatching = { ...settings.semanticMatching, ...semanticMatching };
+  });
+}
+
+// Validate and save a custom framework, either new or replacing the one with its ID
+export async function saveCustomFramework(
+  input: Partial<CustomFramework>
+): Promise<{ framework?: CustomFramework; errors: string[] }> {
+  return transaction(() => {
+    const settings = readSettings();
+    const result = validateCustomFramework(input, settings.customFrameworks);
+    const saved = result.framework;
+    if (saved) {
+      const index = settings.customFrameworks.findIndex(f => f.id === saved.id);
+      if (index >= 0) {
+        settings.customFrameworks[index] = saved;
+      } else {
+        settings.customFrameworks.push(saved);
+      }
+      writeSettings(settings);
+    }
+    return result;
+  });
+}
+
+// Delete a custom framework; if it was active, weighted scoring takes over
+export async function deleteCustomFramework(id: CustomFrameworkId): Promise<Settings> {
+  return updateSettings((settings) => {
+    settings.customFrameworks = settings.customFrameworks.filter(f => f.id !== id);
+    if (settings.activeFramework === id) {
+      settings.activeFramework = 'weighted';
+    }
+  });
+}
+
+// Save a what-if scenario, replacing one with the same name
+export async function saveWeightScenario(
+  input: Partial<WeightScenario>
+): Promise<{ scenario?: WeightScenario; errors: string[] }> {
+  return transaction(() => {
+    const settings = readSettings();
+    const result = validateWeightScenario(input, settings.weightScenarios);
+    const saved = result.scenario;
+    if (saved) {
+      settings.weightScenarios = [
+        ...settings.weightScenarios.filter(s => s.id !== saved.id),
+        saved,
+      ];
+      writeSettings(settings);
+    }
+    return result;
+  });
+}
+
+export async function deleteWeightScenario(id: string): Promise<Settings> {
+  return updateSettings((settings) => {
+    settings.weightScenarios = settings.weightScenarios.filter(s => s.id !== id);
+  });
+}
+
+// Make a scenario's weights and tier multipliers the ones features are scored with
+export async function applyWeightScenario(
+  values: Partial<ScenarioValues>
+): Promise<{ settings?: Settings; errors: string[] }> {
+  const errors = validateScenarioValues(values);
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const settings = updateSettings((current) => {
+    current.weights = {
+      mature: pickWeights(values.weights!.mature),
+      new: pickWeights(values.weights!.new),
+    };
+    current.tierMultipliers = pickMultipliers(values.tierMultipliers!);
+  });
+  return { settings, errors: [] };
+}
+
+// Validate and save a weight profile, either new or replacing the one with its ID
+export async function saveWeightProfile(
+  input: Partial<WeightProfile>
+): Promise<{ profile?: WeightProfile; errors: string[] }> {
+  return transaction(() => {
+    const settings = readSettings();
+    const result = validateWeightProfile(input, settings.weightProfiles);
+    const saved = result.profile;
+    if (saved) {
+      const index = settings.weightProfiles.findIndex(p => p.id === saved.id);
+      if (index >= 0) {
+        settings.weightProfiles[index] = saved;
+      } else {
+        settings.weightProfiles.push(saved);
+      }
+      writeSettings(settings);
+    }
+    return result;
+  });
+}
+
+// Delete a weight profile; products and teams it was assigned to go back to their stage weights
+export async function deleteWeightProfile(id: string): Promise<Settings> {
+  return updateSettings((settings) => {
+    settings.weightProfiles = settings.weightProfiles.filter(p => p.id !== id);
+    settings.profileAssignments = removeProfileAssignments(settings.profileAssignments, id);
+  });
+}
+
+// Replace which profiles products and teams are scored with
+export async function setProfileAssignments(
+  input: Partial<WeightProfileAssignments>
+): Promise<{ settings?: Settings; errors: string[] }> {
+  return transaction(() => {
+    const current = readSettings();
+    const { assignments, errors } = validateProfileAssignments(input, current.weightProfiles);
+    if (!assignments) {
+      return { errors };
+    }
+    current.profileAssignments = assignments;
+    writeSettings(current);
+    return { settings: current, errors: [] };
+  });
 }
 
 // Reset settings to defaults
@@ -0,0 +1,82 @@
+import { LinearIssue, SyncScope } from '@/lib/types';
+
+// Default scope: backlog issues in "Product Icebox" projects across all teams
+export const defaultSyncScope: SyncScope = {
+  teamKeys: [],
+  projectPatterns: ['icebox'],
+  stateTypes: ['backlog'],
+  labels: [],
+};
+
+// Linear workflow state types, in board order
+export const LINEAR_STATE_TYPES = [
+  'triage',
+  'backlog',
+  'unstarted',
+  'started',
+  'completed',
+  'canceled',
+] as const;
+
+// Check whether a project name matches the scope's project patterns
+export function matchesProjectScope(projectName: string | undefined, scope: SyncScope): boolean {
+  if (scope.projectPatterns.length === 0) return true;
+  const name = (projectName || '').toLowerCase();
+  return scope.projectPatterns.some(pattern => name.includes(pattern.toLowerCase()));
+}
+
+// Check whether an issue falls inside the scope's team, project and label filters.
+// Issues synced through a saved Linear filter are trusted as-is.
+export function isIssueInSyncScope(issue: LinearIssue, scope: SyncScope): boolean {
+  if (scope.customViewId) return true;
+
+  if (scope.teamKeys.length > 0) {
+    const teamKey = issue.team?.key?.toLowerCase();
+    if (!teamKey || !scope.teamKeys.some(key => key.toLowerCase() === teamKey)) {
+      return false;
+    }
+  }
+
+  if (scope.projectPatterns.length > 0 && !matchesProjectScope(issue.project?.name, scope)) {
+    return false;
+  }
+
+  if (scope.labels.length > 0) {
+    const labels = new Set(issue.labels?.nodes?.map(l => l.name.toLowerCase()) || []);
+    if (!scope.labels.some(label => labels.has(label.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Check whether an issue is an in-scope backlog candidate (adds the workflow state check)
+export function isBacklogIssueInScope(issue: LinearIssue, scope: SyncScope): boolean {
+  if (!isIssueInSyncScope(issue, scope)) return false;
+  if (scope.stateTypes.length === 0) return true;
+
+  const stateType = issue.state?.type?.toLowerCase() || '';
+  return scope.stateTypes.some(type => type.toLowerCase() === stateType);
+}
+
+// Build the Linear IssueFilter for the scope's team and label filters, limited to the given projects.
+// State types are left to correlation so issues moving out of backlog are still tracked.
+export function buildIssueFilter(
+  scope: SyncScope,
+  projectIds?: string[]
+): Record<string, unknown> {
+  const filter: Record<string, unknown> = {};
+
+  if (projectIds) {
+    filter.project = { id: { in: projectIds } };
+  }
+  if (scope.teamKeys.length > 0) {
+    filter.team = { key: { in: scope.teamKeys } };
+  }
+  if (scope.labels.length > 0) {
+    filter.labels = { some: { name: { in: scope.labels } } };
+  }
+
+  return filter;
+}
@@ -0,0 +1,67 @@
+import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
+import { isLinearConfigured } from '@/lib/linear-client';
+import { feedbackSources } from '@/lib/feedback-sources/registry';
+import { accountSources } from '@/lib/account-sources/registry';
+import paths from '@/config/paths';
+import { SourceSyncStatus } from '@/lib/types';
+
+type SourceSyncRecord = Omit<SourceSyncStatus, 'source' | 'name' | 'configured'>;
+
+interface SyncStatusData {
+  sources: Partial<Record<string, SourceSyncRecord>>; // Keyed by 'linear', a feedback source id or an account source id
+}
+
+async function loadSyncStatusData(): Promise<SyncStatusData> {
+  return loadLocalJson<SyncStatusData>(paths.local.syncStatus, { sources: {} });
+}
+
+// Record a successful sync of a source, with a warning if it stopped short
+export async function recordSyncSuccess(
+  source: string,
+  syncedAt: string,
+  itemCount: number,
+  warning?: string
+): Promise<void> {
+  const data = await loadSyncStatusData();
+  data.sources[source] = {
+    lastSynced: syncedAt,
+    lastAttempt: new Date().toISOString(),
+    itemCount,
+    warning,
+  };
+  await saveLocalJson(paths.local.syncStatus, data);
+}
+
+// Record a failed sync attempt, keeping the last successful sync time
+export async function recordSyncFailure(source: string, error: string): Promise<void> {
+  const data = await loadSyncStatusData();
+  const previous = data.sources[source];
+  data.sources[source] = {
+    lastSynced: previous?.lastSynced ?? null,
+    itemCount: previous?.itemCount,
+    lastAttempt: new Date().toISOString(),
+    error,
+  };
+  await saveLocalJson(paths.local.syncStatus, data);
+}
+
+// Sync status of Linear, every feedback source that syncs from an API and the CRM account sources
+export async function getSourceSyncStatuses(): Promise<SourceSyncStatus[]> {
+  const syncedSources = [
+    { id: 'linear', name: 'Linear', isConfigured: isLinearConfigured },
+    ...feedbackSources.filter(s => s.sync),
+    ...accountSources,
+  ];
+  const [data, configured] = await Promise.all([
+    loadSyncStatusData(),
+    Promise.all(syncedSources.map(s => s.isConfigured())),
+  ]);
+
+  return syncedSources.map((source, index) => ({
+    source: source.id,
+    name: source.name,
+    configured: configured[index],
+    lastSynced: null,
+    ...data.sources[source.id],
+  }));
+}
@@ -0,0 +1,59 @@
+// Text helpers and keyword matching shared by the correlator and feedback sources
+
+// Normalize text for matching
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Extract keywords from text
+export function extractKeywords(text: string): string[] {
+  const normalized = normalizeText(text);
+  const stopWords = new Set([
+    'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
+    'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
+    'should', 'may', 'might', 'must', 'can', 'to', 'of', 'in', 'for',
+    'on', 'with', 'at', 'by', 'from', 'as', 'into', 'through', 'during',
+    'before', 'after', 'above', 'below', 'between', 'under', 'again',
+    'further', 'then', 'once', 'here', 'there', 'when', 'where', 'why',
+    'how', 'all', 'each', 'few', 'more', 'most', 'other', 'some', 'such',
+    'no', 'nor', 'not', 'only', 'own', 'same', 'so', 'than', 'too', 'very',
+    'just', 'and', 'but', 'or', 'if', 'because', 'until', 'while', 'about',
+    'feature', 'request', 'add', 'support', 'need', 'want', 'like', 'please',
+    'it', 'this', 'that', 'these', 'those', 'i', 'we', 'you', 'they',
+  ]);
+
+  return normalized
+    .split(' ')
+    .filter(word => word.length > 2 && !stopWords.has(word));
+}
+
+// Calculate similarity score between two sets of keywords
+export function calculateKeywordSimilarity(keywords1: string[], keywords2: string[]): number {
+  if (keywords1.length === 0 || keywords2.length === 0) return 0;
+
+  const set1 = new Set(keywords1);
+  const set2 = new Set(keywords2);
+  const intersection = new Set([...set1].filter(k => set2.has(k)));
+  const union = new Set([...set1, ...set2]);
+
+  return intersection.size / union.size;
+}
+
+// Plain text from the HTML bodies some sources return (Intercom, HubSpot)
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/(p|div|li|h\d)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -2,11 +2,14 @@
 export type Product = 'chat' | 'calling' | 'ai-agents' | 'byoa';
 export type CustomerTier = 'C1' | 'C2' | 'C3' | 'C4' | 'C5';
 export type FeatureType = 'feature' | 'enhancement' | 'bug';
-export type FeatureSource = 'featurebase' | 'internal' | 'support';
+export type FeatureSource = string; // 'internal' or the id of the feedback source an issue came from
 
-// Scoring frameworks
-export type ScoringFramework = 'weighted' | 'rice' | 'ice' | 'value-effort' | 'moscow';
+// Scoring frameworks; custom frameworks defined in Settings are referenced as 'custom:<slug>'
+export type BuiltInFramework = 'weighted' | 'rice' | 'ice' | 'value-effort' | 'moscow' | 'wsjf' | 'kano';
+export type CustomFrameworkId = `custom:${string}`;
+export type ScoringFramework = BuiltInFramework | CustomFrameworkId;
 export type MoSCoWCategory = 'must' | 'should' | 'could' | 'wont';
+export type KanoCategory = 'must-be' | 'performance' | 'attractive' | 'indifferent' | 'reverse';
 
 // AI models
 export type AIModel = 'openai' | 'anthropic' | 'gemini';
@@ -62,6 +65,11 @@ export interface LinearIssue {
     id: string;
     name: string;
   };
+  team?: {
+    id: string;
+    key: string;
+    name: string;
+  };
   attachments?: {
     nodes: Array<{
       id: string;
@@ -76,11 +84,49 @@ export interface LinearIssue {
       createdAt: string;
     }>;
   };
+  projectMilestone?: LinearMilestoneRef;
+  cycle?: LinearCycleRef;
   createdAt: string;
   updatedAt: string;
   sortOrder: number;
 }
 
+// Project milestone an issue is scheduled in
+export interface LinearMilestoneRef {
+  id: string;
+  name: string;
+  targetDate?: string;
+}
+
+// Cycle (sprint) an issue is planned in
+export interface LinearCycleRef {
+  id: string;
+  number: number;
+  name?: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+// Linear initiative (or legacy roadmap) grouping projects under a company objective
+export interface LinearInitiative {
+  id: string;
+  name: string;
+  description?: string;
+  status?: string;
+  targetDate?: string;
+  projectIds: string[];
+}
+
+// Initiative a feature belongs to through its project, with the strategic goal it serves
+export interface FeatureInitiative {
+  id: string;
+  name: string;
+  status?: string;
+  targetDate?: string;
+  strategicGoal?: string;
+  goalPriority?: GoalPriority;
+}
+
 // Featurebase post
 export interface FeaturebasePost {
   id: string;
@@ -89,6 +135,9 @@ export interface FeaturebasePost {
   status: string;
   upvotes: number;
   url: string;
+  category?: string;
+  commentCount?: number;
+  voters?: FeaturebaseVoter[];
   comments?: Array<{
     id: string;
     content: string;
@@ -99,6 +148,26 @@ export interface FeaturebasePost {
   updatedAt: string;
 }
 
+// User who upvoted a Featurebase post
+export interface FeaturebaseVoter {
+  id?: string;
+  name?: string;
+  email?: string;
+  companyName?: string;
+}
+
+// Outcome of the latest sync of one source ('linear' or a feedback source id)
+export interface SourceSyncStatus {
+  source: string;
+  name: string;
+  configured: boolean;
+  lastSynced: string | null; // Last successful sync
+  lastAttempt?: string;
+  itemCount?: number;
+  error?: string; // Set when the last attempt failed
+  warning?: string; // Set when the last sync succeeded but stopped short
+}
+
 // Zendesk ticket
 export interface ZendeskTicket {
   id: string;
@@ -107,10 +176,75 @@ export interface ZendeskTicket {
   status: string;
   priority: string;
   tags: string[];
+  url?: string;
+  organizationId?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Kind of customer feedback a signal came from
+export type FeedbackSignalKind = 'request' | 'ticket' | 'conversation' | 'deal-note' | 'message';
+
+// One piece of customer feedback, normalized from any feedback source
+export interface FeedbackSignal {
+  id: string;
+  source: string; // Feedback source id, e.g. "intercom"
+  kind: FeedbackSignalKind;
+  title: string;
+  body: string;
+  url?: string;
+  author?: string;
+  accountName?: string;
+  status?: string;
+  weight: number; // Votes or mentions the signal stands for (1 for a single message)
+  linkedIdentifiers?: string[]; // Linear identifiers the signal references explicitly
+  createdAt: string;
+}
+
+// Signals from one source matched to a feature, for display
+export interface FeedbackSignalGroup {
+  source: string;
+  name: string;
+  signals: FeedbackSignal[];
+}
+
+// Feature request imported from a CSV or JSON file instead of synced from Linear
+export interface ImportedFeature {
+  id: string;
+  identifier: string; // IMP-1, IMP-2, ...
+  title: string;
+  description: string;
+  product: Product;
+  customerTier: CustomerTier;
+  labels: string[];
+  upvotes?: number;
+  fileName?: string; // File the feature was last imported from
+  importedAt: string;
+}
+
+// Feature fields a CSV column or JSON key can be mapped to
+export type ImportField = 'title' | 'description' | 'product' | 'tier' | 'labels' | 'upvotes';
+
+// Source column for each feature field
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+// Validation problem with one row of an import file
+export interface ImportRowError {
+  row: number; // 1-based data row (the CSV header is not counted)
+  field?: ImportField;
+  message: string;
+}
+
+// Result of validating an import file before it is saved
+export interface ImportPreview {
+  columns: string[];
+  mapping: ImportColumnMapping;
+  totalRows: number;
+  validRows: number;
+  items: Array<Omit<ImportedFeature, 'id' | 'identifier' | 'importedAt'> & { row: number }>; // First valid rows
+  errors: ImportRowError[];
+}
+
 // Feature request (correlated from multiple sources)
 export interface FeatureRequest {
   id: string;
@@ -125,13 +259,21 @@ export interface FeatureRequest {
   featurebaseUrl?: string;
   featurebaseUpvotes?: number;
   supportTicketCount?: number;
+  linkedTicketIds?: string[]; // Zendesk tickets explicitly linked by Linear identifier or URL
+  supportTicketIds?: string[]; // Zendesk tickets counted in supportTicketCount (linked or matched by content)
+  feedbackSignals?: Array<{ source: string; id: string }>; // Signals matched by the feedback sources
   createdAt: string;
   updatedAt: string;
   labels: string[];
   projectName?: string;
+  teamKey?: string; // Linear team key (e.g. 'ENG')
   linearState?: string;
   linearPriority?: number;
   sortOrder?: number;
+  // Linear planning context
+  initiatives?: FeatureInitiative[];
+  milestone?: LinearMilestoneRef;
+  cycle?: LinearCycleRef;
   // Linear comments for additional context in AI scoring
   comments?: Array<{
     body: string;
@@ -141,7 +283,55 @@ export interface FeatureRequest {
   isDuplicate?: boolean;
   duplicateOf?: string; // ID of the original feature this is a duplicate of
   duplicateOfIdentifier?: string; // Identifier (e.g., CHAT-123) for display
+  duplicateStatus?: 'suspected' | 'confirmed'; // Suspected by title similarity, or confirmed in review
+  duplicateSimilarity?: number; // Keyword similarity to the original (0-1)
   duplicates?: string[]; // IDs of features that are duplicates of this one
+  duplicateRollup?: DuplicateRollup; // Demand added from duplicates (on the original)
+  // Accounts requesting the feature
+  accounts?: FeatureAccount[];
+  revenueAtStake?: number; // Combined ARR of the requesting accounts
+}
+
+// Demand a canonical feature inherited from its duplicates
+export interface DuplicateRollup {
+  duplicateIds: string[];
+  upvotes: number; // Added to featurebaseUpvotes, counting each Featurebase post once
+  supportTickets: number; // Added to supportTicketCount, counting each ticket once
+  comments: number; // Duplicate comments merged into comments
+  ownCustomerTier: CustomerTier; // Tier before taking the highest duplicate tier
+}
+
+// Customer account, imported from CSV or synced from a CRM
+export interface Account {
+  id: string;
+  name: string;
+  tier: CustomerTier;
+  arr: number; // Annual recurring revenue in USD
+  renewalDate?: string; // YYYY-MM-DD
+  segment?: string;
+  source: string; // 'csv' or the id of the CRM account source
+  externalId?: string; // Record ID in the CRM
+  updatedAt: string;
+}
+
+// Link between an account and a feature it requested; accounts and features are many-to-many
+export interface AccountLink {
+  accountId: string;
+  featureId: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+// An account requesting a feature. Accounts come from explicit links or from feedback
+// signals whose account name matches.
+export interface FeatureAccount {
+  accountId: string;
+  name: string;
+  tier: CustomerTier;
+  arr: number;
+  renewalDate?: string;
+  segment?: string;
+  via: 'link' | 'feedback';
 }
 
 // Score factors for different frameworks
@@ -171,6 +361,34 @@ export interface ScoreFactors {
 
   // MoSCoW
   moscow?: MoSCoWCategory;
+
+  // WSJF (cost of delay components and job size)
+  businessValue?: number;
+  timeCriticality?: number;
+  riskReduction?: number;
+  jobSize?: number;
+
+  // Kano
+  kano?: KanoCategory;
+}
+
+// A factor of a custom framework; the AI scores it within its scale
+export interface CustomFrameworkFactor {
+  key: string; // Name used in the formula, e.g. 'audience'
+  label: string;
+  scale: { min: number; max: number };
+  description: string; // What to evaluate; shown to the AI in the scoring prompt
+}
+
+// User-defined framework: factors and an arithmetic formula over them
+export interface CustomFramework {
+  id: CustomFrameworkId;
+  name: string;
+  description: string;
+  factors: CustomFrameworkFactor[];
+  formula: string; // e.g. '(audience * benefit * certainty) / cost'
+  createdAt: string;
+  updatedAt: string;
 }
 
 // AI scoring suggestion
@@ -180,6 +398,7 @@ export interface AIScoringSuggestion {
   reasoning: string;
   confidence: Confidence;
   evidence?: string;
+  category?: string; // Categorical factors (MoSCoW, Kano) name the chosen category
 }
 
 // AI scoring result from a model
@@ -215,11 +434,11 @@ export interface ScoredFeature extends FeatureRequest {
 export interface ScoreOverride {
   featureId: string;
   factor: keyof ScoreFactors;
-  value: number | MoSCoWCategory;
+  value: number | MoSCoWCategory | KanoCategory;
   updatedBy: string;
   updatedAt: string;
   reason?: string;
-  previousValue?: number | MoSCoWCategory;
+  previousValue?: number | MoSCoWCategory | KanoCategory;
 }
 
 // Audit trail entry
@@ -229,13 +448,41 @@ export interface AuditEntry {
   action: 'ai_score' | 'manual_override' | 'sync_to_linear' | 'framework_change';
   model?: AIModel;
   factor?: keyof ScoreFactors;
-  oldValue?: number | MoSCoWCategory | string;
-  newValue?: number | MoSCoWCategory | string;
+  oldValue?: number | MoSCoWCategory | KanoCategory | string;
+  newValue?: number | MoSCoWCategory | KanoCategory | string;
   reason?: string;
+  batchId?: string; // Linear push batch this entry belongs to
   updatedBy: string;
   updatedAt: string;
 }
 
+// A feature's place in one framework's ranking
+export interface FrameworkRank {
+  framework: ScoringFramework;
+  rank: number; // 1 = top; tied features share the average of their positions
+  percentile: number; // 100 = top, 0 = bottom
+  finalScore: number;
+}
+
+// How consistently frameworks rank a feature, from the spread of its percentiles
+export type ConsensusAgreement = 'robust' | 'mixed' | 'contested';
+
+// A feature ranked by its average percentile across the frameworks it has real factor scores for
+export interface ConsensusEntry {
+  featureId: string;
+  identifier: string;
+  title: string;
+  url?: string;
+  product: Product;
+  customerTier: CustomerTier;
+  consensusRank: number;
+  consensusScore: number; // Average percentile, 0-100
+  spread: number; // Highest minus lowest percentile
+  agreement: ConsensusAgreement;
+  ranks: FrameworkRank[];
+  unscoredFrameworks: ScoringFramework[]; // Frameworks left out: the feature would rank there on default factor values
+}
+
 // Settings types
 export interface WeightConfig {
   revenueImpact: number;
@@ -256,6 +503,32 @@ export interface TierMultipliers {
   C5: number;
 }
 
+// Named weights and tier multipliers that products and Linear teams can be scored with
+export interface WeightProfile {
+  id: string;
+  name: string;
+  weights: WeightConfig;
+  tierMultipliers: TierMultipliers;
+}
+
+// Which profile scores which features; a team's profile wins over its product's
+export interface WeightProfileAssignments {
+  products: Partial<Record<Product, string>>; // product -> profile ID
+  teams: Record<string, string>; // Linear team key -> profile ID
+}
+
+// Weights and tier multipliers saved from the what-if simulator
+export interface WeightScenario {
+  id: string;
+  name: string;
+  weights: {
+    mature: WeightConfig;
+    new: WeightConfig;
+  };
+  tierMultipliers: TierMultipliers;
+  createdAt: string;
+}
+
 export interface AIModelSettings {
   enabled: AIModel;
   defaultModel: 'openai' | 'anthropic' | 'gemini';
@@ -292,6 +565,7 @@ export interface StrategicGoal {
   goal: string;
   products: Product[]; // Which products this applies to
   priority: GoalPriority;
+  initiativeIds?: string[]; // Linear initiatives that deliver this goal
 }
 
 // Cross-cutting feature definition
@@ -443,9 +717,44 @@ export interface Settings {
   promptConfig: AIPromptConfig; // Configurable prompt settings
   projectMappings: Record<string, Product>; // projectId -> product
   excludedProjects: string[]; // projectIds to exclude from features list
+  syncScope: SyncScope; // Which Linear issues are synced and treated as backlog
+  linearWriteBack: LinearWriteBackSettings; // What a push writes besides priority and sort order
+  semanticMatching: SemanticMatchingSettings; // Embedding-based matching of issues to feedback
+  customFrameworks: CustomFramework[];
+  weightScenarios: WeightScenario[]; // Saved what-if simulator scenarios
+  weightProfiles: WeightProfile[];
+  profileAssignments: WeightProfileAssignments;
   lastUpdated: string;
 }
 
+// Where text embeddings come from; 'local' is a deterministic offline model
+export type EmbeddingProvider = 'local' | 'openai' | 'gemini';
+
+// Embedding-based correlation between issues, posts, tickets and feedback signals
+export interface SemanticMatchingSettings {
+  enabled: boolean;
+  provider: EmbeddingProvider;
+  threshold: number; // Minimum cosine similarity (0-1) for two texts to count as related
+}
+
+// Optional extras written to Linear on push
+export interface LinearWriteBackSettings {
+  labelsEnabled: boolean; // Master switch for managed labels
+  scoreLabels: boolean; // e.g. "Score: 8-10"
+  moscowLabels: boolean; // e.g. "MoSCoW: Must"
+  flagLabels: boolean; // e.g. "Enterprise", "High Volume"
+  commentTemplate: string; // Markdown template for the score comment ({{placeholders}})
+}
+
+// Linear sync scope - honoured by both the sync fetcher and correlation
+export interface SyncScope {
+  teamKeys: string[]; // Linear team keys (e.g. 'ENG'); empty = all teams
+  projectPatterns: string[]; // Case-insensitive substrings of project names; empty = all projects
+  stateTypes: string[]; // Workflow state types treated as backlog (e.g. 'backlog', 'triage'); empty = all
+  labels: string[]; // Only issues with at least one of these labels; empty = no label filter
+  customViewId?: string; // Saved Linear filter (custom view); when set it defines what is fetched
+}
+
 // Prompt configuration (legacy - kept for backwards compatibility)
 export interface PromptConfig {
   systemPrompt: string;
@@ -476,18 +785,109 @@ export interface UsageStats {
 // Linear write-back types
 export interface LinearUpdatePayload {
   issueId: string;
-  priority?: 1 | 2 | 3 | 4;
+  priority?: 0 | 1 | 2 | 3 | 4; // 0 = No priority (only written when restoring a previous value)
   sortOrder?: number;
-  labels?: string[];
+  addedLabelIds?: string[];
+  removedLabelIds?: string[];
   comment?: string;
+  commentId?: string; // Edit this existing comment instead of creating a new one
 }
 
 export interface LinearSyncResult {
-  success: boolean;
+  success: boolean; // The issue update and the comment were both written
+  issueId: string;
+  updated: boolean; // Priority, sortOrder and labels were written, even if the comment failed
+  error?: string;
+}
+
+// One row of a Linear push plan: current Linear values vs. what a push would write
+export interface LinearPushPlanItem {
+  issueId: string;
+  identifier: string;
+  title: string;
+  projectName?: string;
+  finalScore: number;
+  current: { priority: number; sortOrder: number };
+  proposed: { priority: 1 | 2 | 3 | 4; sortOrder: number };
+  priorityChanged: boolean;
+  sortOrderChanged: boolean;
+  // Managed label changes (only when label write-back is enabled)
+  labels?: { add: string[]; remove: string[] };
+  labelsChanged?: boolean;
+}
+
+// One issue written by a Linear push, with the values it had before
+export interface LinearPushBatchItem {
   issueId: string;
+  identifier: string;
+  title: string;
+  previous: { priority: number; sortOrder: number };
+  applied: { priority: number; sortOrder: number };
+  // Managed labels added and removed by this write
+  labels?: {
+    added: Array<{ id: string; name: string }>;
+    removed: Array<{ id: string; name: string }>;
+  };
+  success: boolean;
+  updated?: boolean; // Values were written even though the item failed (its comment did); older batches lack it
   error?: string;
 }
 
+// A recorded push to Linear (or the undo of one)
+export interface LinearPushBatch {
+  id: string;
+  kind: 'push' | 'undo';
+  product?: Product;
+  createdAt: string;
+  createdBy: string;
+  items: LinearPushBatchItem[];
+  revertsBatchId?: string; // For undo batches: the push that was reverted
+  undoneAt?: string; // For pushes: when they were undone
+  undoneBy?: string;
+  undoBatchId?: string;
+}
+
+// Feature fields shown when reviewing a duplicate pair
+export interface DuplicateFeatureRef {
+  id: string;
+  identifier: string;
+  title: string;
+  url?: string;
+  product?: Product;
+  source?: FeatureSource;
+}
+
+// A pair flagged by duplicate detection, waiting for review
+export interface DuplicatePair {
+  original: DuplicateFeatureRef;
+  duplicate: DuplicateFeatureRef;
+  similarity: number;
+}
+
+// A reviewed pair. Confirmed pairs are always marked as duplicates; dismissed pairs never are.
+export interface DuplicateDecision {
+  original: DuplicateFeatureRef;
+  duplicate: DuplicateFeatureRef;
+  status: 'confirmed' | 'dismissed';
+  similarity?: number;
+  linearRelationId?: string; // Set when the duplicate was also marked in Linear
+  decidedBy: string;
+  decidedAt: string;
+}
+
+// Linear issue returned by an incremental fetch (may since have been archived or trashed)
+export interface LinearIssueChange extends LinearIssue {
+  archivedAt?: string | null;
+  trashed?: boolean | null;
+}
+
+// Counts reported after merging Linear changes into the local issue store
+export interface LinearSyncCounts {
+  added: number;
+  changed: number;
+  removed: number;
+}
+
 // Product mapping
 export interface ProductConfig {
   id: Product;
@@ -1,27 +1,18 @@
 import { UsageRecord, UsageStats, AIModel } from '@/lib/types';
-import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
-import paths from '@/config/paths';
-
-interface UsageData {
-  records: UsageRecord[];
-  lastUpdated: string;
-}
+import { getDatabase, transaction } from '@/lib/db/database';
 
 // Load usage records
 export async function loadUsageRecords(): Promise<UsageRecord[]> {
-  const data = await loadLocalJson<UsageData>(
-    paths.local.usage,
-    { records: [], lastUpdated: new Date().toISOString() }
-  );
-  return data.records;
-}
-
-// Save usage records
-async function saveUsageRecords(records: UsageRecord[]): Promise<void> {
-  await saveLocalJson(paths.local.usage, {
-    records,
-    lastUpdated: new Date().toISOString(),
-  });
+  const rows = getDatabase()
+    .prepare('SELECT date, model, tokens_used, cost, feature_id FROM usage_records ORDER BY id')
+    .all() as Array<{ date: string; model: AIModel; tokens_used: number; cost: number; feature_id: string | null }>;
+  return rows.map(row => ({
+    date: row.date,
+    model: row.model,
+    tokensUsed: row.tokens_used,
+    cost: row.cost,
+    featureId: row.feature_id ?? undefined,
+  }));
 }
 
 // Add a usage record
@@ -31,25 +22,16 @@ export async function addUsageRecord(
   cost: number,
   featureId?: string
 ): Promise<void> {
-  const records = await loadUsageRecords();
-
-  records.push({
-    date: new Date().toISOString(),
-    model,
-    tokensUsed,
-    cost,
-    featureId,
-  });
-
   // Keep only last 30 days of records
   const thirtyDaysAgo = new Date();
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-  const filteredRecords = records.filter(
-    r => new Date(r.date) >= thirtyDaysAgo
-  );
-
-  await saveUsageRecords(filteredRecords);
+  transaction(() => {
+    const db = getDatabase();
+    db.prepare('INSERT INTO usage_records (date, model, tokens_used, cost, feature_id) VALUES (?, ?, ?, ?, ?)')
+      .run(new Date().toISOString(), model, tokensUsed, cost, featureId ?? null);
+    db.prepare('DELETE FROM usage_records WHERE date < ?').run(thirtyDaysAgo.toISOString());
+  });
 }
 
 // Get usage stats
@@ -141,7 +123,7 @@ export async function getTodayUsage(): Promise<{ tokens: number; cost: number }>
 
 // Clear all usage records
 export async function clearUsageRecords(): Promise<void> {
-  await saveUsageRecords([]);
+  getDatabase().prepare('DELETE FROM usage_records').run();
 }
 
 // Format cost for display
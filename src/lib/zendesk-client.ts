@@ -0,0 +1,111 @@
+import { getZendeskCredentials } from '@/lib/api-keys-store';
+import { APIKeyError } from '@/lib/linear-client';
+import { requestJson } from '@/lib/rest-client';
+import { ZendeskTicket } from '@/lib/types';
+
+// How far back the first export reaches
+const INITIAL_LOOKBACK_DAYS = 365;
+
+// Safety stop for a single sync; the cursor lets the next sync continue
+const MAX_PAGES_PER_SYNC = 50;
+
+interface ZendeskApiTicket {
+  id: number;
+  subject: string | null;
+  description: string | null;
+  status: string;
+  priority: string | null;
+  tags: string[];
+  organization_id: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ZendeskExportPage {
+  tickets: ZendeskApiTicket[];
+  after_cursor: string | null;
+  end_of_stream: boolean;
+}
+
+// Tickets changed since the previous cursor, and the cursor to resume from next time
+export interface ZendeskTicketChanges {
+  tickets: ZendeskTicket[];
+  deletedIds: string[];
+  cursor: string | null;
+}
+
+// Check if Zendesk is configured
+export async function isZendeskConfigured(): Promise<boolean> {
+  return !!(await getZendeskCredentials());
+}
+
+function toZendeskTicket(ticket: ZendeskApiTicket, subdomain: string): ZendeskTicket {
+  return {
+    id: String(ticket.id),
+    subject: ticket.subject || '',
+    description: ticket.description || '',
+    status: ticket.status,
+    priority: ticket.priority || 'normal',
+    tags: ticket.tags || [],
+    url: `https://${subdomain}.zendesk.com/agent/tickets/${ticket.id}`,
+    organizationId: ticket.organization_id ? String(ticket.organization_id) : undefined,
+    createdAt: ticket.created_at,
+    updatedAt: ticket.updated_at,
+  };
+}
+
+// Fetch tickets updated since the cursor using Zendesk's cursor-based incremental export.
+// Without a cursor the export starts INITIAL_LOOKBACK_DAYS ago.
+export async function fetchZendeskTicketChanges(cursor?: string | null): Promise<ZendeskTicketChanges> {
+  const credentials = await getZendeskCredentials();
+  if (!credentials) {
+    throw new APIKeyError('zendesk', 'Zendesk not configured. Please add your Zendesk subdomain, email and API token in Settings > API Keys.');
+  }
+
+  const { subdomain, email, apiToken } = credentials;
+  const authorization = `Basic ${Buffer.from(`${email}/token:${apiToken}`).toString('base64')}`;
+  const exportUrl = `${process.env.ZENDESK_API_URL || `https://${subdomain}.zendesk.com/api/v2`}/incremental/tickets/cursor.json`;
+
+  const changed = new Map<string, ZendeskTicket>();
+  const deletedIds = new Set<string>();
+  let nextCursor = cursor || null;
+
+  for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+    const url = new URL(exportUrl);
+    if (nextCursor) {
+      url.searchParams.set('cursor', nextCursor);
+    } else {
+      const startTime = Math.floor(Date.now() / 1000) - INITIAL_LOOKBACK_DAYS * 24 * 60 * 60;
+      url.searchParams.set('start_time', String(startTime));
+    }
+
+    // The export API allows 10 requests a minute; requestJson waits out 429s
+    const data = await requestJson<ZendeskExportPage>(url, {
+      headers: {
+        'Authorization': authorization,
+        'Accept': 'application/json',
+      },
+    }, { id: 'zendesk', name: 'Zendesk' });
+
+    // Later pages carry newer versions of the same ticket, so the last one wins
+    for (const apiTicket of data.tickets) {
+      const id = String(apiTicket.id);
+      if (apiTicket.status === 'deleted') {
+        changed.delete(id);
+        deletedIds.add(id);
+      } else {
+        deletedIds.delete(id);
+        changed.set(id, toZendeskTicket(apiTicket, subdomain));
+      }
+    }
+
+    nextCursor = data.after_cursor || nextCursor;
+    if (data.end_of_stream) break;
+  }
+
+  return {
+    tickets: [...changed.values()],
+    deletedIds: [...deletedIds],
+    cursor: nextCursor,
+  };
+}
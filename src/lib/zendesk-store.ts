@@ -0,0 +1,43 @@
+import { existsSync } from 'fs';
+import { ZendeskTicket } from '@/lib/types';
+import { loadLocalJson, saveLocalJson } from '@/lib/data-loader';
+import paths from '@/config/paths';
+
+interface TicketsData {
+  tickets: ZendeskTicket[];
+  cursor: string | null; // Incremental export cursor to resume from
+  syncedAt: string;
+}
+
+// Load locally synced Zendesk tickets (null if Zendesk has never been synced)
+export async function loadStoredTickets(): Promise<TicketsData | null> {
+  if (!existsSync(paths.local.zendesk.tickets)) {
+    return null;
+  }
+  return loadLocalJson<TicketsData>(paths.local.zendesk.tickets, { tickets: [], cursor: null, syncedAt: '' });
+}
+
+// Save the full ticket set with the cursor for the next incremental export
+export async function saveStoredTickets(
+  tickets: ZendeskTicket[],
+  cursor: string | null,
+  syncedAt: string
+): Promise<void> {
+  await saveLocalJson(paths.local.zendesk.tickets, { tickets, cursor, syncedAt });
+}
+
+// Apply changed and deleted tickets to the stored set
+export function mergeTicketChanges(
+  stored: ZendeskTicket[],
+  changed: ZendeskTicket[],
+  deletedIds: string[]
+): ZendeskTicket[] {
+  const byId = new Map(stored.map(t => [t.id, t]));
+  for (const ticket of changed) {
+    byId.set(ticket.id, ticket);
+  }
+  for (const id of deletedIds) {
+    byId.delete(id);
+  }
+  return [...byId.values()];
+}